@@ -22,25 +22,49 @@ import {
 } from "@xmtp/content-type-wallet-send-calls";
 import { EVMAuthHandler } from "./src/handlers/evmauth-handler";
 import { USDCHandler } from "./src/handlers/usdc-handler";
+import { ERC20Handler } from "./src/handlers/erc20-handler";
 import { IPFSMetadataHandler } from "./src/handlers/ipfs-metadata";
 import { EventDrivenAccessManager } from "./src/handlers/event-driven-access";
 import { GroupManager } from "./src/managers/group-manager";
 import { EnhancedTierSetup } from "./src/managers/enhanced-tier-setup";
 import { EnhancedGroupManager } from "./src/managers/enhanced-group-flow";
 import { RecoveryManager } from "./src/managers/recovery-mechanisms";
-import { TokenSalesHandler } from "./src/utils/token-sales";
-import { handleEnhancedCreateGroup, handleEnhancedBuyAccess } from "./src/utils/enhanced-create-group";
-import { 
-  handleCreateGroupWithPayment, 
-  handleGrantTrial, 
-  handleListGroups 
-} from "./src/utils/enhanced-create-group-with-payment";
+import { GroupRegistry } from "./src/managers/group-registry";
+import { SeatManager } from "./src/managers/seat-manager";
+import { PromoCodeManager } from "./src/managers/promo-code-manager";
+import { ReferralManager } from "./src/managers/referral-manager";
 import { PaymentMonitor } from "./src/utils/payment-monitor";
-import { JSONDatabase } from "./src/database/json-database";
+import { RefundManager } from "./src/utils/refund-manager";
+import { createPriceService } from "./src/utils/price-service";
+import { FeeEngine, parseTokenFees } from "./src/utils/fee-engine";
+import { BASE_SEPOLIA_CHAIN_ID, PaymentTokenRegistry } from "./src/utils/payment-tokens";
+import { PurchaseVerifier } from "./src/utils/purchase-verifier";
+import { RecipientResolver } from "./src/utils/recipient-resolver";
+import { MembershipAuditEngine } from "./src/utils/membership-audit";
+import {
+  ExpiryReminderScheduler,
+  parseLeadTimes,
+} from "./src/utils/expiry-reminders";
+import { createGroupStore } from "./src/database/group-store";
 import { ComprehensiveRecovery } from "./src/managers/comprehensive-recovery";
 import { TestFlowManager } from "./src/test/test-flow";
-import { PersistentStateManager } from "./src/utils/persistent-state";
-import type { AccessTier, GroupMetadata, DualGroupConfig } from "./src/types/types";
+import { RateLimiter } from "./src/utils/rate-limiter";
+import { AgentEventBus } from "./src/events/event-bus";
+import {
+  EventAnalytics,
+  registerAnnouncementSubscriber,
+  registerLoggingSubscriber,
+  registerOperatorAlertSubscriber,
+} from "./src/events/subscribers";
+import {
+  WebhookDispatcher,
+  webhookEndpointsFromEnv,
+} from "./src/events/webhook-dispatcher";
+import {
+  createAgentCommandRegistry,
+  type AgentServices,
+} from "./src/commands/agent-commands";
+import type { AccessTier } from "./src/types/types";
 
 /* Environment variables validation */
 const {
@@ -61,10 +85,6 @@ const {
   "FEE_BASIS_POINTS",
 ]);
 
-// In-memory storage for demo (use database in production)
-const groupConfigs = new Map<string, DualGroupConfig>();
-const userTokens = new Map<string, { groupId: string; tokenId: string; expiresAt: Date }[]>();
-
 async function main() {
   /* Create the signer and initialize client */
   const signer = createSigner(WALLET_KEY);
@@ -86,34 +106,125 @@ async function main() {
     WALLET_KEY
   );
 
-  // Initialize JSON database first
-  const database = new JSONDatabase();
+  // Initialize group store first (SQLite, or JSON with GROUP_STORE=json)
+  // and apply any pending schema migrations before it is read
+  const database = await createGroupStore();
   await database.cleanupOldSessions();
   console.log("📊 Database stats:", database.getStats());
 
+  // Single source of truth for group configs, backed by the group store
+  const groupRegistry = new GroupRegistry(database);
+  await groupRegistry.load();
+
+  // Internal event bus - managers publish, announcements/logging/analytics subscribe
+  const eventBus = new AgentEventBus({ outboxDir: "./.data" });
+  registerLoggingSubscriber(eventBus);
+  registerAnnouncementSubscriber(eventBus, client, groupRegistry);
+  new EventAnalytics().register(eventBus);
+  // Unrefunded creation payments and failed refunds and payouts are DMed to OPERATOR_INBOX_ID
+  if (process.env.OPERATOR_INBOX_ID) {
+    registerOperatorAlertSubscriber(eventBus, client, process.env.OPERATOR_INBOX_ID);
+  }
+
+  // Mirror lifecycle events to external backends (WEBHOOK_URLS)
+  const webhookEndpoints = webhookEndpointsFromEnv();
+  if (webhookEndpoints.length > 0) {
+    const webhookDispatcher = new WebhookDispatcher({ endpoints: webhookEndpoints });
+    webhookDispatcher.register(eventBus);
+    webhookDispatcher.start();
+  }
+  await eventBus.replayOutbox();
+
   const usdcHandler = new USDCHandler(BASE_RPC_URL, WALLET_KEY, false); // false = testnet
   const ipfsHandler = new IPFSMetadataHandler();
+  // Tokens groups can be paid in: built-in ETH/USDC plus operator-added ERC-20s
+  const paymentTokens = new PaymentTokenRegistry(BASE_SEPOLIA_CHAIN_ID, { dataDir: "./.data" });
+  const erc20Handler = new ERC20Handler(BASE_RPC_URL);
+  // USD/token conversion for prices (Chainlink, or PRICE_RATES_FILE)
+  const priceService = createPriceService(BASE_RPC_URL, paymentTokens);
+  // Platform fee added to each purchase: FEE_BASIS_POINTS, per token with FEE_TOKEN_BASIS_POINTS
+  // (e.g. "ETH:100,USDC:250"), held between FEE_MINIMUM_USD and FEE_MAXIMUM_USD
+  const feeEngine = new FeeEngine({
+    recipient: FEE_RECIPIENT,
+    basisPoints: parseInt(FEE_BASIS_POINTS),
+    minimumFee: process.env.FEE_MINIMUM_USD ? parseFloat(process.env.FEE_MINIMUM_USD) : undefined,
+    maximumFee: process.env.FEE_MAXIMUM_USD ? parseFloat(process.env.FEE_MAXIMUM_USD) : undefined,
+    paymentMethodFees: process.env.FEE_TOKEN_BASIS_POINTS ? parseTokenFees(process.env.FEE_TOKEN_BASIS_POINTS) : undefined,
+  }, priceService);
   
+  // Batched on-chain access checks shared by the membership audits
+  const membershipAuditEngine = new MembershipAuditEngine(client, BASE_RPC_URL);
+
+  // Team seats bought with /buy-seats; audits keep assigned seats in the premium group
+  const seatManager = new SeatManager(database);
+  const promoCodes = new PromoCodeManager(database);
+  const referrals = new ReferralManager(database);
+
   // Enhanced dual-group manager with database
-  const enhancedGroupManager = new EnhancedGroupManager(client, evmAuthHandler, database);
-  const eventAccessManager = new EventDrivenAccessManager(client, BASE_RPC_URL, enhancedGroupManager, groupConfigs);
+  const enhancedGroupManager = new EnhancedGroupManager(client, evmAuthHandler, groupRegistry, eventBus, membershipAuditEngine, seatManager, referrals);
+  const eventAccessManager = new EventDrivenAccessManager(client, BASE_RPC_URL, enhancedGroupManager, groupRegistry, eventBus);
   const recoveryManager = new RecoveryManager(client, BASE_RPC_URL, enhancedGroupManager);
-  const testFlowManager = new TestFlowManager(client, enhancedGroupManager, eventAccessManager, recoveryManager, groupConfigs);
-  const groupManager = new GroupManager(client, evmAuthHandler);
+  const testFlowManager = new TestFlowManager(client, enhancedGroupManager, eventAccessManager, recoveryManager, groupRegistry);
+  const groupManager = new GroupManager(client, evmAuthHandler, membershipAuditEngine);
   
-  // Initialize enhanced tier setup with database
-  const tierSetup = new EnhancedTierSetup(groupConfigs, database);
+  // Initialize enhanced tier setup (saves completed tiers to the registry)
+  const tierSetup = new EnhancedTierSetup(usdcHandler, ipfsHandler, groupRegistry, eventBus, priceService);
   
   // Initialize comprehensive recovery system
   const comprehensiveRecovery = new ComprehensiveRecovery(client, database);
   
-  // Initialize persistent state manager (keep for compatibility)
-  const persistentState = new PersistentStateManager();
-  persistentState.cleanupOldRecords();
-  
   // Payment monitoring system
-  const paymentMonitor = new PaymentMonitor(BASE_RPC_URL, agentAddress, enhancedGroupManager, groupConfigs);
-  const tokenSalesHandler = new TokenSalesHandler(evmAuthHandler, FEE_RECIPIENT, parseInt(FEE_BASIS_POINTS));
+  // Refunds payments that were received but couldn't be fulfilled, and pays collaborators,
+  // referrers and promo rebates out of fulfilled ones (REFUND_MAX_ATTEMPTS sends)
+  const refundManager = new RefundManager(client, database, BASE_RPC_URL, WALLET_KEY, eventBus, {
+    maxAttempts: process.env.REFUND_MAX_ATTEMPTS ? parseInt(process.env.REFUND_MAX_ATTEMPTS) : undefined,
+  });
+  // Creation payments need PAYMENT_CONFIRMATIONS blocks (default 3) before deploying
+  const paymentMonitor = new PaymentMonitor(client, BASE_RPC_URL, agentAddress, enhancedGroupManager, groupRegistry, database, eventBus, {
+    confirmations: process.env.PAYMENT_CONFIRMATIONS ? parseInt(process.env.PAYMENT_CONFIRMATIONS) : undefined,
+  }, refundManager);
+  // Verifies access purchases on-chain before granting membership: native purchases mint directly,
+  // ERC-20 transfers are claimed once and minted with issue(); undeliverable gifts are refunded
+  // and fulfilled purchases queue their payouts with the refund manager
+  const purchaseVerifier = new PurchaseVerifier(BASE_RPC_URL, enhancedGroupManager, client, refundManager, seatManager, promoCodes, referrals, evmAuthHandler, database);
+  // DMs members before their access expires (EXPIRY_REMINDER_LEAD_TIMES, e.g. "7d,1d,1h"),
+  // quoting the renewal in the group's default token with its platform fee
+  const expiryReminders = new ExpiryReminderScheduler(client, groupRegistry, membershipAuditEngine, { evmAuthHandler, priceService, paymentTokens, feeEngine }, {
+    leadTimesMs: process.env.EXPIRY_REMINDER_LEAD_TIMES
+      ? parseLeadTimes(process.env.EXPIRY_REMINDER_LEAD_TIMES)
+      : undefined,
+  });
+
+  // Command registry - every slash command and its /help entry is declared here
+  // Bucket writes are batched; the shutdown handler below saves the last batch
+  const rateLimiter = new RateLimiter();
+  const services: AgentServices = {
+    client,
+    agentAddress,
+    groupRegistry,
+    evmAuthHandler,
+    enhancedGroupManager,
+    membershipAuditEngine,
+    tierSetup,
+    paymentMonitor,
+    usdcHandler,
+    erc20Handler,
+    priceService,
+    paymentTokens,
+    purchaseVerifier,
+    refundManager,
+    // Gift recipients given as ENS names are resolved on mainnet (ENS_RPC_URL)
+    recipientResolver: new RecipientResolver(client, process.env.ENS_RPC_URL),
+    seatManager,
+    promoCodes,
+    referrals,
+    feeEngine,
+    operatorInboxId: process.env.OPERATOR_INBOX_ID,
+    database,
+    testFlowManager,
+    rateLimiter,
+  };
+  const commandRegistry = createAgentCommandRegistry(services);
 
   void logAgentDetails(client);
 
@@ -125,11 +236,11 @@ async function main() {
   try {
     const recoveredConfigs = await recoveryManager.performFullRecovery();
     
-    // Merge recovered configs with current groupConfigs
+    // Register recovered groups the store didn't know about yet
     for (const [contractAddress, config] of recoveredConfigs.entries()) {
-      groupConfigs.set(contractAddress, config);
-      // Add to event listening
-      await eventAccessManager.addContractToListen(contractAddress, config);
+      if (!groupRegistry.get(contractAddress)) {
+        await groupRegistry.add(config);
+      }
     }
     
     if (recoveredConfigs.size > 0) {
@@ -142,26 +253,35 @@ async function main() {
   }
 
   // Start enhanced membership management background task
-  void startEnhancedMembershipManager(client, enhancedGroupManager);
+  void startEnhancedMembershipManager(client, enhancedGroupManager, groupRegistry);
   
   // Start event-driven access management
   void eventAccessManager.startEventListening();
 
   // Start payment monitoring system
   console.log("💰 Starting payment monitoring...");
+  refundManager.start();
   void paymentMonitor.startPaymentMonitoring();
+  void purchaseVerifier.startMonitoring();
+  expiryReminders.start();
+
+  const shutdown = (signal: NodeJS.Signals) => {
+    console.log(`🛑 ${signal} received, shutting down...`);
+    refundManager.stop();
+    expiryReminders.stop();
+    rateLimiter.flush();
+    process.exit(0);
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
 
   console.log("🚀 EVMAuth Groups Agent is running!");
   console.log("💰 Enhanced with USDC pricing and custom NFT images!");
   console.log("");
   console.log("Available commands:");
-  console.log("  /create-group <name> - Create a new premium community (0.001 ETH)");
-  console.log("  /grant-trial <group> <address> <days> - Grant free trial access (creators only)");
-  console.log("  /list-groups - View your premium communities");
-  console.log("  /buy-access <group_id> <tier_id> - Purchase access with USDC");
-  console.log("  /my-tokens - View your access tokens");
-  console.log("  /group-info <group_id> - Get group information and pricing");
-  console.log("  /help - Show this help message");
+  for (const command of commandRegistry.list().filter((c) => !c.hidden)) {
+    console.log(`  ${commandRegistry.formatUsage(command)} - ${command.description}`);
+  }
   console.log("");
   console.log("💡 Features:");
   console.log("  • User-approved transactions with 0.001 ETH deployment fee");
@@ -204,7 +324,6 @@ async function main() {
     }
 
     const messageContent = message.content as string;
-    const command = messageContent.toLowerCase().trim();
 
     try {
       // Check if user is in tier setup session first
@@ -214,11 +333,10 @@ async function main() {
         conversation,
         message.content, // Handle all content types (text, attachments, etc.)
         async (tiers: AccessTier[]) => {
-          // Callback when tiers are completed
-          const groupConfig = groupConfigs.get(tierSetup.getSession(message.senderInboxId)?.groupId || '');
+          // Callback when tiers are completed (already saved to the registry)
+          const groupConfig = groupRegistry.get(tierSetup.getSession(message.senderInboxId)?.groupId || '');
           if (groupConfig) {
-            groupConfig.tiers = tiers;
-            await evmAuthHandler.setupAccessTiers(groupConfig.contractAddress, tiers);
+            await evmAuthHandler.setupAccessTiers(groupConfig.contractAddress, tiers, priceService);
           }
         }
       );
@@ -229,25 +347,14 @@ async function main() {
       }
 
       // Handle regular commands
-      if (command.startsWith("/create-group")) {
-        await handleCreateGroupWithPayment(conversation, memberAddress, message.senderInboxId, messageContent, enhancedGroupManager, groupConfigs, agentAddress, paymentMonitor, persistentState, database);
-      } else if (command.startsWith("/setup-tiers")) {
-        await handleEnhancedSetupTiers(conversation, message.senderInboxId, messageContent, tierSetup);
-      } else if (command.startsWith("/grant-trial")) {
-        await handleGrantTrial(conversation, memberAddress, message.senderInboxId, messageContent, groupConfigs);
-      } else if (command === "/list-groups") {
-        await handleListGroups(conversation, message.senderInboxId, groupConfigs);
-      } else if (command.startsWith("/buy-access")) {
-        await handleEnhancedBuyAccess(conversation, memberAddress, message.senderInboxId, messageContent, enhancedGroupManager, groupConfigs);
-      } else if (command === "/my-tokens") {
-        await handleMyTokens(conversation, message.senderInboxId);
-      } else if (command.startsWith("/group-info")) {
-        await handleGroupInfo(conversation, messageContent);
-      } else if (command === "/help") {
-        await handleHelp(conversation);
-      } else if (command === "/test-system") {
-        await handleTestSystem(conversation, testFlowManager);
-      } else {
+      const handled = await commandRegistry.dispatch(messageContent, {
+        conversation,
+        senderInboxId: message.senderInboxId,
+        senderAddress: memberAddress,
+        services,
+      });
+
+      if (!handled) {
         await conversation.send(
           "Unknown command. Type /help for available commands."
         );
@@ -263,265 +370,10 @@ async function main() {
   }
 }
 
-async function handleCreateGroup_OLD_DEPRECATED(
-  conversation: any,
-  creatorInboxId: string,
-  messageContent: string,
-  groupManager: GroupManager
-): Promise<void> {
-  // This function is deprecated - use handleEnhancedCreateGroup instead
-  await conversation.send("❌ This command is deprecated. Use the enhanced version.");
-  return;
-  /*
-  const parts = messageContent.split(" ");
-  if (parts.length < 2) {
-    await conversation.send(
-      "Usage: /create-group <name>\nExample: /create-group \"My Premium Group\""
-    );
-    return;
-  }
-
-  const groupName = parts.slice(1).join(" ").replace(/"/g, "");
-  
-  await conversation.send("🔄 Creating your paid group...");
-
-  try {
-    const result = await groupManager.createPaidGroup({
-      name: groupName,
-      description: `Premium access group created via EVMAuth`,
-      creatorInboxId,
-    });
-
-    groupConfigs.set(result.groupId, {
-      groupId: result.groupId,
-      contractAddress: result.contractAddress,
-      tiers: [],
-      metadata: {
-        name: groupName,
-        description: `Premium access group created via EVMAuth`,
-      },
-      creatorInboxId,
-    });
-
-    await conversation.send(
-      `✅ Group created successfully!\n\n` +
-      `📊 Group ID: \`${result.groupId}\`\n` +
-      `🔗 Contract: \`${result.contractAddress}\`\n` +
-      `💎 Group URL: https://xmtp.chat/conversations/${result.groupId}\n\n` +
-      `Next steps:\n` +
-      `1. Setup access tiers: \`/setup-tiers ${result.groupId}\`\n` +
-      `2. Configure pricing and duration for each tier\n` +
-      `3. Start selling access to your group!`
-    );
-  } catch (error) {
-    console.error("Error creating group:", error);
-    await conversation.send("❌ Failed to create group. Please try again.");
-  }
-  */
-}
-
-async function handleEnhancedSetupTiers(
-  conversation: any,
-  senderInboxId: string,
-  messageContent: string,
-  tierSetup: EnhancedTierSetup
-) {
-  const parts = messageContent.split(" ");
-  if (parts.length < 2) {
-    await conversation.send(
-      "Usage: /setup-tiers <group_name_or_contract>\nExample: /setup-tiers dstealth"
-    );
-    return;
-  }
-
-  const identifier = parts[1];
-  
-  // Find group by name OR contract address
-  let groupConfig: DualGroupConfig | undefined;
-  let contractAddress: string | undefined;
-  
-  // First try to find by contract address (exact match)
-  if (identifier.startsWith("0x")) {
-    groupConfig = groupConfigs.get(identifier);
-    contractAddress = identifier;
-  } else {
-    // Search by group name
-    for (const [address, config] of groupConfigs.entries()) {
-      if (config.groupName?.toLowerCase() === identifier.toLowerCase() || 
-          config.metadata?.name?.toLowerCase() === identifier.toLowerCase()) {
-        groupConfig = config;
-        contractAddress = address;
-        break;
-      }
-    }
-  }
-
-  if (!groupConfig || !contractAddress) {
-    await conversation.send("❌ Group not found. Use `/list-groups` to see available groups.");
-    return;
-  }
-
-  if (groupConfig.creatorInboxId !== senderInboxId) {
-    await conversation.send("❌ Only the group creator can setup tiers.");
-    return;
-  }
-
-  // Start enhanced tier setup
-  console.log(`🎯 Starting tier setup for contract: ${contractAddress}`);
-  await tierSetup.startTierSetup(contractAddress, senderInboxId, conversation);
-  console.log(`✅ Tier setup session created for: ${senderInboxId}`);
-}
-
-async function handleBuyAccess(
-  conversation: any,
-  userAddress: string,
-  messageContent: string,
-  tokenSalesHandler: TokenSalesHandler
-) {
-  const parts = messageContent.split(" ");
-  if (parts.length < 3) {
-    await conversation.send(
-      "Usage: /buy-access <group_id> <tier_id>\nExample: /buy-access abc123 premium"
-    );
-    return;
-  }
-
-  const groupId = parts[1];
-  const tierId = parts[2];
-  const groupConfig = groupConfigs.get(groupId);
-
-  if (!groupConfig) {
-    await conversation.send("❌ Group not found. Please check the group ID.");
-    return;
-  }
-
-  const tier = groupConfig.tiers.find((t: AccessTier) => t.id === tierId);
-  if (!tier) {
-    await conversation.send(
-      `❌ Tier not found. Available tiers: ${groupConfig.tiers
-        .map((t: AccessTier) => t.id)
-        .join(", ")}`
-    );
-    return;
-  }
-
-  await conversation.send("🔄 Generating purchase transaction...");
-
-  try {
-    const walletSendCalls = await tokenSalesHandler.createPurchaseTransaction(
-      userAddress,
-      groupConfig.contractAddress,
-      tier
-    );
-
-    await conversation.send(
-      `💰 **Purchase ${tier.name}**\n\n` +
-      `🎯 Group: ${groupConfig.metadata.name}\n` +
-      `⏰ Duration: ${tier.durationDays} days\n` +
-      `💎 Price: ${parseFloat(tier.priceWei) / 1e18} ETH\n\n` +
-      `Transaction details:\n` +
-      `\`\`\`json\n${JSON.stringify(walletSendCalls, null, 2)}\n\`\`\`\n\n` +
-      `Please use your wallet to send the transaction above.`
-    );
-  } catch (error) {
-    console.error("Error creating purchase transaction:", error);
-    await conversation.send("❌ Failed to create purchase transaction.");
-  }
-}
-
-async function handleMyTokens(conversation: any, senderInboxId: string) {
-  const tokens = userTokens.get(senderInboxId) || [];
-  
-  if (tokens.length === 0) {
-    await conversation.send("📭 You don't have any access tokens yet.");
-    return;
-  }
-
-  const tokenList = tokens
-    .map((token) => {
-      const groupConfig = groupConfigs.get(token.groupId);
-      const groupName = groupConfig?.metadata.name || "Unknown Group";
-      const isExpired = token.expiresAt < new Date();
-      const status = isExpired ? "❌ Expired" : "✅ Active";
-      
-      return (
-        `🎫 **${groupName}**\n` +
-        `   Token ID: \`${token.tokenId}\`\n` +
-        `   Status: ${status}\n` +
-        `   Expires: ${token.expiresAt.toLocaleDateString()}\n`
-      );
-    })
-    .join("\n");
-
-  await conversation.send(`🎫 **Your Access Tokens**\n\n${tokenList}`);
-}
-
-async function handleGroupInfo(conversation: any, messageContent: string) {
-  const parts = messageContent.split(" ");
-  if (parts.length < 2) {
-    await conversation.send(
-      "Usage: /group-info <group_id>\nExample: /group-info abc123"
-    );
-    return;
-  }
-
-  const groupId = parts[1];
-  const groupConfig = groupConfigs.get(groupId);
-
-  if (!groupConfig) {
-    await conversation.send("❌ Group not found. Please check the group ID.");
-    return;
-  }
-
-  const tierInfo = groupConfig.tiers
-    .map(
-      (tier: AccessTier) =>
-        `💎 **${tier.name}** (\`${tier.id}\`)\n` +
-        `   ${tier.durationDays} days - ${parseFloat(tier.priceWei) / 1e18} ETH\n` +
-        `   ${tier.description}\n`
-    )
-    .join("\n");
-
-  await conversation.send(
-    `📊 **${groupConfig.metadata.name}**\n\n` +
-    `${groupConfig.metadata.description}\n\n` +
-    `🔗 Contract: \`${groupConfig.contractAddress}\`\n` +
-    `💎 Group URL: https://xmtp.chat/conversations/${groupId}\n\n` +
-    `**Access Tiers:**\n${tierInfo}\n` +
-    `Purchase access with: \`/buy-access ${groupId} <tier_id>\``
-  );
-}
-
-async function handleHelp(conversation: any) {
-  await conversation.send(
-    `🤖 **EVMAuth Groups Agent - Enhanced Edition**\n\n` +
-    `Create and monetize premium XMTP groups with custom USDC pricing and NFT images!\n\n` +
-    `**Commands:**\n` +
-    `📊 \`/create-group <name>\` - Create a new paid group\n` +
-    `⚙️ \`/setup-tiers <group_id>\` - Interactive tier setup with custom pricing\n` +
-    `💰 \`/buy-access <group_id> <tier_id>\` - Purchase access with USDC\n` +
-    `🎫 \`/my-tokens\` - View your access tokens\n` +
-    `📄 \`/group-info <group_id>\` - Get group information\n` +
-    `❓ \`/help\` - Show this help message\n\n` +
-    `**Enhanced Features:**\n` +
-    `💵 **USDC Pricing**: Set prices in USD (e.g., $5.99 for 30 days)\n` +
-    `🎨 **Custom NFT Images**: Upload your own artwork for access tokens\n` +
-    `📁 **IPFS Storage**: Decentralized metadata and image storage\n` +
-    `🔧 **Interactive Setup**: Guided tier creation process\n` +
-    `⚖️ **Base Network**: Low gas fees, fast transactions\n` +
-    `⏰ **Time-bound Access**: Automatic expiry and membership management\n\n` +
-    `**Example Tier Setup:**\n` +
-    `Format: \`Name | Price | Duration\`\n` +
-    `• \`Basic Access | $5 | 7 days\`\n` +
-    `• \`Premium | $15.99 | 30 days\`\n` +
-    `• \`VIP Membership | $50 | 90 days\`\n\n` +
-    `Start by creating a group, then setup your custom tiers!`
-  );
-}
-
 async function startEnhancedMembershipManager(
   client: Client,
-  enhancedGroupManager: EnhancedGroupManager
+  enhancedGroupManager: EnhancedGroupManager,
+  groupRegistry: GroupRegistry
 ) {
   console.log("🔄 Starting enhanced membership manager...");
   
@@ -529,7 +381,8 @@ async function startEnhancedMembershipManager(
     try {
       console.log("🔍 Running membership audit...");
       
-      for (const [contractAddress, config] of groupConfigs.entries()) {
+      for (const config of groupRegistry.list()) {
+        const { contractAddress } = config;
         // Safe access to config properties
         const groupName = config.metadata?.name || config.groupName || 'Unknown Group';
         console.log(`Auditing group: ${groupName} (${contractAddress})`);
@@ -552,35 +405,4 @@ async function startEnhancedMembershipManager(
   }, 60000); // Check every minute
 }
 
-async function handleTestSystem(conversation: any, testFlowManager: TestFlowManager) {
-  await conversation.send(
-    `🧪 **Running System Test**\n\n` +
-    `Testing all enhanced features...\n` +
-    `This may take 1-2 minutes.`
-  );
-
-  try {
-    const testResults = await testFlowManager.runCompleteTest();
-    
-    await conversation.send(
-      `🧪 **Test Results**\n\n` +
-      `Overall: ${testResults.success ? '🎉 SUCCESS' : '❌ FAILED'}\n\n` +
-      `**Component Tests:**\n` +
-      `• Group Creation: ${testResults.results.groupCreation ? '✅' : '❌'}\n` +
-      `• Tier Setup: ${testResults.results.tierSetup ? '✅' : '❌'}\n` +
-      `• Membership Mgmt: ${testResults.results.membershipManagement ? '✅' : '❌'}\n` +
-      `• Event Listening: ${testResults.results.eventListening ? '✅' : '❌'}\n` +
-      `• Recovery: ${testResults.results.recovery ? '✅' : '❌'}\n\n` +
-      (testResults.errors.length > 0 ? 
-        `**Errors:**\n${testResults.errors.map(e => `• ${e}`).join('\n')}` : 
-        `All systems operational! 🚀`)
-    );
-  } catch (error) {
-    await conversation.send(
-      `❌ **Test Failed**\n\n` +
-      `Error: ${error instanceof Error ? error.message : String(error)}`
-    );
-  }
-}
-
 main().catch(console.error);
\ No newline at end of file
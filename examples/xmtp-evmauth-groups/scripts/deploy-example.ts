@@ -4,6 +4,7 @@
  */
 
 import { EVMAuthHandler } from "../src/handlers/evmauth-handler";
+import { createPriceService } from "../src/utils/price-service";
 import type { AccessTier, GroupConfig } from "../src/types/types";
 
 // Example configuration for a production deployment
@@ -24,6 +25,7 @@ export const EXAMPLE_TIERS = {
       name: "Supporter",
       durationDays: 30,
       priceWei: "10000000000000000", // 0.01 ETH
+      paymentToken: "ETH",
       description: "Monthly supporter access",
       imageUrl: "https://example.com/supporter-badge.png",
     },
@@ -32,6 +34,7 @@ export const EXAMPLE_TIERS = {
       name: "Premium Fan",
       durationDays: 90,
       priceWei: "25000000000000000", // 0.025 ETH
+      paymentToken: "ETH",
       description: "Quarterly premium access with exclusive content",
       imageUrl: "https://example.com/premium-badge.png",
     },
@@ -40,6 +43,7 @@ export const EXAMPLE_TIERS = {
       name: "VIP Member",
       durationDays: 365,
       priceWei: "80000000000000000", // 0.08 ETH
+      paymentToken: "ETH",
       description: "Annual VIP access with all benefits",
       imageUrl: "https://example.com/vip-badge.png",
     },
@@ -52,6 +56,7 @@ export const EXAMPLE_TIERS = {
       name: "Contributor Access",
       durationDays: 14,
       priceWei: "5000000000000000", // 0.005 ETH
+      paymentToken: "ETH",
       description: "2-week contributor trial",
       maxSupply: 100,
     },
@@ -60,6 +65,7 @@ export const EXAMPLE_TIERS = {
       name: "DAO Member",
       durationDays: 180,
       priceWei: "50000000000000000", // 0.05 ETH
+      paymentToken: "ETH",
       description: "6-month governance participation",
     },
   ] as AccessTier[],
@@ -71,6 +77,7 @@ export const EXAMPLE_TIERS = {
       name: "Course Access",
       durationDays: 60,
       priceWei: "100000000000000000", // 0.1 ETH
+      paymentToken: "ETH",
       description: "Complete course access for 2 months",
     },
     {
@@ -78,6 +85,7 @@ export const EXAMPLE_TIERS = {
       name: "Mentorship Program",
       durationDays: 30,
       priceWei: "200000000000000000", // 0.2 ETH
+      paymentToken: "ETH",
       description: "1-on-1 mentorship access",
       maxSupply: 10,
     },
@@ -116,7 +124,11 @@ export async function deployExample() {
 
     // Setup tiers
     console.log("⚙️ Setting up access tiers...");
-    await evmAuthHandler.setupAccessTiers(contractAddress, EXAMPLE_TIERS.CREATOR_TIERS);
+    await evmAuthHandler.setupAccessTiers(
+      contractAddress,
+      EXAMPLE_TIERS.CREATOR_TIERS,
+      createPriceService(PRODUCTION_CONFIG.baseRpcUrl)
+    );
     
     console.log("✅ Tiers configured successfully!");
 
@@ -0,0 +1,67 @@
+/**
+ * Generate typed ABI constants from the contractsv2 Hardhat artifacts
+ * Run with: yarn gen:abis (after compiling contractsv2)
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ARTIFACTS_DIR = path.resolve(__dirname, "../../../contractsv2/artifacts");
+const OUTPUT_FILE = path.resolve(__dirname, "../src/contracts/abis.ts");
+
+const CONTRACTS = [
+  { constName: "EVMAUTH_V2_ABI", artifact: "src/EVMAuthV2.sol/EVMAuthV2.json" },
+  {
+    constName: "XMTP_GROUP_EXTENSION_ABI",
+    artifact: "src/extensions/XMTPGroupExtension.sol/XMTPGroupExtension.json",
+  },
+];
+
+interface HardhatArtifact {
+  contractName: string;
+  sourceName: string;
+  abi: unknown[];
+}
+
+async function generate() {
+  let output =
+    `/**\n` +
+    ` * Contract ABIs generated from contractsv2/artifacts\n` +
+    ` * Do not edit by hand - regenerate with: yarn gen:abis\n` +
+    ` */\n`;
+
+  for (const { constName, artifact } of CONTRACTS) {
+    const artifactPath = path.join(ARTIFACTS_DIR, artifact);
+    const { contractName, sourceName, abi } = JSON.parse(
+      fs.readFileSync(artifactPath, "utf8"),
+    ) as HardhatArtifact;
+
+    output +=
+      `\n/** ${contractName} (${sourceName}) */\n` +
+      `export const ${constName} = ${JSON.stringify(abi, null, 2)} as const;\n`;
+    console.log(`✅ ${contractName}: ${abi.length} ABI entries`);
+  }
+
+  // Match the repo's formatting when prettier is available
+  try {
+    const prettier = await import("prettier");
+    const config = await prettier.resolveConfig(OUTPUT_FILE);
+    output = await prettier.format(output, {
+      ...config,
+      parser: "typescript",
+    });
+  } catch {
+    console.log("⚠️ prettier not available, writing unformatted output");
+  }
+
+  fs.mkdirSync(path.dirname(OUTPUT_FILE), { recursive: true });
+  fs.writeFileSync(OUTPUT_FILE, output);
+  console.log(`📝 Wrote ${path.relative(process.cwd(), OUTPUT_FILE)}`);
+}
+
+generate().catch((error: unknown) => {
+  console.error("❌ ABI generation failed:", error);
+  process.exit(1);
+});
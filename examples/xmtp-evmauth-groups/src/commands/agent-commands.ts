@@ -0,0 +1,1146 @@
+/**
+ * Command definitions for the EVMAuth groups agent
+ */
+
+import type { Client, Group } from "@xmtp/node-sdk";
+import type { GroupStore } from "../database/group-store";
+import type { ERC20Handler } from "../handlers/erc20-handler";
+import type { EVMAuthHandler } from "../handlers/evmauth-handler";
+import type { USDCHandler } from "../handlers/usdc-handler";
+import type { EnhancedGroupManager } from "../managers/enhanced-group-flow";
+import type { EnhancedTierSetup } from "../managers/enhanced-tier-setup";
+import {
+  DEFAULT_GROUP_SETTINGS,
+  tierForTokenId,
+  type GroupRegistry,
+} from "../managers/group-registry";
+import {
+  liveRedemptions,
+  parseDiscount,
+  parsePromoExpiry,
+  PromoCodeError,
+  type PromoCodeManager,
+} from "../managers/promo-code-manager";
+import {
+  formatReferralReward,
+  parseReferralReward,
+  type ReferralManager,
+} from "../managers/referral-manager";
+import {
+  activeAssignments,
+  freeSeats,
+  SeatError,
+  type SeatManager,
+} from "../managers/seat-manager";
+import type { TestFlowManager } from "../test/test-flow";
+import type { AccessTier } from "../types/types";
+import {
+  handleBuySeats,
+  handleEnhancedBuyAccess,
+  handleGiftAccess,
+} from "../utils/enhanced-create-group";
+import {
+  handleCreateGroupWithPayment,
+  handleGrantTrial,
+  handleListGroups,
+} from "../utils/enhanced-create-group-with-payment";
+import { formatDuration } from "../utils/expiry-reminders";
+import {
+  MAX_COLLABORATOR_SHARE,
+  MAX_FEE_PERCENTAGE,
+  parsePercent,
+  totalCollaboratorShare,
+  type FeeEngine,
+} from "../utils/fee-engine";
+import type { MembershipAuditEngine } from "../utils/membership-audit";
+import type { PaymentMonitor } from "../utils/payment-monitor";
+import type { PaymentTokenRegistry } from "../utils/payment-tokens";
+import { formatDiscount, type PriceService } from "../utils/price-service";
+import type { PurchaseVerifier } from "../utils/purchase-verifier";
+import type { RateLimitConfig, RateLimiter } from "../utils/rate-limiter";
+import type { RecipientResolver } from "../utils/recipient-resolver";
+import {
+  formatRefundAmount,
+  type RefundManager,
+} from "../utils/refund-manager";
+import { handleRenewAccess, RENEWAL_GRACE_DAYS } from "../utils/renew-access";
+import {
+  CommandRegistry,
+  CommandUsageError,
+  requireGroup,
+  type CommandContext,
+  type CommandDefinition,
+} from "./command-registry";
+
+/**
+ * Services shared by all command handlers
+ */
+export interface AgentServices {
+  client: Client<unknown>;
+  agentAddress: string;
+  groupRegistry: GroupRegistry;
+  evmAuthHandler: EVMAuthHandler;
+  enhancedGroupManager: EnhancedGroupManager;
+  membershipAuditEngine: MembershipAuditEngine;
+  tierSetup: EnhancedTierSetup;
+  paymentMonitor: PaymentMonitor;
+  usdcHandler: USDCHandler;
+  erc20Handler: ERC20Handler;
+  priceService: PriceService;
+  paymentTokens: PaymentTokenRegistry;
+  purchaseVerifier: PurchaseVerifier;
+  refundManager: RefundManager;
+  recipientResolver: RecipientResolver;
+  seatManager: SeatManager;
+  promoCodes: PromoCodeManager;
+  referrals: ReferralManager;
+  feeEngine: FeeEngine;
+  /** Inbox allowed to run operator commands such as /refunds */
+  operatorInboxId?: string;
+  database: GroupStore;
+  testFlowManager: TestFlowManager;
+  rateLimiter: RateLimiter;
+}
+
+export type AgentCommandContext = CommandContext<AgentServices>;
+export type AgentCommand = CommandDefinition<AgentServices>;
+
+const MINUTE = 60 * 1000;
+
+/** Applied to every command without its own rateLimit: 10 per minute */
+const DEFAULT_RATE_LIMIT: RateLimitConfig = {
+  capacity: 10,
+  refillIntervalMs: MINUTE / 10,
+};
+
+/**
+ * Build the registry with every agent command wired up
+ */
+export function createAgentCommandRegistry(
+  services: AgentServices,
+): CommandRegistry<AgentServices> {
+  const registry = new CommandRegistry<AgentServices>({
+    findGroup: (identifier) => services.groupRegistry.find(identifier),
+    isGroupMember: async (group, inboxId) => {
+      const premiumGroup =
+        (await services.client.conversations.getConversationById(
+          group.premiumGroupId,
+        )) as Group | undefined;
+      if (!premiumGroup) return false;
+      const members = await premiumGroup.members();
+      return members.some((member) => member.inboxId === inboxId);
+    },
+    isOperator: (inboxId) =>
+      !!services.operatorInboxId &&
+      inboxId.toLowerCase() === services.operatorInboxId.toLowerCase(),
+    rateLimiter: services.rateLimiter,
+    defaultRateLimit: DEFAULT_RATE_LIMIT,
+  });
+
+  for (const command of agentCommands) {
+    registry.register(command);
+  }
+
+  return registry;
+}
+
+async function handleSetupTiers(ctx: AgentCommandContext): Promise<void> {
+  const group = requireGroup(ctx);
+
+  console.log(`🎯 Starting tier setup for contract: ${group.contractAddress}`);
+  await ctx.services.tierSetup.startTierSetup(
+    group.contractAddress,
+    ctx.senderInboxId,
+    ctx.conversation,
+  );
+  console.log(`✅ Tier setup session created for: ${ctx.senderInboxId}`);
+}
+
+async function handleMyTokens(ctx: AgentCommandContext): Promise<void> {
+  const { groupRegistry, membershipAuditEngine } = ctx.services;
+
+  if (!ctx.senderAddress || ctx.senderAddress === "Unknown") {
+    await ctx.conversation.send(
+      "❌ I couldn't determine your wallet address. Please message from a wallet-connected XMTP client.",
+    );
+    return;
+  }
+
+  const configs = groupRegistry.list();
+  const { active, lapsed } = await membershipAuditEngine.getHolderTokens(
+    ctx.senderAddress,
+    configs,
+  );
+
+  // Expired tokens are only listed while they can still be renewed
+  const now = Date.now();
+  const graceMs = RENEWAL_GRACE_DAYS * 24 * 60 * 60 * 1000;
+  const renewable = lapsed.filter(
+    (token) => now - token.expiredAt.getTime() <= graceMs,
+  );
+
+  if (active.length === 0 && renewable.length === 0) {
+    await ctx.conversation.send("📭 You don't have any access tokens yet.");
+    return;
+  }
+
+  const describe = (contractAddress: string, tokenId: number) => {
+    const config = configs.find(
+      (c) => c.contractAddress.toLowerCase() === contractAddress.toLowerCase(),
+    );
+    const tier = config && tierForTokenId(config.tiers, tokenId);
+    return {
+      groupName: config?.metadata.name ?? "Unknown Group",
+      tierName: tier?.name ?? `Token ${tokenId}`,
+      renew: `/renew ${contractAddress} ${tier?.id ?? ""}`.trim(),
+    };
+  };
+
+  const activeList = active.map((token) => {
+    const { groupName, tierName, renew } = describe(
+      token.contractAddress,
+      token.tokenId,
+    );
+    const expiry = token.expiresAt
+      ? `${token.expiresAt.toUTCString()} (${formatDuration(token.expiresAt.getTime() - now)} left)`
+      : "Never";
+    return (
+      `✅ **${groupName}** - ${tierName}\n` +
+      `   Quantity: ${token.balance.toString()}\n` +
+      `   Expires: ${expiry}\n` +
+      (token.expiresAt ? `   Renew: \`${renew}\`\n` : "")
+    );
+  });
+
+  const lapsedList = renewable.map((token) => {
+    const { groupName, tierName, renew } = describe(
+      token.contractAddress,
+      token.tokenId,
+    );
+    const graceLeft = token.expiredAt.getTime() + graceMs - now;
+    return (
+      `⌛ **${groupName}** - ${tierName}\n` +
+      `   Expired: ${token.expiredAt.toUTCString()}\n` +
+      `   Renew within ${formatDuration(graceLeft)}: \`${renew}\`\n`
+    );
+  });
+
+  await ctx.conversation.send(
+    `🎫 **Your Access Tokens**\n\n${[...activeList, ...lapsedList].join("\n")}`,
+  );
+}
+
+async function handleGroupInfo(ctx: AgentCommandContext): Promise<void> {
+  const groupConfig = requireGroup(ctx);
+  const groupId = ctx.args.group;
+
+  // Groups with auto-conversion also show prices in their other accepted tokens
+  const convertTo = groupConfig.paymentConfig.autoConvertPrices
+    ? groupConfig.paymentConfig.acceptedTokens
+    : [];
+  const tierLines = await Promise.all(
+    groupConfig.tiers.map(
+      async (tier: AccessTier) =>
+        `💎 **${tier.name}** (\`${tier.id}\`)\n` +
+        `   ${tier.durationDays} days - ${await ctx.services.priceService.formatTierPrice(tier, convertTo)}\n` +
+        `   ${tier.description ?? ""}\n`,
+    ),
+  );
+  const tierInfo = tierLines.join("\n");
+
+  await ctx.conversation.send(
+    `📊 **${groupConfig.metadata.name}**\n\n` +
+      `${groupConfig.metadata.description}\n\n` +
+      `🔗 Contract: \`${groupConfig.contractAddress}\`\n` +
+      `💎 Group URL: https://xmtp.chat/conversations/${groupConfig.premiumGroupId}\n\n` +
+      `**Access Tiers:**\n${tierInfo}\n` +
+      `💳 Pay with: ${groupConfig.paymentConfig.acceptedTokens.join(", ")}\n\n` +
+      `Purchase access with: \`/buy-access ${groupId} <tier_id> [token] [--code <promo>] [--ref <referral>]\``,
+  );
+}
+
+async function handlePaymentTokens(ctx: AgentCommandContext): Promise<void> {
+  const group = requireGroup(ctx);
+  const { groupRegistry, paymentTokens } = ctx.services;
+  const available = paymentTokens.list().map((t) => t.symbol);
+
+  if (!ctx.args.tokens) {
+    const { acceptedTokens, defaultToken } = group.paymentConfig;
+    await ctx.conversation.send(
+      `💳 **${group.metadata.name} payment tokens**\n\n` +
+        `Accepted: ${acceptedTokens
+          .map((t) => (t === defaultToken ? `${t} (default)` : t))
+          .join(", ")}\n` +
+        `Available: ${available.join(", ")}\n\n` +
+        `Change with: \`/payment-tokens ${ctx.args.group} USDC,ETH\` (the first is the default)`,
+    );
+    return;
+  }
+
+  const requested = ctx.args.tokens
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((symbol) => paymentTokens.get(symbol)?.symbol ?? symbol);
+  const unknown = requested.filter((symbol) => !paymentTokens.get(symbol));
+  if (unknown.length > 0) {
+    await ctx.conversation.send(
+      `❌ Unknown payment token: ${unknown.join(", ")}\n\n` +
+        `Available: ${available.join(", ")}`,
+    );
+    return;
+  }
+
+  const acceptedTokens = [...new Set(requested)];
+  await groupRegistry.update(group.contractAddress, {
+    paymentConfig: {
+      ...group.paymentConfig,
+      acceptedTokens,
+      defaultToken: acceptedTokens[0],
+    },
+  });
+  await ctx.conversation.send(
+    `✅ ${group.metadata.name} now accepts ${acceptedTokens.join(", ")} (default ${acceptedTokens[0]}).`,
+  );
+}
+
+async function handleAddPaymentToken(ctx: AgentCommandContext): Promise<void> {
+  const { erc20Handler, paymentTokens } = ctx.services;
+
+  const info = await erc20Handler.readTokenInfo(ctx.args.address);
+  const token = paymentTokens.register({
+    ...info,
+    ...(ctx.args.feed ? { priceFeed: ctx.args.feed } : {}),
+  });
+  await ctx.conversation.send(
+    `✅ Registered ${token.symbol} (${token.decimals} decimals) at ${token.address}\n\n` +
+      (token.priceFeed
+        ? `Prices convert through the Chainlink feed ${token.priceFeed}.`
+        : `No price feed - only tiers priced in ${token.symbol} can be paid with it.`),
+  );
+}
+
+async function handleGroupFee(ctx: AgentCommandContext): Promise<void> {
+  const group = requireGroup(ctx);
+  const { groupRegistry, feeEngine } = ctx.services;
+
+  if (!ctx.args.fee) {
+    const rates = group.paymentConfig.acceptedTokens
+      .map(
+        (token) => `${token}: ${feeEngine.feeBasisPoints(group, token) / 100}%`,
+      )
+      .join(", ");
+    await ctx.conversation.send(
+      `🧾 **${group.metadata.name} platform fee**\n\n` +
+        `${rates}\n` +
+        (group.settings?.customFeePercentage !== undefined
+          ? `Custom rate for this group.\n\n`
+          : `The agent's default rates.\n\n`) +
+        `Change with: \`/group-fee ${ctx.args.group} 1.5%\` or \`default\``,
+    );
+    return;
+  }
+
+  const reset = ctx.args.fee.toLowerCase() === "default";
+  const percent = reset ? undefined : parsePercent(ctx.args.fee);
+  if (percent === null || (percent ?? 0) > MAX_FEE_PERCENTAGE) {
+    throw new CommandUsageError(
+      `Fee must be a percentage up to ${MAX_FEE_PERCENTAGE}% such as "1.5%", or "default".`,
+    );
+  }
+
+  await groupRegistry.update(group.contractAddress, {
+    settings: {
+      ...(group.settings ?? DEFAULT_GROUP_SETTINGS),
+      customFeePercentage: percent,
+    },
+  });
+  await ctx.conversation.send(
+    percent === undefined
+      ? `✅ ${group.metadata.name} is back on the default platform fee.`
+      : `✅ ${group.metadata.name} now pays a ${percent}% platform fee.`,
+  );
+}
+
+async function handleRefunds(ctx: AgentCommandContext): Promise<void> {
+  const filter = ctx.args.kind ? ctx.args.kind.toLowerCase() : undefined;
+  if (filter && filter !== "refunds" && filter !== "payouts") {
+    throw new CommandUsageError(
+      'Show "refunds" or "payouts", or leave it out for both.',
+    );
+  }
+  const title =
+    filter === "refunds"
+      ? "Refunds"
+      : filter === "payouts"
+        ? "Payouts"
+        : "Refunds and payouts";
+  const refunds = (await ctx.services.refundManager.listRefunds()).filter(
+    (r) => !filter || (filter === "payouts") === (r.kind === "payout"),
+  );
+
+  if (refunds.length === 0) {
+    await ctx.conversation.send(`💸 No ${title.toLowerCase()} recorded.`);
+    return;
+  }
+
+  const open = refunds.filter((r) => r.status !== "sent");
+  const sent = refunds.filter((r) => r.status === "sent").slice(0, 10);
+  const line = (refund: (typeof refunds)[number]) =>
+    `• ${refund.status === "failed" ? "❌" : refund.status === "sent" ? "✅" : "⏳"} ` +
+    `${refund.kind === "payout" ? "Payout" : "Refund"}: ` +
+    `${formatRefundAmount(refund)} to ${refund.recipient}\n` +
+    `   ${refund.reason} (${refund.attempts} attempts)\n` +
+    (refund.txHash ? `   Tx: ${refund.txHash}\n` : "") +
+    (refund.status !== "sent" && refund.lastError
+      ? `   Last error: ${refund.lastError}\n`
+      : "");
+
+  await ctx.conversation.send(
+    `💸 **${title}**\n\n` +
+      `**Pending / failed (${open.length}):**\n` +
+      (open.length > 0 ? open.map(line).join("") : "None\n") +
+      `\n**Completed (latest ${sent.length}):**\n` +
+      (sent.length > 0 ? sent.map(line).join("") : "None\n"),
+  );
+}
+
+async function handleSeats(ctx: AgentCommandContext): Promise<void> {
+  const { seatManager, groupRegistry } = ctx.services;
+  const pools = await seatManager.getOwnerPools(
+    ctx.senderInboxId,
+    ctx.group?.contractAddress,
+  );
+
+  if (pools.length === 0) {
+    await ctx.conversation.send(
+      "🪑 You have no active seats. Buy some with `/buy-seats <group> <tier> <count>`.",
+    );
+    return;
+  }
+
+  const poolLines = pools.map((pool) => {
+    const groupName =
+      groupRegistry.get(pool.contractAddress)?.metadata.name ?? "Unknown Group";
+    const assigned = activeAssignments(pool);
+    return (
+      `🪑 **${groupName}** - ${pool.tierName}\n` +
+      `   ${assigned.length}/${pool.seats} assigned, ${freeSeats(pool)} free\n` +
+      `   Expires: ${pool.expiresAt ? new Date(pool.expiresAt).toUTCString() : "never"}\n` +
+      assigned.map((a) => `   • ${a.address}\n`).join("")
+    );
+  });
+
+  await ctx.conversation.send(
+    `🪑 **Your Seats**\n\n${poolLines.join("\n")}\n` +
+      `ℹ️ While you're in the premium group yourself, your access uses one of the tokens, so your newest seat goes without.`,
+  );
+}
+
+async function handleAssignSeat(ctx: AgentCommandContext): Promise<void> {
+  const { seatManager, recipientResolver, enhancedGroupManager } = ctx.services;
+
+  const member = await recipientResolver.resolve(ctx.args.member);
+  if (!member?.inboxId) {
+    await ctx.conversation.send(
+      member
+        ? `❌ ${member.label} isn't on XMTP, so they can't join the premium group yet.`
+        : `❌ Couldn't find "${ctx.args.member}". Use a wallet address, ENS name or XMTP inbox ID.`,
+    );
+    return;
+  }
+
+  let seat;
+  try {
+    seat = await seatManager.assignSeat(
+      ctx.senderInboxId,
+      { address: member.address, inboxId: member.inboxId },
+      ctx.group?.contractAddress,
+    );
+  } catch (error) {
+    if (!(error instanceof SeatError)) throw error;
+    await ctx.conversation.send(`❌ ${error.message}`);
+    return;
+  }
+
+  const { pool } = seat;
+  try {
+    await enhancedGroupManager.handleTokenPurchase(
+      pool.contractAddress,
+      member.address,
+      member.inboxId,
+      pool.tokenId,
+      pool.tierName,
+    );
+  } catch (error) {
+    // Don't hold a seat for someone who couldn't be added
+    await seatManager.reclaimSeat(
+      ctx.senderInboxId,
+      member.inboxId,
+      pool.contractAddress,
+    );
+    throw error;
+  }
+
+  await ctx.conversation.send(
+    `✅ Seat assigned to ${member.label}\n\n` +
+      (pool.expiresAt
+        ? `They're in the premium group until ${new Date(pool.expiresAt).toUTCString()}.\n`
+        : `They're in the premium group until you reclaim the seat.\n`) +
+      `${freeSeats(pool)} of ${pool.seats} seats left.`,
+  );
+}
+
+async function handleReclaimSeat(ctx: AgentCommandContext): Promise<void> {
+  const {
+    seatManager,
+    recipientResolver,
+    enhancedGroupManager,
+    membershipAuditEngine,
+    groupRegistry,
+  } = ctx.services;
+
+  // ENS names are resolved; addresses and inbox IDs match as given
+  let member = ctx.args.member;
+  if (member.toLowerCase().endsWith(".eth")) {
+    const resolved = await recipientResolver.resolve(member);
+    member = resolved?.inboxId ?? resolved?.address ?? member;
+  }
+
+  let seat;
+  try {
+    seat = await seatManager.reclaimSeat(
+      ctx.senderInboxId,
+      member,
+      ctx.group?.contractAddress,
+    );
+  } catch (error) {
+    if (!(error instanceof SeatError)) throw error;
+    await ctx.conversation.send(`❌ ${error.message}`);
+    return;
+  }
+
+  // Members who bought their own access or hold another seat stay in
+  const { pool, assignment } = seat;
+  const otherSeat = (
+    await seatManager.getActiveSeats(pool.contractAddress)
+  ).some(
+    (s) =>
+      s.assignment.inboxId.toLowerCase() === assignment.inboxId.toLowerCase(),
+  );
+  const snapshot = await membershipAuditEngine.checkMembers(
+    pool.contractAddress,
+    [
+      {
+        inboxId: assignment.inboxId,
+        address: assignment.address,
+        isPrivileged: false,
+      },
+    ],
+    groupRegistry.get(pool.contractAddress)?.tiers,
+  );
+  const ownAccess = snapshot.members.some((m) => m.hasAccess);
+  // A failed check leaves them in; the next audit settles it
+  const unchecked = snapshot.members.some((m) => m.accessUnknown);
+
+  const removed =
+    !otherSeat &&
+    !ownAccess &&
+    !unchecked &&
+    (await enhancedGroupManager.removeExpiredMember(
+      pool.contractAddress,
+      assignment.inboxId,
+      "Seat reclaimed by the purchaser",
+    ));
+
+  await ctx.conversation.send(
+    `✅ Seat reclaimed from ${assignment.address}\n\n` +
+      (removed
+        ? `They've been removed from the premium group.\n`
+        : unchecked && !otherSeat
+          ? `Their own access couldn't be checked, so they stay in the premium group until the next audit.\n`
+          : `They keep premium access through their own token or another seat.\n`) +
+      `${freeSeats(pool)} of ${pool.seats} seats free.`,
+  );
+}
+
+async function handlePromo(ctx: AgentCommandContext): Promise<void> {
+  const { promoCodes } = ctx.services;
+  const group = requireGroup(ctx);
+  const { action, code } = ctx.args;
+
+  try {
+    switch (action.toLowerCase()) {
+      case "create": {
+        const discount = ctx.args.discount
+          ? parseDiscount(ctx.args.discount)
+          : null;
+        if (!code || !discount) {
+          throw new CommandUsageError(
+            'Give a code and a discount such as "20%" or "$5".',
+          );
+        }
+        const expiresAt = ctx.args.expires
+          ? parsePromoExpiry(ctx.args.expires)
+          : undefined;
+        if (expiresAt === null) {
+          throw new CommandUsageError(
+            'Expiry must be a lifetime such as "7d" or a future date such as "2025-12-31".',
+          );
+        }
+
+        const promo = await promoCodes.create({
+          contractAddress: group.contractAddress,
+          code,
+          discount,
+          maxUses: ctx.args.maxUses ? Number(ctx.args.maxUses) : undefined,
+          expiresAt,
+          createdBy: ctx.senderInboxId,
+        });
+        await ctx.conversation.send(
+          `🏷️ **Promo code ${promo.code} created**\n\n` +
+            `🎯 Group: ${group.metadata.name}\n` +
+            `💸 Discount: ${formatDiscount(promo.discount)}\n` +
+            `🔢 Uses: ${promo.maxUses ?? "unlimited"} (one per buyer)\n` +
+            `⏰ Expires: ${promo.expiresAt ? new Date(promo.expiresAt).toUTCString() : "never"}\n\n` +
+            `Buyers apply it with: \`/buy-access ${ctx.args.group} <tier> --code ${promo.code}\``,
+        );
+        return;
+      }
+
+      case "list": {
+        const promos = await promoCodes.list(group.contractAddress);
+        if (promos.length === 0) {
+          await ctx.conversation.send(
+            `🏷️ No promo codes for ${group.metadata.name}. Create one with \`/promo create ${ctx.args.group} <code> <discount>\`.`,
+          );
+          return;
+        }
+
+        const now = Date.now();
+        const lines = promos.map((promo) => {
+          const used = liveRedemptions(promo, now).length;
+          const expired =
+            !!promo.expiresAt && Date.parse(promo.expiresAt) <= now;
+          return (
+            `${promo.disabled || expired ? "⛔" : "🏷️"} **${promo.code}** - ${formatDiscount(promo.discount)}\n` +
+            `   Used ${used}/${promo.maxUses ?? "∞"}` +
+            (promo.expiresAt
+              ? `, ${expired ? "expired" : "expires"} ${new Date(promo.expiresAt).toUTCString()}`
+              : "") +
+            (promo.disabled ? ", disabled" : "") +
+            `\n`
+          );
+        });
+        await ctx.conversation.send(
+          `🏷️ **Promo Codes - ${group.metadata.name}**\n\n${lines.join("")}`,
+        );
+        return;
+      }
+
+      case "disable": {
+        if (!code) {
+          throw new CommandUsageError("Give the code to disable.");
+        }
+        await promoCodes.disable(group.contractAddress, code);
+        await ctx.conversation.send(
+          `✅ Promo code ${code.toUpperCase()} disabled. Purchases already sent keep their discount.`,
+        );
+        return;
+      }
+
+      default:
+        throw new CommandUsageError(
+          'Action must be "create", "list" or "disable".',
+        );
+    }
+  } catch (error) {
+    if (!(error instanceof PromoCodeError)) throw error;
+    await ctx.conversation.send(`❌ ${error.message}`);
+  }
+}
+
+async function handleReferralLink(ctx: AgentCommandContext): Promise<void> {
+  const group = requireGroup(ctx);
+  const link = await ctx.services.referrals.getOrCreateLink(
+    group.contractAddress,
+    { inboxId: ctx.senderInboxId, address: ctx.senderAddress },
+  );
+
+  await ctx.conversation.send(
+    `🤝 **Your ${group.metadata.name} referral code: ${link.code}**\n\n` +
+      `Share this with friends:\n` +
+      `https://xmtp.chat/conversations/${group.salesGroupId}\n` +
+      `\`/buy-access ${ctx.args.group} <tier> --ref ${link.code}\`\n\n` +
+      (group.referralReward
+        ? `You earn ${formatReferralReward(group.referralReward)} made with your code.`
+        : `Purchases made with your code count toward the referral leaderboard.`),
+  );
+}
+
+async function handleReferralReward(ctx: AgentCommandContext): Promise<void> {
+  const group = requireGroup(ctx);
+  const { groupRegistry } = ctx.services;
+
+  if (!ctx.args.reward) {
+    await ctx.conversation.send(
+      `🤝 **${group.metadata.name} referral reward**\n\n` +
+        (group.referralReward
+          ? `Referrers earn ${formatReferralReward(group.referralReward)}.\n\n`
+          : `No reward is set; referrals are only counted.\n\n`) +
+        `Change with: \`/referral-reward ${ctx.args.group} 10%\` (paid out of each purchase) ` +
+        `or \`/referral-reward ${ctx.args.group} 7d\` (free days), or \`off\`.`,
+    );
+    return;
+  }
+
+  const off = ctx.args.reward.toLowerCase() === "off";
+  const reward = off ? undefined : parseReferralReward(ctx.args.reward);
+  if (reward === null) {
+    throw new CommandUsageError(
+      'Reward must be a share such as "10%" (up to 50%), days such as "7d", or "off".',
+    );
+  }
+
+  await groupRegistry.update(group.contractAddress, { referralReward: reward });
+  await ctx.conversation.send(
+    reward
+      ? `✅ ${group.metadata.name} referrers now earn ${formatReferralReward(reward)}.` +
+          (reward.kind === "percent"
+            ? `\n\nThe share comes out of your part of the price; the agent pays it to the referrer once the purchase is confirmed.`
+            : "")
+      : `✅ ${group.metadata.name} referrals no longer earn a reward.`,
+  );
+}
+
+async function handleReferrals(ctx: AgentCommandContext): Promise<void> {
+  const group = requireGroup(ctx);
+  const { referrals, priceService } = ctx.services;
+  const standings = (
+    await referrals.getLeaderboard(group.contractAddress)
+  ).slice(0, 10);
+
+  if (standings.length === 0) {
+    await ctx.conversation.send(
+      `🤝 No referred purchases for ${group.metadata.name} yet. ` +
+        `Members get a code with \`/referral-link ${ctx.args.group}\`.`,
+    );
+    return;
+  }
+
+  const medals = ["🥇", "🥈", "🥉"];
+  const lines = standings.map((standing, index) => {
+    const earned = [
+      ...Object.entries(standing.paid).map(([token, amount]) =>
+        priceService.formatTokenAmount(amount, token),
+      ),
+      ...(standing.days > 0 ? [`${standing.days} free days`] : []),
+    ];
+    return (
+      `${medals[index] ?? `${index + 1}.`} ${standing.referrerAddress}\n` +
+      `   ${standing.purchases} purchase${standing.purchases === 1 ? "" : "s"}` +
+      (earned.length > 0 ? `, earned ${earned.join(" + ")}` : "") +
+      `\n`
+    );
+  });
+
+  await ctx.conversation.send(
+    `🏆 **${group.metadata.name} Referral Leaderboard**\n\n${lines.join("")}`,
+  );
+}
+
+async function handleCollaborators(ctx: AgentCommandContext): Promise<void> {
+  const group = requireGroup(ctx);
+  const { groupRegistry } = ctx.services;
+  const collaborators = group.collaborators ?? [];
+
+  if (!ctx.args.action) {
+    await ctx.conversation.send(
+      `🧾 **${group.metadata.name} revenue split**\n\n` +
+        `👑 Creator: ${100 - totalCollaboratorShare(collaborators)}%\n` +
+        collaborators
+          .map((c) => `🤝 ${c.address}: ${c.sharePercent}%\n`)
+          .join("") +
+        `\nShares are paid with each purchase; the platform fee is added on top for the buyer.\n\n` +
+        `Change with: \`/collaborators ${ctx.args.group} add <address> 10%\` ` +
+        `or \`/collaborators ${ctx.args.group} remove <address>\``,
+    );
+    return;
+  }
+
+  const address = ctx.args.address;
+  if (!address) {
+    throw new CommandUsageError("Give the collaborator's wallet address.");
+  }
+  const others = collaborators.filter(
+    (c) => c.address.toLowerCase() !== address.toLowerCase(),
+  );
+
+  switch (ctx.args.action.toLowerCase()) {
+    case "add": {
+      const share = ctx.args.share ? parsePercent(ctx.args.share) : null;
+      if (share === null || share <= 0) {
+        throw new CommandUsageError(
+          'Share must be a percentage such as "10%".',
+        );
+      }
+      const shared = totalCollaboratorShare(others) + share;
+      if (shared > MAX_COLLABORATOR_SHARE) {
+        await ctx.conversation.send(
+          `❌ Collaborators would share ${shared}% of each sale; the most is ${MAX_COLLABORATOR_SHARE}%.`,
+        );
+        return;
+      }
+
+      await groupRegistry.update(group.contractAddress, {
+        collaborators: [...others, { address, sharePercent: share }],
+      });
+      await ctx.conversation.send(
+        `✅ ${address} now receives ${share}% of each ${group.metadata.name} sale.\n\n` +
+          `You keep ${100 - shared}%.`,
+      );
+      return;
+    }
+
+    case "remove": {
+      if (others.length === collaborators.length) {
+        await ctx.conversation.send(
+          `❌ ${address} isn't a collaborator on ${group.metadata.name}.`,
+        );
+        return;
+      }
+
+      await groupRegistry.update(group.contractAddress, {
+        collaborators: others.length > 0 ? others : undefined,
+      });
+      await ctx.conversation.send(
+        `✅ ${address} no longer shares ${group.metadata.name} revenue.`,
+      );
+      return;
+    }
+
+    default:
+      throw new CommandUsageError('Action must be "add" or "remove".');
+  }
+}
+
+async function handleHelp(ctx: AgentCommandContext): Promise<void> {
+  await ctx.conversation.send(
+    `🤖 **EVMAuth Groups Agent - Enhanced Edition**\n\n` +
+      `Create and monetize premium XMTP groups with custom USDC pricing and NFT images!\n\n` +
+      `**Commands:**\n` +
+      `${ctx.registry.formatHelp()}\n\n` +
+      `**Enhanced Features:**\n` +
+      `💵 **USDC Pricing**: Set prices in USD (e.g., $5.99 for 30 days)\n` +
+      `🎨 **Custom NFT Images**: Upload your own artwork for access tokens\n` +
+      `📁 **IPFS Storage**: Decentralized metadata and image storage\n` +
+      `🔧 **Interactive Setup**: Guided tier creation process\n` +
+      `⚖️ **Base Network**: Low gas fees, fast transactions\n` +
+      `⏰ **Time-bound Access**: Automatic expiry and membership management\n\n` +
+      `**Example Tier Setup:**\n` +
+      `Format: \`Name | Price | Duration\`\n` +
+      `• \`Basic Access | $5 | 7 days\`\n` +
+      `• \`Premium | $15.99 | 30 days\`\n` +
+      `• \`VIP Membership | $50 | 90 days\`\n\n` +
+      `Start by creating a group, then setup your custom tiers!`,
+  );
+}
+
+async function handleTestSystem(ctx: AgentCommandContext): Promise<void> {
+  await ctx.conversation.send(
+    `🧪 **Running System Test**\n\n` +
+      `Testing all enhanced features...\n` +
+      `This may take 1-2 minutes.`,
+  );
+
+  try {
+    const testResults = await ctx.services.testFlowManager.runCompleteTest();
+
+    await ctx.conversation.send(
+      `🧪 **Test Results**\n\n` +
+        `Overall: ${testResults.success ? "🎉 SUCCESS" : "❌ FAILED"}\n\n` +
+        `**Component Tests:**\n` +
+        `• Group Creation: ${testResults.results.groupCreation ? "✅" : "❌"}\n` +
+        `• Tier Setup: ${testResults.results.tierSetup ? "✅" : "❌"}\n` +
+        `• Membership Mgmt: ${testResults.results.membershipManagement ? "✅" : "❌"}\n` +
+        `• Event Listening: ${testResults.results.eventListening ? "✅" : "❌"}\n` +
+        `• Recovery: ${testResults.results.recovery ? "✅" : "❌"}\n\n` +
+        (testResults.errors.length > 0
+          ? `**Errors:**\n${testResults.errors.map((e) => `• ${e}`).join("\n")}`
+          : `All systems operational! 🚀`),
+    );
+  } catch (error) {
+    await ctx.conversation.send(
+      `❌ **Test Failed**\n\n` +
+        `Error: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+const agentCommands: AgentCommand[] = [
+  {
+    name: "create-group",
+    icon: "📊",
+    description: "Create a new premium community (0.001 ETH)",
+    args: [{ name: "name", rest: true }],
+    example: '/create-group "My Premium Community"',
+    // Each call sends a payment request and registers a pending payment
+    rateLimit: {
+      capacity: 3,
+      refillIntervalMs: 10 * MINUTE,
+      cooldownMs: MINUTE,
+    },
+    handler: handleCreateGroupWithPayment,
+  },
+  {
+    name: "setup-tiers",
+    icon: "⚙️",
+    description: "Interactive tier setup with custom pricing",
+    args: [{ name: "group" }],
+    groupArg: "group",
+    role: "creator",
+    example: "/setup-tiers dstealth",
+    handler: handleSetupTiers,
+  },
+  {
+    name: "grant-trial",
+    icon: "🎁",
+    description: "Grant free trial access",
+    args: [
+      { name: "group" },
+      { name: "address", type: "address" },
+      { name: "days", type: "number" },
+    ],
+    groupArg: "group",
+    role: "creator",
+    example: "/grant-trial MyGroup 0x123... 7",
+    rateLimit: { capacity: 5, refillIntervalMs: MINUTE },
+    handler: handleGrantTrial,
+  },
+  {
+    name: "payment-tokens",
+    icon: "💳",
+    description: "View or set the tokens buyers can pay with",
+    args: [{ name: "group" }, { name: "tokens", required: false, rest: true }],
+    groupArg: "group",
+    role: "creator",
+    example: "/payment-tokens MyGroup USDC,ETH",
+    handler: handlePaymentTokens,
+  },
+  {
+    name: "list-groups",
+    icon: "📋",
+    description: "View your premium communities",
+    handler: handleListGroups,
+  },
+  {
+    name: "buy-access",
+    icon: "💰",
+    description: "Purchase access with USDC or another accepted token",
+    args: [
+      { name: "group" },
+      { name: "tier" },
+      { name: "token", required: false },
+      { name: "code", required: false, flag: true },
+      { name: "ref", required: false, flag: true },
+    ],
+    groupArg: "group",
+    example: "/buy-access abc123 premium ETH --code LAUNCH20",
+    rateLimit: { capacity: 5, refillIntervalMs: MINUTE },
+    handler: handleEnhancedBuyAccess,
+  },
+  {
+    name: "gift",
+    icon: "🎁",
+    description: "Buy access for someone else, with an optional message",
+    args: [
+      { name: "group" },
+      { name: "tier" },
+      { name: "recipient" },
+      { name: "message", required: false, rest: true },
+      { name: "code", required: false, flag: true },
+      { name: "ref", required: false, flag: true },
+    ],
+    groupArg: "group",
+    example: "/gift abc123 premium vitalik.eth Welcome aboard!",
+    rateLimit: { capacity: 5, refillIntervalMs: MINUTE },
+    handler: handleGiftAccess,
+  },
+  {
+    name: "buy-seats",
+    icon: "🪑",
+    description: "Buy several seats for your team to assign later",
+    args: [
+      { name: "group" },
+      { name: "tier" },
+      { name: "count" },
+      { name: "token", required: false },
+      { name: "code", required: false, flag: true },
+      { name: "ref", required: false, flag: true },
+    ],
+    groupArg: "group",
+    example: "/buy-seats abc123 premium 10",
+    rateLimit: { capacity: 5, refillIntervalMs: MINUTE },
+    handler: handleBuySeats,
+  },
+  {
+    name: "assign-seat",
+    icon: "👥",
+    description: "Give one of your seats to a team member",
+    args: [{ name: "member" }, { name: "group", required: false }],
+    groupArg: "group",
+    example: "/assign-seat alice.eth",
+    handler: handleAssignSeat,
+  },
+  {
+    name: "reclaim-seat",
+    icon: "↩️",
+    description: "Take a seat back, e.g. when someone leaves the team",
+    args: [{ name: "member" }, { name: "group", required: false }],
+    groupArg: "group",
+    example: "/reclaim-seat 0x1234...",
+    handler: handleReclaimSeat,
+  },
+  {
+    name: "seats",
+    icon: "🪑",
+    description: "View your seats and who they're assigned to",
+    args: [{ name: "group", required: false }],
+    groupArg: "group",
+    handler: handleSeats,
+  },
+  {
+    name: "promo",
+    icon: "🏷️",
+    description: "Create, list or disable discount codes",
+    args: [
+      { name: "action" },
+      { name: "group" },
+      { name: "code", required: false },
+      { name: "discount", required: false },
+      { name: "maxUses", type: "number", required: false },
+      { name: "expires", required: false },
+    ],
+    groupArg: "group",
+    role: "creator",
+    example: "/promo create abc123 LAUNCH20 20% 50 7d",
+    handler: handlePromo,
+  },
+  {
+    name: "referral-link",
+    icon: "🤝",
+    description: "Get your referral code to share",
+    args: [{ name: "group" }],
+    groupArg: "group",
+    role: "member",
+    example: "/referral-link abc123",
+    handler: handleReferralLink,
+  },
+  {
+    name: "referral-reward",
+    icon: "🎯",
+    description: "View or set what referrers earn",
+    args: [{ name: "group" }, { name: "reward", required: false }],
+    groupArg: "group",
+    role: "creator",
+    example: "/referral-reward abc123 10%",
+    handler: handleReferralReward,
+  },
+  {
+    name: "referrals",
+    icon: "🏆",
+    description: "Referral leaderboard for your group",
+    args: [{ name: "group" }],
+    groupArg: "group",
+    role: "creator",
+    handler: handleReferrals,
+  },
+  {
+    name: "collaborators",
+    icon: "🧾",
+    description: "View or change who shares your group's revenue",
+    args: [
+      { name: "group" },
+      { name: "action", required: false },
+      { name: "address", type: "address", required: false },
+      { name: "share", required: false },
+    ],
+    groupArg: "group",
+    role: "creator",
+    example: "/collaborators abc123 add 0x123... 10%",
+    handler: handleCollaborators,
+  },
+  {
+    name: "renew",
+    icon: "🔄",
+    description: "Renew your access and see the new expiry",
+    args: [{ name: "group" }, { name: "tier", required: false }],
+    groupArg: "group",
+    example: "/renew abc123 premium",
+    rateLimit: { capacity: 5, refillIntervalMs: MINUTE },
+    handler: handleRenewAccess,
+  },
+  {
+    name: "my-tokens",
+    icon: "🎫",
+    description: "View your access tokens",
+    handler: handleMyTokens,
+  },
+  {
+    name: "group-info",
+    icon: "📄",
+    description: "Get group information and pricing",
+    args: [{ name: "group" }],
+    groupArg: "group",
+    example: "/group-info abc123",
+    handler: handleGroupInfo,
+  },
+  {
+    name: "help",
+    aliases: ["commands"],
+    icon: "❓",
+    description: "Show this help message",
+    handler: handleHelp,
+  },
+  {
+    name: "refunds",
+    icon: "💸",
+    description: "View pending and completed refunds and payouts",
+    args: [{ name: "kind", required: false }],
+    role: "operator",
+    handler: handleRefunds,
+  },
+  {
+    name: "add-payment-token",
+    icon: "🪙",
+    description: "Register an ERC-20 payment token",
+    args: [
+      { name: "address", type: "address" },
+      { name: "feed", type: "address", required: false },
+    ],
+    role: "operator",
+    example: "/add-payment-token 0x123... 0x456...",
+    handler: handleAddPaymentToken,
+  },
+  {
+    name: "group-fee",
+    icon: "🧾",
+    description: "View or override a group's platform fee",
+    args: [{ name: "group" }, { name: "fee", required: false }],
+    groupArg: "group",
+    role: "operator",
+    example: "/group-fee abc123 1.5%",
+    handler: handleGroupFee,
+  },
+  {
+    name: "test-system",
+    description: "Run the end-to-end system test",
+    hidden: true,
+    // Runs the full end-to-end test, so only once every 15 minutes
+    rateLimit: {
+      capacity: 1,
+      refillIntervalMs: 15 * MINUTE,
+      cooldownMs: 15 * MINUTE,
+    },
+    handler: handleTestSystem,
+  },
+];
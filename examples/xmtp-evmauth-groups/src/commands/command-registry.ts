@@ -0,0 +1,425 @@
+/**
+ * Declarative command registry for the groups agent
+ * Each command declares its arguments, required role and handler so that
+ * dispatch, usage errors and /help output all come from the same place.
+ */
+
+import type { Conversation } from "@xmtp/node-sdk";
+import type { DualGroupConfig } from "../types/types";
+import {
+  formatRetryAfter,
+  type RateLimitConfig,
+  type RateLimiter,
+} from "../utils/rate-limiter";
+
+/**
+ * Who is allowed to run a command
+ * - anyone: no check
+ * - member: creator or member of the group's premium chat
+ * - creator: only the group creator
+ * - operator: only the agent operator (no group needed)
+ */
+export type CommandRole = "anyone" | "member" | "creator" | "operator";
+
+export interface CommandArgSpec {
+  /** Argument name, used in usage text and as key in ctx.args */
+  name: string;
+  /** Value type, validated before the handler runs */
+  type?: "string" | "number" | "address";
+  /** Defaults to true */
+  required?: boolean;
+  /** Consume all remaining tokens (must be the last argument) */
+  rest?: boolean;
+  /** Named option, given as --name <value> anywhere after the command */
+  flag?: boolean;
+}
+
+export interface CommandContext<TServices> {
+  /** Conversation the command was received in */
+  conversation: Conversation;
+  /** Inbox ID of the sender */
+  senderInboxId: string;
+  /** Wallet address of the sender */
+  senderAddress: string;
+  /** Raw message text */
+  messageContent: string;
+  /** Parsed arguments keyed by CommandArgSpec.name */
+  args: Record<string, string>;
+  /** Group resolved from the command's groupArg, if any */
+  group?: DualGroupConfig;
+  /** Shared agent services */
+  services: TServices;
+  /** Registry that dispatched the command */
+  registry: CommandRegistry<TServices>;
+}
+
+export interface CommandDefinition<TServices> {
+  /** Command name without the leading slash */
+  name: string;
+  /** Alternative names without the leading slash */
+  aliases?: string[];
+  /** One-line description for /help */
+  description: string;
+  /** Positional arguments */
+  args?: CommandArgSpec[];
+  /** Required role, defaults to "anyone" */
+  role?: CommandRole;
+  /** Name of the argument that identifies the target group */
+  groupArg?: string;
+  /** Example invocation shown in usage errors */
+  example?: string;
+  /** Emoji prefix for /help */
+  icon?: string;
+  /** Hide from /help */
+  hidden?: boolean;
+  /** Per-sender limit, overrides the registry default */
+  rateLimit?: RateLimitConfig;
+  /** Command implementation */
+  handler: (ctx: CommandContext<TServices>) => Promise<void>;
+}
+
+export interface CommandRegistryOptions {
+  /** Resolve a group by name, contract address or group ID */
+  findGroup: (identifier: string) => DualGroupConfig | undefined;
+  /** Check whether an inbox is a member of the group's premium chat */
+  isGroupMember: (group: DualGroupConfig, inboxId: string) => Promise<boolean>;
+  /** Check whether an inbox is the agent operator; no one is without it */
+  isOperator?: (inboxId: string) => boolean;
+  /** Enforces per-sender command limits when set */
+  rateLimiter?: RateLimiter;
+  /** Limit for commands without their own rateLimit */
+  defaultRateLimit?: RateLimitConfig;
+}
+
+/**
+ * Thrown by handlers (or the parser) when arguments are invalid
+ */
+export class CommandUsageError extends Error {
+  constructor(message?: string) {
+    super(message);
+    this.name = "CommandUsageError";
+  }
+}
+
+/**
+ * Split a message into tokens, keeping "quoted strings" together
+ */
+export function tokenizeCommand(input: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(input.trim())) !== null) {
+    const [, doubleQuoted, singleQuoted, bare] = match as unknown as (
+      string | undefined
+    )[];
+    tokens.push(doubleQuoted ?? singleQuoted ?? bare ?? "");
+  }
+
+  return tokens;
+}
+
+/**
+ * Group resolved by the registry for commands that declare a groupArg
+ */
+export function requireGroup<TServices>(
+  ctx: CommandContext<TServices>,
+): DualGroupConfig {
+  if (!ctx.group) {
+    throw new Error("Command has no resolved group (missing groupArg?)");
+  }
+  return ctx.group;
+}
+
+export class CommandRegistry<TServices> {
+  private commands = new Map<string, CommandDefinition<TServices>>();
+  private aliases = new Map<string, string>();
+  private options: CommandRegistryOptions;
+
+  constructor(options: CommandRegistryOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Register a command definition
+   */
+  register(definition: CommandDefinition<TServices>): this {
+    const name = definition.name.toLowerCase();
+    if (this.commands.has(name) || this.aliases.has(name)) {
+      throw new Error(`Command already registered: /${name}`);
+    }
+
+    const args = (definition.args ?? []).filter((arg) => !arg.flag);
+    args.forEach((arg, index) => {
+      if (arg.rest && index !== args.length - 1) {
+        throw new Error(`/${name}: rest argument "${arg.name}" must be last`);
+      }
+    });
+
+    this.commands.set(name, definition);
+    for (const alias of definition.aliases ?? []) {
+      this.aliases.set(alias.toLowerCase(), name);
+    }
+    return this;
+  }
+
+  /**
+   * Look up a command by name or alias
+   */
+  resolve(name: string): CommandDefinition<TServices> | undefined {
+    const key = name.replace(/^\//, "").toLowerCase();
+    return this.commands.get(this.aliases.get(key) ?? key);
+  }
+
+  /**
+   * All registered commands in registration order
+   */
+  list(): CommandDefinition<TServices>[] {
+    return Array.from(this.commands.values());
+  }
+
+  /**
+   * Usage line, e.g. `/grant-trial <group> <address> <days>`
+   */
+  formatUsage(definition: CommandDefinition<TServices>): string {
+    const args = (definition.args ?? []).map((arg) => {
+      if (arg.flag) {
+        const label = `--${arg.name} <${arg.name}>`;
+        return arg.required === false ? `[${label}]` : label;
+      }
+      const label = arg.rest ? `${arg.name}...` : arg.name;
+      return arg.required === false ? `[${label}]` : `<${label}>`;
+    });
+    return [`/${definition.name}`, ...args].join(" ");
+  }
+
+  /**
+   * Command list for /help, generated from the registered definitions
+   */
+  formatHelp(): string {
+    return this.list()
+      .filter((definition) => !definition.hidden)
+      .map((definition) => {
+        const icon = definition.icon ? `${definition.icon} ` : "• ";
+        const role =
+          definition.role && definition.role !== "anyone"
+            ? ` (${definition.role}s only)`
+            : "";
+        return `${icon}\`${this.formatUsage(definition)}\` - ${definition.description}${role}`;
+      })
+      .join("\n");
+  }
+
+  /**
+   * Consistent usage error text
+   */
+  formatUsageError(
+    definition: CommandDefinition<TServices>,
+    reason?: string,
+  ): string {
+    return (
+      (reason ? `❌ ${reason}\n\n` : "") +
+      `Usage: \`${this.formatUsage(definition)}\`` +
+      (definition.example ? `\nExample: \`${definition.example}\`` : "")
+    );
+  }
+
+  /**
+   * Parse and run a command message
+   * @returns false if the message is not a registered command
+   */
+  async dispatch(
+    messageContent: string,
+    base: Omit<
+      CommandContext<TServices>,
+      "args" | "group" | "registry" | "messageContent"
+    >,
+  ): Promise<boolean> {
+    const tokens = tokenizeCommand(messageContent);
+    if (tokens.length === 0 || !tokens[0].startsWith("/")) {
+      return false;
+    }
+
+    const definition = this.resolve(tokens[0]);
+    if (!definition) {
+      return false;
+    }
+
+    const { conversation, senderInboxId } = base;
+
+    const rateLimit = definition.rateLimit ?? this.options.defaultRateLimit;
+    if (this.options.rateLimiter && rateLimit) {
+      const limit = this.options.rateLimiter.consume(
+        senderInboxId,
+        definition.name,
+        rateLimit,
+      );
+      if (!limit.allowed) {
+        console.log(
+          `🚦 Rate limited /${definition.name} for ${senderInboxId} (${limit.retryAfterMs}ms)`,
+        );
+        // Only reply once per limited window so spam doesn't become spam back
+        if (limit.shouldNotify) {
+          await conversation.send(
+            `⏳ Slow down! You can use /${definition.name} again in ${formatRetryAfter(limit.retryAfterMs)}.`,
+          );
+        }
+        return true;
+      }
+    }
+
+    let args: Record<string, string>;
+    try {
+      args = this.parseArgs(definition, tokens.slice(1));
+    } catch (error) {
+      if (error instanceof CommandUsageError) {
+        await conversation.send(
+          this.formatUsageError(definition, error.message || undefined),
+        );
+        return true;
+      }
+      throw error;
+    }
+
+    let group: DualGroupConfig | undefined;
+    if (definition.groupArg && args[definition.groupArg]) {
+      group = this.options.findGroup(args[definition.groupArg]);
+      if (!group) {
+        await conversation.send(
+          `❌ Group "${args[definition.groupArg]}" not found. Use \`/list-groups\` to see available groups.`,
+        );
+        return true;
+      }
+    }
+
+    const role = definition.role ?? "anyone";
+    if (role === "operator") {
+      if (!this.options.isOperator?.(senderInboxId)) {
+        await conversation.send(
+          `❌ Only the agent operator can use /${definition.name}.`,
+        );
+        return true;
+      }
+    } else if (role !== "anyone") {
+      const allowed = group
+        ? await this.hasRole(role, group, senderInboxId)
+        : false;
+      if (!allowed) {
+        await conversation.send(
+          role === "creator"
+            ? `❌ Only the group creator can use /${definition.name}.`
+            : `❌ Only group members can use /${definition.name}.`,
+        );
+        return true;
+      }
+    }
+
+    try {
+      await definition.handler({
+        ...base,
+        messageContent,
+        args,
+        group,
+        registry: this,
+      });
+    } catch (error) {
+      if (error instanceof CommandUsageError) {
+        await conversation.send(
+          this.formatUsageError(definition, error.message || undefined),
+        );
+        return true;
+      }
+      throw error;
+    }
+
+    return true;
+  }
+
+  private async hasRole(
+    role: CommandRole,
+    group: DualGroupConfig,
+    inboxId: string,
+  ): Promise<boolean> {
+    if (group.creatorInboxId === inboxId) {
+      return true;
+    }
+    if (role === "member") {
+      return this.options.isGroupMember(group, inboxId);
+    }
+    return false;
+  }
+
+  private parseArgs(
+    definition: CommandDefinition<TServices>,
+    tokens: string[],
+  ): Record<string, string> {
+    const flagSpecs = (definition.args ?? []).filter((spec) => spec.flag);
+    const specs = (definition.args ?? []).filter((spec) => !spec.flag);
+    const args: Record<string, string> = {};
+
+    // Flags may appear anywhere; the remaining tokens are matched by position
+    const positional: string[] = [];
+    const flags = new Map<string, string>();
+    for (let i = 0; i < tokens.length; i++) {
+      const spec = flagSpecs.find(
+        (s) => `--${s.name}` === tokens[i].toLowerCase(),
+      );
+      if (!spec) {
+        positional.push(tokens[i]);
+        continue;
+      }
+      const value = tokens[i + 1] as string | undefined;
+      if (!value || value.startsWith("--")) {
+        throw new CommandUsageError(`--${spec.name} needs a value.`);
+      }
+      flags.set(spec.name, value);
+      i++;
+    }
+
+    for (const spec of flagSpecs) {
+      const value = flags.get(spec.name);
+      if (value === undefined) {
+        if (spec.required === false) continue;
+        throw new CommandUsageError(`--${spec.name} is required.`);
+      }
+      args[spec.name] = this.validateArg(spec, value);
+    }
+
+    for (let i = 0; i < specs.length; i++) {
+      const spec = specs[i];
+      const value = spec.rest ? positional.slice(i).join(" ") : positional[i];
+
+      if (!value) {
+        if (spec.required === false) continue;
+        throw new CommandUsageError();
+      }
+
+      args[spec.name] = this.validateArg(spec, value);
+    }
+
+    if (positional.length > specs.length && !specs.some((spec) => spec.rest)) {
+      throw new CommandUsageError("Too many arguments.");
+    }
+
+    return args;
+  }
+
+  private validateArg(spec: CommandArgSpec, value: string): string {
+    if (spec.type === "number") {
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed) || parsed <= 0) {
+        throw new CommandUsageError(
+          `"${spec.name}" must be a positive number.`,
+        );
+      }
+    }
+
+    if (spec.type === "address" && !/^0x[a-fA-F0-9]{40}$/.test(value)) {
+      throw new CommandUsageError(
+        `"${spec.name}" must be a 0x-prefixed wallet address.`,
+      );
+    }
+
+    return value;
+  }
+}
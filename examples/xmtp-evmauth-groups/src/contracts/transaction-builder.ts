@@ -0,0 +1,194 @@
+/**
+ * Typed transaction builders for EVMAuthV2 and XMTPGroupExtension
+ * Calldata is always ABI-encoded with viem against the generated ABIs in
+ * ./abis - never assemble selectors by hand.
+ */
+
+import type { WalletSendCallsParams } from "@xmtp/content-type-wallet-send-calls";
+import { encodeFunctionData, toHex, type Address, type Hex } from "viem";
+import { EVMAUTH_V2_ABI, XMTP_GROUP_EXTENSION_ABI } from "./abis";
+
+export interface TransactionRequest {
+  to: Address;
+  data: Hex;
+  /** Native value in wei */
+  value: bigint;
+}
+
+type WalletCall = WalletSendCallsParams["calls"][number];
+
+/**
+ * Purchase tokens via EVMAuthV2.purchase; value is price * amount in wei
+ */
+export function buildPurchase(
+  contractAddress: string,
+  params: {
+    account: string;
+    tokenId: bigint | number;
+    amount?: bigint;
+    /** Native payment to attach (0 for tokens paid with ERC-20) */
+    value?: bigint;
+  },
+): TransactionRequest {
+  return {
+    to: contractAddress as Address,
+    data: encodeFunctionData({
+      abi: EVMAUTH_V2_ABI,
+      functionName: "purchase",
+      args: [
+        params.account as Address,
+        BigInt(params.tokenId),
+        params.amount ?? 1n,
+      ],
+    }),
+    value: params.value ?? 0n,
+  };
+}
+
+/**
+ * Purchase through the XMTP extension so the purchase is recorded with
+ * the buyer's inbox ID
+ */
+export function buildXMTPPurchase(
+  extensionAddress: string,
+  params: { tokenId: bigint | number; value: bigint; transactionHash?: string },
+): TransactionRequest {
+  return {
+    to: extensionAddress as Address,
+    data: encodeFunctionData({
+      abi: XMTP_GROUP_EXTENSION_ABI,
+      functionName: "purchaseXMTPAccess",
+      args: [BigInt(params.tokenId), params.transactionHash ?? ""],
+    }),
+    value: params.value,
+  };
+}
+
+/**
+ * Issue tokens for free (requires the token minter role)
+ */
+export function buildIssue(
+  contractAddress: string,
+  params: {
+    to: string;
+    tokenId: bigint | number;
+    amount?: bigint;
+    data?: Hex;
+  },
+): TransactionRequest {
+  return {
+    to: contractAddress as Address,
+    data: encodeFunctionData({
+      abi: EVMAUTH_V2_ABI,
+      functionName: "issue",
+      args: [
+        params.to as Address,
+        BigInt(params.tokenId),
+        params.amount ?? 1n,
+        params.data ?? "0x",
+      ],
+    }),
+    value: 0n,
+  };
+}
+
+/**
+ * Grant access through the XMTP extension (owner only)
+ */
+export function buildGrant(
+  extensionAddress: string,
+  params: { user: string; tokenId: bigint | number; userInboxId: string },
+): TransactionRequest {
+  return {
+    to: extensionAddress as Address,
+    data: encodeFunctionData({
+      abi: XMTP_GROUP_EXTENSION_ABI,
+      functionName: "grantXMTPAccess",
+      args: [
+        params.user as Address,
+        BigInt(params.tokenId),
+        params.userInboxId,
+      ],
+    }),
+    value: 0n,
+  };
+}
+
+/**
+ * Revoke access through the XMTP extension (owner only)
+ */
+export function buildRevoke(
+  extensionAddress: string,
+  params: { user: string; tokenId: bigint | number; reason: string },
+): TransactionRequest {
+  return {
+    to: extensionAddress as Address,
+    data: encodeFunctionData({
+      abi: XMTP_GROUP_EXTENSION_ABI,
+      functionName: "revokeXMTPAccess",
+      args: [params.user as Address, BigInt(params.tokenId), params.reason],
+    }),
+    value: 0n,
+  };
+}
+
+/**
+ * Configure a token: sale status, transfer rules, price and TTL (seconds)
+ */
+export function buildSetMetadata(
+  contractAddress: string,
+  params: {
+    tokenId: bigint | number;
+    active: boolean;
+    burnable: boolean;
+    transferable: boolean;
+    price: bigint;
+    ttl: bigint;
+  },
+): TransactionRequest {
+  return {
+    to: contractAddress as Address,
+    data: encodeFunctionData({
+      abi: EVMAUTH_V2_ABI,
+      functionName: "setMetadata",
+      args: [
+        BigInt(params.tokenId),
+        params.active,
+        params.burnable,
+        params.transferable,
+        params.price,
+        params.ttl,
+      ],
+    }),
+    value: 0n,
+  };
+}
+
+/**
+ * Withdraw collected funds to the contract's wallet
+ */
+export function buildWithdraw(contractAddress: string): TransactionRequest {
+  return {
+    to: contractAddress as Address,
+    data: encodeFunctionData({
+      abi: EVMAUTH_V2_ABI,
+      functionName: "withdraw",
+    }),
+    value: 0n,
+  };
+}
+
+/**
+ * Convert to a WalletSendCalls call (value as hex)
+ */
+export function toWalletCall(
+  tx: TransactionRequest,
+  metadata: WalletCall["metadata"],
+): WalletCall {
+  return {
+    to: tx.to,
+    data: tx.data,
+    value: toHex(tx.value),
+    metadata,
+  };
+}
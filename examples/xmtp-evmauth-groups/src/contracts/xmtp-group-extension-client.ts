@@ -0,0 +1,374 @@
+/**
+ * Typed client for the contractsv2 XMTPGroupExtension
+ * Covers every read, write and event in the compiled ABI. Writes need a
+ * wallet client whose account is the extension owner (the agent).
+ */
+
+import {
+  keccak256,
+  toHex,
+  type Account,
+  type Address,
+  type Chain,
+  type ContractEventName,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type ContractFunctionReturnType,
+  type Hash,
+  type Log,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+  type WatchContractEventOnLogsParameter,
+  type WriteContractParameters,
+} from "viem";
+import { EVMAUTH_V2_ABI, XMTP_GROUP_EXTENSION_ABI } from "./abis";
+
+/** Name the factory registers the extension under on the base contract */
+export const XMTP_GROUP_EXTENSION_ID = keccak256(toHex("XMTP_GROUP_EXTENSION"));
+
+/**
+ * Thrown when a base contract has no XMTP group extension registered, as
+ * opposed to the lookup failing
+ */
+export class MissingExtensionError extends Error {
+  constructor(baseContract: string) {
+    super(`No XMTP group extension registered on contract ${baseContract}`);
+    this.name = "MissingExtensionError";
+  }
+}
+
+export interface XMTPAccessTier {
+  tokenId: bigint;
+  name: string;
+  description: string;
+  imageHash: string;
+  metadataUri: string;
+  isActive: boolean;
+  createdAt: bigint;
+}
+
+export interface XMTPPurchaseRecord {
+  user: Address;
+  userInboxId: string;
+  tokenId: bigint;
+  purchasePrice: bigint;
+  purchasedAt: bigint;
+  expiresAt: bigint;
+  isActive: boolean;
+  transactionHash: string;
+}
+
+export interface XMTPInfo {
+  salesGroupId: string;
+  premiumGroupId: string;
+  botAddress: Address;
+  isActive: boolean;
+  linkedAt: bigint;
+}
+
+export interface ExtensionInfo {
+  name: string;
+  version: string;
+  baseContract: Address;
+  isActive: boolean;
+}
+
+export type XMTPGroupExtensionEventName = ContractEventName<
+  typeof XMTP_GROUP_EXTENSION_ABI
+>;
+
+export type XMTPGroupExtensionLog<T extends XMTPGroupExtensionEventName> = Log<
+  bigint,
+  number,
+  false,
+  undefined,
+  true,
+  typeof XMTP_GROUP_EXTENSION_ABI,
+  T
+>;
+
+type ExtensionAbi = typeof XMTP_GROUP_EXTENSION_ABI;
+/** Only the actions the client uses, so any chain's public client fits */
+type ExtensionPublicClient = Pick<
+  PublicClient,
+  "readContract" | "watchContractEvent" | "getContractEvents"
+>;
+type AgentWalletClient = WalletClient<Transport, Chain, Account>;
+
+export class XMTPGroupExtensionClient {
+  readonly address: Address;
+  private publicClient: ExtensionPublicClient;
+  private walletClient?: AgentWalletClient;
+
+  constructor(
+    address: string,
+    publicClient: ExtensionPublicClient,
+    walletClient?: AgentWalletClient,
+  ) {
+    this.address = address as Address;
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+  }
+
+  /**
+   * Resolve the extension registered on an EVMAuthV2 base contract
+   */
+  static async fromBaseContract(
+    baseContract: string,
+    publicClient: ExtensionPublicClient,
+    walletClient?: AgentWalletClient,
+  ): Promise<XMTPGroupExtensionClient> {
+    const extension = await publicClient.readContract({
+      address: baseContract as Address,
+      abi: EVMAUTH_V2_ABI,
+      functionName: "extensions",
+      args: [XMTP_GROUP_EXTENSION_ID],
+    });
+
+    if (BigInt(extension) === 0n) {
+      throw new MissingExtensionError(baseContract);
+    }
+    return new XMTPGroupExtensionClient(extension, publicClient, walletClient);
+  }
+
+  // ---- Reads ----
+
+  owner(): Promise<Address> {
+    return this.read("owner");
+  }
+
+  /** Address of the EVMAuthV2 base contract */
+  evmAuth(): Promise<Address> {
+    return this.read("evmAuth");
+  }
+
+  async getExtensionInfo(): Promise<ExtensionInfo> {
+    const [name, version, baseContract, isActive] =
+      await this.read("getExtensionInfo");
+    return { name, version, baseContract, isActive };
+  }
+
+  async xmtpInfo(): Promise<XMTPInfo> {
+    const [salesGroupId, premiumGroupId, botAddress, isActive, linkedAt] =
+      await this.read("xmtpInfo");
+    return { salesGroupId, premiumGroupId, botAddress, isActive, linkedAt };
+  }
+
+  getXMTPTier(tokenId: bigint): Promise<XMTPAccessTier> {
+    return this.read("getXMTPTier", [tokenId]);
+  }
+
+  async getActiveXMTPTiers(): Promise<bigint[]> {
+    return [...(await this.read("getActiveXMTPTiers"))];
+  }
+
+  getXMTPPurchaseRecord(index: bigint): Promise<XMTPPurchaseRecord> {
+    return this.read("getXMTPPurchaseRecord", [index]);
+  }
+
+  /** Purchase record indexes for a user */
+  async getXMTPUserPurchases(user: string): Promise<bigint[]> {
+    return [...(await this.read("getXMTPUserPurchases", [user as Address]))];
+  }
+
+  /**
+   * Full purchase records for a user (resolves the indexes)
+   */
+  async getUserPurchaseRecords(user: string): Promise<XMTPPurchaseRecord[]> {
+    const indexes = await this.getXMTPUserPurchases(user);
+    return Promise.all(
+      indexes.map((index) => this.getXMTPPurchaseRecord(index)),
+    );
+  }
+
+  hasValidXMTPAccess(user: string): Promise<boolean> {
+    return this.read("hasValidXMTPAccess", [user as Address]);
+  }
+
+  hasValidAccessByInboxId(inboxId: string): Promise<boolean> {
+    return this.read("hasValidAccessByInboxId", [inboxId]);
+  }
+
+  async batchCheckXMTPAccess(users: string[]): Promise<boolean[]> {
+    return [...(await this.read("batchCheckXMTPAccess", [users as Address[]]))];
+  }
+
+  userInboxId(user: string): Promise<string> {
+    return this.read("userInboxIds", [user as Address]);
+  }
+
+  inboxToAddress(inboxId: string): Promise<Address> {
+    return this.read("inboxToAddress", [inboxId]);
+  }
+
+  // ---- Writes ----
+
+  purchaseXMTPAccess(
+    tokenId: bigint,
+    value: bigint,
+    transactionHash = "",
+  ): Promise<Hash> {
+    return this.write("purchaseXMTPAccess", [tokenId, transactionHash], value);
+  }
+
+  grantXMTPAccess(
+    user: string,
+    tokenId: bigint,
+    userInboxId: string,
+  ): Promise<Hash> {
+    return this.write("grantXMTPAccess", [
+      user as Address,
+      tokenId,
+      userInboxId,
+    ]);
+  }
+
+  revokeXMTPAccess(
+    user: string,
+    tokenId: bigint,
+    reason: string,
+  ): Promise<Hash> {
+    return this.write("revokeXMTPAccess", [user as Address, tokenId, reason]);
+  }
+
+  setupXMTPAccessTier(tier: {
+    tokenId: bigint;
+    name: string;
+    description: string;
+    imageHash: string;
+    metadataUri: string;
+  }): Promise<Hash> {
+    return this.write("setupXMTPAccessTier", [
+      tier.tokenId,
+      tier.name,
+      tier.description,
+      tier.imageHash,
+      tier.metadataUri,
+    ]);
+  }
+
+  storeUserInboxId(user: string, inboxId: string): Promise<Hash> {
+    return this.write("storeUserInboxId", [user as Address, inboxId]);
+  }
+
+  updateXMTPInfo(
+    salesGroupId: string,
+    premiumGroupId: string,
+    botAddress: string,
+  ): Promise<Hash> {
+    return this.write("updateXMTPInfo", [
+      salesGroupId,
+      premiumGroupId,
+      botAddress as Address,
+    ]);
+  }
+
+  toggleXMTPIntegration(): Promise<Hash> {
+    return this.write("toggleXMTPIntegration", []);
+  }
+
+  withdraw(): Promise<Hash> {
+    return this.write("withdraw", []);
+  }
+
+  transferOwnership(newOwner: string): Promise<Hash> {
+    return this.write("transferOwnership", [newOwner as Address]);
+  }
+
+  renounceOwnership(): Promise<Hash> {
+    return this.write("renounceOwnership", []);
+  }
+
+  // ---- Events ----
+
+  /**
+   * Watch one extension event
+   * @returns unwatch function
+   */
+  watchEvent<T extends XMTPGroupExtensionEventName>(
+    eventName: T,
+    onLogs: (
+      logs: WatchContractEventOnLogsParameter<ExtensionAbi, T, true>,
+    ) => void | Promise<void>,
+    onError?: (error: Error) => void,
+  ): () => void {
+    return this.publicClient.watchContractEvent({
+      address: this.address,
+      abi: XMTP_GROUP_EXTENSION_ABI,
+      eventName,
+      strict: true,
+      onLogs: (logs) => {
+        // viem cannot narrow the log type through a generic event name
+        void onLogs(
+          logs as unknown as WatchContractEventOnLogsParameter<
+            ExtensionAbi,
+            T,
+            true
+          >,
+        );
+      },
+      onError,
+    });
+  }
+
+  /**
+   * Fetch past logs for one extension event
+   */
+  async getEvents<T extends XMTPGroupExtensionEventName>(
+    eventName: T,
+    fromBlock: bigint,
+    toBlock?: bigint,
+  ): Promise<XMTPGroupExtensionLog<T>[]> {
+    const logs = await this.publicClient.getContractEvents({
+      address: this.address,
+      abi: XMTP_GROUP_EXTENSION_ABI,
+      eventName,
+      fromBlock,
+      toBlock,
+      strict: true,
+    });
+    return logs;
+  }
+
+  // ---- Internals ----
+
+  private read<
+    F extends ContractFunctionName<ExtensionAbi, "view">,
+    const A extends ContractFunctionArgs<ExtensionAbi, "view", F>,
+  >(
+    functionName: F,
+    args?: A,
+  ): Promise<ContractFunctionReturnType<ExtensionAbi, "view", F, A>> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: XMTP_GROUP_EXTENSION_ABI,
+      functionName,
+      args,
+    });
+  }
+
+  private write<
+    F extends ContractFunctionName<ExtensionAbi, "nonpayable" | "payable">,
+  >(
+    functionName: F,
+    args: ContractFunctionArgs<ExtensionAbi, "nonpayable" | "payable", F>,
+    value?: bigint,
+  ): Promise<Hash> {
+    if (!this.walletClient) {
+      throw new Error(
+        `XMTPGroupExtensionClient for ${this.address} is read-only: ${functionName} needs a wallet client`,
+      );
+    }
+
+    return this.walletClient.writeContract({
+      address: this.address,
+      abi: XMTP_GROUP_EXTENSION_ABI,
+      functionName,
+      args,
+      value,
+      chain: this.walletClient.chain,
+      account: this.walletClient.account,
+    } as WriteContractParameters<ExtensionAbi, F>);
+  }
+}
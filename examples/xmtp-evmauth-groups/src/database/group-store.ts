@@ -0,0 +1,406 @@
+/**
+ * Storage interface for group records, tier sessions and scan progress
+ * Managers and handlers depend on this, not on a concrete backend.
+ */
+
+import type { Collaborator, ReferralReward } from "../types/types";
+import type { PaymentTokenInfo } from "../utils/payment-tokens";
+import type { Discount } from "../utils/price-service";
+import type { GiftDetails } from "../utils/purchase-verifier";
+import { JSONDatabase } from "./json-database";
+import { runMigrations } from "./migrations";
+
+/**
+ * Lifecycle of a group, from the creation payment to an active sale
+ * - payment_pending: /create-group sent, waiting for the creation fee
+ * - deploying: payment received, contract and chats being created
+ * - created: contract and chats exist, no tiers yet
+ * - tiers_setup: creator is configuring tiers
+ * - active: tiers configured, access is on sale
+ */
+export type GroupStatus =
+  "payment_pending" | "deploying" | "created" | "tiers_setup" | "active";
+
+export interface GroupRecord {
+  id: string;
+  name: string;
+  creatorInboxId: string;
+  creatorAddress: string;
+  contractAddress: string;
+  salesGroupId: string;
+  premiumGroupId: string;
+  status: GroupStatus;
+  createdAt: string;
+  updatedAt: string;
+  tiers?: AccessTierRecord[];
+  /** Transaction that paid the creation fee */
+  paymentHash?: string;
+  /** Payment token symbols buyers can pay with (USDC when omitted) */
+  acceptedTokens?: string[];
+  /** No referral reward when omitted */
+  referralReward?: ReferralReward;
+  /** No collaborator shares when omitted */
+  collaborators?: Collaborator[];
+  /** Platform fee percentage overriding the agent's (FeeConfig) */
+  customFeePercentage?: number;
+}
+
+export interface AccessTierRecord {
+  id: number;
+  /** Original AccessTier.id when it is not numeric */
+  tierId?: string;
+  name: string;
+  priceUsd: number;
+  /** Raw price in the payment token's smallest unit */
+  priceWei?: string;
+  /** Token priceWei is denominated in; USDC when omitted */
+  paymentToken?: string;
+  durationDays: number;
+  description?: string;
+  imageUrl?: string;
+  metadataUri?: string;
+}
+
+export interface TierSession {
+  userInboxId: string;
+  contractAddress: string;
+  step: string;
+  currentTierIndex: number;
+  totalTiers: number;
+  tiers: unknown[];
+  pendingAttachments: Record<number, unknown>;
+  createdAt: string;
+}
+
+/**
+ * Lifecycle of a /create-group creation fee payment
+ * - pending: waiting for the fee
+ * - paid: fee received, deployment in progress
+ * - fulfilled: group deployed
+ * - expired: timed out unpaid (kept so a late payment is still recognised)
+ * - orphaned: paid but not fulfilled (refunded, or reported to the operator)
+ */
+export type PaymentStatus =
+  "pending" | "paid" | "fulfilled" | "expired" | "orphaned";
+
+export interface PaymentRecord {
+  id: string;
+  senderInboxId: string;
+  groupName: string;
+  memberAddress: string;
+  /** Calldata reference the payment transaction must carry */
+  reference: string;
+  /** Conversation to report back to (resolved through the client) */
+  conversationId: string;
+  status: PaymentStatus;
+  /** Transaction that paid the fee */
+  txHash?: string;
+  /** Amount that transaction paid, in wei */
+  amountWei?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Refund of a payment that could not be fulfilled
+ * - pending: queued, or waiting to retry
+ * - sent: refund transaction confirmed
+ * - failed: retries exhausted, left to the operator
+ */
+export type RefundStatus = "pending" | "sent" | "failed";
+
+export interface RefundRecord {
+  /**
+   * The refunded payment's tx hash (plus the payout's index for payouts),
+   * so each is sent once
+   */
+  id: string;
+  /**
+   * A refund to the payer, or a share of the payment the agent passes on
+   * to someone else; refund when omitted
+   */
+  kind?: "refund" | "payout";
+  paymentId: string;
+  recipient: string;
+  /** Amount in the token's smallest unit */
+  amountWei: string;
+  /** Refunded token; ETH when omitted */
+  token?: PaymentTokenInfo;
+  reason: string;
+  conversationId: string;
+  status: RefundStatus;
+  attempts: number;
+  /** Latest refund transaction sent */
+  txHash?: string;
+  /** Agent nonce txHash was sent with, checked before any resend */
+  nonce?: number;
+  /** Earlier transactions sent on the same nonce; any of them may be mined */
+  earlierTxHashes?: string[];
+  lastError?: string;
+  nextAttemptAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Lifecycle of an access purchase (/buy-access, /gift, /buy-seats, /renew)
+ * - pending: waiting for the payment, including late payments after the
+ *   buyer was told it timed out
+ * - fulfilled: paid, and the access granted or the payment refunded
+ * - expired: no payment arrived at all
+ */
+export type PurchaseStatus = "pending" | "fulfilled" | "expired";
+
+export interface PurchaseRecord {
+  id: string;
+  status: PurchaseStatus;
+  buyerAddress: string;
+  buyerInboxId: string;
+  contractAddress: string;
+  tokenId: number;
+  paymentToken: PaymentTokenInfo;
+  /** Contract's payment wallet, which ERC-20 payments are transferred to */
+  paymentWallet?: string;
+  /** Price paid, in the payment token's smallest unit */
+  amount: string;
+  /** Paid by the agent once the purchase is fulfilled, amounts as strings */
+  payouts?: Array<{ to: string; amount: string; description: string }>;
+  tierName: string;
+  durationDays: number;
+  gift?: GiftDetails;
+  seats?: number;
+  promoCode?: string;
+  referralCode?: string;
+  /** Conversation to report back to (resolved through the client) */
+  conversationId: string;
+  /** Block the payment is looked for from */
+  startBlock: string;
+  /** Holder's balance of the token when the purchase was sent */
+  startBalance: string;
+  /** Set once the buyer was told the payment is late */
+  timedOut?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A seat handed out from a pool; the member has access until it is
+ * reclaimed or the pool expires
+ */
+export interface SeatAssignment {
+  address: string;
+  inboxId: string;
+  assignedAt: string;
+  /** Set when the purchaser takes the seat back */
+  reclaimedAt?: string;
+}
+
+/**
+ * Access tokens bought in bulk and held by the purchaser, who assigns
+ * them to team members as seats
+ */
+export interface SeatPool {
+  /** The purchase tx hash, so each purchase creates one pool */
+  id: string;
+  contractAddress: string;
+  tokenId: number;
+  tierName: string;
+  ownerAddress: string;
+  ownerInboxId: string;
+  /** Number of tokens bought */
+  seats: number;
+  /** Every assignment, including reclaimed ones */
+  assignments: SeatAssignment[];
+  purchasedAt: string;
+  /**
+   * When the pool's tokens, and so every seat, expire on chain (omitted if
+   * the tier never expires)
+   */
+  expiresAt?: string;
+}
+
+/**
+ * One use of a promo code
+ * - pending: purchase sent to the buyer's wallet, not yet paid
+ * - redeemed: payment confirmed on chain
+ */
+export interface PromoRedemption {
+  purchaseId: string;
+  buyerInboxId: string;
+  buyerAddress: string;
+  tierId: string;
+  status: "pending" | "redeemed";
+  /** Amount taken off, in the payment token's smallest unit */
+  discountAmount: string;
+  paymentToken: string;
+  reservedAt: string;
+  redeemedAt?: string;
+}
+
+/**
+ * Discount code created by a group's creator with /promo
+ */
+export interface PromoCodeRecord {
+  /** Upper-case code, unique within its group */
+  code: string;
+  contractAddress: string;
+  discount: Discount;
+  /** Unlimited when omitted */
+  maxUses?: number;
+  expiresAt?: string;
+  disabled?: boolean;
+  createdBy: string;
+  createdAt: string;
+  redemptions: PromoRedemption[];
+}
+
+/**
+ * Referral code a member shares with /referral-link, one per member and group
+ */
+export interface ReferralLink {
+  /** Upper-case code given to --ref */
+  code: string;
+  contractAddress: string;
+  referrerInboxId: string;
+  referrerAddress: string;
+  createdAt: string;
+}
+
+/**
+ * A purchase made with a referral code
+ * - pending: purchase sent to the buyer's wallet, not yet paid
+ * - confirmed: payment verified on chain and the referrer rewarded
+ */
+export interface ReferralRecord {
+  /** The purchase the referral came with */
+  purchaseId: string;
+  code: string;
+  contractAddress: string;
+  referrerInboxId: string;
+  referrerAddress: string;
+  buyerInboxId: string;
+  buyerAddress: string;
+  tierName: string;
+  /** Price paid, in the payment token's smallest unit */
+  amount: string;
+  paymentToken: string;
+  /** The group's reward when the purchase was made */
+  reward?: ReferralReward;
+  /** Percent rewards: paid by the agent out of the creator's share */
+  rewardAmount?: string;
+  status: "pending" | "confirmed";
+  /** Purchase payment transaction */
+  txHash?: string;
+  /** Day rewards: the referrer's extra access runs until then */
+  extendedUntil?: string;
+  createdAt: string;
+  confirmedAt?: string;
+}
+
+export interface GroupStoreStats {
+  totalGroups: number;
+  activeGroups: number;
+  pendingSessions: number;
+  lastScannedBlock: number;
+}
+
+export interface GroupStore {
+  // Group Management
+  createGroup(
+    group: Omit<GroupRecord, "id" | "createdAt" | "updatedAt">,
+  ): Promise<GroupRecord>;
+  findGroupByName(
+    creatorInboxId: string,
+    groupName: string,
+  ): Promise<GroupRecord | null>;
+  findGroupByContract(contractAddress: string): Promise<GroupRecord | null>;
+  /** Look up by sales or premium XMTP group ID */
+  findGroupByGroupId(groupId: string): Promise<GroupRecord | null>;
+  updateGroup(id: string, updates: Partial<GroupRecord>): Promise<boolean>;
+  getUserGroups(creatorInboxId: string): Promise<GroupRecord[]>;
+  getAllGroups(): Promise<GroupRecord[]>;
+
+  // Tier Session Management
+  saveTierSession(session: TierSession): Promise<void>;
+  getTierSession(userInboxId: string): Promise<TierSession | null>;
+  deleteTierSession(userInboxId: string): Promise<boolean>;
+  /** Remove sessions older than 24 hours, returns the number removed */
+  cleanupOldSessions(): Promise<number>;
+
+  // Block tracking for efficient recovery
+  updateLastScannedBlock(blockNumber: number): Promise<void>;
+  getLastScannedBlock(): Promise<number>;
+
+  // Payment transactions already credited, so each is consumed at most once
+  /** Record a consumed payment tx, returns false if it was already recorded */
+  markPaymentProcessed(txHash: string, paymentId: string): Promise<boolean>;
+  isPaymentProcessed(txHash: string): Promise<boolean>;
+
+  // Creation payments, so monitoring survives restarts
+  /** Insert or replace a payment by ID */
+  savePayment(payment: PaymentRecord): Promise<void>;
+  getPayments(status?: PaymentStatus): Promise<PaymentRecord[]>;
+  findPaymentByReference(reference: string): Promise<PaymentRecord | null>;
+
+  // Refunds of unfulfilled payments
+  /** Insert or replace a refund by ID */
+  saveRefund(refund: RefundRecord): Promise<void>;
+  getRefunds(status?: RefundStatus): Promise<RefundRecord[]>;
+
+  // Access purchases waiting for payment, so verification survives restarts
+  /** Insert or replace a purchase by ID */
+  savePurchase(purchase: PurchaseRecord): Promise<void>;
+  getPurchases(status?: PurchaseStatus): Promise<PurchaseRecord[]>;
+
+  // Seat pools bought with /buy-seats
+  /** Insert or replace a seat pool by ID */
+  saveSeatPool(pool: SeatPool): Promise<void>;
+  getSeatPools(contractAddress?: string): Promise<SeatPool[]>;
+
+  // Promo codes and their redemptions
+  /** Insert or replace a promo code by group and code */
+  savePromoCode(promo: PromoCodeRecord): Promise<void>;
+  getPromoCodes(contractAddress?: string): Promise<PromoCodeRecord[]>;
+
+  // Referral links and the purchases made with them
+  /** Insert or replace a referral link by group and code */
+  saveReferralLink(link: ReferralLink): Promise<void>;
+  getReferralLinks(contractAddress?: string): Promise<ReferralLink[]>;
+  /** Insert or replace a referral by purchase ID */
+  saveReferral(referral: ReferralRecord): Promise<void>;
+  getReferrals(contractAddress?: string): Promise<ReferralRecord[]>;
+
+  // Statistics
+  getStats(): GroupStoreStats;
+
+  // Schema versioning
+  getSchemaVersion(): Promise<number>;
+  setSchemaVersion(version: number): Promise<void>;
+  /** Copy the store to a timestamped backup file, returns its path */
+  backup(): Promise<string | null>;
+}
+
+export type GroupStoreBackend = "sqlite" | "json";
+
+/**
+ * Create the configured store and bring its schema up to date
+ * GROUP_STORE=json selects the JSON file backend (dev fallback),
+ * anything else uses SQLite. node:sqlite is only loaded for the SQLite
+ * backend, so the JSON store also runs on Node versions without it.
+ */
+export async function createGroupStore(
+  dataDir = "./.data",
+  backend: GroupStoreBackend = process.env.GROUP_STORE === "json"
+    ? "json"
+    : "sqlite",
+): Promise<GroupStore> {
+  console.log(`💾 Using ${backend} group store`);
+  const store =
+    backend === "json"
+      ? new JSONDatabase(dataDir)
+      : new (await import("./sqlite-group-store")).SQLiteGroupStore(dataDir);
+
+  // Migrations run before anything else reads from the store
+  await runMigrations(store, dataDir);
+  return store;
+}
@@ -1,53 +1,55 @@
 /**
  * Simple JSON Database for Group Management
  * Prevents duplicates and provides persistence
+ * Dev fallback for the SQLite store (GROUP_STORE=json)
  */
 
 import fs from 'fs';
 import path from 'path';
+import type {
+  GroupRecord,
+  GroupStore,
+  GroupStoreStats,
+  PaymentRecord,
+  PaymentStatus,
+  PurchaseRecord,
+  PurchaseStatus,
+  RefundRecord,
+  RefundStatus,
+  PromoCodeRecord,
+  ReferralLink,
+  ReferralRecord,
+  SeatPool,
+  TierSession,
+} from './group-store';
 
-export interface GroupRecord {
-  id: string;
-  name: string;
-  creatorInboxId: string;
-  creatorAddress: string;
-  contractAddress: string;
-  salesGroupId: string;
-  premiumGroupId: string;
-  status: 'created' | 'tiers_setup' | 'active';
-  createdAt: string;
-  updatedAt: string;
-  tiers?: AccessTierRecord[];
-}
-
-export interface AccessTierRecord {
-  id: number;
-  name: string;
-  priceUsd: number;
-  durationDays: number;
-  imageUrl?: string;
-  metadataUri?: string;
-}
-
-export interface TierSession {
-  userInboxId: string;
-  contractAddress: string;
-  step: string;
-  currentTierIndex: number;
-  totalTiers: number;
-  tiers: any[];
-  pendingAttachments: Record<number, any>;
-  createdAt: string;
-}
+export type { GroupRecord, AccessTierRecord, TierSession } from './group-store';
 
 interface DatabaseSchema {
   groups: GroupRecord[];
   tierSessions: TierSession[];
   lastScannedBlock: number;
-  version: string;
+  /** Consumed payment tx hash -> payment ID (absent in older files) */
+  processedPayments?: Record<string, string>;
+  /** Creation payments (absent in older files) */
+  payments?: PaymentRecord[];
+  /** Refunds of unfulfilled payments (absent in older files) */
+  refunds?: RefundRecord[];
+  /** Access purchases waiting for payment (absent in older files) */
+  purchases?: PurchaseRecord[];
+  /** Seat pools (absent in older files) */
+  seatPools?: SeatPool[];
+  /** Promo codes (absent in older files) */
+  promoCodes?: PromoCodeRecord[];
+  /** Referral links (absent in older files) */
+  referralLinks?: ReferralLink[];
+  /** Purchases made with referral codes (absent in older files) */
+  referrals?: ReferralRecord[];
+  /** Schema version; '1.0.0' in files written before migrations existed */
+  version: number | string;
 }
 
-export class JSONDatabase {
+export class JSONDatabase implements GroupStore {
   private dbPath: string;
   private data: DatabaseSchema;
 
@@ -72,24 +74,26 @@ export class JSONDatabase {
           groups: [],
           tierSessions: [],
           lastScannedBlock: 0,
-          version: '1.0.0'
+          version: 1
         };
         this.saveDatabase();
       }
     } catch (error) {
+      // Never fall back to an empty schema here: the next save would
+      // overwrite every stored group
       console.error('Error loading database:', error);
-      this.data = {
-        groups: [],
-        tierSessions: [],
-        lastScannedBlock: 0,
-        version: '1.0.0'
-      };
+      throw new Error(
+        `Database file ${this.dbPath} is unreadable; fix or remove it before restarting`
+      );
     }
   }
 
   private saveDatabase(): void {
     try {
-      fs.writeFileSync(this.dbPath, JSON.stringify(this.data, null, 2));
+      // Write to a temp file and rename so a crash never leaves a partial file
+      const tmpPath = `${this.dbPath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(this.data, null, 2));
+      fs.renameSync(tmpPath, this.dbPath);
     } catch (error) {
       console.error('Error saving database:', error);
     }
@@ -125,6 +129,14 @@ export class JSONDatabase {
     return this.data.groups.find(g => g.contractAddress === contractAddress) || null;
   }
 
+  findGroupByGroupId(groupId: string): Promise<GroupRecord | null> {
+    return Promise.resolve(
+      this.data.groups.find(g =>
+        g.salesGroupId === groupId || g.premiumGroupId === groupId
+      ) || null
+    );
+  }
+
   async updateGroup(id: string, updates: Partial<GroupRecord>): Promise<boolean> {
     const index = this.data.groups.findIndex(g => g.id === id);
     if (index === -1) return false;
@@ -203,8 +215,197 @@ export class JSONDatabase {
     return this.data.lastScannedBlock;
   }
 
+  // Processed payments
+  markPaymentProcessed(txHash: string, paymentId: string): Promise<boolean> {
+    const key = txHash.toLowerCase();
+    const processed = (this.data.processedPayments ??= {});
+    if (key in processed) {
+      return Promise.resolve(false);
+    }
+    processed[key] = paymentId;
+    this.saveDatabase();
+    return Promise.resolve(true);
+  }
+
+  isPaymentProcessed(txHash: string): Promise<boolean> {
+    return Promise.resolve(txHash.toLowerCase() in (this.data.processedPayments ?? {}));
+  }
+
+  // Creation payments
+  savePayment(payment: PaymentRecord): Promise<void> {
+    const payments = (this.data.payments ??= []);
+    const index = payments.findIndex(p => p.id === payment.id);
+    if (index === -1) {
+      payments.push(payment);
+    } else {
+      payments[index] = payment;
+    }
+    this.saveDatabase();
+    return Promise.resolve();
+  }
+
+  getPayments(status?: PaymentStatus): Promise<PaymentRecord[]> {
+    const payments = this.data.payments ?? [];
+    return Promise.resolve(status ? payments.filter(p => p.status === status) : [...payments]);
+  }
+
+  findPaymentByReference(reference: string): Promise<PaymentRecord | null> {
+    const needle = reference.toLowerCase();
+    return Promise.resolve((this.data.payments ?? []).find(p => p.reference.toLowerCase() === needle) || null);
+  }
+
+  // Refunds
+  saveRefund(refund: RefundRecord): Promise<void> {
+    const refunds = (this.data.refunds ??= []);
+    const index = refunds.findIndex(r => r.id.toLowerCase() === refund.id.toLowerCase());
+    if (index === -1) {
+      refunds.push(refund);
+    } else {
+      refunds[index] = refund;
+    }
+    this.saveDatabase();
+    return Promise.resolve();
+  }
+
+  getRefunds(status?: RefundStatus): Promise<RefundRecord[]> {
+    const refunds = this.data.refunds ?? [];
+    return Promise.resolve(status ? refunds.filter(r => r.status === status) : [...refunds]);
+  }
+
+  // Access purchases
+  savePurchase(purchase: PurchaseRecord): Promise<void> {
+    const purchases = (this.data.purchases ??= []);
+    const index = purchases.findIndex(p => p.id === purchase.id);
+    if (index === -1) {
+      purchases.push(purchase);
+    } else {
+      purchases[index] = purchase;
+    }
+    this.saveDatabase();
+    return Promise.resolve();
+  }
+
+  getPurchases(status?: PurchaseStatus): Promise<PurchaseRecord[]> {
+    const purchases = this.data.purchases ?? [];
+    return Promise.resolve(status ? purchases.filter(p => p.status === status) : [...purchases]);
+  }
+
+  // Seat pools
+  saveSeatPool(pool: SeatPool): Promise<void> {
+    const pools = (this.data.seatPools ??= []);
+    const index = pools.findIndex(p => p.id.toLowerCase() === pool.id.toLowerCase());
+    if (index === -1) {
+      pools.push(pool);
+    } else {
+      pools[index] = pool;
+    }
+    this.saveDatabase();
+    return Promise.resolve();
+  }
+
+  getSeatPools(contractAddress?: string): Promise<SeatPool[]> {
+    const pools = this.data.seatPools ?? [];
+    return Promise.resolve(
+      contractAddress
+        ? pools.filter(p => p.contractAddress.toLowerCase() === contractAddress.toLowerCase())
+        : [...pools]
+    );
+  }
+
+  // Promo codes
+  savePromoCode(promo: PromoCodeRecord): Promise<void> {
+    const promos = (this.data.promoCodes ??= []);
+    const index = promos.findIndex(p =>
+      p.contractAddress.toLowerCase() === promo.contractAddress.toLowerCase() &&
+      p.code === promo.code
+    );
+    if (index === -1) {
+      promos.push(promo);
+    } else {
+      promos[index] = promo;
+    }
+    this.saveDatabase();
+    return Promise.resolve();
+  }
+
+  getPromoCodes(contractAddress?: string): Promise<PromoCodeRecord[]> {
+    const promos = this.data.promoCodes ?? [];
+    return Promise.resolve(
+      contractAddress
+        ? promos.filter(p => p.contractAddress.toLowerCase() === contractAddress.toLowerCase())
+        : [...promos]
+    );
+  }
+
+  // Referrals
+  saveReferralLink(link: ReferralLink): Promise<void> {
+    const links = (this.data.referralLinks ??= []);
+    const index = links.findIndex(l =>
+      l.contractAddress.toLowerCase() === link.contractAddress.toLowerCase() &&
+      l.code === link.code
+    );
+    if (index === -1) {
+      links.push(link);
+    } else {
+      links[index] = link;
+    }
+    this.saveDatabase();
+    return Promise.resolve();
+  }
+
+  getReferralLinks(contractAddress?: string): Promise<ReferralLink[]> {
+    const links = this.data.referralLinks ?? [];
+    return Promise.resolve(
+      contractAddress
+        ? links.filter(l => l.contractAddress.toLowerCase() === contractAddress.toLowerCase())
+        : [...links]
+    );
+  }
+
+  saveReferral(referral: ReferralRecord): Promise<void> {
+    const referrals = (this.data.referrals ??= []);
+    const index = referrals.findIndex(r => r.purchaseId === referral.purchaseId);
+    if (index === -1) {
+      referrals.push(referral);
+    } else {
+      referrals[index] = referral;
+    }
+    this.saveDatabase();
+    return Promise.resolve();
+  }
+
+  getReferrals(contractAddress?: string): Promise<ReferralRecord[]> {
+    const referrals = this.data.referrals ?? [];
+    return Promise.resolve(
+      contractAddress
+        ? referrals.filter(r => r.contractAddress.toLowerCase() === contractAddress.toLowerCase())
+        : [...referrals]
+    );
+  }
+
+  // Schema versioning
+  getSchemaVersion(): Promise<number> {
+    const { version } = this.data;
+    return Promise.resolve(typeof version === 'number' ? version : parseInt(version, 10) || 1);
+  }
+
+  setSchemaVersion(version: number): Promise<void> {
+    this.data.version = version;
+    this.saveDatabase();
+    return Promise.resolve();
+  }
+
+  backup(): Promise<string | null> {
+    if (!fs.existsSync(this.dbPath)) return Promise.resolve(null);
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupPath = this.dbPath.replace(/\.json$/, `.${timestamp}.backup.json`);
+    fs.copyFileSync(this.dbPath, backupPath);
+    return Promise.resolve(backupPath);
+  }
+
   // Statistics
-  getStats() {
+  getStats(): GroupStoreStats {
     return {
       totalGroups: this.data.groups.length,
       activeGroups: this.data.groups.filter(g => g.status === 'active').length,
@@ -0,0 +1,360 @@
+/**
+ * Ordered schema migrations for the group store
+ * Every migration must be idempotent: a crash between applying it and
+ * recording the new version means it runs again on the next start.
+ */
+
+import fs from "fs";
+import path from "path";
+import type {
+  GroupRecord,
+  GroupStatus,
+  GroupStore,
+  PaymentRecord,
+  PromoCodeRecord,
+  PurchaseRecord,
+  ReferralLink,
+  ReferralRecord,
+  RefundRecord,
+  SeatPool,
+  TierSession,
+} from "./group-store";
+import { JSONDatabase } from "./json-database";
+
+export interface Migration {
+  /** Schema version after this migration has run */
+  version: number;
+  description: string;
+  up: (store: GroupStore, dataDir: string) => Promise<void>;
+}
+
+/**
+ * Record shape written by the old PersistentStateManager to groups-state.json
+ */
+interface LegacyStateRecord {
+  groupName: string;
+  creatorInboxId: string;
+  contractAddress?: string;
+  salesGroupId?: string;
+  premiumGroupId?: string;
+  createdAt: string;
+  status: "payment-pending" | "deploying" | "tier-setup" | "completed";
+  paymentHash?: string;
+}
+
+const LEGACY_STATUS_MAP: Record<LegacyStateRecord["status"], GroupStatus> = {
+  "payment-pending": "payment_pending",
+  deploying: "deploying",
+  "tier-setup": "tiers_setup",
+  completed: "active",
+};
+
+/**
+ * Fold groups-state.json into the group store so there is one source of truth
+ */
+async function foldPersistentState(
+  store: GroupStore,
+  dataDir: string,
+): Promise<void> {
+  const stateFile = path.join(dataDir, "groups-state.json");
+  if (!fs.existsSync(stateFile)) {
+    console.log("   No groups-state.json found, nothing to fold");
+    return;
+  }
+
+  const records = JSON.parse(
+    fs.readFileSync(stateFile, "utf8"),
+  ) as LegacyStateRecord[];
+  let imported = 0;
+
+  for (const record of records) {
+    // Creations that never got a contract (payment pending, deploy failed)
+    // can't be sold; the renamed file keeps them for reference
+    if (!record.contractAddress) {
+      console.log(
+        `   Skipping "${record.groupName}" (${record.status}): no contract deployed`,
+      );
+      continue;
+    }
+
+    const status = LEGACY_STATUS_MAP[record.status];
+    const existing = await store.findGroupByContract(record.contractAddress);
+
+    if (existing) {
+      // The main database already knows this group; only fill gaps
+      if (!existing.paymentHash && record.paymentHash) {
+        await store.updateGroup(existing.id, {
+          paymentHash: record.paymentHash,
+        });
+      }
+      continue;
+    }
+
+    const created = await store.createGroup({
+      name: record.groupName,
+      creatorInboxId: record.creatorInboxId,
+      creatorAddress: "",
+      contractAddress: record.contractAddress,
+      salesGroupId: record.salesGroupId ?? "",
+      premiumGroupId: record.premiumGroupId ?? "",
+      status,
+      ...(record.paymentHash ? { paymentHash: record.paymentHash } : {}),
+    });
+    await store.updateGroup(created.id, { createdAt: record.createdAt });
+    imported++;
+  }
+
+  // Keep the old file for reference, but out of the way
+  fs.renameSync(stateFile, `${stateFile}.migrated-${Date.now()}`);
+  console.log(
+    `   Folded ${imported} of ${records.length} groups-state.json records`,
+  );
+}
+
+/**
+ * File written by JSONDatabase, the only store before SQLite
+ */
+interface LegacyDatabaseFile {
+  groups?: GroupRecord[];
+  tierSessions?: TierSession[];
+  lastScannedBlock?: number;
+  processedPayments?: Record<string, string>;
+  payments?: PaymentRecord[];
+  refunds?: RefundRecord[];
+  purchases?: PurchaseRecord[];
+  seatPools?: SeatPool[];
+  promoCodes?: PromoCodeRecord[];
+  referralLinks?: ReferralLink[];
+  referrals?: ReferralRecord[];
+}
+
+/**
+ * Copy fields the store's row lacks from another copy of the same group
+ * @returns whether anything was filled in
+ */
+async function fillMissingFields(
+  store: GroupStore,
+  existing: GroupRecord,
+  source: GroupRecord,
+): Promise<boolean> {
+  const updates: Partial<GroupRecord> = {};
+  const fields: Array<[string, unknown]> = Object.entries(source);
+  for (const [key, value] of fields) {
+    if (key === "id" || key === "createdAt" || key === "updatedAt") continue;
+    const current = existing[key as keyof GroupRecord];
+    const missing =
+      current === undefined ||
+      current === "" ||
+      (Array.isArray(current) && current.length === 0);
+    if (missing && value !== undefined && value !== "") {
+      Object.assign(updates, { [key]: value });
+    }
+  }
+
+  if (Object.keys(updates).length === 0) return false;
+  await store.updateGroup(existing.id, updates);
+  return true;
+}
+
+/**
+ * Copy groups-database.json into the SQLite store on its first start, so
+ * making SQLite the default doesn't lose existing groups
+ */
+async function importJSONDatabase(
+  store: GroupStore,
+  dataDir: string,
+): Promise<void> {
+  const databaseFile = path.join(dataDir, "groups-database.json");
+  if (store instanceof JSONDatabase) {
+    console.log("   Store is groups-database.json itself, nothing to import");
+    return;
+  }
+  if (!fs.existsSync(databaseFile)) {
+    console.log("   No groups-database.json found, nothing to import");
+    return;
+  }
+
+  const data = JSON.parse(
+    fs.readFileSync(databaseFile, "utf8"),
+  ) as LegacyDatabaseFile;
+  const groups = data.groups ?? [];
+  let imported = 0;
+  let merged = 0;
+
+  for (const group of groups) {
+    // Importing twice after a crash must not duplicate groups, and rows
+    // folded from groups-state.json (v2) lack the creator address and tiers
+    const existing = group.contractAddress
+      ? await store.findGroupByContract(group.contractAddress)
+      : await store.findGroupByName(group.creatorInboxId, group.name);
+    if (existing) {
+      if (await fillMissingFields(store, existing, group)) merged++;
+      continue;
+    }
+
+    const { id: _id, createdAt, updatedAt: _updatedAt, ...fields } = group;
+    const created = await store.createGroup(fields);
+    await store.updateGroup(created.id, { createdAt });
+    imported++;
+  }
+
+  // Everything else is keyed, so saving it again replaces the same record
+  for (const session of data.tierSessions ?? []) {
+    await store.saveTierSession(session);
+  }
+  if ((data.lastScannedBlock ?? 0) > (await store.getLastScannedBlock())) {
+    await store.updateLastScannedBlock(data.lastScannedBlock ?? 0);
+  }
+  for (const [txHash, paymentId] of Object.entries(
+    data.processedPayments ?? {},
+  )) {
+    await store.markPaymentProcessed(txHash, paymentId);
+  }
+  for (const payment of data.payments ?? []) await store.savePayment(payment);
+  for (const refund of data.refunds ?? []) await store.saveRefund(refund);
+  for (const purchase of data.purchases ?? []) {
+    await store.savePurchase(purchase);
+  }
+  for (const pool of data.seatPools ?? []) await store.saveSeatPool(pool);
+  for (const promo of data.promoCodes ?? []) await store.savePromoCode(promo);
+  for (const link of data.referralLinks ?? []) {
+    await store.saveReferralLink(link);
+  }
+  for (const referral of data.referrals ?? []) {
+    await store.saveReferral(referral);
+  }
+
+  // Keep the old file for reference, but out of the way
+  fs.renameSync(databaseFile, `${databaseFile}.imported-${Date.now()}`);
+  console.log(
+    `   Imported ${imported} and completed ${merged} of ${groups.length} groups from groups-database.json`,
+  );
+}
+
+/**
+ * Fill in fields the v3 import skipped for groups already folded from
+ * groups-state.json, from the groups-database.json it moved aside
+ */
+async function repairImportedGroups(
+  store: GroupStore,
+  dataDir: string,
+): Promise<void> {
+  const importedFile = fs
+    .readdirSync(dataDir)
+    .filter((file) => file.startsWith("groups-database.json.imported-"))
+    .sort()
+    .pop();
+  if (store instanceof JSONDatabase || !importedFile) {
+    console.log("   No imported groups-database.json found, nothing to repair");
+    return;
+  }
+
+  const data = JSON.parse(
+    fs.readFileSync(path.join(dataDir, importedFile), "utf8"),
+  ) as LegacyDatabaseFile;
+  let repaired = 0;
+
+  for (const group of data.groups ?? []) {
+    if (!group.contractAddress) continue;
+    const existing = await store.findGroupByContract(group.contractAddress);
+    if (existing && (await fillMissingFields(store, existing, group))) {
+      repaired++;
+    }
+  }
+
+  console.log(`   Repaired ${repaired} groups from ${importedFile}`);
+}
+
+export const migrations: Migration[] = [
+  {
+    version: 2,
+    description: "Fold groups-state.json into the group store",
+    up: foldPersistentState,
+  },
+  {
+    version: 3,
+    description: "Import groups-database.json into the SQLite store",
+    up: importJSONDatabase,
+  },
+  {
+    version: 4,
+    description: "Restore group fields the groups-database.json import skipped",
+    up: repairImportedGroups,
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = Math.max(
+  1,
+  ...migrations.map((migration) => migration.version),
+);
+
+/**
+ * Back up groups-database.json when another backend is active, since
+ * migrations read it (and move it aside) without the store's own backup
+ * covering it
+ */
+function backupLegacyDatabase(
+  store: GroupStore,
+  dataDir: string,
+): string | null {
+  const databaseFile = path.join(dataDir, "groups-database.json");
+  if (store instanceof JSONDatabase || !fs.existsSync(databaseFile)) {
+    return null;
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const backupPath = databaseFile.replace(
+    /\.json$/,
+    `.${timestamp}.backup.json`,
+  );
+  fs.copyFileSync(databaseFile, backupPath);
+  return backupPath;
+}
+
+/**
+ * Apply every migration newer than the stored schema version, in order
+ * @returns the schema version after migrating
+ */
+export async function runMigrations(
+  store: GroupStore,
+  dataDir: string,
+  pending: Migration[] = migrations,
+): Promise<number> {
+  const currentVersion = await store.getSchemaVersion();
+  if (currentVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Group store is at schema v${currentVersion} but this agent only knows v${CURRENT_SCHEMA_VERSION}; refusing to start with a newer database`,
+    );
+  }
+
+  const toApply = pending
+    .filter((migration) => migration.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+
+  if (toApply.length === 0) {
+    return currentVersion;
+  }
+
+  const latest = toApply[toApply.length - 1].version;
+  console.log(
+    `🔧 Migrating group store from v${currentVersion} to v${latest}...`,
+  );
+
+  const backupPath = await store.backup();
+  if (backupPath) {
+    console.log(`💾 Backed up database to ${backupPath}`);
+  }
+  const legacyBackupPath = backupLegacyDatabase(store, dataDir);
+  if (legacyBackupPath) {
+    console.log(`💾 Backed up groups-database.json to ${legacyBackupPath}`);
+  }
+
+  for (const migration of toApply) {
+    console.log(`🔧 v${migration.version}: ${migration.description}`);
+    await migration.up(store, dataDir);
+    await store.setSchemaVersion(migration.version);
+  }
+
+  console.log(`✅ Group store is at schema v${latest}`);
+  return latest;
+}
@@ -0,0 +1,656 @@
+/**
+ * SQLite-backed GroupStore using Node's built-in node:sqlite
+ * Each mutation is a single statement, so writes are atomic and
+ * concurrent readers never see a half-written file.
+ */
+
+import fs from "fs";
+import path from "path";
+import { DatabaseSync } from "node:sqlite";
+import type {
+  GroupRecord,
+  GroupStore,
+  GroupStoreStats,
+  PaymentRecord,
+  PaymentStatus,
+  PromoCodeRecord,
+  PurchaseRecord,
+  PurchaseStatus,
+  ReferralLink,
+  ReferralRecord,
+  RefundRecord,
+  RefundStatus,
+  SeatPool,
+  TierSession,
+} from "./group-store";
+
+interface GroupRow {
+  id: string;
+  name: string;
+  creator_inbox_id: string;
+  creator_address: string;
+  contract_address: string;
+  sales_group_id: string;
+  premium_group_id: string;
+  status: GroupRecord["status"];
+  tiers: string | null;
+  payment_hash: string | null;
+  accepted_tokens: string | null;
+  referral_reward: string | null;
+  collaborators: string | null;
+  custom_fee_percentage: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS groups (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    creator_inbox_id TEXT NOT NULL,
+    creator_address TEXT NOT NULL,
+    contract_address TEXT NOT NULL,
+    sales_group_id TEXT NOT NULL,
+    premium_group_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    tiers TEXT,
+    payment_hash TEXT,
+    accepted_tokens TEXT,
+    referral_reward TEXT,
+    collaborators TEXT,
+    custom_fee_percentage REAL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_groups_contract ON groups (contract_address);
+  CREATE INDEX IF NOT EXISTS idx_groups_creator ON groups (creator_inbox_id);
+  CREATE INDEX IF NOT EXISTS idx_groups_sales ON groups (sales_group_id);
+  CREATE INDEX IF NOT EXISTS idx_groups_premium ON groups (premium_group_id);
+
+  CREATE TABLE IF NOT EXISTS tier_sessions (
+    user_inbox_id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS processed_payments (
+    tx_hash TEXT PRIMARY KEY,
+    payment_id TEXT NOT NULL,
+    processed_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS payments (
+    id TEXT PRIMARY KEY,
+    reference TEXT NOT NULL,
+    status TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_payments_reference ON payments (reference);
+  CREATE INDEX IF NOT EXISTS idx_payments_status ON payments (status);
+
+  CREATE TABLE IF NOT EXISTS refunds (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS purchases (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_purchases_status ON purchases (status);
+
+  CREATE TABLE IF NOT EXISTS seat_pools (
+    id TEXT PRIMARY KEY,
+    contract_address TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_seat_pools_contract ON seat_pools (contract_address);
+
+  CREATE TABLE IF NOT EXISTS promo_codes (
+    contract_address TEXT NOT NULL,
+    code TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (contract_address, code)
+  );
+
+  CREATE TABLE IF NOT EXISTS referral_links (
+    contract_address TEXT NOT NULL,
+    code TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (contract_address, code)
+  );
+
+  CREATE TABLE IF NOT EXISTS referrals (
+    purchase_id TEXT PRIMARY KEY,
+    contract_address TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_referrals_contract ON referrals (contract_address);
+
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`;
+
+function rowToGroup(row: GroupRow): GroupRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    creatorInboxId: row.creator_inbox_id,
+    creatorAddress: row.creator_address,
+    contractAddress: row.contract_address,
+    salesGroupId: row.sales_group_id,
+    premiumGroupId: row.premium_group_id,
+    status: row.status,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    ...(row.tiers
+      ? { tiers: JSON.parse(row.tiers) as GroupRecord["tiers"] }
+      : {}),
+    ...(row.payment_hash ? { paymentHash: row.payment_hash } : {}),
+    ...(row.accepted_tokens
+      ? { acceptedTokens: JSON.parse(row.accepted_tokens) as string[] }
+      : {}),
+    ...(row.referral_reward
+      ? {
+          referralReward: JSON.parse(
+            row.referral_reward,
+          ) as GroupRecord["referralReward"],
+        }
+      : {}),
+    ...(row.collaborators
+      ? {
+          collaborators: JSON.parse(
+            row.collaborators,
+          ) as GroupRecord["collaborators"],
+        }
+      : {}),
+    ...(row.custom_fee_percentage !== null
+      ? { customFeePercentage: row.custom_fee_percentage }
+      : {}),
+  };
+}
+
+export class SQLiteGroupStore implements GroupStore {
+  private db: DatabaseSync;
+  private dbPath: string;
+
+  constructor(dataDir = "./.data") {
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+
+    this.dbPath = path.join(dataDir, "groups.sqlite");
+    this.db = new DatabaseSync(this.dbPath);
+    this.db.exec("PRAGMA journal_mode = WAL;");
+    this.db.exec(SCHEMA);
+    this.addMissingColumns();
+
+    const stats = this.getStats();
+    console.log(
+      `📋 Loaded database: ${stats.totalGroups} groups, ${stats.pendingSessions} sessions`,
+    );
+  }
+
+  // Group Management
+  createGroup(
+    group: Omit<GroupRecord, "id" | "createdAt" | "updatedAt">,
+  ): Promise<GroupRecord> {
+    const id = `${group.creatorInboxId}-${group.name.toLowerCase()}-${Date.now()}`;
+    const now = new Date().toISOString();
+    const newGroup: GroupRecord = {
+      ...group,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.insertGroup(newGroup);
+
+    console.log(`📝 Created group record: ${group.name} (${id})`);
+    return Promise.resolve(newGroup);
+  }
+
+  findGroupByName(
+    creatorInboxId: string,
+    groupName: string,
+  ): Promise<GroupRecord | null> {
+    return Promise.resolve(
+      this.getOne(
+        "SELECT * FROM groups WHERE creator_inbox_id = ? AND lower(name) = ?",
+        creatorInboxId,
+        groupName.toLowerCase(),
+      ),
+    );
+  }
+
+  findGroupByContract(contractAddress: string): Promise<GroupRecord | null> {
+    return Promise.resolve(
+      this.getOne(
+        "SELECT * FROM groups WHERE contract_address = ?",
+        contractAddress,
+      ),
+    );
+  }
+
+  findGroupByGroupId(groupId: string): Promise<GroupRecord | null> {
+    return Promise.resolve(
+      this.getOne(
+        "SELECT * FROM groups WHERE sales_group_id = ? OR premium_group_id = ?",
+        groupId,
+        groupId,
+      ),
+    );
+  }
+
+  updateGroup(id: string, updates: Partial<GroupRecord>): Promise<boolean> {
+    const existing = this.getOne("SELECT * FROM groups WHERE id = ?", id);
+    if (!existing) return Promise.resolve(false);
+
+    const updated: GroupRecord = {
+      ...existing,
+      ...updates,
+      id,
+      updatedAt: new Date().toISOString(),
+    };
+    this.insertGroup(updated);
+    return Promise.resolve(true);
+  }
+
+  getUserGroups(creatorInboxId: string): Promise<GroupRecord[]> {
+    return Promise.resolve(
+      this.getAll(
+        "SELECT * FROM groups WHERE creator_inbox_id = ? ORDER BY created_at",
+        creatorInboxId,
+      ),
+    );
+  }
+
+  getAllGroups(): Promise<GroupRecord[]> {
+    return Promise.resolve(
+      this.getAll("SELECT * FROM groups ORDER BY created_at"),
+    );
+  }
+
+  // Tier Session Management
+  saveTierSession(session: TierSession): Promise<void> {
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO tier_sessions (user_inbox_id, data, created_at) VALUES (?, ?, ?)",
+      )
+      .run(session.userInboxId, JSON.stringify(session), session.createdAt);
+    console.log(`💾 Saved tier session for ${session.userInboxId}`);
+    return Promise.resolve();
+  }
+
+  getTierSession(userInboxId: string): Promise<TierSession | null> {
+    const row = this.db
+      .prepare("SELECT data FROM tier_sessions WHERE user_inbox_id = ?")
+      .get(userInboxId) as { data: string } | undefined;
+    return Promise.resolve(row ? (JSON.parse(row.data) as TierSession) : null);
+  }
+
+  deleteTierSession(userInboxId: string): Promise<boolean> {
+    const result = this.db
+      .prepare("DELETE FROM tier_sessions WHERE user_inbox_id = ?")
+      .run(userInboxId);
+    return Promise.resolve(Number(result.changes) > 0);
+  }
+
+  cleanupOldSessions(): Promise<number> {
+    const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    const result = this.db
+      .prepare("DELETE FROM tier_sessions WHERE created_at <= ?")
+      .run(cutoff);
+    const cleaned = Number(result.changes);
+    if (cleaned > 0) {
+      console.log(`🧹 Cleaned up ${cleaned} old tier sessions`);
+    }
+    return Promise.resolve(cleaned);
+  }
+
+  // Block tracking for efficient recovery
+  updateLastScannedBlock(blockNumber: number): Promise<void> {
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO meta (key, value) VALUES ('lastScannedBlock', ?)",
+      )
+      .run(String(blockNumber));
+    return Promise.resolve();
+  }
+
+  getLastScannedBlock(): Promise<number> {
+    return Promise.resolve(this.readLastScannedBlock());
+  }
+
+  // Processed payments
+  markPaymentProcessed(txHash: string, paymentId: string): Promise<boolean> {
+    const result = this.db
+      .prepare(
+        "INSERT OR IGNORE INTO processed_payments (tx_hash, payment_id, processed_at) VALUES (?, ?, ?)",
+      )
+      .run(txHash.toLowerCase(), paymentId, new Date().toISOString());
+    return Promise.resolve(Number(result.changes) > 0);
+  }
+
+  isPaymentProcessed(txHash: string): Promise<boolean> {
+    const row = this.db
+      .prepare("SELECT 1 FROM processed_payments WHERE tx_hash = ?")
+      .get(txHash.toLowerCase());
+    return Promise.resolve(row !== undefined);
+  }
+
+  // Creation payments
+  savePayment(payment: PaymentRecord): Promise<void> {
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO payments (id, reference, status, data) VALUES (?, ?, ?, ?)",
+      )
+      .run(
+        payment.id,
+        payment.reference.toLowerCase(),
+        payment.status,
+        JSON.stringify(payment),
+      );
+    return Promise.resolve();
+  }
+
+  getPayments(status?: PaymentStatus): Promise<PaymentRecord[]> {
+    const rows = (
+      status
+        ? this.db
+            .prepare("SELECT data FROM payments WHERE status = ?")
+            .all(status)
+        : this.db.prepare("SELECT data FROM payments").all()
+    ) as Array<{ data: string }>;
+    return Promise.resolve(
+      rows.map((row) => JSON.parse(row.data) as PaymentRecord),
+    );
+  }
+
+  findPaymentByReference(reference: string): Promise<PaymentRecord | null> {
+    const row = this.db
+      .prepare("SELECT data FROM payments WHERE reference = ?")
+      .get(reference.toLowerCase()) as { data: string } | undefined;
+    return Promise.resolve(
+      row ? (JSON.parse(row.data) as PaymentRecord) : null,
+    );
+  }
+
+  // Refunds
+  saveRefund(refund: RefundRecord): Promise<void> {
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO refunds (id, status, data) VALUES (?, ?, ?)",
+      )
+      .run(refund.id.toLowerCase(), refund.status, JSON.stringify(refund));
+    return Promise.resolve();
+  }
+
+  getRefunds(status?: RefundStatus): Promise<RefundRecord[]> {
+    const rows = (
+      status
+        ? this.db
+            .prepare("SELECT data FROM refunds WHERE status = ?")
+            .all(status)
+        : this.db.prepare("SELECT data FROM refunds").all()
+    ) as Array<{ data: string }>;
+    return Promise.resolve(
+      rows.map((row) => JSON.parse(row.data) as RefundRecord),
+    );
+  }
+
+  // Access purchases
+  savePurchase(purchase: PurchaseRecord): Promise<void> {
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO purchases (id, status, data) VALUES (?, ?, ?)",
+      )
+      .run(purchase.id, purchase.status, JSON.stringify(purchase));
+    return Promise.resolve();
+  }
+
+  getPurchases(status?: PurchaseStatus): Promise<PurchaseRecord[]> {
+    const rows = (
+      status
+        ? this.db
+            .prepare("SELECT data FROM purchases WHERE status = ?")
+            .all(status)
+        : this.db.prepare("SELECT data FROM purchases").all()
+    ) as Array<{ data: string }>;
+    return Promise.resolve(
+      rows.map((row) => JSON.parse(row.data) as PurchaseRecord),
+    );
+  }
+
+  // Seat pools
+  saveSeatPool(pool: SeatPool): Promise<void> {
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO seat_pools (id, contract_address, data) VALUES (?, ?, ?)",
+      )
+      .run(
+        pool.id.toLowerCase(),
+        pool.contractAddress.toLowerCase(),
+        JSON.stringify(pool),
+      );
+    return Promise.resolve();
+  }
+
+  getSeatPools(contractAddress?: string): Promise<SeatPool[]> {
+    const rows = (
+      contractAddress
+        ? this.db
+            .prepare("SELECT data FROM seat_pools WHERE contract_address = ?")
+            .all(contractAddress.toLowerCase())
+        : this.db.prepare("SELECT data FROM seat_pools").all()
+    ) as Array<{ data: string }>;
+    return Promise.resolve(rows.map((row) => JSON.parse(row.data) as SeatPool));
+  }
+
+  // Promo codes
+  savePromoCode(promo: PromoCodeRecord): Promise<void> {
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO promo_codes (contract_address, code, data) VALUES (?, ?, ?)",
+      )
+      .run(
+        promo.contractAddress.toLowerCase(),
+        promo.code,
+        JSON.stringify(promo),
+      );
+    return Promise.resolve();
+  }
+
+  getPromoCodes(contractAddress?: string): Promise<PromoCodeRecord[]> {
+    const rows = (
+      contractAddress
+        ? this.db
+            .prepare("SELECT data FROM promo_codes WHERE contract_address = ?")
+            .all(contractAddress.toLowerCase())
+        : this.db.prepare("SELECT data FROM promo_codes").all()
+    ) as Array<{ data: string }>;
+    return Promise.resolve(
+      rows.map((row) => JSON.parse(row.data) as PromoCodeRecord),
+    );
+  }
+
+  // Referrals
+  saveReferralLink(link: ReferralLink): Promise<void> {
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO referral_links (contract_address, code, data) VALUES (?, ?, ?)",
+      )
+      .run(link.contractAddress.toLowerCase(), link.code, JSON.stringify(link));
+    return Promise.resolve();
+  }
+
+  getReferralLinks(contractAddress?: string): Promise<ReferralLink[]> {
+    const rows = (
+      contractAddress
+        ? this.db
+            .prepare(
+              "SELECT data FROM referral_links WHERE contract_address = ?",
+            )
+            .all(contractAddress.toLowerCase())
+        : this.db.prepare("SELECT data FROM referral_links").all()
+    ) as Array<{ data: string }>;
+    return Promise.resolve(
+      rows.map((row) => JSON.parse(row.data) as ReferralLink),
+    );
+  }
+
+  saveReferral(referral: ReferralRecord): Promise<void> {
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO referrals (purchase_id, contract_address, data) VALUES (?, ?, ?)",
+      )
+      .run(
+        referral.purchaseId,
+        referral.contractAddress.toLowerCase(),
+        JSON.stringify(referral),
+      );
+    return Promise.resolve();
+  }
+
+  getReferrals(contractAddress?: string): Promise<ReferralRecord[]> {
+    const rows = (
+      contractAddress
+        ? this.db
+            .prepare("SELECT data FROM referrals WHERE contract_address = ?")
+            .all(contractAddress.toLowerCase())
+        : this.db.prepare("SELECT data FROM referrals").all()
+    ) as Array<{ data: string }>;
+    return Promise.resolve(
+      rows.map((row) => JSON.parse(row.data) as ReferralRecord),
+    );
+  }
+
+  // Statistics
+  getStats(): GroupStoreStats {
+    const count = (sql: string) =>
+      (this.db.prepare(sql).get() as { n: number }).n;
+
+    return {
+      totalGroups: count("SELECT COUNT(*) AS n FROM groups"),
+      activeGroups: count(
+        "SELECT COUNT(*) AS n FROM groups WHERE status = 'active'",
+      ),
+      pendingSessions: count("SELECT COUNT(*) AS n FROM tier_sessions"),
+      lastScannedBlock: this.readLastScannedBlock(),
+    };
+  }
+
+  // Schema versioning
+  getSchemaVersion(): Promise<number> {
+    const row = this.db
+      .prepare("SELECT value FROM meta WHERE key = 'schemaVersion'")
+      .get() as { value: string } | undefined;
+    return Promise.resolve(row ? Number(row.value) : 1);
+  }
+
+  setSchemaVersion(version: number): Promise<void> {
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO meta (key, value) VALUES ('schemaVersion', ?)",
+      )
+      .run(String(version));
+    return Promise.resolve();
+  }
+
+  backup(): Promise<string | null> {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const backupPath = this.dbPath.replace(
+      /\.sqlite$/,
+      `.${timestamp}.backup.sqlite`,
+    );
+    // VACUUM INTO writes a consistent snapshot even with WAL enabled
+    this.db.prepare("VACUUM INTO ?").run(backupPath);
+    return Promise.resolve(backupPath);
+  }
+
+  /**
+   * Close the underlying database handle
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * CREATE TABLE IF NOT EXISTS leaves older tables alone, so add
+   * columns introduced after the table was first created
+   */
+  private addMissingColumns(): void {
+    const columns = (
+      this.db.prepare("PRAGMA table_info(groups)").all() as unknown as {
+        name: string;
+      }[]
+    ).map((column) => column.name);
+
+    if (!columns.includes("payment_hash")) {
+      this.db.exec("ALTER TABLE groups ADD COLUMN payment_hash TEXT");
+    }
+    if (!columns.includes("accepted_tokens")) {
+      this.db.exec("ALTER TABLE groups ADD COLUMN accepted_tokens TEXT");
+    }
+    if (!columns.includes("referral_reward")) {
+      this.db.exec("ALTER TABLE groups ADD COLUMN referral_reward TEXT");
+    }
+    if (!columns.includes("collaborators")) {
+      this.db.exec("ALTER TABLE groups ADD COLUMN collaborators TEXT");
+    }
+    if (!columns.includes("custom_fee_percentage")) {
+      this.db.exec("ALTER TABLE groups ADD COLUMN custom_fee_percentage REAL");
+    }
+  }
+
+  private readLastScannedBlock(): number {
+    const row = this.db
+      .prepare("SELECT value FROM meta WHERE key = 'lastScannedBlock'")
+      .get() as { value: string } | undefined;
+    return row ? Number(row.value) : 0;
+  }
+
+  private insertGroup(group: GroupRecord): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO groups (
+          id, name, creator_inbox_id, creator_address, contract_address,
+          sales_group_id, premium_group_id, status, tiers, payment_hash,
+          accepted_tokens, referral_reward, collaborators,
+          custom_fee_percentage, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        group.id,
+        group.name,
+        group.creatorInboxId,
+        group.creatorAddress,
+        group.contractAddress,
+        group.salesGroupId,
+        group.premiumGroupId,
+        group.status,
+        group.tiers ? JSON.stringify(group.tiers) : null,
+        group.paymentHash ?? null,
+        group.acceptedTokens ? JSON.stringify(group.acceptedTokens) : null,
+        group.referralReward ? JSON.stringify(group.referralReward) : null,
+        group.collaborators ? JSON.stringify(group.collaborators) : null,
+        group.customFeePercentage ?? null,
+        group.createdAt,
+        group.updatedAt,
+      );
+  }
+
+  private getOne(sql: string, ...params: string[]): GroupRecord | null {
+    const row = this.db.prepare(sql).get(...params) as GroupRow | undefined;
+    return row ? rowToGroup(row) : null;
+  }
+
+  private getAll(sql: string, ...params: string[]): GroupRecord[] {
+    const rows = this.db.prepare(sql).all(...params) as unknown as GroupRow[];
+    return rows.map(rowToGroup);
+  }
+}
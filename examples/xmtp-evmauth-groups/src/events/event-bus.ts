@@ -0,0 +1,236 @@
+/**
+ * Typed in-process event bus for AgentEvent
+ * Handlers run concurrently and are isolated from each other: one failing
+ * handler never stops the others or the publisher. With an outbox
+ * directory configured, events are persisted before delivery and replayed
+ * on startup if the process died before every handler succeeded.
+ * Replays go to every handler, so delivery is at-least-once: handlers with
+ * side effects dedupe on the delivery id, which is stable across replays.
+ */
+
+import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import type { AgentEvent } from "../types/types";
+
+export type AgentEventType = AgentEvent["type"];
+
+export type AgentEventOf<T extends AgentEventType> = Extract<
+  AgentEvent,
+  { type: T }
+>;
+
+/**
+ * Identifies one published event across replays
+ */
+export interface EventDelivery {
+  /** Outbox id, assigned once at publish time */
+  id: string;
+  /** When the event was published (ISO 8601) */
+  publishedAt: string;
+  /** 1 on the first delivery, higher on replays and retries */
+  attempt: number;
+}
+
+export type AgentEventHandler<T extends AgentEventType> = (
+  event: AgentEventOf<T>,
+  delivery: EventDelivery,
+) => void | Promise<void>;
+
+type AnyHandler = (
+  event: AgentEvent,
+  delivery: EventDelivery,
+) => void | Promise<void>;
+
+export interface AgentEventBusOptions {
+  /** Directory for the durable outbox; omit for in-memory only */
+  outboxDir?: string;
+  /** Delivery attempts before an outbox entry is dropped */
+  maxAttempts?: number;
+}
+
+interface OutboxEntry {
+  id: string;
+  event: AgentEvent;
+  createdAt: string;
+  attempts: number;
+}
+
+/**
+ * Restore the Date fields JSON turned into strings when reading the outbox
+ * Only GroupConfig.createdAt is a Date; every other field, including
+ * user-supplied text that happens to look like a timestamp, stays as-is.
+ */
+function reviveDates(event: AgentEvent): AgentEvent {
+  if (event.type === "GROUP_CREATED") {
+    event.data.createdAt = new Date(event.data.createdAt);
+  }
+  return event;
+}
+
+export class AgentEventBus {
+  private handlers = new Map<AgentEventType | "*", Set<AnyHandler>>();
+  private outboxFile?: string;
+  private outbox = new Map<string, OutboxEntry>();
+  private maxAttempts: number;
+
+  constructor(options: AgentEventBusOptions = {}) {
+    this.maxAttempts = options.maxAttempts ?? 5;
+
+    if (options.outboxDir) {
+      if (!fs.existsSync(options.outboxDir)) {
+        fs.mkdirSync(options.outboxDir, { recursive: true });
+      }
+      this.outboxFile = path.join(options.outboxDir, "event-outbox.json");
+      this.loadOutbox();
+    }
+  }
+
+  /**
+   * Subscribe to one event type, or "*" for every event
+   * @returns unsubscribe function
+   */
+  subscribe<T extends AgentEventType>(
+    type: T,
+    handler: AgentEventHandler<T>,
+  ): () => void;
+  subscribe(type: "*", handler: AnyHandler): () => void;
+  subscribe(type: AgentEventType | "*", handler: AnyHandler): () => void {
+    let handlers = this.handlers.get(type);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(type, handlers);
+    }
+    handlers.add(handler);
+    return () => {
+      this.unsubscribe(type, handler);
+    };
+  }
+
+  /**
+   * Remove a handler added with subscribe()
+   */
+  unsubscribe(type: AgentEventType | "*", handler: AnyHandler): void {
+    this.handlers.get(type)?.delete(handler);
+  }
+
+  /**
+   * Deliver an event to every matching handler
+   * Resolves once all handlers have settled; never rejects.
+   */
+  async publish(event: AgentEvent): Promise<void> {
+    const entry: OutboxEntry = {
+      id: randomUUID(),
+      event,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+    };
+
+    if (this.outboxFile) {
+      this.outbox.set(entry.id, entry);
+      this.saveOutbox();
+    }
+
+    await this.deliver(entry);
+  }
+
+  /**
+   * Re-deliver events left in the outbox by a previous run
+   * Call after all subscribers are registered.
+   */
+  async replayOutbox(): Promise<number> {
+    const pending = Array.from(this.outbox.values());
+    if (pending.length > 0) {
+      console.log(`📬 Replaying ${pending.length} undelivered events`);
+    }
+    for (const entry of pending) {
+      await this.deliver(entry);
+    }
+    return pending.length;
+  }
+
+  /**
+   * Number of events still waiting for successful delivery
+   */
+  getPendingCount(): number {
+    return this.outbox.size;
+  }
+
+  private async deliver(entry: OutboxEntry): Promise<void> {
+    const handlers = [
+      ...(this.handlers.get(entry.event.type) ?? []),
+      ...(this.handlers.get("*") ?? []),
+    ];
+
+    const results = await Promise.allSettled(
+      handlers.map(async (handler) => {
+        await handler(entry.event, {
+          id: entry.id,
+          publishedAt: entry.createdAt,
+          attempt: entry.attempts + 1,
+        });
+      }),
+    );
+
+    const failures = results.filter(
+      (result): result is PromiseRejectedResult => result.status === "rejected",
+    );
+    for (const failure of failures) {
+      console.error(
+        `Error in ${entry.event.type} event handler:`,
+        failure.reason,
+      );
+    }
+
+    if (!this.outboxFile) return;
+
+    entry.attempts++;
+    if (failures.length === 0) {
+      this.outbox.delete(entry.id);
+    } else if (entry.attempts >= this.maxAttempts) {
+      console.error(
+        `❌ Dropping ${entry.event.type} event ${entry.id} after ${entry.attempts} attempts`,
+      );
+      this.outbox.delete(entry.id);
+    }
+    this.saveOutbox();
+  }
+
+  /**
+   * Load undelivered events from disk
+   */
+  private loadOutbox(): void {
+    if (!this.outboxFile || !fs.existsSync(this.outboxFile)) return;
+
+    try {
+      const data = fs.readFileSync(this.outboxFile, "utf8");
+      const entries = JSON.parse(data) as OutboxEntry[];
+      this.outbox = new Map(
+        entries.map((entry) => [
+          entry.id,
+          { ...entry, event: reviveDates(entry.event) },
+        ]),
+      );
+    } catch (error) {
+      console.error("Error loading event outbox:", error);
+    }
+  }
+
+  /**
+   * Save undelivered events to disk (write-then-rename)
+   */
+  private saveOutbox(): void {
+    if (!this.outboxFile) return;
+
+    try {
+      const tmpFile = `${this.outboxFile}.tmp`;
+      fs.writeFileSync(
+        tmpFile,
+        JSON.stringify(Array.from(this.outbox.values()), null, 2),
+      );
+      fs.renameSync(tmpFile, this.outboxFile);
+    } catch (error) {
+      console.error("Error saving event outbox:", error);
+    }
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * Default AgentEvent subscribers: logging, sales group announcements,
+ * operator alerts and analytics
+ */
+
+import fs from "fs";
+import path from "path";
+import type { Client, Group } from "@xmtp/node-sdk";
+import type { GroupRegistry } from "../managers/group-registry";
+import type { AgentEvent } from "../types/types";
+import type { AgentEventBus } from "./event-bus";
+
+/** Delivery ids remembered for replay dedupe, oldest dropped first */
+const MAX_HANDLED_DELIVERIES = 1000;
+
+/**
+ * Delivery ids a subscriber has already acted on, persisted so outbox
+ * replays after a restart are skipped
+ */
+class HandledDeliveries {
+  private ids: string[] = [];
+
+  constructor(private file: string) {
+    try {
+      if (fs.existsSync(file)) {
+        this.ids = JSON.parse(fs.readFileSync(file, "utf8")) as string[];
+      }
+    } catch (error) {
+      console.error(`Error loading ${path.basename(file)}:`, error);
+    }
+  }
+
+  has(id: string): boolean {
+    return this.ids.includes(id);
+  }
+
+  add(id: string): void {
+    this.ids = rememberDelivery(this.ids, id);
+    try {
+      fs.writeFileSync(this.file, JSON.stringify(this.ids));
+    } catch (error) {
+      console.error(`Error saving ${path.basename(this.file)}:`, error);
+    }
+  }
+}
+
+function rememberDelivery(ids: string[], id: string): string[] {
+  return [...ids, id].slice(-MAX_HANDLED_DELIVERIES);
+}
+
+/**
+ * One log line per event
+ */
+export function registerLoggingSubscriber(bus: AgentEventBus): () => void {
+  return bus.subscribe("*", (event: AgentEvent) => {
+    const summary = "groupId" in event.data ? ` (${event.data.groupId})` : "";
+    console.log(`📣 ${event.type}${summary}`);
+  });
+}
+
+/**
+ * Public announcements in the sales group of the affected community
+ * Each event is announced once; replays of an announced event are skipped.
+ */
+export function registerAnnouncementSubscriber(
+  bus: AgentEventBus,
+  client: Client<unknown>,
+  groupRegistry: GroupRegistry,
+  dataDir = "./.data",
+): () => void {
+  if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
+  }
+  const announced = new HandledDeliveries(
+    path.join(dataDir, "announced-events.json"),
+  );
+
+  const sendToSalesGroup = async (groupId: string, message: string) => {
+    const config = groupRegistry.getByGroupId(groupId);
+    if (!config) return;
+
+    const salesGroup = (await client.conversations.getConversationById(
+      config.salesGroupId,
+    )) as Group | undefined;
+    if (salesGroup) {
+      await salesGroup.send(message);
+    }
+  };
+
+  return bus.subscribe("MEMBER_ADDED", async ({ data }, delivery) => {
+    if (announced.has(delivery.id)) return;
+    await sendToSalesGroup(
+      data.groupId,
+      `🎉 **New Premium Member!**\n\n` +
+        `Someone just got ${data.tierName} access and joined our premium community! 🚀\n\n` +
+        `Welcome to the family! 💎`,
+    );
+    announced.add(delivery.id);
+  });
+}
+
+/**
+ * DM the operator about payments, refunds and payouts that need manual
+ * follow-up
+ */
+export function registerOperatorAlertSubscriber(
+  bus: AgentEventBus,
+  client: Client<unknown>,
+  operatorInboxId: string,
+): () => void {
+  const alert = async (message: string) => {
+    const dm = await client.conversations.newDm(operatorInboxId);
+    await dm.send(message);
+  };
+
+  const unsubscribeOrphaned = bus.subscribe(
+    "PAYMENT_ORPHANED",
+    async ({ data }) => {
+      await alert(
+        `🚨 **Orphaned Payment**\n\n` +
+          `${data.reason}\n\n` +
+          `• Payment: ${data.paymentId}\n` +
+          `• Group: ${data.groupName}\n` +
+          `• Payer: ${data.payerAddress} (${data.senderInboxId})\n` +
+          `• Tx: ${data.txHash ?? "unknown"}\n\n` +
+          `Refund or fulfil manually.`,
+      );
+    },
+  );
+
+  const unsubscribeRefundFailed = bus.subscribe(
+    "REFUND_FAILED",
+    async ({ data }) => {
+      await alert(
+        `🚨 **Refund Failed**\n\n` +
+          `${data.error}\n\n` +
+          `• Payment: ${data.paymentId}\n` +
+          `• Recipient: ${data.recipient}\n` +
+          `• Amount: ${data.amount}\n` +
+          `• Reason: ${data.reason}\n\n` +
+          `Send the refund manually; see /refunds.`,
+      );
+    },
+  );
+
+  const unsubscribePayoutFailed = bus.subscribe(
+    "PAYOUT_FAILED",
+    async ({ data }) => {
+      await alert(
+        `🚨 **Payout Failed**\n\n` +
+          `${data.error}\n\n` +
+          `• Payment: ${data.paymentId}\n` +
+          `• Recipient: ${data.recipient}\n` +
+          `• Amount: ${data.amount}\n` +
+          `• For: ${data.description}\n\n` +
+          `Send the payout manually; see /refunds.`,
+      );
+    },
+  );
+
+  return () => {
+    unsubscribeOrphaned();
+    unsubscribeRefundFailed();
+    unsubscribePayoutFailed();
+  };
+}
+
+interface AnalyticsSnapshot {
+  eventCounts: Partial<Record<AgentEvent["type"], number>>;
+  groups: Record<
+    string,
+    {
+      purchases: number;
+      membersAdded: number;
+      membersRemoved: number;
+      /** Base units per payment token symbol */
+      revenue: Partial<Record<string, string>>;
+    }
+  >;
+  /** Recently counted delivery ids, so replays aren't counted twice */
+  deliveryIds?: string[];
+  updatedAt: string;
+}
+
+/**
+ * Aggregated counters persisted to .data/analytics.json
+ * Counted delivery ids are saved with the counters, so an outbox replay
+ * never counts the same event twice.
+ */
+export class EventAnalytics {
+  private file: string;
+  private snapshot: AnalyticsSnapshot = {
+    eventCounts: {},
+    groups: {},
+    updatedAt: new Date().toISOString(),
+  };
+
+  constructor(dataDir = "./.data") {
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+
+    this.file = path.join(dataDir, "analytics.json");
+    this.load();
+  }
+
+  /**
+   * Subscribe to every event on the bus
+   */
+  register(bus: AgentEventBus): () => void {
+    return bus.subscribe("*", (event: AgentEvent, delivery) => {
+      this.record(event, delivery.id);
+    });
+  }
+
+  getSnapshot(): AnalyticsSnapshot {
+    return this.snapshot;
+  }
+
+  private record(event: AgentEvent, deliveryId: string): void {
+    if (this.snapshot.deliveryIds?.includes(deliveryId)) return;
+
+    const { eventCounts } = this.snapshot;
+    eventCounts[event.type] = (eventCounts[event.type] ?? 0) + 1;
+
+    switch (event.type) {
+      case "TOKEN_PURCHASED": {
+        const stats = this.groupStats(event.data.groupId);
+        const { token, amount } = event.data.payment;
+        stats.purchases++;
+        stats.revenue[token] = (
+          BigInt(stats.revenue[token] ?? "0") + BigInt(amount)
+        ).toString();
+        break;
+      }
+      case "MEMBER_ADDED":
+        this.groupStats(event.data.groupId).membersAdded++;
+        break;
+      case "MEMBER_REMOVED":
+        this.groupStats(event.data.groupId).membersRemoved++;
+        break;
+      default:
+        break;
+    }
+
+    this.snapshot.deliveryIds = rememberDelivery(
+      this.snapshot.deliveryIds ?? [],
+      deliveryId,
+    );
+    this.snapshot.updatedAt = new Date().toISOString();
+    this.save();
+  }
+
+  private groupStats(groupId: string) {
+    this.snapshot.groups[groupId] ??= {
+      purchases: 0,
+      membersAdded: 0,
+      membersRemoved: 0,
+      revenue: {},
+    };
+    return this.snapshot.groups[groupId];
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.file)) {
+        this.snapshot = JSON.parse(
+          fs.readFileSync(this.file, "utf8"),
+        ) as AnalyticsSnapshot;
+      }
+    } catch (error) {
+      console.error("Error loading analytics:", error);
+    }
+  }
+
+  private save(): void {
+    try {
+      fs.writeFileSync(this.file, JSON.stringify(this.snapshot, null, 2));
+    } catch (error) {
+      console.error("Error saving analytics:", error);
+    }
+  }
+}
@@ -0,0 +1,387 @@
+/**
+ * Outbound webhooks for AgentEvent
+ * Every event is serialized to JSON, queued per endpoint under .data and
+ * POSTed with an HMAC-SHA256 signature. Failed deliveries are retried with
+ * exponential backoff and moved to a dead-letter store after maxAttempts.
+ * Payload and delivery ids come from the bus delivery id, so retries and
+ * outbox replays of one event carry the same ids and receivers can dedupe.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import fs from "fs";
+import path from "path";
+import type { AgentEvent } from "../types/types";
+import type { AgentEventBus, AgentEventType, EventDelivery } from "./event-bus";
+
+export interface WebhookEndpoint {
+  url: string;
+  /** Shared secret used to sign payloads */
+  secret: string;
+  /** Event types to deliver; omit for every event */
+  events?: AgentEventType[];
+}
+
+export interface WebhookDispatcherOptions {
+  endpoints: WebhookEndpoint[];
+  dataDir?: string;
+  /** Attempts before a delivery is dead-lettered (default 8) */
+  maxAttempts?: number;
+  /** First retry delay, doubled on every attempt (default 1s) */
+  baseDelayMs?: number;
+  /** Upper bound for the retry delay (default 15 min) */
+  maxDelayMs?: number;
+  /** Per-request timeout (default 10s) */
+  requestTimeoutMs?: number;
+}
+
+export interface WebhookPayload {
+  /** Bus delivery id of the event, shared by every endpoint */
+  id: string;
+  type: AgentEventType;
+  createdAt: string;
+  data: AgentEvent["data"];
+}
+
+export interface WebhookDelivery {
+  /** Event id plus endpoint, sent as the delivery header */
+  id: string;
+  url: string;
+  eventType: AgentEventType;
+  /** Serialized WebhookPayload, signed as-is */
+  body: string;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export interface DeadLetter extends WebhookDelivery {
+  deadAt: string;
+}
+
+export const SIGNATURE_HEADER = "x-agent-signature";
+export const TIMESTAMP_HEADER = "x-agent-timestamp";
+export const EVENT_HEADER = "x-agent-event";
+export const DELIVERY_HEADER = "x-agent-delivery";
+
+/**
+ * Signature over `${timestamp}.${body}`, formatted as "sha256=<hex>"
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string,
+): string {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+}
+
+/**
+ * Constant-time check of a received signature (for receivers and tests)
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: string,
+  body: string,
+  signature: string,
+): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+/**
+ * Endpoints from WEBHOOK_URLS (comma separated), WEBHOOK_SECRET and the
+ * optional WEBHOOK_EVENTS filter
+ */
+export function webhookEndpointsFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): WebhookEndpoint[] {
+  const urls = (env.WEBHOOK_URLS ?? "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+  if (urls.length === 0) return [];
+
+  if (!env.WEBHOOK_SECRET) {
+    throw new Error("WEBHOOK_SECRET is required when WEBHOOK_URLS is set");
+  }
+
+  const events = env.WEBHOOK_EVENTS?.split(",")
+    .map((type) => type.trim())
+    .filter(Boolean) as AgentEventType[] | undefined;
+
+  return urls.map((url) => ({
+    url,
+    secret: env.WEBHOOK_SECRET ?? "",
+    ...(events?.length ? { events } : {}),
+  }));
+}
+
+function serializeEvent(event: AgentEvent, delivery: EventDelivery): string {
+  const payload: WebhookPayload = {
+    id: delivery.id,
+    type: event.type,
+    createdAt: delivery.publishedAt,
+    data: event.data,
+  };
+  return JSON.stringify(payload, (_key, value: unknown) =>
+    typeof value === "bigint" ? value.toString() : value,
+  );
+}
+
+function deliveryId(eventId: string, url: string): string {
+  const endpoint = createHash("sha256").update(url).digest("hex").slice(0, 12);
+  return `${eventId}-${endpoint}`;
+}
+
+export class WebhookDispatcher {
+  private endpoints: WebhookEndpoint[];
+  private queueFile: string;
+  private deadLetterFile: string;
+  private queue: WebhookDelivery[] = [];
+  private deadLetters: DeadLetter[] = [];
+  private maxAttempts: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private requestTimeoutMs: number;
+  private timer?: NodeJS.Timeout;
+  private processing = false;
+
+  constructor(options: WebhookDispatcherOptions) {
+    const dataDir = options.dataDir ?? "./.data";
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+
+    this.endpoints = options.endpoints;
+    this.maxAttempts = options.maxAttempts ?? 8;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 15 * 60 * 1000;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? 10_000;
+    this.queueFile = path.join(dataDir, "webhook-queue.json");
+    this.deadLetterFile = path.join(dataDir, "webhook-dead-letters.json");
+    this.queue = this.loadFile<WebhookDelivery>(this.queueFile);
+    this.deadLetters = this.loadFile<DeadLetter>(this.deadLetterFile);
+  }
+
+  /**
+   * Queue every bus event for the endpoints that want it
+   * @returns unsubscribe function
+   */
+  register(bus: AgentEventBus): () => void {
+    return bus.subscribe("*", (event: AgentEvent, delivery) => {
+      this.enqueue(event, delivery);
+    });
+  }
+
+  /**
+   * Queue an event and kick off delivery
+   * Endpoints that already have this event queued or dead-lettered are
+   * skipped, so a bus replay doesn't queue it twice.
+   */
+  enqueue(event: AgentEvent, delivery: EventDelivery): WebhookDelivery[] {
+    const known = new Set(
+      [...this.queue, ...this.deadLetters].map((queued) => queued.id),
+    );
+    const targets = this.endpoints.filter(
+      (endpoint) =>
+        (!endpoint.events || endpoint.events.includes(event.type)) &&
+        !known.has(deliveryId(delivery.id, endpoint.url)),
+    );
+    if (targets.length === 0) return [];
+
+    const body = serializeEvent(event, delivery);
+    const deliveries = targets.map((endpoint) => ({
+      id: deliveryId(delivery.id, endpoint.url),
+      url: endpoint.url,
+      eventType: event.type,
+      body,
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+    }));
+
+    this.queue.push(...deliveries);
+    this.saveQueue();
+
+    if (this.timer) {
+      void this.processQueue();
+    }
+    return deliveries;
+  }
+
+  /**
+   * Start the retry loop
+   */
+  start(intervalMs = 5000): void {
+    if (this.timer) return;
+    console.log(
+      `🪝 Webhook delivery started for ${this.endpoints.length} endpoints (${this.queue.length} queued)`,
+    );
+    this.timer = setInterval(() => {
+      void this.processQueue();
+    }, intervalMs);
+    void this.processQueue();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Attempt every delivery that is due
+   * @returns number of successful deliveries
+   */
+  async processQueue(now = Date.now()): Promise<number> {
+    if (this.processing) return 0;
+    this.processing = true;
+
+    let delivered = 0;
+    try {
+      const due = this.queue.filter(
+        (delivery) => delivery.nextAttemptAt <= now,
+      );
+      for (const delivery of due) {
+        if (await this.attempt(delivery)) {
+          delivered++;
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+    return delivered;
+  }
+
+  /**
+   * Move a dead letter back into the queue
+   */
+  retryDeadLetter(id: string): boolean {
+    const index = this.deadLetters.findIndex((letter) => letter.id === id);
+    if (index === -1) return false;
+
+    const [letter] = this.deadLetters.splice(index, 1);
+    this.queue.push({
+      id: letter.id,
+      url: letter.url,
+      eventType: letter.eventType,
+      body: letter.body,
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+    });
+    this.saveQueue();
+    this.saveDeadLetters();
+    return true;
+  }
+
+  getQueue(): WebhookDelivery[] {
+    return [...this.queue];
+  }
+
+  getDeadLetters(): DeadLetter[] {
+    return [...this.deadLetters];
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<boolean> {
+    const endpoint = this.endpoints.find((e) => e.url === delivery.url);
+    if (!endpoint) {
+      this.fail(delivery, "Endpoint is no longer configured", true);
+      return false;
+    }
+
+    delivery.attempts++;
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    try {
+      const response = await fetch(delivery.url, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          [EVENT_HEADER]: delivery.eventType,
+          [DELIVERY_HEADER]: delivery.id,
+          [TIMESTAMP_HEADER]: timestamp,
+          [SIGNATURE_HEADER]: signWebhookPayload(
+            endpoint.secret,
+            timestamp,
+            delivery.body,
+          ),
+        },
+        body: delivery.body,
+        signal: AbortSignal.timeout(this.requestTimeoutMs),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      this.queue = this.queue.filter((d) => d.id !== delivery.id);
+      this.saveQueue();
+      return true;
+    } catch (error) {
+      this.fail(
+        delivery,
+        error instanceof Error ? error.message : String(error),
+        delivery.attempts >= this.maxAttempts,
+      );
+      return false;
+    }
+  }
+
+  private fail(delivery: WebhookDelivery, reason: string, dead: boolean): void {
+    delivery.lastError = reason;
+
+    if (dead) {
+      console.error(
+        `❌ Webhook ${delivery.eventType} to ${delivery.url} dead-lettered after ${delivery.attempts} attempts: ${reason}`,
+      );
+      this.queue = this.queue.filter((d) => d.id !== delivery.id);
+      this.deadLetters.push({ ...delivery, deadAt: new Date().toISOString() });
+      this.saveDeadLetters();
+    } else {
+      const delay = Math.min(
+        this.maxDelayMs,
+        this.baseDelayMs * 2 ** (delivery.attempts - 1),
+      );
+      delivery.nextAttemptAt = Date.now() + delay;
+      console.warn(
+        `⚠️ Webhook ${delivery.eventType} to ${delivery.url} failed (${reason}), retrying in ${Math.round(delay / 1000)}s`,
+      );
+    }
+    this.saveQueue();
+  }
+
+  private loadFile<T>(file: string): T[] {
+    try {
+      if (fs.existsSync(file)) {
+        return JSON.parse(fs.readFileSync(file, "utf8")) as T[];
+      }
+    } catch (error) {
+      console.error(`Error loading ${path.basename(file)}:`, error);
+    }
+    return [];
+  }
+
+  private saveQueue(): void {
+    this.writeFile(this.queueFile, this.queue);
+  }
+
+  private saveDeadLetters(): void {
+    this.writeFile(this.deadLetterFile, this.deadLetters);
+  }
+
+  /**
+   * Write-then-rename so a crash never leaves a truncated file
+   */
+  private writeFile(file: string, data: unknown): void {
+    try {
+      const tmpFile = `${file}.tmp`;
+      fs.writeFileSync(tmpFile, JSON.stringify(data, null, 2));
+      fs.renameSync(tmpFile, file);
+    } catch (error) {
+      console.error(`Error saving ${path.basename(file)}:`, error);
+    }
+  }
+}
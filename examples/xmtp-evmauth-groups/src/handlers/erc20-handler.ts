@@ -0,0 +1,61 @@
+/**
+ * Balances and metadata for any payment token
+ * Native ETH and ERC-20 tokens are read through the same calls, so the
+ * purchase flow doesn't care which token the buyer picked.
+ */
+
+import { createPublicClient, erc20Abi, http, type Address } from "viem";
+import { baseSepolia } from "viem/chains";
+import {
+  BASE_SEPOLIA_CHAIN_ID,
+  isNativeToken,
+  type PaymentTokenInfo,
+} from "../utils/payment-tokens";
+
+export class ERC20Handler {
+  private publicClient;
+  private chainId: number;
+
+  constructor(rpcUrl: string, chainId: number = BASE_SEPOLIA_CHAIN_ID) {
+    this.publicClient = createPublicClient({
+      chain: baseSepolia,
+      transport: http(rpcUrl),
+    });
+    this.chainId = chainId;
+  }
+
+  /**
+   * Balance in the token's smallest unit
+   */
+  async getBalance(token: PaymentTokenInfo, owner: string): Promise<bigint> {
+    if (isNativeToken(token)) {
+      return this.publicClient.getBalance({ address: owner as Address });
+    }
+    return this.publicClient.readContract({
+      address: token.address as Address,
+      abi: erc20Abi,
+      functionName: "balanceOf",
+      args: [owner as Address],
+    });
+  }
+
+  /**
+   * Read symbol and decimals from an ERC-20 contract
+   */
+  async readTokenInfo(address: string): Promise<PaymentTokenInfo> {
+    const [symbol, decimals] = await Promise.all([
+      this.publicClient.readContract({
+        address: address as Address,
+        abi: erc20Abi,
+        functionName: "symbol",
+      }),
+      this.publicClient.readContract({
+        address: address as Address,
+        abi: erc20Abi,
+        functionName: "decimals",
+      }),
+    ]);
+
+    return { symbol, address, decimals, chainId: this.chainId };
+  }
+}
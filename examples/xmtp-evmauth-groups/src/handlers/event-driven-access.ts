@@ -4,34 +4,42 @@
  */
 
 import { Client } from "@xmtp/node-sdk";
-import { createPublicClient, http, parseAbiItem, getContract } from "viem";
+import { createPublicClient, http } from "viem";
 import { base } from "viem/chains";
+import { EVMAUTH_V2_ABI } from "../contracts/abis";
+import { XMTPGroupExtensionClient } from "../contracts/xmtp-group-extension-client";
+import { AgentEventBus } from "../events/event-bus";
 import type { EnhancedGroupManager } from "../managers/enhanced-group-flow";
+import type { GroupRegistry } from "../managers/group-registry";
 import type { DualGroupConfig } from "../types/types";
 
-// Contract events we listen for
-const CONTRACT_EVENTS = [
-  parseAbiItem('event UserAccessGranted(address indexed user, string indexed userInboxId, uint256 indexed tokenId, uint256 expiresAt)'),
-  parseAbiItem('event UserAccessRevoked(address indexed user, string indexed userInboxId, uint256 indexed tokenId, string reason)'),
-  parseAbiItem('event AccessTokenExpired(address indexed user, uint256 indexed tokenId)'),
-] as const;
-
 export class EventDrivenAccessManager {
   private client: Client;
-  private publicClient: any;
+  private publicClient;
   private enhancedGroupManager: EnhancedGroupManager;
-  private groupConfigs: Map<string, DualGroupConfig>;
+  private groupRegistry: GroupRegistry;
+  private eventBus: AgentEventBus;
   private isListening: boolean = false;
+  private unwatchers = new Map<string, Array<() => void>>();
 
   constructor(
     client: Client,
     rpcUrl: string,
     enhancedGroupManager: EnhancedGroupManager,
-    groupConfigs: Map<string, DualGroupConfig>
+    groupRegistry: GroupRegistry,
+    eventBus: AgentEventBus = new AgentEventBus()
   ) {
     this.client = client;
     this.enhancedGroupManager = enhancedGroupManager;
-    this.groupConfigs = groupConfigs;
+    this.groupRegistry = groupRegistry;
+    this.eventBus = eventBus;
+
+    // Start watching contracts for groups created after startup
+    this.groupRegistry.onChange(async ({ type, config }) => {
+      if (type === "added") {
+        await this.addContractToListen(config.contractAddress, config);
+      }
+    });
     
     this.publicClient = createPublicClient({
       chain: base,
@@ -52,8 +60,8 @@ export class EventDrivenAccessManager {
     this.isListening = true;
 
     // Listen for events from all managed contracts
-    for (const [contractAddress, config] of this.groupConfigs.entries()) {
-      await this.listenToContractEvents(contractAddress, config);
+    for (const config of this.groupRegistry.list()) {
+      await this.listenToContractEvents(config.contractAddress, config);
     }
 
     console.log("✅ Event listeners started for all managed contracts");
@@ -64,64 +72,95 @@ export class EventDrivenAccessManager {
    */
   stopEventListening(): void {
     console.log("🛑 Stopping event listeners...");
+    for (const unwatch of [...this.unwatchers.values()].flat()) {
+      unwatch();
+    }
+    this.unwatchers.clear();
     this.isListening = false;
   }
 
   /**
    * Listen to events from a specific contract
+   * Access grants and revocations come from the contract's XMTP extension;
+   * expiries come from the base contract burning expired tokens.
    */
   private async listenToContractEvents(
     contractAddress: string,
     config: DualGroupConfig
   ): Promise<void> {
     try {
+      if (this.unwatchers.has(contractAddress.toLowerCase())) {
+        return;
+      }
       console.log(`🎧 Setting up event listeners for contract: ${contractAddress}`);
 
-      // Listen for UserAccessGranted events
-      this.publicClient.watchContractEvent({
-        address: contractAddress as `0x${string}`,
-        abi: [CONTRACT_EVENTS[0]],
-        eventName: 'UserAccessGranted',
-        onLogs: async (logs: any[]) => {
+      const extension = await XMTPGroupExtensionClient.fromBaseContract(
+        contractAddress,
+        this.publicClient
+      );
+
+      // Indexed strings are hashed in logs, so inbox IDs are read back
+      // from the extension
+      const unwatchGranted = extension.watchEvent(
+        "XMTPUserAccessGranted",
+        async (logs) => {
+          // Use the latest config so tiers added after startup are seen
+          const latest = this.groupRegistry.get(contractAddress) ?? config;
           for (const log of logs) {
-            await this.handleUserAccessGranted(log, config);
+            const userInboxId = await extension.userInboxId(log.args.user);
+            await this.handleUserAccessGranted(
+              { address: contractAddress, args: { ...log.args, userInboxId } },
+              latest
+            );
           }
         },
-        onError: (error: any) => {
-          console.error(`Error listening for UserAccessGranted events:`, error);
+        (error) => {
+          console.error(`Error listening for XMTPUserAccessGranted events:`, error);
         }
-      });
+      );
 
-      // Listen for UserAccessRevoked events
-      this.publicClient.watchContractEvent({
-        address: contractAddress as `0x${string}`,
-        abi: [CONTRACT_EVENTS[1]],
-        eventName: 'UserAccessRevoked',
-        onLogs: async (logs: any[]) => {
+      const unwatchRevoked = extension.watchEvent(
+        "XMTPUserAccessRevoked",
+        async (logs) => {
           for (const log of logs) {
-            await this.handleUserAccessRevoked(log, config);
+            const userInboxId = await extension.userInboxId(log.args.user);
+            await this.handleUserAccessRevoked(
+              { address: contractAddress, args: { ...log.args, userInboxId } },
+              config
+            );
           }
         },
-        onError: (error: any) => {
-          console.error(`Error listening for UserAccessRevoked events:`, error);
+        (error) => {
+          console.error(`Error listening for XMTPUserAccessRevoked events:`, error);
         }
-      });
+      );
 
-      // Listen for AccessTokenExpired events
-      this.publicClient.watchContractEvent({
+      const unwatchExpired = this.publicClient.watchContractEvent({
         address: contractAddress as `0x${string}`,
-        abi: [CONTRACT_EVENTS[2]],
-        eventName: 'AccessTokenExpired',
-        onLogs: async (logs: any[]) => {
+        abi: EVMAUTH_V2_ABI,
+        eventName: "ExpiredTokensBurned",
+        strict: true,
+        onLogs: async (logs) => {
           for (const log of logs) {
-            await this.handleAccessTokenExpired(log, config);
+            await this.handleAccessTokenExpired(
+              {
+                address: contractAddress,
+                args: { user: log.args.account, tokenId: log.args.id },
+              },
+              config
+            );
           }
         },
-        onError: (error: any) => {
-          console.error(`Error listening for AccessTokenExpired events:`, error);
+        onError: (error) => {
+          console.error(`Error listening for ExpiredTokensBurned events:`, error);
         }
       });
 
+      this.unwatchers.set(contractAddress.toLowerCase(), [
+        unwatchGranted,
+        unwatchRevoked,
+        unwatchExpired,
+      ]);
       console.log(`✅ Event listeners active for: ${config.metadata.name}`);
 
     } catch (error) {
@@ -151,14 +190,22 @@ export class EventDrivenAccessManager {
         tier?.name || `Token ${tokenId}`
       );
 
-      // Send notification to sales group
-      const salesGroup = await this.client.conversations.getConversationById(config.salesGroupId);
-      if (salesGroup) {
-        await salesGroup.send(
-          `🎉 **New Premium Member!**\n\n` +
-          `Someone just purchased ${tier?.name || 'access'} and joined our premium community! 🚀\n\n` +
-          `Welcome to the family! 💎`
-        );
+      if (tier) {
+        await this.eventBus.publish({
+          type: "TOKEN_PURCHASED",
+          data: {
+            userAddress: user,
+            groupId: config.groupId,
+            contractAddress: log.address,
+            tier,
+            tokenId: Number(tokenId),
+            payment: {
+              token: tier.paymentToken ?? "USDC",
+              amount: tier.priceWei,
+              usdAmount: tier.priceUSD,
+            },
+          },
+        });
       }
 
     } catch (error) {
@@ -200,6 +247,15 @@ export class EventDrivenAccessManager {
       // For now, we'll let the background audit handle this
       console.log(`Token ${tokenId} expired for user ${user} - will be handled by background audit`);
 
+      await this.eventBus.publish({
+        type: "TOKEN_EXPIRED",
+        data: {
+          groupId: config.groupId,
+          userAddress: user,
+          tokenId: tokenId.toString(),
+        },
+      });
+
     } catch (error) {
       console.error("Error handling AccessTokenExpired:", error);
     }
@@ -233,7 +289,7 @@ export class EventDrivenAccessManager {
     contractAddress: string,
     eventData: any
   ): Promise<void> {
-    const config = this.groupConfigs.get(contractAddress);
+    const config = this.groupRegistry.get(contractAddress);
     if (!config) {
       console.error(`Config not found for contract: ${contractAddress}`);
       return;
@@ -1,53 +1,11 @@
 import { createPublicClient, createWalletClient, http, getContract, parseEther } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
 import { baseSepolia } from "viem/chains";
+import { EVMAUTH_V2_ABI } from "../contracts/abis";
+import { buildPurchase } from "../contracts/transaction-builder";
+import { XMTPGroupExtensionClient } from "../contracts/xmtp-group-extension-client";
 import type { AccessTier } from "../types/types";
-
-// EVMAuth Contract ABI (simplified for demo - include full ABI in production)
-const EVMAUTH_ABI = [
-  {
-    "inputs": [
-      {"name": "to", "type": "address"},
-      {"name": "tokenId", "type": "uint256"},
-      {"name": "amount", "type": "uint256"},
-      {"name": "data", "type": "bytes"}
-    ],
-    "name": "mint",
-    "outputs": [],
-    "stateMutability": "payable",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {"name": "account", "type": "address"},
-      {"name": "id", "type": "uint256"}
-    ],
-    "name": "balanceOf",
-    "outputs": [{"name": "", "type": "uint256"}],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {"name": "tokenId", "type": "uint256"}
-    ],
-    "name": "getTokenExpiration",
-    "outputs": [{"name": "", "type": "uint256"}],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {"name": "tokenId", "type": "uint256"},
-      {"name": "price", "type": "uint256"},
-      {"name": "ttl", "type": "uint256"}
-    ],
-    "name": "setTokenMetadata",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  }
-] as const;
+import { tierPaymentToken, type PriceService } from "../utils/price-service";
 
 // Factory Contract ABI (updated to match deployed contract)
 const FACTORY_ABI = [
@@ -72,6 +30,7 @@ export class EVMAuthHandler {
   private walletClient;
   private account;
   private factoryAddress: string;
+  private extensionClients = new Map<string, XMTPGroupExtensionClient>();
 
   constructor(rpcUrl: string, factoryAddress: string, privateKey: string) {
     this.factoryAddress = factoryAddress;
@@ -89,6 +48,25 @@ export class EVMAuthHandler {
     });
   }
 
+  /**
+   * Get the XMTP group extension client for a group contract (cached)
+   */
+  async getExtensionClient(contractAddress: string): Promise<XMTPGroupExtensionClient> {
+    const key = contractAddress.toLowerCase();
+    const cached = this.extensionClients.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const extension = await XMTPGroupExtensionClient.fromBaseContract(
+      contractAddress,
+      this.publicClient,
+      this.walletClient,
+    );
+    this.extensionClients.set(key, extension);
+    return extension;
+  }
+
   /**
    * Deploy a new EVMAuth contract for a group
    */
@@ -155,25 +133,40 @@ export class EVMAuthHandler {
 
   /**
    * Setup access tiers for a group contract
+   * Prices and TTLs live on the base contract; names and descriptions are
+   * registered on the XMTP extension. purchase() charges native ETH, so each
+   * tier's price is converted to wei at today's rate.
    */
-  async setupAccessTiers(contractAddress: string, tiers: AccessTier[]): Promise<void> {
+  async setupAccessTiers(
+    contractAddress: string,
+    tiers: AccessTier[],
+    priceService: PriceService
+  ): Promise<void> {
     try {
-      const contract = getContract({
-        address: contractAddress as `0x${string}`,
-        abi: EVMAUTH_ABI,
-        client: this.walletClient,
-      });
+      const extension = await this.getExtensionClient(contractAddress);
 
       for (let i = 0; i < tiers.length; i++) {
         const tier = tiers[i];
-        const tokenId = i + 1; // Token IDs start from 1
-        const ttlSeconds = tier.durationDays * 24 * 60 * 60;
+        const tokenId = BigInt(i + 1); // Token IDs start from 1
+        const ttlSeconds = BigInt(tier.durationDays * 24 * 60 * 60);
+        const priceWei = await priceService.convert(tier.priceWei, tierPaymentToken(tier), "ETH");
 
-        await contract.write.setTokenMetadata([
-          BigInt(tokenId),
-          BigInt(tier.priceWei),
-          BigInt(ttlSeconds),
-        ]);
+        const metadataHash = await this.walletClient.writeContract({
+          address: contractAddress as `0x${string}`,
+          abi: EVMAUTH_V2_ABI,
+          functionName: "setMetadata",
+          args: [tokenId, true, false, false, priceWei, ttlSeconds],
+        });
+        await this.publicClient.waitForTransactionReceipt({ hash: metadataHash });
+
+        const tierHash = await extension.setupXMTPAccessTier({
+          tokenId,
+          name: tier.name,
+          description: tier.description ?? "",
+          imageHash: tier.metadata?.imageHash ?? "",
+          metadataUri: tier.metadata?.ipfsHash ? `ipfs://${tier.metadata.ipfsHash}` : "",
+        });
+        await this.publicClient.waitForTransactionReceipt({ hash: tierHash });
 
         console.log(`✅ Setup tier ${tier.name} (Token ID: ${tokenId})`);
       }
@@ -188,37 +181,61 @@ export class EVMAuthHandler {
    */
   async checkTokenAccess(contractAddress: string, userAddress: string): Promise<boolean> {
     try {
-      const contract = getContract({
-        address: contractAddress as `0x${string}`,
-        abi: EVMAUTH_ABI,
-        client: this.publicClient,
-      });
-
-      // Check all possible token IDs (in production, you'd track these better)
-      for (let tokenId = 1; tokenId <= 10; tokenId++) {
-        const balance = await contract.read.balanceOf([
-          userAddress as `0x${string}`,
-          BigInt(tokenId),
-        ]);
-
-        if (balance > 0n) {
-          // Check if token is not expired
-          const expiration = await contract.read.getTokenExpiration([BigInt(tokenId)]);
-          const now = Math.floor(Date.now() / 1000);
-          
-          if (expiration > now) {
-            return true; // User has at least one valid token
-          }
-        }
-      }
-
-      return false;
+      const extension = await this.getExtensionClient(contractAddress);
+      return await extension.hasValidXMTPAccess(userAddress);
     } catch (error) {
       console.error("Error checking token access:", error);
       return false;
     }
   }
 
+  /**
+   * Native price of one token, as charged by purchase()
+   */
+  async getTokenPrice(contractAddress: string, tokenId: number): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: contractAddress as `0x${string}`,
+      abi: EVMAUTH_V2_ABI,
+      functionName: "priceOf",
+      args: [BigInt(tokenId)],
+    });
+  }
+
+  /**
+   * Address the contract forwards purchase proceeds to; ERC-20 payments are
+   * sent here directly
+   */
+  async getPaymentWallet(contractAddress: string): Promise<string> {
+    return this.publicClient.readContract({
+      address: contractAddress as `0x${string}`,
+      abi: EVMAUTH_V2_ABI,
+      functionName: "wallet",
+    });
+  }
+
+  /**
+   * Mint tokens paid for outside purchase() (requires the token minter role)
+   * @returns the confirmed transaction hash
+   */
+  async issueTokens(
+    contractAddress: string,
+    to: string,
+    tokenId: number,
+    amount = 1n
+  ): Promise<`0x${string}`> {
+    const hash = await this.walletClient.writeContract({
+      address: contractAddress as `0x${string}`,
+      abi: EVMAUTH_V2_ABI,
+      functionName: "issue",
+      args: [to as `0x${string}`, BigInt(tokenId), amount, "0x"],
+    });
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      throw new Error(`issue() reverted in ${hash}`);
+    }
+    return hash;
+  }
+
   /**
    * Create mint transaction data for token purchase
    */
@@ -233,25 +250,17 @@ export class EVMAuthHandler {
     value: string;
   }> {
     try {
-      const contract = getContract({
-        address: contractAddress as `0x${string}`,
-        abi: EVMAUTH_ABI,
-        client: this.publicClient,
+      // EVMAuthV2.purchase mints one token to the buyer for its native price
+      const tx = buildPurchase(contractAddress, {
+        account: userAddress,
+        tokenId,
+        value: await this.getTokenPrice(contractAddress, tokenId),
       });
 
-      // Create the mint function data (in a real implementation, you'd use encodeFunctionData from viem)
-      // For now, we'll create a placeholder that includes the essential transaction info
-      const data = "0x" + 
-        "40c10f19" + // mint function selector
-        userAddress.slice(2).padStart(64, "0") + // to address
-        tokenId.toString(16).padStart(64, "0") + // token ID
-        "0".repeat(64) + // amount (1)
-        "0".repeat(64); // data offset
-
       return {
-        to: contractAddress,
-        data,
-        value: tier.priceWei,
+        to: tx.to,
+        data: tx.data,
+        value: tx.value.toString(),
       };
     } catch (error) {
       console.error("Error creating mint transaction:", error);
@@ -261,6 +270,7 @@ export class EVMAuthHandler {
 
   /**
    * Get token information for a user
+   * Expiry comes from the user's latest active purchase record per token.
    */
   async getUserTokens(contractAddress: string, userAddress: string): Promise<Array<{
     tokenId: number;
@@ -268,26 +278,33 @@ export class EVMAuthHandler {
     expiresAt: Date;
   }>> {
     try {
-      const contract = getContract({
-        address: contractAddress as `0x${string}`,
-        abi: EVMAUTH_ABI,
-        client: this.publicClient,
-      });
+      const extension = await this.getExtensionClient(contractAddress);
+      const records = await extension.getUserPurchaseRecords(userAddress);
+
+      const latestExpiry = new Map<bigint, bigint>();
+      for (const record of records) {
+        if (!record.isActive) continue;
+        const current = latestExpiry.get(record.tokenId) ?? 0n;
+        if (record.expiresAt > current) {
+          latestExpiry.set(record.tokenId, record.expiresAt);
+        }
+      }
 
       const tokens = [];
 
-      for (let tokenId = 1; tokenId <= 10; tokenId++) {
-        const balance = await contract.read.balanceOf([
-          userAddress as `0x${string}`,
-          BigInt(tokenId),
-        ]);
+      for (const [tokenId, expiresAt] of latestExpiry) {
+        const balance = await this.publicClient.readContract({
+          address: contractAddress as `0x${string}`,
+          abi: EVMAUTH_V2_ABI,
+          functionName: "balanceOf",
+          args: [userAddress as `0x${string}`, tokenId],
+        });
 
         if (balance > 0n) {
-          const expiration = await contract.read.getTokenExpiration([BigInt(tokenId)]);
           tokens.push({
-            tokenId,
+            tokenId: Number(tokenId),
             balance,
-            expiresAt: new Date(Number(expiration) * 1000),
+            expiresAt: new Date(Number(expiresAt) * 1000),
           });
         }
       }
@@ -299,6 +316,39 @@ export class EVMAuthHandler {
     }
   }
 
+  /**
+   * Unexpired balance batches of one token for a user (balanceDetailsOf)
+   */
+  async getTokenBalanceDetails(
+    contractAddress: string,
+    userAddress: string,
+    tokenId: number
+  ): Promise<Array<{ balance: bigint; expiresAt: Date }>> {
+    const groups = await this.publicClient.readContract({
+      address: contractAddress as `0x${string}`,
+      abi: EVMAUTH_V2_ABI,
+      functionName: "balanceDetailsOf",
+      args: [userAddress as `0x${string}`, BigInt(tokenId)],
+    });
+
+    return groups.map((group) => ({
+      balance: group.balance,
+      expiresAt: new Date(Number(group.expiresAt) * 1000),
+    }));
+  }
+
+  /**
+   * Time-to-live in seconds for newly purchased tokens of a tier (0 = never expires)
+   */
+  async getTokenTTL(contractAddress: string, tokenId: number): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: contractAddress as `0x${string}`,
+      abi: EVMAUTH_V2_ABI,
+      functionName: "ttlOf",
+      args: [BigInt(tokenId)],
+    });
+  }
+
   /**
    * Get contract balance for fee collection
    */
@@ -315,19 +365,19 @@ export class EVMAuthHandler {
   }
 
   /**
-   * Withdraw fees from contract (only contract owner)
+   * Withdraw fees collected by the group's XMTP extension (extension owner only)
    */
-  async withdrawFees(contractAddress: string, amount: bigint): Promise<string> {
+  async withdrawFees(contractAddress: string): Promise<string> {
     try {
-      // This would require a withdraw function in the EVMAuth contract
-      // Implementation depends on the specific contract design
-      console.log(`Withdrawing ${amount} wei from ${contractAddress}`);
-      
-      // Placeholder - implement based on actual contract
-      return "0x"; // Transaction hash
+      const extension = await this.getExtensionClient(contractAddress);
+      console.log(`Withdrawing fees from ${extension.address}`);
+
+      const hash = await extension.withdraw();
+      await this.publicClient.waitForTransactionReceipt({ hash });
+      return hash;
     } catch (error) {
       console.error("Error withdrawing fees:", error);
       throw error;
     }
   }
-}
\ No newline at end of file
+}
@@ -1,6 +1,11 @@
-import { createPublicClient, createWalletClient, http, getContract, parseUnits, formatUnits } from "viem";
+import { createPublicClient, createWalletClient, http, getContract, parseUnits, formatUnits, encodeFunctionData } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
 import { base } from "viem/chains";
+import {
+  BASE_CHAIN_ID,
+  BASE_SEPOLIA_CHAIN_ID,
+  builtinPaymentToken,
+} from "../utils/payment-tokens";
 
 // USDC Contract ABI (essential functions)
 const USDC_ABI = [
@@ -33,12 +38,6 @@ const USDC_ABI = [
   }
 ] as const;
 
-// Base network USDC addresses
-const USDC_ADDRESSES = {
-  mainnet: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", // Base mainnet USDC
-  testnet: "0x036CbD53842c5426634e7929541eC2318f3dCF7e", // Base Sepolia USDC
-} as const;
-
 export interface USDCPriceConfig {
   amountUSD: number;        // Price in USD (e.g., 5.99)
   amountUSDC: string;       // Price in USDC wei (e.g., "5990000")
@@ -57,7 +56,11 @@ export class USDCHandler {
     isMainnet: boolean = false
   ) {
     this.account = privateKeyToAccount(privateKey as `0x${string}`);
-    this.usdcAddress = isMainnet ? USDC_ADDRESSES.mainnet : USDC_ADDRESSES.testnet;
+    // Base network USDC addresses come from the payment token registry
+    this.usdcAddress = builtinPaymentToken(
+      "USDC",
+      isMainnet ? BASE_CHAIN_ID : BASE_SEPOLIA_CHAIN_ID
+    )!.address!;
     
     this.publicClient = createPublicClient({
       chain: base,
@@ -71,6 +74,13 @@ export class USDCHandler {
     });
   }
 
+  /**
+   * USDC token address for the configured network
+   */
+  getUSDCAddress(): string {
+    return this.usdcAddress;
+  }
+
   /**
    * Convert USD amount to USDC price configuration
    */
@@ -122,13 +132,11 @@ export class USDCHandler {
     value: string; // Always "0" for USDC transfers
   } {
     try {
-      // For USDC transfers, we need to encode the transfer function call
-      // This is a simplified version - in production, use encodeFunctionData from viem
-      const transferSelector = "0xa9059cbb"; // transfer(address,uint256)
-      const paddedAddress = toAddress.slice(2).padStart(64, "0");
-      const paddedAmount = BigInt(amountUSDC).toString(16).padStart(64, "0");
-      
-      const data = transferSelector + paddedAddress + paddedAmount;
+      const data = encodeFunctionData({
+        abi: USDC_ABI,
+        functionName: "transfer",
+        args: [toAddress as `0x${string}`, BigInt(amountUSDC)],
+      });
 
       return {
         to: this.usdcAddress,
@@ -209,11 +217,11 @@ export class USDCHandler {
     value: string;
   } {
     try {
-      const approveSelector = "0x095ea7b3"; // approve(address,uint256)
-      const paddedSpender = spenderAddress.slice(2).padStart(64, "0");
-      const paddedAmount = BigInt(amount).toString(16).padStart(64, "0");
-      
-      const data = approveSelector + paddedSpender + paddedAmount;
+      const data = encodeFunctionData({
+        abi: USDC_ABI,
+        functionName: "approve",
+        args: [spenderAddress as `0x${string}`, BigInt(amount)],
+      });
 
       return {
         to: this.usdcAddress,
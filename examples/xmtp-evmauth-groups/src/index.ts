@@ -5,21 +5,87 @@
 // Handlers
 export { EVMAuthHandler } from "./handlers/evmauth-handler";
 export { USDCHandler } from "./handlers/usdc-handler";
+export { ERC20Handler } from "./handlers/erc20-handler";
 export { IPFSMetadataHandler } from "./handlers/ipfs-metadata";
 export { EventDrivenAccessManager } from "./handlers/event-driven-access";
 
+// Commands
+export {
+  CommandRegistry,
+  CommandUsageError,
+} from "./commands/command-registry";
+export { createAgentCommandRegistry } from "./commands/agent-commands";
+
+// Contracts
+export * from "./contracts/transaction-builder";
+export { EVMAUTH_V2_ABI, XMTP_GROUP_EXTENSION_ABI } from "./contracts/abis";
+export * from "./contracts/xmtp-group-extension-client";
+
+// Database
+export { createGroupStore } from "./database/group-store";
+export { SQLiteGroupStore } from "./database/sqlite-group-store";
+export { JSONDatabase } from "./database/json-database";
+export { runMigrations } from "./database/migrations";
+
+// Events
+export { AgentEventBus } from "./events/event-bus";
+export {
+  EventAnalytics,
+  registerAnnouncementSubscriber,
+  registerLoggingSubscriber,
+  registerOperatorAlertSubscriber,
+} from "./events/subscribers";
+export {
+  WebhookDispatcher,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from "./events/webhook-dispatcher";
+
 // Managers
 export { GroupManager } from "./managers/group-manager";
 export { EnhancedTierSetup } from "./managers/enhanced-tier-setup";
 export { EnhancedGroupManager } from "./managers/enhanced-group-flow";
 export { RecoveryManager } from "./managers/recovery-mechanisms";
+export { GroupRegistry } from "./managers/group-registry";
+export { SeatManager, SeatError } from "./managers/seat-manager";
+export {
+  PromoCodeManager,
+  PromoCodeError,
+} from "./managers/promo-code-manager";
+export { ReferralManager, ReferralError } from "./managers/referral-manager";
 
 // Utils
-export { TokenSalesHandler } from "./utils/token-sales";
-export { handleEnhancedCreateGroup, handleEnhancedBuyAccess } from "./utils/enhanced-create-group";
+export { MembershipAuditEngine } from "./utils/membership-audit";
+export {
+  ExpiryReminderScheduler,
+  parseLeadTimes,
+} from "./utils/expiry-reminders";
+export {
+  handleEnhancedCreateGroup,
+  handleEnhancedBuyAccess,
+  handleGiftAccess,
+  handleBuySeats,
+} from "./utils/enhanced-create-group";
+export { handleRenewAccess } from "./utils/renew-access";
+export { RefundManager, formatRefundAmount } from "./utils/refund-manager";
+export { RecipientResolver } from "./utils/recipient-resolver";
+export { FeeEngine, parseTokenFees } from "./utils/fee-engine";
+export {
+  PriceService,
+  StaticRateSource,
+  FileRateSource,
+  ChainlinkRateSource,
+  createPriceService,
+  formatTokenAmount,
+} from "./utils/price-service";
+export {
+  PaymentTokenRegistry,
+  BUILTIN_PAYMENT_TOKENS,
+} from "./utils/payment-tokens";
 
 // Test
 export { TestFlowManager } from "./test/test-flow";
 
 // Types
-export type * from "./types/types";
\ No newline at end of file
+export type * from "./types/types";
+export type * from "./database/group-store";
@@ -4,13 +4,14 @@
  */
 
 import { Client, type Conversation } from "@xmtp/node-sdk";
-import { JSONDatabase, type GroupRecord } from "../database/json-database";
+import type { GroupRecord, GroupStore } from "../database/group-store";
 import type { DualGroupConfig } from "../types/types";
+import { groupRecordToConfig } from "./group-registry";
 
 export class ComprehensiveRecovery {
   constructor(
     private client: Client,
-    private database: JSONDatabase
+    private database: GroupStore
   ) {}
 
   /**
@@ -32,32 +33,7 @@ export class ComprehensiveRecovery {
       
       // 2. Convert database groups to runtime format
       for (const dbGroup of existingGroups) {
-        const config: DualGroupConfig = {
-          groupId: dbGroup.premiumGroupId,
-          contractAddress: dbGroup.contractAddress,
-          creatorInboxId: dbGroup.creatorInboxId,
-          salesGroupId: dbGroup.salesGroupId,
-          premiumGroupId: dbGroup.premiumGroupId,
-          groupName: dbGroup.name,
-          createdAt: new Date(dbGroup.createdAt),
-          metadata: {
-            name: dbGroup.name,
-            description: `Premium access to ${dbGroup.name}`,
-            image: `https://via.placeholder.com/400x400/6366f1/ffffff?text=${encodeURIComponent(dbGroup.name)}`,
-            tiers: dbGroup.tiers || []
-          },
-          salesSettings: {
-            welcomeMessage: `Welcome to ${dbGroup.name} sales!`,
-            availableTiers: "Check available access tiers below",
-            helpMessage: "Need help? Contact support"
-          },
-          premiumSettings: {
-            welcomeMessage: `Welcome to ${dbGroup.name} premium!`,
-            description: `Exclusive access to ${dbGroup.name}`
-          }
-        };
-        
-        groups.set(dbGroup.contractAddress, config);
+        groups.set(dbGroup.contractAddress, groupRecordToConfig(dbGroup));
         foundContracts.add(dbGroup.contractAddress);
       }
       
@@ -2,12 +2,20 @@
  * Enhanced Group Management with Database Integration
  */
 
-import { Client, type Group, IdentifierKind } from "@xmtp/node-sdk";
+import { Client, IdentifierKind, type Group } from "@xmtp/node-sdk";
+import { AgentEventBus } from "../events/event-bus";
 import type { EVMAuthHandler } from "../handlers/evmauth-handler";
-import type { DualGroupConfig, GroupMetadata } from "../types/types";
-import type { JSONDatabase } from "../database/json-database";
-
-// Group configuration interface  
+import type {
+  DualGroupConfig,
+  GroupMetadata,
+  MembershipAudit,
+} from "../types/types";
+import { MembershipAuditEngine } from "../utils/membership-audit";
+import { GroupRegistry, tierForTokenId } from "./group-registry";
+import type { ReferralManager } from "./referral-manager";
+import { checkSeatBacking, type SeatManager } from "./seat-manager";
+
+// Group configuration interface
 interface GroupSettings {
   // Group metadata
   metadata: {
@@ -16,14 +24,14 @@ interface GroupSettings {
     image: string;
     tiers: any[];
   };
-  
+
   // Group settings
   salesSettings: {
     welcomeMessage: string;
     availableTiers: string;
     helpMessage: string;
   };
-  
+
   premiumSettings: {
     welcomeMessage: string;
     rules?: string;
@@ -34,14 +42,32 @@ interface GroupSettings {
 export class EnhancedGroupManager {
   private client: Client;
   private evmAuthHandler: EVMAuthHandler;
-  private groupConfigs = new Map<string, DualGroupConfig>();
+  private groupRegistry: GroupRegistry;
+  private eventBus: AgentEventBus;
+  private auditEngine: MembershipAuditEngine;
+  private seatManager?: SeatManager;
+  private referralManager?: ReferralManager;
   public agentAddress: string;
-  private database?: JSONDatabase;
 
-  constructor(client: Client, evmAuthHandler: EVMAuthHandler, database?: JSONDatabase) {
+  constructor(
+    client: Client,
+    evmAuthHandler: EVMAuthHandler,
+    groupRegistry: GroupRegistry = new GroupRegistry(),
+    eventBus: AgentEventBus = new AgentEventBus(),
+    auditEngine: MembershipAuditEngine = new MembershipAuditEngine(
+      client,
+      process.env.BASE_RPC_URL || "https://sepolia.base.org",
+    ),
+    seatManager?: SeatManager,
+    referralManager?: ReferralManager,
+  ) {
     this.client = client;
     this.evmAuthHandler = evmAuthHandler;
-    this.database = database;
+    this.groupRegistry = groupRegistry;
+    this.eventBus = eventBus;
+    this.auditEngine = auditEngine;
+    this.seatManager = seatManager;
+    this.referralManager = referralManager;
     // Set agent address from the known wallet address
     this.agentAddress = "0xa14ce36e7b135b66c3e3cb2584e777f32b15f5dc";
   }
@@ -52,7 +78,7 @@ export class EnhancedGroupManager {
   async createDualGroupSystem(
     groupName: string,
     creatorInboxId: string,
-    creatorAddress: string
+    creatorAddress: string,
   ): Promise<{
     contractAddress: string;
     salesGroup: Group;
@@ -70,7 +96,7 @@ export class EnhancedGroupManager {
           groupName: `🏪 ${groupName} - Sales`,
           groupDescription: `Public group for ${groupName} access sales and information`,
           groupImageUrlSquare: `https://via.placeholder.com/400x400/22c55e/ffffff?text=${encodeURIComponent(groupName)}+Sales`,
-        }
+        },
       );
 
       // 2. Create premium group
@@ -81,35 +107,35 @@ export class EnhancedGroupManager {
           groupName: `💎 ${groupName}`,
           groupDescription: `Premium access group for ${groupName}`,
           groupImageUrlSquare: `https://via.placeholder.com/400x400/6366f1/ffffff?text=${encodeURIComponent(groupName)}`,
-        }
+        },
       );
 
       // 3. Send welcome messages to both groups
       console.log("📝 Setting up welcome messages...");
-      
+
       // Sales group welcome message
       await salesGroup.send(
         `🎉 Welcome to ${groupName} Sales! 🎉\n\n` +
-        `This is where you can:\n` +
-        `🛒 Purchase access to our premium community\n` +
-        `📋 Learn about available tiers and pricing\n` +
-        `💬 Get support from our team\n\n` +
-        `Once tier setup is complete, you'll be able to use:\n` +
-        `• /buy-access to purchase premium access\n` +
-        `• /group-info to see pricing details\n\n` +
-        `🚀 Stay tuned for more updates!`
+          `This is where you can:\n` +
+          `🛒 Purchase access to our premium community\n` +
+          `📋 Learn about available tiers and pricing\n` +
+          `💬 Get support from our team\n\n` +
+          `Once tier setup is complete, you'll be able to use:\n` +
+          `• /buy-access to purchase premium access\n` +
+          `• /group-info to see pricing details\n\n` +
+          `🚀 Stay tuned for more updates!`,
       );
 
-      // Premium group welcome message  
+      // Premium group welcome message
       await premiumGroup.send(
         `💎 Welcome to ${groupName} Premium! 💎\n\n` +
-        `🎉 Congratulations! You now have exclusive access to our premium community.\n\n` +
-        `✨ Premium Benefits:\n` +
-        `• Exclusive content and discussions\n` +
-        `• Priority support\n` +
-        `• Special member privileges\n` +
-        `• Early access to new features\n\n` +
-        `Enjoy your premium experience! 🚀`
+          `🎉 Congratulations! You now have exclusive access to our premium community.\n\n` +
+          `✨ Premium Benefits:\n` +
+          `• Exclusive content and discussions\n` +
+          `• Priority support\n` +
+          `• Special member privileges\n` +
+          `• Early access to new features\n\n` +
+          `Enjoy your premium experience! 🚀`,
       );
 
       // 4. Deploy EVMAuth contract with actual group IDs
@@ -117,8 +143,8 @@ export class EnhancedGroupManager {
       const contractAddress = await this.evmAuthHandler.deployGroupContract(
         groupName,
         this.agentAddress, // Pass AGENT address as botAddress (not creator)
-        salesGroup.id,  // Pass actual sales group ID
-        premiumGroup.id // Pass actual premium group ID
+        salesGroup.id, // Pass actual sales group ID
+        premiumGroup.id, // Pass actual premium group ID
       );
 
       // 5. Create group configuration
@@ -129,40 +155,37 @@ export class EnhancedGroupManager {
         salesGroupId: salesGroup.id,
         premiumGroupId: premiumGroup.id,
         groupName,
+        creatorAddress,
         createdAt: new Date(),
+        isActive: true,
+        tiers: [], // Will be populated during tier setup
+        paymentConfig: {
+          acceptedTokens: ["USDC"],
+          defaultToken: "USDC",
+        },
         metadata: {
           name: groupName,
           description: `Premium access to ${groupName}`,
           image: `https://via.placeholder.com/400x400/6366f1/ffffff?text=${encodeURIComponent(groupName)}`,
-          tiers: [] // Will be populated during tier setup
         },
         salesSettings: {
           welcomeMessage: `Welcome to ${groupName}! 🎉\n\nThis is where you can purchase access to our premium community.\n\nUse /buy-access to get started!`,
-          availableTiers: "Premium tiers will be displayed here once configured.",
-          helpMessage: "Need help? Contact our support team or use /help for commands."
+          availableTiers:
+            "Premium tiers will be displayed here once configured.",
+          helpMessage:
+            "Need help? Contact our support team or use /help for commands.",
         },
         premiumSettings: {
           welcomeMessage: `🎉 Welcome to ${groupName} Premium! 🎉\n\nYou now have exclusive access to our premium community.\n\nEnjoy your time here!`,
-          description: `Exclusive premium access to ${groupName} with special benefits and content.`
-        }
+          description: `Exclusive premium access to ${groupName} with special benefits and content.`,
+        },
       };
 
-      // 6. Store in in-memory config for immediate access
-      this.groupConfigs.set(contractAddress, groupConfig);
+      // 6. Register the group (written through to the database)
+      await this.groupRegistry.add(groupConfig, "created");
+      console.log("💾 Saved group to registry");
 
-      // 7. Store in database for persistence
-      if (this.database) {
-        await this.database.createGroup({
-          name: groupName,
-          creatorInboxId,
-          creatorAddress,
-          contractAddress,
-          salesGroupId: salesGroup.id,
-          premiumGroupId: premiumGroup.id,
-          status: 'created'
-        });
-        console.log("💾 Saved group to database");
-      }
+      await this.eventBus.publish({ type: "GROUP_CREATED", data: groupConfig });
 
       console.log("✅ Dual-group system created successfully!");
       console.log("📋 Contract:", contractAddress);
@@ -173,9 +196,8 @@ export class EnhancedGroupManager {
         contractAddress,
         salesGroup,
         premiumGroup,
-        config: groupConfig
+        config: groupConfig,
       };
-
     } catch (error) {
       console.error("Error creating dual-group system:", error);
       throw error;
@@ -189,18 +211,20 @@ export class EnhancedGroupManager {
     contractAddress: string,
     userInboxId: string,
     tierName: string,
-    tokenId: number
+    tokenId: number,
   ): Promise<void> {
     try {
-      const config = this.groupConfigs.get(contractAddress);
+      const config = this.groupRegistry.get(contractAddress);
       if (!config) {
-        throw new Error(`Group configuration not found for contract ${contractAddress}`);
+        throw new Error(
+          `Group configuration not found for contract ${contractAddress}`,
+        );
       }
 
       // 1. Get premium group
-      const premiumGroup = await this.client.conversations.getConversationById(
-        config.premiumGroupId
-      ) as Group;
+      const premiumGroup = (await this.client.conversations.getConversationById(
+        config.premiumGroupId,
+      )) as Group;
 
       if (!premiumGroup) {
         throw new Error(`Premium group not found: ${config.premiumGroupId}`);
@@ -210,7 +234,7 @@ export class EnhancedGroupManager {
       await premiumGroup.addMembers([userInboxId]);
 
       // 3. Send welcome message
-      const welcomeMsg = 
+      const welcomeMsg =
         `🎉 Welcome to ${config.metadata.name} Premium!\n\n` +
         `✅ Access Tier: ${tierName}\n` +
         `🎫 Token ID: ${tokenId}\n` +
@@ -220,19 +244,13 @@ export class EnhancedGroupManager {
 
       await premiumGroup.send(welcomeMsg);
 
-      // 3. Notify sales group (optional)
-      const salesGroup = await this.client.conversations.getConversationById(
-        config.salesGroupId
-      ) as Group;
-
-      if (salesGroup) {
-        await salesGroup.send(
-          `🎉 New member joined the premium community! Welcome aboard! 🚀`
-        );
-      }
+      // 4. Let subscribers (sales group announcement, analytics) know
+      await this.eventBus.publish({
+        type: "MEMBER_ADDED",
+        data: { groupId: config.groupId, userInboxId, tierName },
+      });
 
       console.log(`✅ Successfully added ${userInboxId} to premium group`);
-
     } catch (error) {
       console.error(`Error adding member to premium group:`, error);
       throw error;
@@ -244,79 +262,417 @@ export class EnhancedGroupManager {
    */
   async removeMemberFromPremiumGroup(
     contractAddress: string,
-    userInboxId: string
-  ): Promise<void> {
+    userInboxId: string,
+    reason: string = "Access expired",
+  ): Promise<boolean> {
     try {
-      const config = this.groupConfigs.get(contractAddress);
+      const config = this.groupRegistry.get(contractAddress);
       if (!config) {
-        console.error(`Group configuration not found for contract ${contractAddress}`);
-        return;
+        console.error(
+          `Group configuration not found for contract ${contractAddress}`,
+        );
+        return false;
       }
 
-      const premiumGroup = await this.client.conversations.getConversationById(
-        config.premiumGroupId
-      ) as Group;
+      const premiumGroup = (await this.client.conversations.getConversationById(
+        config.premiumGroupId,
+      )) as Group;
 
       if (!premiumGroup) {
         console.error(`Premium group not found: ${config.premiumGroupId}`);
-        return;
+        return false;
       }
 
       // Remove member
       await premiumGroup.removeMembers([userInboxId]);
-      console.log(`✅ Removed ${userInboxId} from premium group (access expired)`);
+      console.log(`✅ Removed ${userInboxId} from premium group (${reason})`);
 
+      await this.eventBus.publish({
+        type: "MEMBER_REMOVED",
+        data: { groupId: config.groupId, userInboxId, reason },
+      });
+      return true;
     } catch (error) {
       console.error(`Error removing member from premium group:`, error);
+      return false;
     }
   }
 
   /**
-   * Get group configuration
+   * Grant premium access after an on-chain purchase or grant
+   * Idempotent: purchase verification and contract events can both report
+   * the same purchase.
+   * @returns true if the user was added
    */
-  getGroupConfig(contractAddress: string): DualGroupConfig | undefined {
-    return this.groupConfigs.get(contractAddress);
+  async handleTokenPurchase(
+    contractAddress: string,
+    userAddress: string,
+    userInboxId: string,
+    tokenId: number,
+    tierName: string,
+  ): Promise<boolean> {
+    const inboxId = userInboxId || (await this.resolveInboxId(userAddress));
+    if (!inboxId) {
+      console.error(
+        `No XMTP inbox found for ${userAddress}, cannot grant access`,
+      );
+      return false;
+    }
+
+    if (await this.isPremiumMember(contractAddress, inboxId)) {
+      console.log(
+        `ℹ️ ${inboxId} is already in the premium group for ${contractAddress}`,
+      );
+      return false;
+    }
+
+    await this.addMemberToPremiumGroup(
+      contractAddress,
+      inboxId,
+      tierName,
+      tokenId,
+    );
+    return true;
   }
 
   /**
-   * Update group configuration
+   * Remove a member whose access expired or was revoked
+   * @returns true if the user was removed
    */
-  async updateGroupConfig(
-    contractAddress: string, 
-    updates: Partial<DualGroupConfig>
-  ): Promise<void> {
-    const existing = this.groupConfigs.get(contractAddress);
-    if (!existing) {
-      throw new Error(`Group configuration not found for contract ${contractAddress}`);
+  async removeExpiredMember(
+    contractAddress: string,
+    userInboxId: string,
+    reason: string,
+  ): Promise<boolean> {
+    if (!(await this.isPremiumMember(contractAddress, userInboxId))) {
+      console.log(
+        `ℹ️ ${userInboxId} is not in the premium group for ${contractAddress}`,
+      );
+      return false;
+    }
+
+    return this.removeMemberFromPremiumGroup(
+      contractAddress,
+      userInboxId,
+      reason,
+    );
+  }
+
+  /**
+   * Reconcile the premium group with on-chain access
+   * Removes members without valid tokens and adds sales group members who
+   * hold valid tokens but are missing from the premium group. An assigned
+   * seat (/assign-seat) counts as holding the pool's token while the buyer
+   * still holds enough unexpired tokens to cover it (one of them being the
+   * buyer's own while they are in the group), and free days earned
+   * through referrals extend access past token expiry.
+   */
+  async auditGroupMembership(
+    contractAddress: string,
+  ): Promise<MembershipAudit> {
+    const audit: MembershipAudit = {
+      groupId: "",
+      contractAddress,
+      validMembers: [],
+      expiredMembers: [],
+      removedMembers: [],
+      addedMembers: [],
+      auditTimestamp: new Date(),
+      errors: [],
+      summary: {
+        totalChecked: 0,
+        validCount: 0,
+        expiredCount: 0,
+        removedCount: 0,
+        addedCount: 0,
+        errorCount: 0,
+      },
+    };
+
+    const config = this.groupRegistry.get(contractAddress);
+    if (!config) {
+      audit.errors.push(
+        `Group configuration not found for contract ${contractAddress}`,
+      );
+      audit.summary.errorCount = audit.errors.length;
+      return audit;
     }
+    audit.groupId = config.groupId;
+
+    try {
+      const premiumMembers = await this.auditEngine.resolveGroupMembers(
+        config.premiumGroupId,
+      );
+      const premiumInboxIds = new Set(
+        premiumMembers.map((m) => m.inboxId.toLowerCase()),
+      );
+
+      // Buyers come through the sales group, so its members are the candidates to add
+      let candidates: typeof premiumMembers = [];
+      try {
+        const salesMembers = await this.auditEngine.resolveGroupMembers(
+          config.salesGroupId,
+        );
+        candidates = salesMembers.filter(
+          (m) =>
+            !m.isPrivileged && !premiumInboxIds.has(m.inboxId.toLowerCase()),
+        );
+      } catch (error) {
+        audit.errors.push(
+          `Could not read sales group members: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+
+      // Seat holders get access through tokens held by whoever bought the seats
+      const activeSeats =
+        (await this.seatManager?.getActiveSeats(contractAddress)) ?? [];
+      const owners = new Map(
+        activeSeats.map(({ pool }) => [
+          `${pool.ownerAddress.toLowerCase()}:${pool.tokenId}`,
+          { address: pool.ownerAddress, id: pool.tokenId },
+        ]),
+      );
+      const inGroup = new Set([
+        ...premiumInboxIds,
+        ...candidates.map((m) => m.inboxId.toLowerCase()),
+      ]);
+      const backing = checkSeatBacking(
+        activeSeats,
+        await this.auditEngine.getTierBalances(contractAddress, [
+          ...owners.values(),
+        ]),
+        new Set(
+          activeSeats
+            .filter(({ pool }) => inGroup.has(pool.ownerInboxId.toLowerCase()))
+            .map(({ pool }) => pool.ownerAddress.toLowerCase()),
+        ),
+      );
+      const seats = backing.backed;
+      const seatByInbox = new Map(
+        seats.map((seat) => [seat.assignment.inboxId.toLowerCase(), seat]),
+      );
+      const uncheckedSeats = new Set(
+        backing.unknown.map((seat) => seat.assignment.inboxId.toLowerCase()),
+      );
+      for (const { pool, assignment } of backing.unbacked) {
+        console.log(
+          `🪑 Seat for ${assignment.address} isn't covered by ${pool.ownerAddress}'s tokens`,
+        );
+      }
+      const extensions =
+        (await this.referralManager?.getActiveExtensions(contractAddress)) ??
+        [];
+      const extensionByInbox = new Map(
+        extensions.map((extension) => [
+          extension.inboxId.toLowerCase(),
+          extension,
+        ]),
+      );
+      const known = new Set([
+        ...premiumInboxIds,
+        ...candidates.map((m) => m.inboxId.toLowerCase()),
+      ]);
+      for (const grantee of [
+        ...seats.map((seat) => seat.assignment),
+        ...extensions,
+      ]) {
+        if (!known.has(grantee.inboxId.toLowerCase())) {
+          candidates.push({
+            inboxId: grantee.inboxId,
+            address: grantee.address,
+            isPrivileged: false,
+          });
+          known.add(grantee.inboxId.toLowerCase());
+        }
+      }
+
+      const snapshot = await this.auditEngine.checkMembers(
+        contractAddress,
+        [...premiumMembers, ...candidates],
+        config.tiers,
+      );
+
+      for (const member of snapshot.members) {
+        const isPremium = premiumInboxIds.has(member.inboxId.toLowerCase());
+        if (member.isPrivileged) continue;
+        if (isPremium) audit.summary.totalChecked++;
 
-    const updated = { ...existing, ...updates };
-    this.groupConfigs.set(contractAddress, updated);
+        const seat = seatByInbox.get(member.inboxId.toLowerCase());
+        const extension = extensionByInbox.get(member.inboxId.toLowerCase());
 
-    // Update database if available
-    if (this.database) {
-      const dbGroup = await this.database.findGroupByContract(contractAddress);
-      if (dbGroup) {
-        await this.database.updateGroup(dbGroup.id, {
-          status: updates.metadata?.tiers && updates.metadata.tiers.length > 0 ? 'active' : 'tiers_setup'
-        });
+        const seatOnly = seat && !member.hasAccess ? seat : undefined;
+
+        const unchecked =
+          member.accessUnknown ||
+          uncheckedSeats.has(member.inboxId.toLowerCase());
+        if (unchecked && !member.hasAccess && !seat && !extension) {
+          audit.errors.push(
+            `Could not check access for ${member.inboxId}, left unchanged`,
+          );
+          continue;
+        }
+
+        if (isPremium && (member.hasAccess || seat || extension)) {
+          audit.validMembers.push({
+            inboxId: member.inboxId,
+            address: member.address,
+            tokenIds: seatOnly ? [seatOnly.pool.tokenId] : member.tokenIds,
+            expiresAt: latestDate(
+              member.hasAccess ? member.expiresAt : undefined,
+              seat?.expiresAt,
+              extension?.expiresAt,
+            ),
+          });
+        } else if (isPremium) {
+          audit.expiredMembers.push({
+            inboxId: member.inboxId,
+            address: member.address,
+            expiredTokenIds: member.expiredTokenIds,
+          });
+
+          const reason = "Access token expired during audit";
+          if (
+            await this.removeMemberFromPremiumGroup(
+              contractAddress,
+              member.inboxId,
+              reason,
+            )
+          ) {
+            audit.removedMembers.push({
+              inboxId: member.inboxId,
+              address: member.address,
+              reason,
+            });
+          } else {
+            audit.errors.push(`Failed to remove ${member.inboxId}`);
+          }
+        } else if (member.hasAccess || seat || extension) {
+          const tokenId =
+            member.tokenIds.length > 0
+              ? member.tokenIds[0]
+              : (seat?.pool.tokenId ?? 1);
+          const tierName =
+            tierForTokenId(config.tiers, tokenId)?.name ||
+            seat?.pool.tierName ||
+            `Token ${tokenId}`;
+          try {
+            await this.addMemberToPremiumGroup(
+              contractAddress,
+              member.inboxId,
+              tierName,
+              tokenId,
+            );
+            audit.addedMembers.push({
+              inboxId: member.inboxId,
+              address: member.address,
+              tokenIds:
+                member.tokenIds.length > 0 ? member.tokenIds : [tokenId],
+            });
+          } catch (error) {
+            audit.errors.push(
+              `Failed to add ${member.inboxId}: ${error instanceof Error ? error.message : String(error)}`,
+            );
+          }
+        }
       }
+    } catch (error) {
+      audit.errors.push(
+        `Audit failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
     }
+
+    audit.summary.validCount = audit.validMembers.length;
+    audit.summary.expiredCount = audit.expiredMembers.length;
+    audit.summary.removedCount = audit.removedMembers.length;
+    audit.summary.addedCount = audit.addedMembers.length;
+    audit.summary.errorCount = audit.errors.length;
+
+    console.log(
+      `📊 Audit ${config.metadata.name}: ${audit.summary.validCount} valid, ` +
+        `${audit.summary.removedCount} removed, ${audit.summary.addedCount} added, ` +
+        `${audit.summary.errorCount} errors`,
+    );
+    return audit;
+  }
+
+  /**
+   * When a member's access tokens for a group run out (undefined without any)
+   */
+  async getAccessExpiry(
+    contractAddress: string,
+    member: { inboxId: string; address: string },
+  ): Promise<Date | undefined> {
+    const snapshot = await this.auditEngine.checkMembers(
+      contractAddress,
+      [{ ...member, isPrivileged: false }],
+      this.groupRegistry.get(contractAddress)?.tiers,
+    );
+    return snapshot.members[0]?.expiresAt;
+  }
+
+  private async isPremiumMember(
+    contractAddress: string,
+    userInboxId: string,
+  ): Promise<boolean> {
+    const config = this.groupRegistry.get(contractAddress);
+    if (!config) return false;
+
+    const premiumGroup = (await this.client.conversations.getConversationById(
+      config.premiumGroupId,
+    )) as Group | undefined;
+    if (!premiumGroup) return false;
+
+    const members = await premiumGroup.members();
+    return members.some(
+      (m) => m.inboxId.toLowerCase() === userInboxId.toLowerCase(),
+    );
+  }
+
+  private async resolveInboxId(
+    userAddress: string,
+  ): Promise<string | undefined> {
+    const inboxId = await this.client.getInboxIdByIdentifier({
+      identifier: userAddress.toLowerCase(),
+      identifierKind: IdentifierKind.Ethereum,
+    });
+    return inboxId ?? undefined;
+  }
+
+  /**
+   * Get group configuration
+   */
+  getGroupConfig(contractAddress: string): DualGroupConfig | undefined {
+    return this.groupRegistry.get(contractAddress);
+  }
+
+  /**
+   * Update group configuration
+   */
+  async updateGroupConfig(
+    contractAddress: string,
+    updates: Partial<DualGroupConfig>,
+  ): Promise<void> {
+    await this.groupRegistry.update(contractAddress, updates);
   }
 
   /**
    * List all managed groups
    */
   getAllGroups(): DualGroupConfig[] {
-    return Array.from(this.groupConfigs.values());
+    return this.groupRegistry.list();
   }
 
   /**
    * Get groups for a specific creator
    */
   getGroupsForCreator(creatorInboxId: string): DualGroupConfig[] {
-    return Array.from(this.groupConfigs.values()).filter(
-      config => config.creatorInboxId === creatorInboxId
-    );
+    return this.groupRegistry.listByCreator(creatorInboxId);
   }
-}
\ No newline at end of file
+}
+
+function latestDate(...dates: (Date | undefined)[]): Date | undefined {
+  return dates.reduce<Date | undefined>(
+    (latest, date) => (date && (!latest || date > latest) ? date : latest),
+    undefined,
+  );
+}
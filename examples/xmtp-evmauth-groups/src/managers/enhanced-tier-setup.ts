@@ -1,6 +1,9 @@
 import { USDCHandler } from "../handlers/usdc-handler";
 import { IPFSMetadataHandler } from "../handlers/ipfs-metadata";
+import { AgentEventBus } from "../events/event-bus";
 import type { AccessTier } from "../types/types";
+import { createPriceService, type PriceService } from "../utils/price-service";
+import type { GroupRegistry } from "./group-registry";
 
 export interface TierSetupSession {
   groupId: string;
@@ -16,10 +19,22 @@ export class EnhancedTierSetup {
   private sessions = new Map<string, TierSetupSession>();
   private usdcHandler: USDCHandler;
   private ipfsHandler: IPFSMetadataHandler;
-
-  constructor(usdcHandler: USDCHandler, ipfsHandler: IPFSMetadataHandler) {
+  private groupRegistry: GroupRegistry;
+  private eventBus: AgentEventBus;
+  private priceService: PriceService;
+
+  constructor(
+    usdcHandler: USDCHandler,
+    ipfsHandler: IPFSMetadataHandler,
+    groupRegistry: GroupRegistry,
+    eventBus: AgentEventBus = new AgentEventBus(),
+    priceService: PriceService = createPriceService()
+  ) {
     this.usdcHandler = usdcHandler;
     this.ipfsHandler = ipfsHandler;
+    this.groupRegistry = groupRegistry;
+    this.eventBus = eventBus;
+    this.priceService = priceService;
   }
 
   /**
@@ -139,6 +154,7 @@ export class EnhancedTierSetup {
       durationDays: tierData.data!.durationDays,
       priceUSD: tierData.data!.priceUSD,
       priceWei: this.usdcHandler.convertUSDToUSDC(tierData.data!.priceUSD).amountUSDC,
+      paymentToken: 'USDC',
       description: `${tierData.data!.durationDays} days of premium access`,
     });
 
@@ -146,7 +162,8 @@ export class EnhancedTierSetup {
     await conversation.send(
       `✅ TIER ${session.currentTierIndex + 1} SAVED\n\n` +
       `📋 ${tierData.data!.name}\n` +
-      `💰 ${this.usdcHandler.formatPriceDisplay(tierData.data!.priceUSD, tierData.data!.durationDays)}\n\n` +
+      `💰 ${await this.priceService.formatTierPrice(currentTier as AccessTier)}\n` +
+      `⏰ ${tierData.data!.durationDays} days access\n\n` +
       `📸 NFT Image (optional):\n` +
       `• Upload a custom image for this tier, OR\n` +
       `• Type: skip (will use your group image)\n\n` +
@@ -212,12 +229,12 @@ export class EnhancedTierSetup {
     confirmationText += `📊 Group: ${session.groupId}\n`;
     confirmationText += `🎫 Total Tiers: ${session.totalTiers}\n\n`;
 
-    session.tiers.forEach((tier, index) => {
+    for (const [index, tier] of session.tiers.entries()) {
       const hasImage = session.pendingAttachments.has(index) ? " 🖼️" : " 🔲";
       confirmationText += `${index + 1}. ${tier.name}${hasImage}\n`;
-      confirmationText += `   💰 $${tier.priceUSD} USD (${this.usdcHandler.convertUSDToUSDC(tier.priceUSD!).formattedUSDC})\n`;
+      confirmationText += `   💰 ${await this.priceService.formatTierPrice(tier as AccessTier)}\n`;
       confirmationText += `   ⏰ ${tier.durationDays} days access\n\n`;
-    });
+    }
 
     confirmationText += `💡 **What happens next:**\n`;
     confirmationText += `1. Images will be uploaded to IPFS\n`;
@@ -258,6 +275,14 @@ export class EnhancedTierSetup {
 
       try {
         const completedTiers = await this.processTiers(session);
+        // session.groupId is the group's contract address
+        const config = await this.groupRegistry.update(session.groupId, { tiers: completedTiers });
+        for (const tier of completedTiers) {
+          await this.eventBus.publish({
+            type: "TIER_UPDATED",
+            data: { groupId: config.groupId, tier },
+          });
+        }
         await onComplete(completedTiers);
         
         await conversation.send(
@@ -304,6 +329,8 @@ export class EnhancedTierSetup {
    */
   private async processTiers(session: TierSetupSession): Promise<AccessTier[]> {
     const completedTiers: AccessTier[] = [];
+    const groupConfig = this.groupRegistry.get(session.groupId);
+    const eventGroupId = groupConfig?.groupId ?? session.groupId;
 
     for (let i = 0; i < session.tiers.length; i++) {
       const tier = session.tiers[i];
@@ -311,20 +338,43 @@ export class EnhancedTierSetup {
 
       // Create tier with metadata
       const result = await this.ipfsHandler.createTierWithMetadata(
-        `Group ${session.groupId}`, // Group name - in production, get from group config
+        groupConfig?.groupName ?? groupConfig?.metadata.name ?? `Group ${session.groupId}`,
         session.groupId,
         tier.name!,
         tier.durationDays!,
         tier.priceUSD!,
-        session.creatorInboxId, // Creator address - in production, get actual address
+        groupConfig?.creatorAddress ?? session.creatorInboxId,
         attachment
       );
 
+      if (result.imageIPFSHash) {
+        await this.eventBus.publish({
+          type: "IMAGE_UPLOADED",
+          data: {
+            groupId: eventGroupId,
+            ipfsHash: result.imageIPFSHash,
+            url: `https://ipfs.io/ipfs/${result.imageIPFSHash}`,
+          },
+        });
+      }
+      if (result.metadataIPFSHash) {
+        await this.eventBus.publish({
+          type: "METADATA_CREATED",
+          data: {
+            groupId: eventGroupId,
+            tierId: tier.id!,
+            metadataHash: result.metadataIPFSHash,
+          },
+        });
+      }
+
       completedTiers.push({
         id: tier.id!,
         name: tier.name!,
         durationDays: tier.durationDays!,
         priceWei: tier.priceWei!,
+        priceUSD: tier.priceUSD,
+        paymentToken: tier.paymentToken,
         description: tier.description!,
         imageUrl: result.imageIPFSHash ? `https://ipfs.io/ipfs/${result.imageIPFSHash}` : undefined,
         metadata: {
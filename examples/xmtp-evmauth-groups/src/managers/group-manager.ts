@@ -1,5 +1,6 @@
 import { Client, type Group } from "@xmtp/node-sdk";
 import { EVMAuthHandler } from "../handlers/evmauth-handler";
+import type { MembershipAuditEngine } from "../utils/membership-audit";
 import type { AccessTier, GroupMetadata } from "../types/types";
 
 interface CreateGroupParams {
@@ -19,10 +20,16 @@ interface CreateGroupResult {
 export class GroupManager {
   private client: Client;
   private evmAuthHandler: EVMAuthHandler;
+  private auditEngine: MembershipAuditEngine;
 
-  constructor(client: Client, evmAuthHandler: EVMAuthHandler) {
+  constructor(
+    client: Client,
+    evmAuthHandler: EVMAuthHandler,
+    auditEngine: MembershipAuditEngine
+  ) {
     this.client = client;
     this.evmAuthHandler = evmAuthHandler;
+    this.auditEngine = auditEngine;
   }
 
   /**
@@ -254,46 +261,32 @@ export class GroupManager {
     removedMembers: string[];
   }> {
     try {
-      const group = await this.client.conversations.getConversationById(groupId) as Group;
-      if (!group) {
-        throw new Error("Group not found");
-      }
+      // Access for every member is checked in batched multicalls
+      const members = await this.auditEngine.resolveGroupMembers(groupId);
+      const snapshot = await this.auditEngine.checkMembers(contractAddress, members);
 
-      const members = await group.members();
       const validMembers: string[] = [];
       const expiredMembers: string[] = [];
       const removedMembers: string[] = [];
 
-      for (const member of members) {
-        // Skip bot and admins
-        if (
-          member.inboxId.toLowerCase() === this.client.inboxId.toLowerCase() ||
-          group.isSuperAdmin(member.inboxId) ||
-          group.isAdmin(member.inboxId)
-        ) {
+      for (const member of snapshot.members) {
+        // Bot and admins are always kept, as is anyone whose check failed
+        if (member.isPrivileged || member.hasAccess || member.accessUnknown) {
           validMembers.push(member.inboxId);
           continue;
         }
 
-        // Check token validity
-        const userAddress = member.accountIdentifiers[0].identifier;
-        const hasAccess = await this.evmAuthHandler.checkTokenAccess(contractAddress, userAddress);
+        expiredMembers.push(member.inboxId);
 
-        if (hasAccess) {
-          validMembers.push(member.inboxId);
-        } else {
-          expiredMembers.push(member.inboxId);
-          
-          // Remove expired member
-          const removed = await this.removeUserFromGroup(
-            groupId,
-            member.inboxId,
-            "Access token expired during audit"
-          );
-          
-          if (removed) {
-            removedMembers.push(member.inboxId);
-          }
+        // Remove expired member
+        const removed = await this.removeUserFromGroup(
+          groupId,
+          member.inboxId,
+          "Access token expired during audit"
+        );
+
+        if (removed) {
+          removedMembers.push(member.inboxId);
         }
       }
 
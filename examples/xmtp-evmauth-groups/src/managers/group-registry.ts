@@ -0,0 +1,359 @@
+/**
+ * Group Registry - single source of truth for group configurations
+ * Indexes groups by contract address, sales/premium group ID and name,
+ * writes every change through to the GroupStore and notifies listeners.
+ */
+
+import type {
+  AccessTierRecord,
+  GroupRecord,
+  GroupStatus,
+  GroupStore,
+} from "../database/group-store";
+import type {
+  AccessTier,
+  DualGroupConfig,
+  GroupSettings,
+} from "../types/types";
+
+export interface GroupRegistryChange {
+  type: "added" | "updated";
+  config: DualGroupConfig;
+  /** Config before the change (updates only) */
+  previous?: DualGroupConfig;
+}
+
+export type GroupRegistryListener = (
+  change: GroupRegistryChange,
+) => void | Promise<void>;
+
+/**
+ * On-chain token ID of a tier: its position in the group's tiers, from 1,
+ * as registered by setupAccessTiers; 0 when the tier isn't in the list
+ */
+export function tierTokenId(tiers: AccessTier[], tier: AccessTier): number {
+  return tiers.findIndex((t) => t.id === tier.id) + 1;
+}
+
+/**
+ * Tier registered under an on-chain token ID
+ */
+export function tierForTokenId(
+  tiers: AccessTier[],
+  tokenId: number,
+): AccessTier | undefined {
+  return tokenId >= 1 ? tiers[tokenId - 1] : undefined;
+}
+
+function tierToRecord(tier: AccessTier, index: number): AccessTierRecord {
+  return {
+    id: index + 1,
+    tierId: tier.id,
+    name: tier.name,
+    priceUsd: tier.priceUSD ?? 0,
+    priceWei: tier.priceWei,
+    ...(tier.paymentToken ? { paymentToken: tier.paymentToken } : {}),
+    durationDays: tier.durationDays,
+    ...(tier.description ? { description: tier.description } : {}),
+    ...(tier.imageUrl ? { imageUrl: tier.imageUrl } : {}),
+    ...(tier.metadata?.ipfsHash
+      ? { metadataUri: `ipfs://${tier.metadata.ipfsHash}` }
+      : {}),
+  };
+}
+
+function recordToTier(record: AccessTierRecord): AccessTier {
+  return {
+    id: record.tierId ?? String(record.id),
+    name: record.name,
+    durationDays: record.durationDays,
+    // Tiers are priced in USDC (6 decimals) unless the raw amount was stored
+    priceWei: record.priceWei ?? String(Math.round(record.priceUsd * 1e6)),
+    priceUSD: record.priceUsd,
+    paymentToken: (record.priceWei && record.paymentToken) || "USDC",
+    ...(record.description ? { description: record.description } : {}),
+    ...(record.imageUrl ? { imageUrl: record.imageUrl } : {}),
+  };
+}
+
+/**
+ * Settings for groups whose record only stores some of them
+ */
+export const DEFAULT_GROUP_SETTINGS: GroupSettings = {
+  autoRemoveExpired: true,
+  allowMemberInvites: false,
+  requireApproval: false,
+  allowCustomImages: true,
+  notifications: {
+    newPurchases: true,
+    expiringTokens: true,
+    memberJoined: true,
+    memberLeft: false,
+  },
+};
+
+/**
+ * Convert a stored group record into the runtime configuration
+ */
+export function groupRecordToConfig(record: GroupRecord): DualGroupConfig {
+  return {
+    groupId: record.premiumGroupId,
+    contractAddress: record.contractAddress,
+    groupName: record.name,
+    creatorInboxId: record.creatorInboxId,
+    creatorAddress: record.creatorAddress,
+    salesGroupId: record.salesGroupId,
+    premiumGroupId: record.premiumGroupId,
+    createdAt: new Date(record.createdAt),
+    isActive: record.status === "active",
+    tiers: (record.tiers ?? []).map(recordToTier),
+    paymentConfig: {
+      acceptedTokens: record.acceptedTokens ?? ["USDC"],
+      defaultToken: record.acceptedTokens?.[0] ?? "USDC",
+    },
+    ...(record.referralReward ? { referralReward: record.referralReward } : {}),
+    ...(record.collaborators ? { collaborators: record.collaborators } : {}),
+    ...(record.customFeePercentage !== undefined
+      ? {
+          settings: {
+            ...DEFAULT_GROUP_SETTINGS,
+            customFeePercentage: record.customFeePercentage,
+          },
+        }
+      : {}),
+    metadata: {
+      name: record.name,
+      description: `Premium access to ${record.name}`,
+      image: `https://via.placeholder.com/400x400/6366f1/ffffff?text=${encodeURIComponent(record.name)}`,
+    },
+    salesSettings: {
+      welcomeMessage: `Welcome to ${record.name} sales!`,
+      availableTiers: "Check available access tiers below",
+      helpMessage: "Need help? Contact support",
+    },
+    premiumSettings: {
+      welcomeMessage: `Welcome to ${record.name} premium!`,
+      description: `Exclusive access to ${record.name}`,
+    },
+  };
+}
+
+export class GroupRegistry {
+  private byContract = new Map<string, DualGroupConfig>();
+  private byGroupId = new Map<string, string>();
+  private listeners = new Set<GroupRegistryListener>();
+  private store?: GroupStore;
+
+  constructor(store?: GroupStore) {
+    this.store = store;
+  }
+
+  /**
+   * Load every deployed group from storage (no change events are emitted)
+   */
+  async load(): Promise<number> {
+    if (!this.store) return 0;
+
+    const records = await this.store.getAllGroups();
+    for (const record of records) {
+      // Records still waiting for payment have no contract yet
+      if (!record.contractAddress) continue;
+      this.index(groupRecordToConfig(record));
+    }
+
+    console.log(`📚 Group registry loaded ${this.byContract.size} groups`);
+    return this.byContract.size;
+  }
+
+  /**
+   * Add a group, or replace it if the contract is already registered
+   */
+  async add(
+    config: DualGroupConfig,
+    status: GroupStatus = "created",
+  ): Promise<DualGroupConfig> {
+    const previous = this.get(config.contractAddress);
+    this.index(config, previous);
+    await this.persist(config, status);
+    await this.emit(
+      previous
+        ? { type: "updated", config, previous }
+        : { type: "added", config },
+    );
+    return config;
+  }
+
+  /**
+   * Merge updates into an existing group
+   */
+  async update(
+    contractAddress: string,
+    updates: Partial<DualGroupConfig>,
+  ): Promise<DualGroupConfig> {
+    const previous = this.get(contractAddress);
+    if (!previous) {
+      throw new Error(
+        `Group configuration not found for contract ${contractAddress}`,
+      );
+    }
+
+    const config: DualGroupConfig = {
+      ...previous,
+      ...updates,
+      contractAddress: previous.contractAddress,
+    };
+    this.index(config, previous);
+    await this.persist(config);
+    await this.emit({ type: "updated", config, previous });
+    return config;
+  }
+
+  /**
+   * Look up by contract address (case-insensitive)
+   */
+  get(contractAddress: string): DualGroupConfig | undefined {
+    return this.byContract.get(contractAddress.toLowerCase());
+  }
+
+  /**
+   * Look up by sales or premium XMTP group ID
+   */
+  getByGroupId(groupId: string): DualGroupConfig | undefined {
+    const contract = this.byGroupId.get(groupId);
+    return contract ? this.byContract.get(contract) : undefined;
+  }
+
+  /**
+   * Look up by group name, optionally scoped to a creator
+   */
+  getByName(
+    name: string,
+    creatorInboxId?: string,
+  ): DualGroupConfig | undefined {
+    const needle = name.toLowerCase();
+    return this.list().find(
+      (config) =>
+        (config.groupName ?? config.metadata.name).toLowerCase() === needle &&
+        (!creatorInboxId || config.creatorInboxId === creatorInboxId),
+    );
+  }
+
+  /**
+   * Resolve a user-supplied identifier: exact contract address or name,
+   * then a prefix of the contract address or either group ID
+   */
+  find(identifier: string): DualGroupConfig | undefined {
+    const needle = identifier.toLowerCase();
+    return (
+      this.get(identifier) ??
+      this.getByGroupId(identifier) ??
+      this.getByName(identifier) ??
+      this.list().find(
+        (config) =>
+          config.contractAddress.toLowerCase().startsWith(needle) ||
+          config.salesGroupId.startsWith(identifier) ||
+          config.premiumGroupId.startsWith(identifier),
+      )
+    );
+  }
+
+  /**
+   * All registered groups
+   */
+  list(): DualGroupConfig[] {
+    return Array.from(this.byContract.values());
+  }
+
+  /**
+   * Groups created by a specific inbox
+   */
+  listByCreator(creatorInboxId: string): DualGroupConfig[] {
+    return this.list().filter(
+      (config) => config.creatorInboxId === creatorInboxId,
+    );
+  }
+
+  /**
+   * Snapshot keyed by contract address, for APIs that take a Map
+   */
+  toMap(): Map<string, DualGroupConfig> {
+    return new Map(
+      this.list().map((config) => [config.contractAddress, config]),
+    );
+  }
+
+  get size(): number {
+    return this.byContract.size;
+  }
+
+  /**
+   * Subscribe to added/updated groups
+   * @returns unsubscribe function
+   */
+  onChange(listener: GroupRegistryListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private index(config: DualGroupConfig, previous?: DualGroupConfig): void {
+    if (previous) {
+      this.byGroupId.delete(previous.salesGroupId);
+      this.byGroupId.delete(previous.premiumGroupId);
+    }
+
+    const key = config.contractAddress.toLowerCase();
+    this.byContract.set(key, config);
+    if (config.salesGroupId) this.byGroupId.set(config.salesGroupId, key);
+    if (config.premiumGroupId) this.byGroupId.set(config.premiumGroupId, key);
+  }
+
+  /**
+   * Write the config through to storage
+   */
+  private async persist(
+    config: DualGroupConfig,
+    status?: GroupStatus,
+  ): Promise<void> {
+    if (!this.store) return;
+
+    const fields = {
+      name: config.groupName ?? config.metadata.name,
+      creatorInboxId: config.creatorInboxId,
+      creatorAddress: config.creatorAddress,
+      contractAddress: config.contractAddress,
+      salesGroupId: config.salesGroupId,
+      premiumGroupId: config.premiumGroupId,
+      tiers: config.tiers.map(tierToRecord),
+      acceptedTokens: config.paymentConfig.acceptedTokens,
+      referralReward: config.referralReward,
+      collaborators: config.collaborators,
+      customFeePercentage: config.settings?.customFeePercentage,
+    };
+
+    const existing = await this.store.findGroupByContract(
+      config.contractAddress,
+    );
+    if (existing) {
+      await this.store.updateGroup(existing.id, {
+        ...fields,
+        status:
+          config.tiers.length > 0 ? "active" : (status ?? existing.status),
+      });
+    } else {
+      await this.store.createGroup({
+        ...fields,
+        status: config.tiers.length > 0 ? "active" : (status ?? "created"),
+      });
+    }
+  }
+
+  private async emit(change: GroupRegistryChange): Promise<void> {
+    for (const listener of this.listeners) {
+      try {
+        await listener(change);
+      } catch (error) {
+        console.error(`Error in group registry listener:`, error);
+      }
+    }
+  }
+}
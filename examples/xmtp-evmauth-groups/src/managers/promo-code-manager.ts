@@ -0,0 +1,291 @@
+/**
+ * Promo Code Manager - discount codes creators hand out with /promo
+ * A code is reserved when a discounted purchase is sent to the buyer's
+ * wallet and counts as redeemed once the payment is verified. Reservations
+ * of purchases that are never paid lapse with the purchase.
+ * Changes to a code's redemptions run one at a time on a freshly read record
+ * so that concurrent purchases can't overrun its limits.
+ */
+
+import type {
+  GroupStore,
+  PromoCodeRecord,
+  PromoRedemption,
+} from "../database/group-store";
+import { parseLeadTimes } from "../utils/expiry-reminders";
+import type { Discount } from "../utils/price-service";
+import { PURCHASE_TIMEOUT_MS } from "../utils/purchase-verifier";
+
+/**
+ * Thrown when a code can't be created or used; the message is meant for
+ * the person who typed it
+ */
+export class PromoCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromoCodeError";
+  }
+}
+
+export interface NewPromoCode {
+  contractAddress: string;
+  code: string;
+  discount: Discount;
+  maxUses?: number;
+  expiresAt?: Date;
+  createdBy: string;
+}
+
+const CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Parse "20%" (percent off) or "$5" / "5" (USD off)
+ */
+export function parseDiscount(input: string): Discount | null {
+  const value = input.trim();
+  if (value.endsWith("%")) {
+    const percent = Number(value.slice(0, -1));
+    return Number.isFinite(percent) && percent > 0 && percent < 100
+      ? { kind: "percent", percent }
+      : null;
+  }
+  const amountUSD = Number(value.replace(/^\$/, ""));
+  return Number.isFinite(amountUSD) && amountUSD > 0
+    ? { kind: "fixed", amountUSD }
+    : null;
+}
+
+/**
+ * Parse a lifetime such as "7d" or "12h", or a date such as "2025-12-31"
+ */
+export function parsePromoExpiry(input: string, now = Date.now()): Date | null {
+  if (/^\d+\s*[mhd]$/i.test(input.trim())) {
+    return new Date(now + parseLeadTimes(input)[0]);
+  }
+  const date = Date.parse(input);
+  return Number.isNaN(date) || date <= now ? null : new Date(date);
+}
+
+/**
+ * Uses that count toward the limits: redeemed, or reserved by a purchase
+ * that can still be paid
+ */
+export function liveRedemptions(
+  promo: PromoCodeRecord,
+  now = Date.now(),
+): PromoRedemption[] {
+  return promo.redemptions.filter(
+    (r) =>
+      r.status === "redeemed" ||
+      now - Date.parse(r.reservedAt) < PURCHASE_TIMEOUT_MS,
+  );
+}
+
+/**
+ * Throw if a code is disabled, expired, used up or already used by the buyer
+ */
+function checkLimits(
+  promo: PromoCodeRecord,
+  buyerInboxId: string,
+  now = Date.now(),
+): void {
+  if (promo.disabled) {
+    throw new PromoCodeError(`Promo code ${promo.code} is no longer active.`);
+  }
+  if (promo.expiresAt && Date.parse(promo.expiresAt) <= now) {
+    throw new PromoCodeError(
+      `Promo code ${promo.code} expired on ${new Date(promo.expiresAt).toUTCString()}.`,
+    );
+  }
+
+  const live = liveRedemptions(promo, now);
+  if (promo.maxUses !== undefined && live.length >= promo.maxUses) {
+    throw new PromoCodeError(
+      `Promo code ${promo.code} has reached its limit of ${promo.maxUses} uses.`,
+    );
+  }
+  if (live.some((r) => r.buyerInboxId === buyerInboxId)) {
+    throw new PromoCodeError(`You've already used promo code ${promo.code}.`);
+  }
+}
+
+export class PromoCodeManager {
+  private database: GroupStore;
+  private updates: Promise<unknown> = Promise.resolve();
+
+  constructor(database: GroupStore) {
+    this.database = database;
+  }
+
+  async create(input: NewPromoCode): Promise<PromoCodeRecord> {
+    const code = normalizePromoCode(input.code);
+    if (!CODE_PATTERN.test(code)) {
+      throw new PromoCodeError(
+        "Codes are 3-32 letters, digits, dashes or underscores.",
+      );
+    }
+    if (input.maxUses !== undefined && !(input.maxUses >= 1)) {
+      throw new PromoCodeError("Max uses must be at least 1.");
+    }
+
+    const existing = (
+      await this.database.getPromoCodes(input.contractAddress)
+    ).find((p) => p.code === code);
+    if (existing) {
+      throw new PromoCodeError(`Promo code ${code} already exists.`);
+    }
+
+    const promo: PromoCodeRecord = {
+      code,
+      contractAddress: input.contractAddress,
+      discount: input.discount,
+      maxUses: input.maxUses,
+      expiresAt: input.expiresAt?.toISOString(),
+      createdBy: input.createdBy,
+      createdAt: new Date().toISOString(),
+      redemptions: [],
+    };
+    await this.database.savePromoCode(promo);
+    console.log(`🏷️ Promo code ${code} created for ${input.contractAddress}`);
+    return promo;
+  }
+
+  async list(contractAddress: string): Promise<PromoCodeRecord[]> {
+    return (await this.database.getPromoCodes(contractAddress)).sort((a, b) =>
+      b.createdAt.localeCompare(a.createdAt),
+    );
+  }
+
+  disable(contractAddress: string, code: string): Promise<void> {
+    return this.update(async () => {
+      const promo = await this.find(contractAddress, normalizePromoCode(code));
+      if (!promo) {
+        throw new PromoCodeError(
+          `Promo code ${normalizePromoCode(code)} doesn't exist.`,
+        );
+      }
+      promo.disabled = true;
+      await this.database.savePromoCode(promo);
+    });
+  }
+
+  /**
+   * Check that a buyer can use a code on this group
+   */
+  async validate(
+    code: string,
+    contractAddress: string,
+    groupName: string,
+    buyerInboxId: string,
+    now = Date.now(),
+  ): Promise<PromoCodeRecord> {
+    const needle = normalizePromoCode(code);
+    const matches = (await this.database.getPromoCodes()).filter(
+      (p) => p.code === needle,
+    );
+    if (matches.length === 0) {
+      throw new PromoCodeError(`Promo code ${needle} doesn't exist.`);
+    }
+    const promo = matches.find(
+      (p) => p.contractAddress.toLowerCase() === contractAddress.toLowerCase(),
+    );
+    if (!promo) {
+      throw new PromoCodeError(
+        `Promo code ${needle} isn't valid for ${groupName}.`,
+      );
+    }
+
+    checkLimits(promo, buyerInboxId, now);
+    return promo;
+  }
+
+  /**
+   * Hold one use of a code for a purchase that has been sent to the wallet
+   * The limits are checked again against the stored code, since other
+   * purchases may have reserved it since it was validated.
+   */
+  reserve(
+    promo: PromoCodeRecord,
+    redemption: Omit<PromoRedemption, "status" | "reservedAt">,
+  ): Promise<void> {
+    return this.update(async () => {
+      const current = await this.find(promo.contractAddress, promo.code);
+      if (!current) {
+        throw new PromoCodeError(`Promo code ${promo.code} doesn't exist.`);
+      }
+      checkLimits(current, redemption.buyerInboxId);
+      current.redemptions.push({
+        ...redemption,
+        status: "pending",
+        reservedAt: new Date().toISOString(),
+      });
+      await this.database.savePromoCode(current);
+    });
+  }
+
+  /**
+   * Count a reserved use once the purchase is paid
+   */
+  confirm(purchaseId: string): Promise<void> {
+    return this.update(async () => {
+      const found = await this.findRedemption(purchaseId);
+      if (!found) return;
+      found.redemption.status = "redeemed";
+      found.redemption.redeemedAt = new Date().toISOString();
+      await this.database.savePromoCode(found.promo);
+      console.log(
+        `🏷️ Promo code ${found.promo.code} redeemed by ${found.redemption.buyerAddress}`,
+      );
+    });
+  }
+
+  /**
+   * Drop a reserved use whose purchase could not be sent
+   */
+  release(purchaseId: string): Promise<void> {
+    return this.update(async () => {
+      const found = await this.findRedemption(purchaseId);
+      if (!found || found.redemption.status !== "pending") return;
+      found.promo.redemptions = found.promo.redemptions.filter(
+        (r) => r !== found.redemption,
+      );
+      await this.database.savePromoCode(found.promo);
+    });
+  }
+
+  /**
+   * Run a read-modify-write of a code after the ones already queued
+   */
+  private update(change: () => Promise<void>): Promise<void> {
+    const next = this.updates.then(change);
+    this.updates = next.catch(() => undefined);
+    return next;
+  }
+
+  private async find(
+    contractAddress: string,
+    code: string,
+  ): Promise<PromoCodeRecord | undefined> {
+    return (await this.database.getPromoCodes(contractAddress)).find(
+      (p) => p.code === code,
+    );
+  }
+
+  private async findRedemption(
+    purchaseId: string,
+  ): Promise<
+    { promo: PromoCodeRecord; redemption: PromoRedemption } | undefined
+  > {
+    for (const promo of await this.database.getPromoCodes()) {
+      const redemption = promo.redemptions.find(
+        (r) => r.purchaseId === purchaseId,
+      );
+      if (redemption) return { promo, redemption };
+    }
+    return undefined;
+  }
+}
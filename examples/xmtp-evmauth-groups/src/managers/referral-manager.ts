@@ -0,0 +1,300 @@
+/**
+ * Referral Manager - referral links shared with /referral-link
+ * Each member gets one code per group. Purchases made with --ref <code> are
+ * recorded against the referrer and, once paid, earn the group's reward:
+ * a share of the price paid in the purchase bundle, or extra days of access
+ * that the membership audit honors like a held token.
+ */
+
+import { randomBytes } from "crypto";
+import type {
+  GroupStore,
+  ReferralLink,
+  ReferralRecord,
+} from "../database/group-store";
+import type { ReferralReward } from "../types/types";
+
+/**
+ * Thrown when a referral code can't be used; the message is meant for the
+ * buyer who typed it
+ */
+export class ReferralError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReferralError";
+  }
+}
+
+export interface ReferralMember {
+  address: string;
+  inboxId: string;
+}
+
+/**
+ * Extra access earned with day rewards
+ */
+export interface ReferralExtension {
+  inboxId: string;
+  address: string;
+  expiresAt: Date;
+}
+
+export interface ReferrerStanding {
+  referrerInboxId: string;
+  referrerAddress: string;
+  /** Confirmed purchases made with the referrer's code */
+  purchases: number;
+  /** Percent rewards paid, by payment token symbol */
+  paid: Record<string, bigint>;
+  /** Free days earned */
+  days: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_REWARD_PERCENT = 50;
+const MAX_REWARD_DAYS = 365;
+
+export function normalizeReferralCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Parse "10%" (share of the price) or "7d" (free days)
+ */
+export function parseReferralReward(input: string): ReferralReward | null {
+  const value = input.trim().toLowerCase();
+  const percent = /^(\d+(?:\.\d+)?)%$/.exec(value);
+  if (percent) {
+    const share = Number(percent[1]);
+    return share > 0 && share <= MAX_REWARD_PERCENT
+      ? { kind: "percent", percent: share }
+      : null;
+  }
+  const days = /^(\d+)d$/.exec(value);
+  if (days) {
+    const count = Number(days[1]);
+    return count > 0 && count <= MAX_REWARD_DAYS
+      ? { kind: "days", days: count }
+      : null;
+  }
+  return null;
+}
+
+export function formatReferralReward(reward: ReferralReward): string {
+  return reward.kind === "percent"
+    ? `${reward.percent}% of each purchase`
+    : `${reward.days} free day${reward.days === 1 ? "" : "s"} per purchase`;
+}
+
+/**
+ * Amount paid to the referrer for a purchase of the given price
+ */
+export function referralRewardAmount(
+  amount: bigint,
+  reward: ReferralReward,
+): bigint {
+  if (reward.kind !== "percent") return 0n;
+  return (amount * BigInt(Math.round(reward.percent * 100))) / 10000n;
+}
+
+export class ReferralManager {
+  private database: GroupStore;
+
+  constructor(database: GroupStore) {
+    this.database = database;
+  }
+
+  /**
+   * The member's code for a group, created on first use
+   */
+  async getOrCreateLink(
+    contractAddress: string,
+    referrer: ReferralMember,
+  ): Promise<ReferralLink> {
+    const existing = (
+      await this.database.getReferralLinks(contractAddress)
+    ).find(
+      (l) => l.referrerInboxId.toLowerCase() === referrer.inboxId.toLowerCase(),
+    );
+    if (existing) return existing;
+
+    const taken = new Set(
+      (await this.database.getReferralLinks()).map((l) => l.code),
+    );
+    let code: string;
+    do {
+      code = randomBytes(4).toString("hex").toUpperCase();
+    } while (taken.has(code));
+
+    const link: ReferralLink = {
+      code,
+      contractAddress,
+      referrerInboxId: referrer.inboxId,
+      referrerAddress: referrer.address,
+      createdAt: new Date().toISOString(),
+    };
+    await this.database.saveReferralLink(link);
+    console.log(
+      `🤝 Referral code ${code} created for ${referrer.address} on ${contractAddress}`,
+    );
+    return link;
+  }
+
+  /**
+   * Check that a buyer can use a code on this group
+   */
+  async validate(
+    code: string,
+    contractAddress: string,
+    groupName: string,
+    buyerInboxId: string,
+  ): Promise<ReferralLink> {
+    const needle = normalizeReferralCode(code);
+    const matches = (await this.database.getReferralLinks()).filter(
+      (l) => l.code === needle,
+    );
+    if (matches.length === 0) {
+      throw new ReferralError(`Referral code ${needle} doesn't exist.`);
+    }
+    const link = matches.find(
+      (l) => l.contractAddress.toLowerCase() === contractAddress.toLowerCase(),
+    );
+    if (!link) {
+      throw new ReferralError(
+        `Referral code ${needle} isn't valid for ${groupName}.`,
+      );
+    }
+    if (link.referrerInboxId.toLowerCase() === buyerInboxId.toLowerCase()) {
+      throw new ReferralError("You can't use your own referral code.");
+    }
+    return link;
+  }
+
+  /**
+   * Store a referral alongside a purchase sent to the buyer's wallet
+   */
+  async record(
+    referral: Omit<ReferralRecord, "status" | "createdAt">,
+  ): Promise<ReferralRecord> {
+    const record: ReferralRecord = {
+      ...referral,
+      status: "pending",
+      createdAt: new Date().toISOString(),
+    };
+    await this.database.saveReferral(record);
+    return record;
+  }
+
+  async get(purchaseId: string): Promise<ReferralRecord | undefined> {
+    return (await this.database.getReferrals()).find(
+      (r) => r.purchaseId === purchaseId,
+    );
+  }
+
+  /**
+   * Credit the referrer once the purchase is paid
+   * Day rewards start from whichever is later: now, the referrer's own
+   * access expiry or the end of their previous extension.
+   */
+  async confirm(
+    purchaseId: string,
+    txHash: string,
+    details: { accessExpiry?: Date } = {},
+    now = Date.now(),
+  ): Promise<ReferralRecord | undefined> {
+    const referral = await this.get(purchaseId);
+    if (!referral || referral.status === "confirmed") return undefined;
+
+    if (referral.reward?.kind === "days") {
+      const previous = await this.getExtension(
+        referral.contractAddress,
+        referral.referrerInboxId,
+        now,
+      );
+      const start = Math.max(
+        now,
+        details.accessExpiry?.getTime() ?? 0,
+        previous?.expiresAt.getTime() ?? 0,
+      );
+      referral.extendedUntil = new Date(
+        start + referral.reward.days * DAY_MS,
+      ).toISOString();
+    }
+
+    referral.status = "confirmed";
+    referral.txHash = txHash;
+    referral.confirmedAt = new Date(now).toISOString();
+    await this.database.saveReferral(referral);
+    console.log(
+      `🤝 Referral ${referral.code} confirmed: ${referral.buyerAddress} referred by ${referral.referrerAddress}`,
+    );
+    return referral;
+  }
+
+  /**
+   * Referrers with unexpired day rewards, latest extension each
+   */
+  async getActiveExtensions(
+    contractAddress: string,
+    now = Date.now(),
+  ): Promise<ReferralExtension[]> {
+    const latest = new Map<string, ReferralExtension>();
+    for (const referral of await this.database.getReferrals(contractAddress)) {
+      if (!referral.extendedUntil) continue;
+      const expiresAt = new Date(referral.extendedUntil);
+      const key = referral.referrerInboxId.toLowerCase();
+      if (expiresAt.getTime() > (latest.get(key)?.expiresAt.getTime() ?? 0)) {
+        latest.set(key, {
+          inboxId: referral.referrerInboxId,
+          address: referral.referrerAddress,
+          expiresAt,
+        });
+      }
+    }
+    return [...latest.values()].filter((e) => e.expiresAt.getTime() > now);
+  }
+
+  /**
+   * Referrers ranked by confirmed purchases
+   */
+  async getLeaderboard(contractAddress: string): Promise<ReferrerStanding[]> {
+    const standings = new Map<string, ReferrerStanding>();
+    for (const referral of await this.database.getReferrals(contractAddress)) {
+      if (referral.status !== "confirmed") continue;
+
+      const key = referral.referrerInboxId.toLowerCase();
+      let standing = standings.get(key);
+      if (!standing) {
+        standing = {
+          referrerInboxId: referral.referrerInboxId,
+          referrerAddress: referral.referrerAddress,
+          purchases: 0,
+          paid: {},
+          days: 0,
+        };
+        standings.set(key, standing);
+      }
+
+      standing.purchases++;
+      if (referral.rewardAmount) {
+        standing.paid[referral.paymentToken] =
+          (standing.paid[referral.paymentToken] ?? 0n) +
+          BigInt(referral.rewardAmount);
+      }
+      if (referral.reward?.kind === "days") {
+        standing.days += referral.reward.days;
+      }
+    }
+    return [...standings.values()].sort((a, b) => b.purchases - a.purchases);
+  }
+
+  private async getExtension(
+    contractAddress: string,
+    inboxId: string,
+    now: number,
+  ): Promise<ReferralExtension | undefined> {
+    return (await this.getActiveExtensions(contractAddress, now)).find(
+      (e) => e.inboxId.toLowerCase() === inboxId.toLowerCase(),
+    );
+  }
+}
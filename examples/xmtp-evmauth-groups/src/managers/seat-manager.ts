@@ -0,0 +1,281 @@
+/**
+ * Seat Manager - team access bought with /buy-seats
+ * The purchaser holds the access tokens and hands out seats to members.
+ * Seats last until they are reclaimed or the pool's tokens expire, and the
+ * membership audit treats an active seat like a held token for as long as
+ * the purchaser still holds enough of them. A purchaser who is in the group
+ * themselves uses up one of their tokens, so N tokens never give more than
+ * N people access.
+ */
+
+import type {
+  GroupStore,
+  SeatAssignment,
+  SeatPool,
+} from "../database/group-store";
+import type { TokenHolding } from "../utils/membership-audit";
+
+/**
+ * Thrown when a seat can't be assigned or reclaimed; the message is meant
+ * for the pool owner
+ */
+export class SeatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SeatError";
+  }
+}
+
+export interface SeatMember {
+  address: string;
+  inboxId: string;
+}
+
+export interface SeatHolder {
+  pool: SeatPool;
+  assignment: SeatAssignment;
+}
+
+export interface BackedSeat extends SeatHolder {
+  /** When the owner's tokens expire on chain (undefined if they never do) */
+  expiresAt?: Date;
+}
+
+export interface SeatBacking {
+  /** Seats the owner's unexpired tokens still cover */
+  backed: BackedSeat[];
+  /**
+   * Seats beyond the owner's balance, e.g. after they sold tokens or while
+   * their own access uses one
+   */
+  unbacked: SeatHolder[];
+  /** Seats whose owner's balance couldn't be read */
+  unknown: SeatHolder[];
+}
+
+/**
+ * Seats currently handed out
+ */
+export function activeAssignments(pool: SeatPool): SeatAssignment[] {
+  return pool.assignments.filter((a) => !a.reclaimedAt);
+}
+
+export function freeSeats(pool: SeatPool): number {
+  return pool.seats - activeAssignments(pool).length;
+}
+
+/**
+ * Expiry in ms since the epoch (Infinity if the tokens never expire)
+ */
+function expiryTime(pool: SeatPool): number {
+  return pool.expiresAt ? Date.parse(pool.expiresAt) : Infinity;
+}
+
+function isExpired(pool: SeatPool, now: number): boolean {
+  return expiryTime(pool) <= now;
+}
+
+/**
+ * Match seats against their owners' on-chain balances (from
+ * MembershipAuditEngine.getTierBalances)
+ * Each owner's seats in a tier are honored oldest first, up to the number
+ * of unexpired tokens they still hold. Owners in ownersWithAccess (lower
+ * case addresses) keep one token for their own access, taken from the
+ * first tier they have seats in.
+ */
+export function checkSeatBacking(
+  seats: SeatHolder[],
+  balances: Map<string, Map<number, TokenHolding>>,
+  ownersWithAccess = new Set<string>(),
+): SeatBacking {
+  const backing: SeatBacking = { backed: [], unbacked: [], unknown: [] };
+  const covered = new Map<string, bigint>();
+  const reserved = new Set<string>();
+  const oldestFirst = [...seats].sort((a, b) =>
+    a.assignment.assignedAt.localeCompare(b.assignment.assignedAt),
+  );
+
+  for (const seat of oldestFirst) {
+    const owner = seat.pool.ownerAddress.toLowerCase();
+    const holding = balances.get(owner)?.get(seat.pool.tokenId);
+    if (!holding) {
+      backing.unknown.push(seat);
+      continue;
+    }
+
+    const key = `${owner}:${seat.pool.tokenId}`;
+    if (ownersWithAccess.has(owner) && !reserved.has(owner)) {
+      reserved.add(owner);
+      covered.set(key, 1n);
+    }
+    const count = covered.get(key) ?? 0n;
+    if (count >= holding.balance) {
+      backing.unbacked.push(seat);
+      continue;
+    }
+    covered.set(key, count + 1n);
+    backing.backed.push({ ...seat, expiresAt: holding.expiresAt });
+  }
+  return backing;
+}
+
+function matchesMember(assignment: SeatAssignment, member: string): boolean {
+  const needle = member.toLowerCase();
+  return (
+    assignment.inboxId.toLowerCase() === needle ||
+    assignment.address.toLowerCase() === needle
+  );
+}
+
+export class SeatManager {
+  private database: GroupStore;
+
+  constructor(database: GroupStore) {
+    this.database = database;
+  }
+
+  /**
+   * Record a confirmed seat purchase (a repeated purchase ID is ignored)
+   */
+  async createPool(pool: Omit<SeatPool, "assignments">): Promise<SeatPool> {
+    const existing = (await this.database.getSeatPools()).find(
+      (p) => p.id.toLowerCase() === pool.id.toLowerCase(),
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const created: SeatPool = { ...pool, assignments: [] };
+    await this.database.saveSeatPool(created);
+    console.log(
+      `🪑 Seat pool ${pool.id}: ${pool.seats} ${pool.tierName} seats for ${pool.ownerAddress}`,
+    );
+    return created;
+  }
+
+  /**
+   * Unexpired pools bought by an inbox, soonest expiry first
+   */
+  async getOwnerPools(
+    ownerInboxId: string,
+    contractAddress?: string,
+    now = Date.now(),
+  ): Promise<SeatPool[]> {
+    return (await this.database.getSeatPools(contractAddress))
+      .filter(
+        (p) =>
+          p.ownerInboxId.toLowerCase() === ownerInboxId.toLowerCase() &&
+          !isExpired(p, now),
+      )
+      .sort((a, b) => expiryTime(a) - expiryTime(b) || 0);
+  }
+
+  /**
+   * Give a member one of the owner's free seats
+   * Uses the pool that expires last, so the seat lasts as long as possible.
+   */
+  async assignSeat(
+    ownerInboxId: string,
+    member: SeatMember,
+    contractAddress?: string,
+    now = Date.now(),
+  ): Promise<SeatHolder> {
+    const pools = await this.ownerPoolsForOneGroup(
+      ownerInboxId,
+      contractAddress,
+      now,
+    );
+
+    const current = pools
+      .flatMap((pool) => activeAssignments(pool))
+      .find((a) => a.inboxId.toLowerCase() === member.inboxId.toLowerCase());
+    if (current) {
+      throw new SeatError(`${member.address} already has one of your seats`);
+    }
+
+    const pool = pools.filter((p) => freeSeats(p) > 0).pop();
+    if (!pool) {
+      const total = pools.reduce((sum, p) => sum + p.seats, 0);
+      throw new SeatError(
+        `All ${total} of your seats are assigned. Reclaim one with /reclaim-seat first.`,
+      );
+    }
+
+    const assignment: SeatAssignment = {
+      address: member.address,
+      inboxId: member.inboxId,
+      assignedAt: new Date(now).toISOString(),
+    };
+    pool.assignments.push(assignment);
+    await this.database.saveSeatPool(pool);
+    return { pool, assignment };
+  }
+
+  /**
+   * Take a seat back from a member (by address or inbox ID)
+   */
+  async reclaimSeat(
+    ownerInboxId: string,
+    member: string,
+    contractAddress?: string,
+    now = Date.now(),
+  ): Promise<SeatHolder> {
+    const pools = await this.ownerPoolsForOneGroup(
+      ownerInboxId,
+      contractAddress,
+      now,
+    );
+
+    for (const pool of pools) {
+      const assignment = activeAssignments(pool).find((a) =>
+        matchesMember(a, member),
+      );
+      if (assignment) {
+        assignment.reclaimedAt = new Date(now).toISOString();
+        await this.database.saveSeatPool(pool);
+        return { pool, assignment };
+      }
+    }
+    throw new SeatError(`${member} doesn't have one of your seats`);
+  }
+
+  /**
+   * Every assigned, unexpired seat for a contract
+   */
+  async getActiveSeats(
+    contractAddress: string,
+    now = Date.now(),
+  ): Promise<SeatHolder[]> {
+    return (await this.database.getSeatPools(contractAddress))
+      .filter((pool) => !isExpired(pool, now))
+      .flatMap((pool) =>
+        activeAssignments(pool).map((assignment) => ({ pool, assignment })),
+      );
+  }
+
+  /**
+   * Seat pools can only be managed one group at a time
+   */
+  private async ownerPoolsForOneGroup(
+    ownerInboxId: string,
+    contractAddress: string | undefined,
+    now: number,
+  ): Promise<SeatPool[]> {
+    const pools = await this.getOwnerPools(ownerInboxId, contractAddress, now);
+    if (pools.length === 0) {
+      throw new SeatError(
+        "You have no active seats. Buy some with /buy-seats <group> <tier> <count>.",
+      );
+    }
+
+    const contracts = new Set(
+      pools.map((p) => p.contractAddress.toLowerCase()),
+    );
+    if (contracts.size > 1) {
+      throw new SeatError(
+        "You have seats in more than one group. Add the group to the command.",
+      );
+    }
+    return pools;
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Command registry test: tokenizing, argument parsing, role checks and
+ * messages that aren't registered commands
+ * Run with: yarn test:commands
+ */
+
+import type { Conversation } from "@xmtp/node-sdk";
+import {
+  CommandRegistry,
+  CommandUsageError,
+  tokenizeCommand,
+} from "../commands/command-registry";
+import type { DualGroupConfig } from "../types/types";
+import { check } from "./helpers";
+
+const GROUP = {
+  contractAddress: "0x00000000000000000000000000000000000000a1",
+  creatorInboxId: "creator",
+} as unknown as DualGroupConfig;
+
+async function runCommandRegistryTest() {
+  console.log("⌨️ Command Registry Test");
+  console.log("========================");
+
+  const replies: string[] = [];
+  const calls: Array<{ name: string; args: Record<string, string> }> = [];
+  const registry = new CommandRegistry<undefined>({
+    findGroup: (identifier) =>
+      identifier === "vip" || identifier === GROUP.contractAddress
+        ? GROUP
+        : undefined,
+    isGroupMember: (_group, inboxId) => Promise.resolve(inboxId === "member"),
+    isOperator: (inboxId) => inboxId === "operator",
+  });
+  const record =
+    (name: string) =>
+    ({ args }: { args: Record<string, string> }) => {
+      calls.push({ name, args });
+      return Promise.resolve();
+    };
+
+  registry
+    .register({
+      name: "announce",
+      aliases: ["say"],
+      description: "Post to a group",
+      role: "member",
+      groupArg: "group",
+      args: [
+        { name: "group" },
+        { name: "days", type: "number" },
+        { name: "message", rest: true },
+        { name: "to", type: "address", flag: true, required: false },
+      ],
+      handler: record("announce"),
+    })
+    .register({
+      name: "settings",
+      description: "Change settings",
+      role: "creator",
+      groupArg: "group",
+      args: [{ name: "group" }],
+      handler: record("settings"),
+    })
+    .register({
+      name: "stats",
+      description: "Agent stats",
+      role: "operator",
+      handler: record("stats"),
+    })
+    .register({
+      name: "fail",
+      description: "Rejects its input",
+      handler: () => Promise.reject(new CommandUsageError("Not today.")),
+    });
+
+  const send = (sender: string, message: string) => {
+    replies.length = 0;
+    return registry.dispatch(message, {
+      conversation: {
+        send: (reply: string) => {
+          replies.push(reply);
+          return Promise.resolve();
+        },
+      } as unknown as Conversation,
+      senderInboxId: sender,
+      senderAddress: "0x0000000000000000000000000000000000000b0b",
+      services: undefined,
+    });
+  };
+
+  // TEST 1: tokenizer
+  check(
+    tokenizeCommand(`  /announce "VIP Club" 'two words' bare  `).join("|") ===
+      "/announce|VIP Club|two words|bare",
+    "Quoted strings stay together",
+  );
+  check(tokenizeCommand("   ").length === 0, "Blank input has no tokens");
+
+  // TEST 2: arguments
+  await send("member", `/say vip 7 "Hello there" everyone`);
+  check(
+    calls.at(-1)?.args.message === "Hello there everyone" &&
+      calls.at(-1)?.args.days === "7",
+    "Aliases dispatch and rest arguments take the remaining tokens",
+  );
+  await send("member", `/announce --to ${GROUP.contractAddress} vip 7 hi`);
+  check(
+    calls.at(-1)?.args.to === GROUP.contractAddress &&
+      calls.at(-1)?.args.group === "vip",
+    "Flags are read anywhere after the command",
+  );
+  const before = calls.length;
+  await send("member", "/announce vip soon hi");
+  check(
+    calls.length === before &&
+      replies[0].includes('"days" must be a positive number') &&
+      replies[0].includes("Usage: `/announce <group> <days> <message...>"),
+    "Invalid arguments get a usage error instead of running",
+  );
+  await send("member", "/announce vip 7 hi --to nobody");
+  check(
+    replies[0].includes("0x-prefixed wallet address"),
+    "Address arguments are validated",
+  );
+  await send("creator", "/settings vip extra");
+  check(
+    replies[0].includes("Too many arguments."),
+    "Extra arguments are refused",
+  );
+  await send("anyone", "/fail");
+  check(
+    replies[0].startsWith("❌ Not today.\n\nUsage: `/fail`"),
+    "Usage errors thrown by handlers are reported the same way",
+  );
+
+  // TEST 3: roles
+  await send("stranger", "/announce vip 7 hi");
+  check(
+    replies[0] === "❌ Only group members can use /announce.",
+    "Members-only commands refuse outsiders",
+  );
+  await send("creator", "/announce vip 7 hi");
+  check(replies.length === 0, "Creators count as members");
+  await send("member", "/settings vip");
+  check(
+    replies[0] === "❌ Only the group creator can use /settings.",
+    "Creator-only commands refuse members",
+  );
+  await send("creator", "/stats");
+  await send("operator", "/stats");
+  check(
+    calls.filter((call) => call.name === "stats").length === 1,
+    "Operator commands only run for the operator",
+  );
+  await send("member", "/announce unknown 7 hi");
+  check(
+    replies[0].startsWith(`❌ Group "unknown" not found.`),
+    "Unknown groups are reported before the role check",
+  );
+
+  // TEST 4: messages that aren't commands
+  check(
+    !(await send("member", "/nope vip")) &&
+      !(await send("member", "hello /announce")) &&
+      replies.length === 0,
+    "Unknown commands and plain text are left to the caller",
+  );
+  let duplicate = false;
+  try {
+    registry.register({
+      name: "SAY",
+      description: "Clashes with an alias",
+      handler: record("say"),
+    });
+  } catch {
+    duplicate = true;
+  }
+  check(duplicate, "Names that clash with a command or alias are refused");
+
+  console.log("\n🎉 All command registry tests passed");
+}
+
+runCommandRegistryTest().catch((error: unknown) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -15,7 +15,7 @@ import { EnhancedGroupManager } from "../managers/enhanced-group-flow";
 import { EventDrivenAccessManager } from "../handlers/event-driven-access";
 import { RecoveryManager } from "../managers/recovery-mechanisms";
 import { EVMAuthHandler } from "../handlers/evmauth-handler";
-import type { DualGroupConfig } from "../types/types";
+import { GroupRegistry } from "../managers/group-registry";
 
 /* Environment variables validation */
 const {
@@ -56,9 +56,9 @@ async function runDemo() {
       WALLET_KEY
     );
 
-    const groupConfigs = new Map<string, DualGroupConfig>();
-    const enhancedGroupManager = new EnhancedGroupManager(client, evmAuthHandler);
-    const eventAccessManager = new EventDrivenAccessManager(client, BASE_RPC_URL, enhancedGroupManager, groupConfigs);
+    const groupRegistry = new GroupRegistry();
+    const enhancedGroupManager = new EnhancedGroupManager(client, evmAuthHandler, groupRegistry);
+    const eventAccessManager = new EventDrivenAccessManager(client, BASE_RPC_URL, enhancedGroupManager, groupRegistry);
     const recoveryManager = new RecoveryManager(client, BASE_RPC_URL, enhancedGroupManager);
 
     console.log("✅ All handlers initialized");
@@ -69,7 +69,7 @@ async function runDemo() {
       enhancedGroupManager,
       eventAccessManager,
       recoveryManager,
-      groupConfigs
+      groupRegistry
     );
 
     console.log("✅ Test framework ready");
@@ -123,7 +123,7 @@ async function runDemo() {
     console.log("\n🏥 System Health Check...");
     console.log("==========================");
     
-    const healthCheck = await recoveryManager.performHealthCheck(groupConfigs);
+    const healthCheck = await recoveryManager.performHealthCheck(groupRegistry.toMap());
     
     console.log(`System Health: ${healthCheck.healthy ? '✅ HEALTHY' : '⚠️ ISSUES'}`);
     console.log(`Total Groups: ${healthCheck.stats.totalGroups}`);
@@ -0,0 +1,156 @@
+/**
+ * Event bus test: handler isolation, the durable outbox, replay dedupe in
+ * the default subscribers and Date revival
+ * Run with: yarn test:events
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Client } from "@xmtp/node-sdk";
+import { AgentEventBus, type EventDelivery } from "../events/event-bus";
+import {
+  EventAnalytics,
+  registerAnnouncementSubscriber,
+} from "../events/subscribers";
+import type { GroupRegistry } from "../managers/group-registry";
+import type { AgentEvent, GroupConfig } from "../types/types";
+import { check } from "./helpers";
+
+const memberAdded: AgentEvent = {
+  type: "MEMBER_ADDED",
+  data: { groupId: "group-1", userInboxId: "alice", tierName: "Monthly" },
+};
+
+function fakeClient(sent: string[]) {
+  return {
+    conversations: {
+      getConversationById: () =>
+        Promise.resolve({
+          send: (message: string) => {
+            sent.push(message);
+            return Promise.resolve();
+          },
+        }),
+    },
+  } as unknown as Client<unknown>;
+}
+
+function fakeRegistry() {
+  return {
+    getByGroupId: () => ({ salesGroupId: "sales-1" }),
+  } as unknown as GroupRegistry;
+}
+
+async function runEventBusTest() {
+  console.log("📣 Event Bus Test");
+  console.log("=================");
+
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "event-bus-test-"));
+
+  try {
+    // TEST 1: delivery
+    const bus = new AgentEventBus();
+    const seen: string[] = [];
+    const unsubscribe = bus.subscribe("MEMBER_ADDED", ({ data }) => {
+      seen.push(data.userInboxId);
+    });
+    bus.subscribe("*", () => {
+      throw new Error("broken subscriber");
+    });
+    await bus.publish(memberAdded);
+    check(seen.join() === "alice", "Failing handlers don't stop the others");
+    unsubscribe();
+    await bus.publish(memberAdded);
+    check(seen.length === 1, "Unsubscribed handlers get nothing");
+
+    // TEST 2: outbox and replay
+    const firstRun = new AgentEventBus({ outboxDir: dataDir, maxAttempts: 3 });
+    const deliveries: EventDelivery[] = [];
+    const announcements: string[] = [];
+    new EventAnalytics(dataDir).register(firstRun);
+    registerAnnouncementSubscriber(
+      firstRun,
+      fakeClient(announcements),
+      fakeRegistry(),
+      dataDir,
+    );
+    firstRun.subscribe("MEMBER_ADDED", (_event, delivery) => {
+      deliveries.push(delivery);
+      throw new Error("webhook down");
+    });
+    await firstRun.publish(memberAdded);
+    check(
+      firstRun.getPendingCount() === 1 && announcements.length === 1,
+      "Events stay in the outbox until every handler succeeds",
+    );
+
+    const secondRun = new AgentEventBus({ outboxDir: dataDir, maxAttempts: 3 });
+    const analytics = new EventAnalytics(dataDir);
+    analytics.register(secondRun);
+    registerAnnouncementSubscriber(
+      secondRun,
+      fakeClient(announcements),
+      fakeRegistry(),
+      dataDir,
+    );
+    secondRun.subscribe("MEMBER_ADDED", (_event, delivery) => {
+      deliveries.push(delivery);
+      throw new Error("webhook still down");
+    });
+    check(
+      (await secondRun.replayOutbox()) === 1 &&
+        deliveries[1].id === deliveries[0].id &&
+        deliveries[1].attempt === 2,
+      "Replays keep the delivery id and count attempts",
+    );
+    check(
+      announcements.length === 1 &&
+        analytics.getSnapshot().groups["group-1"].membersAdded === 1 &&
+        analytics.getSnapshot().eventCounts.MEMBER_ADDED === 1,
+      "Announcements and analytics ignore replays",
+    );
+
+    await secondRun.replayOutbox();
+    check(
+      secondRun.getPendingCount() === 0,
+      "Events are dropped after maxAttempts",
+    );
+
+    // TEST 3: Date revival
+    const group = {
+      groupId: "2025-01-01T00:00:00.000Z",
+      createdAt: new Date("2025-02-03T04:05:06.000Z"),
+    } as GroupConfig;
+    const crashed = new AgentEventBus({ outboxDir: dataDir });
+    crashed.subscribe("*", () => {
+      throw new Error("crash");
+    });
+    await crashed.publish({ type: "GROUP_CREATED", data: group });
+
+    const restarted = new AgentEventBus({ outboxDir: dataDir });
+    let revived: GroupConfig | undefined;
+    restarted.subscribe("GROUP_CREATED", ({ data }) => {
+      revived = data;
+    });
+    await restarted.replayOutbox();
+    check(
+      revived?.createdAt instanceof Date &&
+        revived.createdAt.getTime() === group.createdAt.getTime(),
+      "GroupConfig.createdAt is revived as a Date",
+    );
+    check(
+      revived?.groupId === group.groupId,
+      "Other timestamp-like strings stay strings",
+    );
+
+    console.log("\n🎉 All event bus tests passed");
+  } finally {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+}
+
+runEventBusTest().catch((error: unknown) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,211 @@
+/**
+ * Expiry reminder test: reminders are priced in the group's default token,
+ * native groups get a purchase bundle with the platform fee unless
+ * collaborators need paying, and reminders aren't repeated
+ * Run with: yarn test:reminders
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { WalletSendCallsParams } from "@xmtp/content-type-wallet-send-calls";
+import type { Client } from "@xmtp/node-sdk";
+import { decodeFunctionData, type Hex } from "viem";
+import { EVMAUTH_V2_ABI } from "../contracts/abis";
+import type { GroupRecord } from "../database/group-store";
+import type { EVMAuthHandler } from "../handlers/evmauth-handler";
+import {
+  groupRecordToConfig,
+  type GroupRegistry,
+} from "../managers/group-registry";
+import type { DualGroupConfig } from "../types/types";
+import { ExpiryReminderScheduler } from "../utils/expiry-reminders";
+import { FeeEngine } from "../utils/fee-engine";
+import type {
+  MemberAccess,
+  MembershipAuditEngine,
+} from "../utils/membership-audit";
+import { PaymentTokenRegistry } from "../utils/payment-tokens";
+import { PriceService, StaticRateSource } from "../utils/price-service";
+import { check } from "./helpers";
+
+const HOUR_MS = 60 * 60 * 1000;
+const MEMBER = "0x00000000000000000000000000000000000a11ce";
+const PAYMENT_WALLET = "0x00000000000000000000000000000000000000a9";
+const PLATFORM = "0x00000000000000000000000000000000000000f0";
+/** Price set on chain for native purchases */
+const NATIVE_PRICE = 5n * 10n ** 15n;
+
+function group(
+  contractAddress: string,
+  token: string,
+  overrides: Partial<GroupRecord> = {},
+): DualGroupConfig {
+  const record: GroupRecord = {
+    id: contractAddress,
+    name: `${token} Group`,
+    creatorInboxId: "creator-inbox",
+    creatorAddress: "0x00000000000000000000000000000000000000c0",
+    contractAddress,
+    salesGroupId: `sales-${token}`,
+    premiumGroupId: `premium-${token}`,
+    status: "active",
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    acceptedTokens: [token],
+    tiers: [
+      {
+        id: 1,
+        tierId: "monthly",
+        name: "Monthly",
+        priceUsd: 10,
+        priceWei: "10000000",
+        durationDays: 30,
+      },
+    ],
+    ...overrides,
+  };
+  return groupRecordToConfig(record);
+}
+
+interface SentMessage {
+  inboxId: string;
+  content: unknown;
+}
+
+function fakeClient(sent: SentMessage[]) {
+  return {
+    conversations: {
+      newDm: (inboxId: string) =>
+        Promise.resolve({
+          send: (content: unknown) => {
+            sent.push({ inboxId, content });
+            return Promise.resolve();
+          },
+        }),
+    },
+  } as unknown as Client<unknown>;
+}
+
+function expiringMember(expiresAt: Date): MemberAccess {
+  return {
+    inboxId: "alice",
+    address: MEMBER,
+    isPrivileged: false,
+    hasAccess: true,
+    accessUnknown: false,
+    tokenIds: [1],
+    expiresAt,
+    tokenExpiries: [{ tokenId: 1, expiresAt }],
+    expiredTokenIds: [],
+  };
+}
+
+async function runExpiryReminderTest() {
+  console.log("⏰ Expiry Reminder Test");
+  console.log("=======================");
+
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "reminder-test-"));
+
+  try {
+    const now = Date.now();
+    const expiresAt = new Date(now + 12 * HOUR_MS);
+    const groups = [
+      group("0x00000000000000000000000000000000000000e1", "ETH"),
+      group("0x00000000000000000000000000000000000000d1", "USDC"),
+      group("0x00000000000000000000000000000000000000e2", "ETH", {
+        collaborators: [
+          {
+            address: "0x00000000000000000000000000000000000000c1",
+            sharePercent: 20,
+          },
+        ],
+      }),
+    ];
+    const priceService = new PriceService(
+      new StaticRateSource({ ETH: 2000, USDC: 1 }),
+    );
+    const sent: SentMessage[] = [];
+
+    const reminders = new ExpiryReminderScheduler(
+      fakeClient(sent),
+      { list: () => groups } as unknown as GroupRegistry,
+      {
+        auditContract: (config: DualGroupConfig) =>
+          Promise.resolve({
+            contractAddress: config.contractAddress,
+            tierIds: [1],
+            members: [expiringMember(expiresAt)],
+          }),
+      } as unknown as MembershipAuditEngine,
+      {
+        evmAuthHandler: {
+          getTokenPrice: () => Promise.resolve(NATIVE_PRICE),
+          getPaymentWallet: () => Promise.resolve(PAYMENT_WALLET),
+        } as unknown as EVMAuthHandler,
+        priceService,
+        paymentTokens: new PaymentTokenRegistry(),
+        feeEngine: new FeeEngine(
+          { recipient: PLATFORM, basisPoints: 100 },
+          priceService,
+        ),
+      },
+      { dataDir, leadTimesMs: [HOUR_MS, 24 * HOUR_MS] },
+    );
+
+    // TEST 1: one reminder per group, priced in its token
+    check(
+      (await reminders.checkReminders(now)) === 3,
+      "Members get a reminder for each group",
+    );
+    const [nativeText, bundle, erc20Text, sharedText] = sent.map(
+      (m) => m.content,
+    );
+    check(
+      typeof nativeText === "string" &&
+        nativeText.includes("0.005 ETH + 0.00005 ETH platform fee") &&
+        !nativeText.includes("/renew"),
+      "Native groups quote the on-chain price and the platform fee",
+    );
+    const calls = (bundle as WalletSendCallsParams).calls;
+    const purchase = decodeFunctionData({
+      abi: EVMAUTH_V2_ABI,
+      data: calls[0].data as Hex,
+    });
+    check(
+      calls.length === 2 &&
+        BigInt(calls[0].value ?? "0x0") === NATIVE_PRICE &&
+        purchase.functionName === "purchase" &&
+        calls[1].to === PLATFORM &&
+        BigInt(calls[1].value ?? "0x0") === NATIVE_PRICE / 100n,
+      "Native groups get a purchase bundle that pays the platform fee",
+    );
+    check(
+      typeof erc20Text === "string" &&
+        erc20Text.includes("10.00 USDC") &&
+        erc20Text.includes(`/renew ${groups[1].contractAddress} monthly`),
+      "ERC-20 groups are pointed to /renew",
+    );
+    check(
+      typeof sharedText === "string" &&
+        sharedText.includes(`/renew ${groups[2].contractAddress} monthly`),
+      "Groups with collaborators are pointed to /renew so the shares are paid",
+    );
+
+    // TEST 2: no repeats
+    check(
+      (await reminders.checkReminders(now + HOUR_MS)) === 0 &&
+        sent.length === 4,
+      "Reminders aren't repeated for the same expiry",
+    );
+
+    console.log("\n🎉 All expiry reminder tests passed");
+  } finally {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+}
+
+runExpiryReminderTest().catch((error: unknown) => {
+  console.error(error);
+  process.exit(1);
+});
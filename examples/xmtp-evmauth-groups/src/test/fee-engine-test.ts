@@ -0,0 +1,211 @@
+/**
+ * Fee engine test: platform fee rates, caps, collaborator shares and
+ * referral rewards
+ * Run with: yarn test:fees
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { decodeFunctionData, erc20Abi, type Hex } from "viem";
+import type { GroupRecord } from "../database/group-store";
+import { JSONDatabase } from "../database/json-database";
+import {
+  DEFAULT_GROUP_SETTINGS,
+  groupRecordToConfig,
+  GroupRegistry,
+} from "../managers/group-registry";
+import type { FeeConfig } from "../types/types";
+import { FeeEngine, parseTokenFees } from "../utils/fee-engine";
+import { builtinPaymentToken } from "../utils/payment-tokens";
+import { createTokenAccessPurchase } from "../utils/payment-transactions";
+import { PriceService, StaticRateSource } from "../utils/price-service";
+import { check } from "./helpers";
+
+const PLATFORM = "0x00000000000000000000000000000000000000fe";
+const ALICE = "0x00000000000000000000000000000000000a11ce";
+const BOB = "0x0000000000000000000000000000000000000b0b";
+const CAROL = "0x00000000000000000000000000000000000ca201";
+const PAYMENT_WALLET = "0x00000000000000000000000000000000000000a9";
+
+function groupRecord(overrides: Partial<GroupRecord> = {}): GroupRecord {
+  return {
+    id: "group-1",
+    name: "Group A",
+    creatorInboxId: "creator-inbox",
+    creatorAddress: "0x00000000000000000000000000000000000000c0",
+    contractAddress: "0x00000000000000000000000000000000000000a1",
+    salesGroupId: "sales-1",
+    premiumGroupId: "premium-1",
+    status: "active",
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    acceptedTokens: ["USDC", "ETH"],
+    ...overrides,
+  };
+}
+
+async function runFeeEngineTest() {
+  console.log("🧾 Fee Engine Test");
+  console.log("==================");
+
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "fee-test-"));
+
+  try {
+    const prices = new PriceService(
+      new StaticRateSource({ ETH: 2000, USDC: 1 }),
+    );
+    const feeConfig: FeeConfig = {
+      recipient: PLATFORM,
+      basisPoints: 250,
+      paymentMethodFees: parseTokenFees("eth:100"),
+    };
+    const fees = new FeeEngine(feeConfig, prices);
+    const group = groupRecordToConfig(groupRecord());
+
+    // TEST 1: rates
+    const usdc = await fees.split(group, "USDC", 10_000_000n);
+    check(
+      usdc.platformFee === 250_000n &&
+        usdc.total === 10_250_000n &&
+        usdc.creatorAmount === 10_000_000n,
+      "Default fee is added on top of the price",
+    );
+    check(
+      (await fees.split(group, "ETH", 10n ** 16n)).platformFee === 10n ** 14n,
+      "Payment token rate replaces the default",
+    );
+    const custom = {
+      ...group,
+      settings: { ...DEFAULT_GROUP_SETTINGS, customFeePercentage: 0 },
+    };
+    const waived = await fees.split(custom, "ETH", 10n ** 16n);
+    check(
+      waived.platformFee === 0n && waived.payouts.length === 0,
+      "Group override wins over token rates",
+    );
+
+    // TEST 2: caps in USD
+    const capped = new FeeEngine(
+      { ...feeConfig, minimumFee: 0.5, maximumFee: 1 },
+      prices,
+    );
+    const small = await capped.split(group, "USDC", 1_000_000n);
+    check(
+      small.platformFee === 500_000n && small.feeCapped,
+      "Minimum fee applies to cheap tiers",
+    );
+    check(
+      (await capped.split(group, "ETH", 10n ** 18n)).platformFee ===
+        5n * 10n ** 14n,
+      "Maximum fee is converted into the payment token",
+    );
+
+    // TEST 3: collaborators share the price
+    const shared = groupRecordToConfig(
+      groupRecord({
+        collaborators: [
+          { address: ALICE, sharePercent: 10 },
+          { address: BOB, sharePercent: 5 },
+        ],
+      }),
+    );
+    const split = await fees.split(shared, "USDC", 10_000_000n);
+    check(
+      split.creatorAmount === 8_500_000n &&
+        split.total === 10_250_000n &&
+        split.payouts.map((p) => p.to).join() === PLATFORM &&
+        split.shares.map((p) => p.to).join() === [ALICE, BOB].join(),
+      "Collaborator shares come out of the creator's price",
+    );
+
+    const referral = { to: CAROL, amount: 1_000_000n, description: "Referral" };
+    const referred = await fees.split(shared, "USDC", 10_000_000n, referral);
+    check(
+      referred.creatorAmount === 7_500_000n &&
+        referred.total === 10_250_000n &&
+        referred.shares.at(-1)?.to === CAROL,
+      "Referral rewards come out of the creator's share, not the buyer's",
+    );
+    const greedy = await fees.split(shared, "USDC", 10_000_000n, {
+      ...referral,
+      amount: 9_000_000n,
+    });
+    check(
+      greedy.referralAmount === 8_500_000n && greedy.creatorAmount === 0n,
+      "Referral rewards are capped at the creator's share",
+    );
+
+    // TEST 4: purchase bundle
+    const token = builtinPaymentToken("USDC");
+    if (!token) throw new Error("USDC is a built-in token");
+    const bundle = createTokenAccessPurchase(
+      token,
+      shared.contractAddress,
+      PAYMENT_WALLET,
+      1,
+      split.price,
+      "Group A",
+      "Monthly",
+      BOB,
+      BOB,
+      1,
+      split.payouts,
+    );
+    const payment = decodeFunctionData({
+      abi: erc20Abi,
+      data: bundle.calls[0].data as Hex,
+    });
+    const transfers = bundle.calls
+      .slice(1)
+      .map(
+        (call) =>
+          decodeFunctionData({ abi: erc20Abi, data: call.data as Hex }).args[1],
+      );
+    check(
+      payment.functionName === "transfer" &&
+        payment.args[0].toLowerCase() === PAYMENT_WALLET &&
+        payment.args[1] === 10_000_000n &&
+        transfers.join() === [250_000n].join(),
+      "Bundle pays the full price to the payment wallet and the fee to the platform",
+    );
+
+    // TEST 5: persisted
+    const registry = new GroupRegistry(new JSONDatabase(dataDir));
+    await registry.add({
+      ...shared,
+      settings: { ...DEFAULT_GROUP_SETTINGS, customFeePercentage: 1.5 },
+      tiers: [
+        {
+          id: "monthly",
+          name: "Monthly",
+          durationDays: 30,
+          priceWei: "5000000000000000",
+          paymentToken: "ETH",
+        },
+      ],
+    });
+    const reloaded = new GroupRegistry(new JSONDatabase(dataDir));
+    await reloaded.load();
+    const stored = reloaded.get(shared.contractAddress);
+    check(
+      stored?.collaborators?.length === 2 &&
+        fees.feeBasisPoints(stored, "USDC") === 150,
+      "Collaborators and fee override survive a restart",
+    );
+    check(
+      stored?.tiers[0].paymentToken === "ETH" &&
+        stored.tiers[0].priceWei === "5000000000000000",
+      "Tier prices keep their payment token after a restart",
+    );
+
+    console.log("\n🎉 All fee engine tests passed");
+  } finally {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+}
+
+runFeeEngineTest().catch((error: unknown) => {
+  console.error(error);
+  process.exit(1);
+});
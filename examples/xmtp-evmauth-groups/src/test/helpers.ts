@@ -0,0 +1,27 @@
+/**
+ * Assertions shared by the test suites
+ */
+
+/**
+ * Log a passing check, or throw so the suite exits non-zero
+ */
+export function check(condition: boolean, message: string): void {
+  if (!condition) throw new Error(`❌ ${message}`);
+  console.log(`✅ ${message}`);
+}
+
+/**
+ * Message of the error a promise rejects with, or "" when it resolves or
+ * rejects with any other kind of error
+ */
+export async function errorMessage(
+  promise: Promise<unknown>,
+  errorClass: abstract new (...args: never[]) => Error,
+): Promise<string> {
+  try {
+    await promise;
+    return "";
+  } catch (error) {
+    return error instanceof errorClass ? error.message : "";
+  }
+}
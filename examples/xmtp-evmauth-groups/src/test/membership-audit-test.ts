@@ -0,0 +1,206 @@
+/**
+ * Membership audit test: access from purchases and balances, failed batches,
+ * extension lookups and seat owners' balances, against a stubbed RPC client
+ * Run with: yarn test:audit
+ */
+
+import type { Client } from "@xmtp/node-sdk";
+import { HttpRequestError, zeroAddress } from "viem";
+import {
+  MembershipAuditEngine,
+  type AuditedMember,
+} from "../utils/membership-audit";
+import { check } from "./helpers";
+
+const CONTRACT = "0x00000000000000000000000000000000000000a1";
+const EXTENSION = "0x00000000000000000000000000000000000000e1";
+
+const ALICE = "0x00000000000000000000000000000000000a11ce";
+const BOB = "0x0000000000000000000000000000000000000b0b";
+const CAROL = "0x00000000000000000000000000000000000ca201";
+const DAVE = "0x0000000000000000000000000000000000000da7";
+const ERIN = "0x00000000000000000000000000000000000e0001";
+
+interface Call {
+  functionName: string;
+  args: readonly unknown[];
+}
+
+/**
+ * Chain state: purchase access and tier 1 balances per address, and the
+ * addresses whose batches revert per function
+ */
+interface FakeChain {
+  extension: string | Error;
+  purchased: string[];
+  holders: string[];
+  failing: Record<string, string[]>;
+  extensionReads: number;
+}
+
+function fakeChain(overrides: Partial<FakeChain> = {}): FakeChain {
+  return {
+    extension: EXTENSION,
+    purchased: [],
+    holders: [],
+    failing: {},
+    extensionReads: 0,
+    ...overrides,
+  };
+}
+
+function fakePublicClient(chain: FakeChain) {
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  const answer = ({ functionName, args }: Call) => {
+    const users = (args[0] ?? []) as string[];
+    const failing = chain.failing[functionName] ?? [];
+    if (users.some((user) => failing.includes(user))) {
+      throw new Error("execution reverted");
+    }
+    switch (functionName) {
+      case "batchCheckXMTPAccess":
+        return users.map((user) => chain.purchased.includes(user));
+      case "balanceOfBatch":
+        return users.map((user) => (chain.holders.includes(user) ? 1n : 0n));
+      case "balanceDetailsOfBatch":
+        return users.map(() => [{ balance: 1n, expiresAt: now + 3600n }]);
+      case "getXMTPUserPurchases":
+        return [];
+      default:
+        throw new Error(`Unexpected call ${functionName}`);
+    }
+  };
+
+  return {
+    readContract: ({ functionName }: Call) => {
+      if (functionName === "getActiveXMTPTiers") {
+        return Promise.resolve([1n]);
+      }
+      chain.extensionReads++;
+      return chain.extension instanceof Error
+        ? Promise.reject(chain.extension)
+        : Promise.resolve(chain.extension);
+    },
+    multicall: ({ contracts }: { contracts: Call[] }) =>
+      Promise.resolve(
+        contracts.map((call) => {
+          try {
+            return { status: "success", result: answer(call) };
+          } catch (error) {
+            return { status: "failure", error };
+          }
+        }),
+      ),
+  };
+}
+
+function auditEngine(chain: FakeChain) {
+  const engine = new MembershipAuditEngine(
+    {} as Client<unknown>,
+    "http://localhost:8545",
+    { batchSize: 1 },
+  );
+  Object.assign(engine, { publicClient: fakePublicClient(chain) });
+  return engine;
+}
+
+function member(address: string): AuditedMember {
+  return {
+    inboxId: `inbox-${address.slice(-4)}`,
+    address,
+    isPrivileged: false,
+  };
+}
+
+async function runMembershipAuditTest() {
+  console.log("🔍 Membership Audit Test");
+  console.log("========================");
+
+  // TEST 1: access and failed batches
+  const chain = fakeChain({
+    purchased: [ALICE],
+    holders: [BOB, ERIN],
+    failing: {
+      batchCheckXMTPAccess: [CAROL, ERIN],
+      balanceOfBatch: [CAROL],
+    },
+  });
+  const snapshot = await auditEngine(chain).checkMembers(
+    CONTRACT,
+    [ALICE, BOB, CAROL, DAVE, ERIN].map(member),
+  );
+  const access = new Map(snapshot.members.map((m) => [m.address, m]));
+  check(
+    access.get(ALICE)?.hasAccess === true &&
+      access.get(BOB)?.hasAccess === true &&
+      access.get(BOB)?.expiresAt !== undefined,
+    "Purchases and balances both grant access",
+  );
+  check(
+    access.get(DAVE)?.hasAccess === false &&
+      access.get(DAVE)?.accessUnknown === false,
+    "Members with neither have no access",
+  );
+  check(
+    access.get(CAROL)?.hasAccess === false &&
+      access.get(CAROL)?.accessUnknown === true,
+    "Members in a failed batch are unknown, not expired",
+  );
+  check(
+    access.get(ERIN)?.hasAccess === true &&
+      access.get(ERIN)?.accessUnknown === false,
+    "Access found by another check still counts",
+  );
+
+  // TEST 2: extension lookups
+  const flaky = fakeChain({
+    extension: new HttpRequestError({ url: "http://localhost:8545" }),
+    purchased: [ALICE],
+  });
+  const engine = auditEngine(flaky);
+  let rejected = false;
+  try {
+    await engine.checkMembers(CONTRACT, [member(ALICE)]);
+  } catch {
+    rejected = true;
+  }
+  check(rejected, "RPC errors fail the audit instead of skipping purchases");
+
+  flaky.extension = EXTENSION;
+  const retried = await engine.checkMembers(CONTRACT, [member(ALICE)]);
+  check(retried.members[0].hasAccess, "Failed extension lookups aren't cached");
+
+  const legacy = fakeChain({ extension: zeroAddress, purchased: [ALICE] });
+  const balancesOnly = auditEngine(legacy);
+  await balancesOnly.checkMembers(CONTRACT, [member(ALICE)]);
+  const again = await balancesOnly.checkMembers(CONTRACT, [member(ALICE)]);
+  check(
+    !again.members[0].hasAccess && legacy.extensionReads === 1,
+    "Contracts without the extension are looked up once",
+  );
+
+  // TEST 3: seat owners' balances
+  const owners = auditEngine(
+    fakeChain({ failing: { balanceDetailsOfBatch: [CAROL] } }),
+  );
+  const balances = await owners.getTierBalances(CONTRACT, [
+    { address: ALICE, id: 1 },
+    { address: CAROL, id: 1 },
+  ]);
+  check(
+    balances.get(ALICE)?.get(1)?.balance === 1n &&
+      balances.get(ALICE)?.get(1)?.expiresAt !== undefined,
+    "Owner balances come with their on-chain expiry",
+  );
+  check(
+    !balances.has(CAROL),
+    "Owners in a failed batch are left out rather than reported empty",
+  );
+
+  console.log("\n🎉 All membership audit tests passed");
+}
+
+runMembershipAuditTest().catch((error: unknown) => {
+  console.error(error);
+  process.exit(1);
+});
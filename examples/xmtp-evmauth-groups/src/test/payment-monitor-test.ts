@@ -0,0 +1,247 @@
+/**
+ * Payment monitor test: creation payments matched by reference, sent
+ * directly or through a smart wallet, each consumed once, against a stubbed
+ * RPC client
+ * Run with: yarn test:payments
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Client } from "@xmtp/node-sdk";
+import { numberToHex, type Hex } from "viem";
+import { JSONDatabase } from "../database/json-database";
+import { AgentEventBus } from "../events/event-bus";
+import type { EnhancedGroupManager } from "../managers/enhanced-group-flow";
+import type { GroupRegistry } from "../managers/group-registry";
+import type { AgentEvent } from "../types/types";
+import { PaymentMonitor } from "../utils/payment-monitor";
+import {
+  createPaymentReference,
+  GROUP_CREATION_FEE_WEI,
+} from "../utils/payment-transactions";
+import { check } from "./helpers";
+
+const AGENT = "0x00000000000000000000000000000000000a6e47";
+const CREATOR = "0x00000000000000000000000000000000000c0de5";
+const BUNDLER = "0x0000000000000000000000000000000000b0d1e5";
+const ENTRY_POINT = "0x0000000071727de22e5e9d8baf0edac6f37da032";
+const SMART_WALLET = "0x000000000000000000000000000000000005a1e7";
+
+interface FakeTx {
+  hash: Hex;
+  from: string;
+  to: string;
+  input: Hex;
+  value: bigint;
+}
+
+interface CallFrame {
+  from: string;
+  to: string;
+  input: Hex;
+  value?: Hex;
+  error?: string;
+  calls?: CallFrame[];
+}
+
+/** Blocks and call traces the stubbed RPC serves */
+interface FakeChain {
+  head: bigint;
+  blocks: Map<bigint, FakeTx[]>;
+  traces: Map<Hex, CallFrame | Error>;
+}
+
+function txHash(n: number): Hex {
+  return numberToHex(n, { size: 32 });
+}
+
+function fakePublicClient(chain: FakeChain) {
+  return {
+    getBlockNumber: () => Promise.resolve(chain.head),
+    getBlock: ({ blockNumber }: { blockNumber: bigint }) =>
+      Promise.resolve({ transactions: chain.blocks.get(blockNumber) ?? [] }),
+    getTransactionReceipt: () => Promise.resolve({ status: "success" }),
+    request: ({ params }: { params: [Hex, unknown] }) => {
+      const trace = chain.traces.get(params[0]);
+      return trace instanceof Error || !trace
+        ? Promise.reject(trace ?? new Error("not traced"))
+        : Promise.resolve(trace);
+    },
+  };
+}
+
+/** handleOps calldata wrapping a wallet call that carries the reference */
+function bundledInput(reference: Hex): Hex {
+  return `0x765e827f${"00".repeat(64)}${reference.slice(2)}${"00".repeat(16)}`;
+}
+
+/** Trace of a bundle whose wallet pays the agent, optionally reverting */
+function bundleTrace(reference: Hex, error?: string): CallFrame {
+  return {
+    from: BUNDLER,
+    to: ENTRY_POINT,
+    input: bundledInput(reference),
+    calls: [
+      {
+        from: ENTRY_POINT,
+        to: SMART_WALLET,
+        input: "0xb61d27f6",
+        ...(error ? { error } : {}),
+        calls: [
+          {
+            from: SMART_WALLET,
+            to: AGENT,
+            input: reference,
+            value: numberToHex(GROUP_CREATION_FEE_WEI),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+async function runPaymentMonitorTest() {
+  console.log("💸 Payment Monitor Test");
+  console.log("=======================");
+
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "payment-test-"));
+
+  try {
+    const database = new JSONDatabase(dataDir);
+    const chain: FakeChain = {
+      head: 10n,
+      blocks: new Map(),
+      traces: new Map(),
+    };
+    const eventBus = new AgentEventBus();
+    const events: AgentEvent[] = [];
+    eventBus.subscribe("*", (event) => {
+      events.push(event);
+    });
+    const deployed: string[] = [];
+
+    const monitor = new PaymentMonitor(
+      {
+        conversations: {
+          getConversationById: () =>
+            Promise.resolve({ send: () => Promise.resolve() }),
+        },
+      } as unknown as Client<unknown>,
+      "http://localhost:8545",
+      AGENT,
+      {
+        createDualGroupSystem: (groupName: string) => {
+          deployed.push(groupName);
+          return Promise.resolve({
+            contractAddress: `0x${"a1".repeat(20)}`,
+            salesGroup: { id: `sales-${groupName}` },
+            premiumGroup: { id: `premium-${groupName}` },
+          });
+        },
+      } as unknown as EnhancedGroupManager,
+      { getByName: () => undefined } as unknown as GroupRegistry,
+      database,
+      eventBus,
+      { confirmations: 1 },
+    );
+    Object.assign(monitor, { publicClient: fakePublicClient(chain) });
+
+    // The first check only sets the cursor
+    await monitor.checkForPayments();
+    check(
+      (await database.getLastScannedBlock()) === 10,
+      "Scanning starts from the current head",
+    );
+
+    const references = new Map<string, Hex>();
+    for (const name of ["Direct", "Bundled", "Reverted", "Untraced"]) {
+      const reference = createPaymentReference();
+      references.set(name, reference);
+      await monitor.registerPendingPayment(
+        `payment-${name}`,
+        `inbox-${name}`,
+        name,
+        CREATOR,
+        reference,
+        { id: `dm-${name}` },
+      );
+    }
+    const ref = (name: string) => references.get(name) as Hex;
+
+    const direct: FakeTx = {
+      hash: txHash(1),
+      from: CREATOR,
+      to: AGENT,
+      input: ref("Direct"),
+      value: GROUP_CREATION_FEE_WEI,
+    };
+    const bundle = (n: number, name: string): FakeTx => ({
+      hash: txHash(n),
+      from: BUNDLER,
+      to: ENTRY_POINT,
+      input: bundledInput(ref(name)),
+      value: 0n,
+    });
+    chain.blocks.set(11n, [
+      direct,
+      bundle(2, "Bundled"),
+      bundle(3, "Reverted"),
+      bundle(4, "Untraced"),
+    ]);
+    chain.traces.set(txHash(2), bundleTrace(ref("Bundled")));
+    chain.traces.set(
+      txHash(3),
+      bundleTrace(ref("Reverted"), "execution reverted"),
+    );
+    chain.blocks.set(12n, [direct]);
+    chain.head = 12n;
+
+    await monitor.checkForPayments();
+
+    // TEST 1: direct and bundled payments
+    const received = events.flatMap((e) =>
+      e.type === "PAYMENT_RECEIVED" ? [e.data] : [],
+    );
+    check(
+      deployed.join() === "Direct,Bundled",
+      "Direct and smart wallet payments are both matched",
+    );
+    check(
+      received.find((d) => d.groupName === "Bundled")?.payerAddress ===
+        SMART_WALLET,
+      "The paying wallet, not the bundler, is the payer",
+    );
+    check(
+      deployed.filter((name) => name === "Direct").length === 1,
+      "A transaction seen twice is consumed once",
+    );
+
+    // TEST 2: reverted and untraceable payments
+    check(
+      (await database.getPayments("pending")).some(
+        (p) => p.groupName === "Reverted",
+      ),
+      "Reverted wallet calls don't count as payment",
+    );
+    check(
+      events.some(
+        (e) => e.type === "PAYMENT_ORPHANED" && e.data.groupName === "Untraced",
+      ),
+      "Payments that can't be traced go to the operator",
+    );
+    check(
+      (await database.getLastScannedBlock()) === 12,
+      "The cursor moves past scanned blocks",
+    );
+
+    console.log("\n🎉 All payment monitor tests passed");
+  } finally {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+}
+
+runPaymentMonitorTest().catch((error: unknown) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,97 @@
+/**
+ * Price conversion test with static and file rate sources
+ * Run with: yarn test:pricing
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { AccessTier } from "../types/types";
+import {
+  FileRateSource,
+  formatTokenAmount,
+  PriceService,
+  StaticRateSource,
+} from "../utils/price-service";
+import { check } from "./helpers";
+
+async function runPriceServiceTest() {
+  console.log("💱 Price Service Test");
+  console.log("=====================");
+
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "price-test-"));
+
+  try {
+    // TEST 1: decimals
+    check(
+      formatTokenAmount(10_000_000n, "USDC") === "10.00 USDC",
+      "USDC amounts use 6 decimals",
+    );
+    check(
+      formatTokenAmount(3_125_000_000_000_000n, "ETH") === "0.003125 ETH",
+      "ETH amounts use 18 decimals",
+    );
+
+    // TEST 2: conversions
+    const prices = new PriceService(
+      new StaticRateSource({ ETH: 3200, USDC: 1 }),
+    );
+    check(
+      (await prices.convert(10_000_000n, "USDC", "ETH")) ===
+        3_125_000_000_000_000n,
+      "10 USDC converts to 0.003125 ETH",
+    );
+    check(
+      (await prices.fromUSD(25, "USDC")) === 25_000_000n,
+      "$25 converts to 25 USDC",
+    );
+
+    const tier: AccessTier = {
+      id: "1",
+      name: "Monthly",
+      durationDays: 30,
+      priceWei: "10000000",
+      priceUSD: 10,
+      paymentToken: "USDC",
+    };
+    check(
+      (await prices.formatTierPrice(tier, ["ETH"])) ===
+        "10.00 USDC (≈ $10.00, ≈ 0.003125 ETH)",
+      "Tier price shows USD and ETH estimates",
+    );
+
+    // TEST 3: quote TTL
+    const file = path.join(dataDir, "rates.json");
+    fs.writeFileSync(file, JSON.stringify({ ETH: 2000 }));
+    const filePrices = new PriceService(new FileRateSource(file), {
+      quoteTtlMs: 1000,
+    });
+    const first = await filePrices.getQuote("ETH", 0);
+    fs.writeFileSync(file, JSON.stringify({ ETH: 4000 }));
+    check(
+      (await filePrices.getQuote("ETH", 500)).usdRate === first.usdRate,
+      "Quotes are reused until they expire",
+    );
+    check(
+      (await filePrices.getQuote("ETH", 1000)).usdRate === 4000,
+      "Expired quotes are fetched again",
+    );
+
+    // TEST 4: missing rates fall back to the bare amount
+    check(
+      (await new PriceService(new StaticRateSource({})).formatTierPrice(
+        tier,
+      )) === "10.00 USDC",
+      "Unavailable rates show the token amount only",
+    );
+
+    console.log("\n🎉 All price service tests passed");
+  } finally {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+}
+
+runPriceServiceTest().catch((error: unknown) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,269 @@
+/**
+ * Promo code test: discounts, limits and misuse errors
+ * Run with: yarn test:promo
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { JSONDatabase } from "../database/json-database";
+import {
+  parseDiscount,
+  parsePromoExpiry,
+  PromoCodeError,
+  PromoCodeManager,
+} from "../managers/promo-code-manager";
+import { PriceService, StaticRateSource } from "../utils/price-service";
+import { PURCHASE_TIMEOUT_MS } from "../utils/purchase-verifier";
+import { check, errorMessage } from "./helpers";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function redemption(purchaseId: string, buyerInboxId: string) {
+  return {
+    purchaseId,
+    buyerInboxId,
+    buyerAddress: `0x${buyerInboxId}`,
+    tierId: "monthly",
+    discountAmount: "1000000",
+    paymentToken: "USDC",
+  };
+}
+
+async function runPromoCodeTest() {
+  console.log("🏷️ Promo Code Test");
+  console.log("==================");
+
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "promo-test-"));
+
+  try {
+    const promos = new PromoCodeManager(new JSONDatabase(dataDir));
+    const now = Date.now();
+    const groupA = "0x00000000000000000000000000000000000000a1";
+    const groupB = "0x00000000000000000000000000000000000000b2";
+
+    // TEST 1: parsing
+    check(
+      parseDiscount("20%")?.kind === "percent" &&
+        parseDiscount("$5")?.kind === "fixed" &&
+        parseDiscount("150%") === null &&
+        parseDiscount("free") === null,
+      "Discounts parse as percent or fixed USD",
+    );
+    check(
+      parsePromoExpiry("7d", now)?.getTime() === now + 7 * DAY_MS &&
+        parsePromoExpiry("2000-01-01", now) === null,
+      "Expiry accepts lifetimes and future dates",
+    );
+
+    // TEST 2: discounts applied to prices
+    const prices = new PriceService(
+      new StaticRateSource({ ETH: 2000, USDC: 1 }),
+    );
+    check(
+      (await prices.applyDiscount(10_000_000n, "USDC", {
+        kind: "percent",
+        percent: 20,
+      })) === 8_000_000n,
+      "Percent discount takes 20% off a USDC price",
+    );
+    check(
+      (await prices.applyDiscount(10n ** 16n, "ETH", {
+        kind: "fixed",
+        amountUSD: 5,
+      })) ===
+        10n ** 16n - 25n * 10n ** 14n,
+      "Fixed discount converts USD into the payment token",
+    );
+    check(
+      (await prices.applyDiscount(1_000_000n, "USDC", {
+        kind: "fixed",
+        amountUSD: 5,
+      })) === 0n,
+      "Fixed discount never goes below zero",
+    );
+
+    // TEST 3: misuse errors
+    await promos.create({
+      contractAddress: groupA,
+      code: "launch20",
+      discount: { kind: "percent", percent: 20 },
+      maxUses: 2,
+      createdBy: "creator",
+    });
+    check(
+      (
+        await errorMessage(
+          promos.create({
+            contractAddress: groupA,
+            code: "LAUNCH20",
+            discount: { kind: "percent", percent: 10 },
+            createdBy: "creator",
+          }),
+          PromoCodeError,
+        )
+      ).includes("already exists"),
+      "Duplicate codes are refused",
+    );
+    check(
+      (
+        await errorMessage(
+          promos.validate("NOPE", groupA, "Group A", "alice"),
+          PromoCodeError,
+        )
+      ).includes("doesn't exist"),
+      "Unknown code is reported",
+    );
+    check(
+      (
+        await errorMessage(
+          promos.validate("launch20", groupB, "Group B", "alice"),
+          PromoCodeError,
+        )
+      ).includes("isn't valid for Group B"),
+      "Code from another group is reported",
+    );
+
+    // TEST 4: per-buyer and max uses
+    const promo = await promos.validate("launch20", groupA, "Group A", "alice");
+    await promos.reserve(promo, redemption("p1", "alice"));
+    check(
+      (
+        await errorMessage(
+          promos.validate("LAUNCH20", groupA, "Group A", "alice"),
+          PromoCodeError,
+        )
+      ).includes("already used"),
+      "A buyer can use a code once",
+    );
+    await promos.reserve(
+      await promos.validate("LAUNCH20", groupA, "Group A", "bob"),
+      redemption("p2", "bob"),
+    );
+    check(
+      (
+        await errorMessage(
+          promos.validate("LAUNCH20", groupA, "Group A", "carol"),
+          PromoCodeError,
+        )
+      ).includes("limit of 2 uses"),
+      "Exhausted code is reported",
+    );
+
+    // TEST 5: purchases validated at the same time
+    await promos.create({
+      contractAddress: groupA,
+      code: "SOLO",
+      discount: { kind: "percent", percent: 50 },
+      maxUses: 1,
+      createdBy: "creator",
+    });
+    await promos.create({
+      contractAddress: groupA,
+      code: "OPEN",
+      discount: { kind: "fixed", amountUSD: 1 },
+      createdBy: "creator",
+    });
+    const open = await promos.validate("OPEN", groupA, "Group A", "erin");
+    const [forErin, forFrank] = await Promise.all([
+      promos.validate("SOLO", groupA, "Group A", "erin"),
+      promos.validate("SOLO", groupA, "Group A", "frank"),
+    ]);
+    const racing = await Promise.allSettled([
+      promos.reserve(forErin, redemption("s1", "erin")),
+      promos.reserve(forFrank, redemption("s2", "frank")),
+    ]);
+    const solo = (await promos.list(groupA)).find((p) => p.code === "SOLO");
+    check(
+      racing[0].status === "fulfilled" &&
+        racing[1].status === "rejected" &&
+        racing[1].reason instanceof PromoCodeError &&
+        racing[1].reason.message.includes("limit of 1 uses") &&
+        solo?.redemptions.length === 1,
+      "Only one of two overlapping reservations gets the last use",
+    );
+    const twice = await Promise.allSettled([
+      promos.reserve(open, redemption("s3", "erin")),
+      promos.reserve(open, redemption("s4", "erin")),
+    ]);
+    check(
+      twice[0].status === "fulfilled" &&
+        twice[1].status === "rejected" &&
+        String(twice[1].reason).includes("already used"),
+      "A buyer can't reserve a code twice with overlapping purchases",
+    );
+
+    // TEST 6: unpaid reservations lapse, redeemed ones don't
+    await promos.confirm("p1");
+    await promos.release("p2");
+    check(
+      (await promos.validate("LAUNCH20", groupA, "Group A", "carol"))
+        .redemptions.length === 1,
+      "Released reservation frees a use",
+    );
+    await promos.reserve(
+      await promos.validate("LAUNCH20", groupA, "Group A", "carol"),
+      redemption("p3", "carol"),
+    );
+    const later = now + PURCHASE_TIMEOUT_MS + 1000;
+    check(
+      (await promos.validate("LAUNCH20", groupA, "Group A", "dave", later))
+        .code === "LAUNCH20" &&
+        (
+          await errorMessage(
+            promos.validate("LAUNCH20", groupA, "Group A", "alice", later),
+            PromoCodeError,
+          )
+        ).includes("already used"),
+      "Unpaid reservations lapse with the purchase",
+    );
+
+    // TEST 7: expired and disabled codes
+    await promos.create({
+      contractAddress: groupA,
+      code: "WEEK",
+      discount: { kind: "fixed", amountUSD: 5 },
+      expiresAt: new Date(now + 7 * DAY_MS),
+      createdBy: "creator",
+    });
+    check(
+      (
+        await errorMessage(
+          promos.validate("WEEK", groupA, "Group A", "alice", now + 8 * DAY_MS),
+          PromoCodeError,
+        )
+      ).includes("expired"),
+      "Expired code is reported",
+    );
+    await promos.disable(groupA, "week");
+    check(
+      (
+        await errorMessage(
+          promos.validate("WEEK", groupA, "Group A", "alice"),
+          PromoCodeError,
+        )
+      ).includes("no longer active"),
+      "Disabled code is reported",
+    );
+
+    // TEST 8: persisted
+    const reloaded = new PromoCodeManager(new JSONDatabase(dataDir));
+    const stored = (await reloaded.list(groupA)).find(
+      (p) => p.code === "LAUNCH20",
+    );
+    check(
+      stored?.redemptions.find((r) => r.purchaseId === "p1")?.status ===
+        "redeemed",
+      "Redemptions survive a restart",
+    );
+
+    console.log("\n🎉 All promo code tests passed");
+  } finally {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+}
+
+runPromoCodeTest().catch((error: unknown) => {
+  console.error(error);
+  process.exit(1);
+});
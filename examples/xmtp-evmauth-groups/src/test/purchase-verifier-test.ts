@@ -0,0 +1,459 @@
+/**
+ * Purchase verifier test: native purchases matched on TokenPurchased,
+ * ERC-20 transfers claimed once and minted, gifts, payouts once fulfilled,
+ * refunds when minting or adding an ERC-20 gift's recipient fails, and
+ * purchases that
+ * outlive a restart or the timeout, against a stubbed RPC client
+ * Run with: yarn test:verifier
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Client } from "@xmtp/node-sdk";
+import { numberToHex, type Hash } from "viem";
+import type { PurchaseRecord } from "../database/group-store";
+import { JSONDatabase } from "../database/json-database";
+import type { EVMAuthHandler } from "../handlers/evmauth-handler";
+import type { EnhancedGroupManager } from "../managers/enhanced-group-flow";
+import type { PromoCodeManager } from "../managers/promo-code-manager";
+import type { ReferralManager } from "../managers/referral-manager";
+import { builtinPaymentToken } from "../utils/payment-tokens";
+import {
+  PurchaseVerifier,
+  type GiftDetails,
+  type PendingPurchase,
+} from "../utils/purchase-verifier";
+import type {
+  PayoutRequest,
+  RefundManager,
+  RefundRequest,
+} from "../utils/refund-manager";
+import { check } from "./helpers";
+
+const BUYER = "0x0000000000000000000000000000000000000b0b";
+const COLLABORATOR = "0x0000000000000000000000000000000000000c0b";
+const FRIEND = "0x00000000000000000000000000000000000f0e1d";
+/** Gift recipient that can't be added to the group */
+const STRANGER = "0x0000000000000000000000000000000000057a9e";
+const PAYMENT_WALLET = "0x00000000000000000000000000000000000000a9";
+const MINUTE_MS = 60 * 1000;
+const CONTRACTS = [
+  "0x00000000000000000000000000000000000000c1",
+  "0x00000000000000000000000000000000000000c2",
+  "0x00000000000000000000000000000000000000c3",
+  "0x00000000000000000000000000000000000000c4",
+];
+
+interface FakeLog {
+  address: string;
+  transactionHash: Hash;
+  args: Record<string, unknown>;
+}
+
+/** Balances by contract and holder, and TokenPurchased/Transfer logs */
+interface FakeChain {
+  balances: Map<string, bigint>;
+  purchases: FakeLog[];
+  transfers: FakeLog[];
+}
+
+function txHash(n: number): Hash {
+  return numberToHex(n, { size: 32 });
+}
+
+function same(a: unknown, b: unknown) {
+  return String(a).toLowerCase() === String(b).toLowerCase();
+}
+
+function fakePublicClient(chain: FakeChain) {
+  return {
+    getBlockNumber: () => Promise.resolve(100n),
+    readContract: ({
+      address,
+      args,
+    }: {
+      address: string;
+      args: readonly [string, bigint];
+    }) =>
+      Promise.resolve(
+        chain.balances.get(`${address}:${args[0].toLowerCase()}`) ?? 0n,
+      ),
+    getLogs: ({
+      address,
+      event,
+      args,
+    }: {
+      address: string;
+      event: { name: string };
+      args: Record<string, unknown>;
+    }) =>
+      Promise.resolve(
+        (event.name === "TokenPurchased" ? chain.purchases : chain.transfers)
+          .filter((log) => same(log.address, address))
+          .filter((log) =>
+            Object.entries(args).every(([key, value]) =>
+              same(log.args[key], value),
+            ),
+          ),
+      ),
+    // Smart wallet purchases are sent to another address with another value
+    getTransaction: () =>
+      Promise.reject(new Error("outer transactions aren't checked")),
+  };
+}
+
+function gift(recipientAddress: string): GiftDetails {
+  return {
+    recipientAddress,
+    recipientInboxId: `inbox-${recipientAddress}`,
+    recipientLabel: recipientAddress,
+  };
+}
+
+function conversation(messages: string[]) {
+  return {
+    id: "dm-buyer",
+    send: (message: string) => {
+      messages.push(message);
+      return Promise.resolve();
+    },
+  };
+}
+
+async function runPurchaseVerifierTest() {
+  console.log("🔎 Purchase Verifier Test");
+  console.log("=========================");
+
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "verifier-test-"));
+
+  try {
+    const chain: FakeChain = {
+      balances: new Map(),
+      purchases: [],
+      transfers: [],
+    };
+    const granted: string[] = [];
+    const issued: string[] = [];
+    const refunds: RefundRequest[] = [];
+    const payouts: PayoutRequest[] = [];
+    const messages: string[] = [];
+    const promoCodes = { confirmed: [] as string[], released: [] as string[] };
+    const referrals: string[] = [];
+    const removed: string[] = [];
+    const balance = (contract: string, holder: string, amount: bigint) =>
+      chain.balances.set(`${contract}:${holder}`, amount);
+
+    const createVerifier = () =>
+      new PurchaseVerifier(
+        "http://localhost:8545",
+        {
+          handleTokenPurchase: (contractAddress: string, address: string) => {
+            if (address === STRANGER) {
+              return Promise.reject(new Error("Inbox not found"));
+            }
+            granted.push(contractAddress);
+            return Promise.resolve(true);
+          },
+          removeExpiredMember: (contractAddress: string, inboxId: string) => {
+            removed.push(`${contractAddress}:${inboxId}`);
+            return Promise.resolve(true);
+          },
+        } as unknown as EnhancedGroupManager,
+        {
+          conversations: {
+            newDm: () => Promise.reject(new Error("DMs are down")),
+            getConversationById: () => Promise.resolve(conversation(messages)),
+          },
+        } as unknown as Client<unknown>,
+        {
+          requestRefund: (request: RefundRequest) => {
+            refunds.push(request);
+            return Promise.resolve();
+          },
+          requestPayouts: (request: PayoutRequest) => {
+            payouts.push(request);
+            return Promise.resolve();
+          },
+        } as unknown as RefundManager,
+        undefined,
+        {
+          confirm: (purchaseId: string) => {
+            promoCodes.confirmed.push(purchaseId);
+            return Promise.resolve();
+          },
+          release: (purchaseId: string) => {
+            promoCodes.released.push(purchaseId);
+            return Promise.resolve();
+          },
+        } as unknown as PromoCodeManager,
+        {
+          get: (purchaseId: string) => {
+            referrals.push(purchaseId);
+            return Promise.resolve(undefined);
+          },
+        } as unknown as ReferralManager,
+        {
+          issueTokens: (contractAddress: string) => {
+            if (contractAddress === CONTRACTS[2]) {
+              return Promise.reject(new Error("issue() reverted"));
+            }
+            issued.push(contractAddress);
+            return Promise.resolve(txHash(900));
+          },
+        } as unknown as EVMAuthHandler,
+        new JSONDatabase(dataDir),
+      );
+    const verifier = createVerifier();
+    Object.assign(verifier, { publicClient: fakePublicClient(chain) });
+
+    const eth = builtinPaymentToken("ETH");
+    const usdc = builtinPaymentToken("USDC");
+    if (!eth || !usdc) throw new Error("ETH and USDC are built-in tokens");
+    const purchase = (
+      buyerInboxId: string,
+      contractAddress: string,
+      overrides: Partial<PendingPurchase> = {},
+    ): PendingPurchase => ({
+      buyerAddress: BUYER,
+      buyerInboxId,
+      contractAddress,
+      tokenId: 1,
+      paymentToken: eth,
+      amount: "5000000000000000",
+      tierName: "Monthly",
+      durationDays: 30,
+      conversation: conversation(messages),
+      ...overrides,
+    });
+
+    // TEST 1: native purchases
+    await verifier.registerPendingPurchase(
+      "native-1",
+      purchase("alice", CONTRACTS[0]),
+    );
+    chain.purchases.push({
+      address: CONTRACTS[0],
+      transactionHash: txHash(1),
+      args: { account: BUYER, id: 1n, amount: 1n },
+    });
+    balance(CONTRACTS[0], BUYER, 1n);
+    await verifier.checkPendingPurchases();
+    check(
+      granted.join() === CONTRACTS[0],
+      "Native purchases are verified by their TokenPurchased event",
+    );
+
+    await verifier.registerPendingPurchase(
+      "native-2",
+      purchase("alice-2", CONTRACTS[0]),
+    );
+    balance(CONTRACTS[0], BUYER, 2n);
+    await verifier.checkPendingPurchases();
+    check(
+      granted.length === 1 &&
+        verifier.getPendingPurchasesForBuyer("alice-2").length === 1,
+      "A purchase event counts for one purchase only",
+    );
+
+    // TEST 2: ERC-20 transfers to a shared payment wallet
+    const erc20 = { paymentToken: usdc, paymentWallet: PAYMENT_WALLET };
+    await verifier.registerPendingPurchase(
+      "usdc-1",
+      purchase("bob", CONTRACTS[1], { ...erc20, amount: "10000000" }),
+    );
+    await verifier.registerPendingPurchase(
+      "usdc-2",
+      purchase("carol", CONTRACTS[2], { ...erc20, amount: "10000000" }),
+    );
+    const transfer = (n: number): FakeLog => ({
+      address: usdc.address as string,
+      transactionHash: txHash(n),
+      args: { from: BUYER, to: PAYMENT_WALLET, value: 10_000_000n },
+    });
+    chain.transfers.push(transfer(2));
+    await verifier.checkPendingPurchases();
+    check(
+      issued.join() === CONTRACTS[1] &&
+        verifier.getPendingPurchasesForBuyer("carol").length === 1,
+      "One transfer pays for one purchase",
+    );
+
+    chain.transfers.push(transfer(3));
+    await verifier.checkPendingPurchases();
+    check(
+      refunds.length === 1 &&
+        refunds[0].paymentTxHash === txHash(3) &&
+        refunds[0].amountWei === 10_000_000n &&
+        verifier.getPendingPurchasesForBuyer("carol").length === 0,
+      "Payments are refunded when the tokens can't be issued",
+    );
+
+    // TEST 3: gifts
+    const gifted = (buyerInboxId: string, recipient: string) =>
+      purchase(buyerInboxId, CONTRACTS[3], {
+        gift: gift(recipient),
+        payouts: [
+          {
+            to: COLLABORATOR,
+            amount: 500_000_000_000_000n,
+            description: "Collaborator share",
+          },
+        ],
+        promoCode: "FRIENDS",
+        referralCode: "REF",
+      });
+    const purchased = (recipient: string, n: number) => {
+      chain.purchases.push({
+        address: CONTRACTS[3],
+        transactionHash: txHash(n),
+        args: { account: recipient, id: 1n, amount: 1n },
+      });
+      balance(CONTRACTS[3], recipient, 1n);
+    };
+
+    await verifier.registerPendingPurchase("gift-1", gifted("dan", FRIEND));
+    purchased(FRIEND, 4);
+    messages.length = 0;
+    await verifier.checkPendingPurchases();
+    check(
+      granted.at(-1) === CONTRACTS[3] &&
+        refunds.length === 1 &&
+        messages.some((m) => m.includes("We couldn't message them")),
+      "Gifts aren't refunded when only the recipient's DM fails",
+    );
+    check(
+      promoCodes.confirmed.join() === "gift-1" && referrals.join() === "gift-1",
+      "Delivered gifts redeem the promo code and referral",
+    );
+    check(
+      payouts.length === 1 &&
+        payouts[0].paymentTxHash === txHash(4) &&
+        payouts[0].payouts[0].to === COLLABORATOR,
+      "Shares are paid out once the purchase is fulfilled",
+    );
+
+    await verifier.registerPendingPurchase("gift-2", gifted("eve", STRANGER));
+    purchased(STRANGER, 5);
+    messages.length = 0;
+    await verifier.checkPendingPurchases();
+    check(
+      refunds.length === 1 &&
+        messages.some((m) => m.includes("Gift Minted")) &&
+        payouts.length === 2,
+      "Native gifts already minted to the recipient aren't refunded",
+    );
+
+    const erc20Gift = (buyerInboxId: string, contract: string, to: string) =>
+      purchase(buyerInboxId, contract, {
+        ...gifted(buyerInboxId, to),
+        ...erc20,
+        contractAddress: contract,
+        amount: "10000000",
+      });
+    const issuedBeforeGifts = issued.length;
+    await verifier.registerPendingPurchase(
+      "gift-3",
+      erc20Gift("ivan", CONTRACTS[1], STRANGER),
+    );
+    chain.transfers.push(transfer(8));
+    await verifier.checkPendingPurchases();
+    check(
+      refunds.length === 2 &&
+        refunds[1].paymentTxHash === txHash(8) &&
+        refunds[1].amountWei === 10_000_000n &&
+        issued.length === issuedBeforeGifts,
+      "ERC-20 gifts whose recipient can't be added are refunded unminted",
+    );
+    check(
+      promoCodes.released.join() === "gift-3" &&
+        !referrals.includes("gift-3") &&
+        payouts.length === 2,
+      "Refunded gifts don't redeem the promo code, referral or payouts",
+    );
+
+    await verifier.registerPendingPurchase(
+      "gift-4",
+      erc20Gift("judy", CONTRACTS[2], FRIEND),
+    );
+    chain.transfers.push(transfer(9));
+    await verifier.checkPendingPurchases();
+    check(
+      refunds.length === 3 &&
+        removed.join() === `${CONTRACTS[2]}:inbox-${FRIEND}`,
+      "Recipients are removed again when their gift can't be minted",
+    );
+
+    // TEST 4: restarts and late payments
+    await verifier.registerPendingPurchase(
+      "usdc-3",
+      purchase("frank", CONTRACTS[1], { ...erc20, amount: "10000000" }),
+    );
+    const restarted = createVerifier();
+    Object.assign(restarted, { publicClient: fakePublicClient(chain) });
+    await restarted.resumePurchases();
+    chain.transfers.push(transfer(6));
+    await restarted.checkPendingPurchases();
+    check(
+      issued.length === issuedBeforeGifts + 1 &&
+        restarted.getPendingPurchasesForBuyer("frank").length === 0,
+      "Purchases waiting for payment survive a restart",
+    );
+
+    const database = new JSONDatabase(dataDir);
+    const stored = (await database.getPurchases("fulfilled")).find(
+      (p) => p.id === "usdc-3",
+    );
+    if (!stored) throw new Error("usdc-3 is stored once fulfilled");
+    const saved = (id: string, buyerInboxId: string, ageMs: number) =>
+      database.savePurchase({
+        ...stored,
+        id,
+        buyerInboxId,
+        status: "pending",
+        createdAt: new Date(Date.now() - ageMs).toISOString(),
+      } satisfies PurchaseRecord);
+    await saved("usdc-late", "grace", 20 * MINUTE_MS);
+    await saved("usdc-gone", "heidi", 25 * 60 * MINUTE_MS);
+    const late = createVerifier();
+    Object.assign(late, { publicClient: fakePublicClient(chain) });
+    await late.resumePurchases();
+    messages.length = 0;
+    await late.checkPendingPurchases();
+    const statuses = new Map(
+      (await new JSONDatabase(dataDir).getPurchases()).map((p) => [
+        p.id,
+        p.status,
+      ]),
+    );
+    check(
+      messages.some((m) => m.includes("we keep watching for 24 hours")) &&
+        statuses.get("usdc-late") === "pending" &&
+        late.getPendingPurchasesForBuyer("grace").length === 0,
+      "Timed out purchases are still watched without blocking a new one",
+    );
+    check(
+      statuses.get("usdc-gone") === "expired",
+      "Purchases expire once the late payment window has passed",
+    );
+
+    chain.transfers.push(transfer(7));
+    await late.checkPendingPurchases();
+    check(
+      issued.length === issuedBeforeGifts + 2 &&
+        (await new JSONDatabase(dataDir).getPurchases("fulfilled")).some(
+          (p) => p.id === "usdc-late",
+        ),
+      "Payments confirmed after the timeout are still honored",
+    );
+
+    console.log("\n🎉 All purchase verifier tests passed");
+  } finally {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+}
+
+runPurchaseVerifierTest().catch((error: unknown) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,109 @@
+/**
+ * Rate limiter test: buckets, cooldowns, batched writes and idle eviction
+ * Run with: yarn test:rate-limits
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { formatRetryAfter, RateLimiter } from "../utils/rate-limiter";
+import { check } from "./helpers";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function runRateLimiterTest() {
+  console.log("🚦 Rate Limiter Test");
+  console.log("====================");
+
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "rate-limit-test-"));
+  const stateFile = path.join(dataDir, "rate-limits.json");
+
+  try {
+    const limiter = new RateLimiter(dataDir, {
+      flushDelayMs: 50,
+      idleTtlMs: HOUR_MS,
+    });
+    const config = { capacity: 2, refillIntervalMs: 100 };
+
+    // TEST 1: token buckets
+    const first = limiter.consume("alice", "buy", config);
+    const second = limiter.consume("alice", "buy", config);
+    const third = limiter.consume("alice", "buy", config);
+    const fourth = limiter.consume("alice", "buy", config);
+    check(
+      first.allowed && second.allowed && !third.allowed,
+      "Burst is capped at the bucket capacity",
+    );
+    check(
+      third.shouldNotify && !fourth.shouldNotify,
+      "Sender is told about the limit once",
+    );
+    check(
+      limiter.consume("bob", "buy", config).allowed &&
+        limiter.consume("alice", "info", config).allowed,
+      "Buckets are per sender and per command",
+    );
+    check(!fs.existsSync(stateFile), "Commands don't write state immediately");
+
+    await sleep(120);
+    check(fs.existsSync(stateFile), "State is written once the batch elapses");
+    check(
+      limiter.consume("alice", "buy", config).allowed,
+      "Tokens refill over time",
+    );
+
+    // TEST 2: cooldown
+    const cooldown = {
+      capacity: 5,
+      refillIntervalMs: 100,
+      cooldownMs: HOUR_MS,
+    };
+    limiter.consume("carol", "create", cooldown);
+    const blocked = limiter.consume("carol", "create", cooldown);
+    check(
+      !blocked.allowed && blocked.retryAfterMs > HOUR_MS - 1000,
+      "Cooldown applies even with tokens left",
+    );
+    check(
+      formatRetryAfter(blocked.retryAfterMs) === "60 minutes" &&
+        formatRetryAfter(1000) === "1 second",
+      "Retry delays are formatted for chat",
+    );
+
+    // TEST 3: restarts
+    limiter.consume("dave", "buy", config);
+    limiter.flush();
+    const restarted = new RateLimiter(dataDir);
+    check(
+      !restarted.consume("carol", "create", cooldown).allowed &&
+        restarted.size === limiter.size,
+      "Limits survive a restart",
+    );
+
+    // TEST 4: idle buckets
+    const evicted = limiter.evictIdle(Date.now() + HOUR_MS + 1);
+    check(
+      evicted > 0 && limiter.size === 0,
+      "Buckets idle past the TTL are dropped",
+    );
+    limiter.flush();
+    const stored = JSON.parse(fs.readFileSync(stateFile, "utf8")) as object;
+    check(
+      Object.keys(stored).length === 0,
+      "Dropped buckets are removed from disk",
+    );
+
+    console.log("\n🎉 All rate limiter tests passed");
+  } finally {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+}
+
+runRateLimiterTest().catch((error: unknown) => {
+  console.error(error);
+  process.exit(1);
+});
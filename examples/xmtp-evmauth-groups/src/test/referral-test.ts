@@ -0,0 +1,147 @@
+/**
+ * Referral test: codes, rewards, extensions and the leaderboard
+ * Run with: yarn test:referrals
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { JSONDatabase } from "../database/json-database";
+import {
+  parseReferralReward,
+  ReferralError,
+  ReferralManager,
+  referralRewardAmount,
+} from "../managers/referral-manager";
+import type { GroupConfig } from "../types/types";
+import { FeeEngine } from "../utils/fee-engine";
+import { PriceService, StaticRateSource } from "../utils/price-service";
+import { check, errorMessage } from "./helpers";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function runReferralTest() {
+  console.log("🤝 Referral Test");
+  console.log("================");
+
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "referral-test-"));
+
+  try {
+    const referrals = new ReferralManager(new JSONDatabase(dataDir));
+    const now = Date.now();
+    const groupA = "0x00000000000000000000000000000000000000a1";
+    const groupB = "0x00000000000000000000000000000000000000b2";
+    const alice = {
+      inboxId: "alice-inbox",
+      address: "0x00000000000000000000000000000000000a11ce",
+    };
+
+    // TEST 1: rewards
+    check(
+      parseReferralReward("10%")?.kind === "percent" &&
+        parseReferralReward("7d")?.kind === "days" &&
+        parseReferralReward("80%") === null &&
+        parseReferralReward("soon") === null,
+      "Rewards parse as a share or free days",
+    );
+    check(
+      referralRewardAmount(10_000_000n, { kind: "percent", percent: 10 }) ===
+        1_000_000n &&
+        referralRewardAmount(10_000_000n, { kind: "days", days: 7 }) === 0n,
+      "Percent rewards are a share of the price",
+    );
+
+    // TEST 2: rewards come out of the creator's share
+    const fees = new FeeEngine(
+      { recipient: "", basisPoints: 0 },
+      new PriceService(new StaticRateSource({ USDC: 1 })),
+    );
+    const split = await fees.split(
+      { collaborators: [] } as unknown as GroupConfig,
+      "USDC",
+      10_000_000n,
+      { to: alice.address, amount: 1_000_000n, description: "Referral" },
+    );
+    check(
+      split.total === 10_000_000n &&
+        split.payouts.length === 0 &&
+        split.creatorAmount === 9_000_000n &&
+        split.shares[0].amount === 1_000_000n,
+      "Referral reward is paid by the agent out of the creator's share",
+    );
+
+    // TEST 3: links and misuse
+    const link = await referrals.getOrCreateLink(groupA, alice);
+    check(
+      (await referrals.getOrCreateLink(groupA, alice)).code === link.code,
+      "Each member has one code per group",
+    );
+    check(
+      (
+        await errorMessage(
+          referrals.validate(link.code, groupB, "Group B", "bob-inbox"),
+          ReferralError,
+        )
+      ).includes("isn't valid for Group B"),
+      "Code from another group is reported",
+    );
+    check(
+      (
+        await errorMessage(
+          referrals.validate(link.code, groupA, "Group A", alice.inboxId),
+          ReferralError,
+        )
+      ).includes("own referral code"),
+      "Self-referral is refused",
+    );
+
+    // TEST 4: day rewards extend access from its current end
+    const buy = (purchaseId: string, buyer: string) =>
+      referrals.record({
+        purchaseId,
+        code: link.code,
+        contractAddress: groupA,
+        referrerInboxId: alice.inboxId,
+        referrerAddress: alice.address,
+        buyerInboxId: buyer,
+        buyerAddress: `0x${buyer}`,
+        tierName: "Monthly",
+        amount: "10000000",
+        paymentToken: "USDC",
+        reward: { kind: "days", days: 7 },
+      });
+    await buy("p1", "bob");
+    await buy("p2", "carol");
+    await buy("p3", "dave");
+    const tokenExpiry = new Date(now + 10 * DAY_MS);
+    await referrals.confirm("p1", "0xtx1", { accessExpiry: tokenExpiry }, now);
+    await referrals.confirm("p2", "0xtx2", {}, now);
+    const [extension] = await referrals.getActiveExtensions(groupA, now);
+    check(
+      extension.expiresAt.getTime() === now + 24 * DAY_MS,
+      "Free days stack on the referrer's token expiry",
+    );
+    check(
+      (await referrals.confirm("p2", "0xtx2", {}, now)) === undefined,
+      "A purchase is rewarded once",
+    );
+
+    // TEST 5: leaderboard counts confirmed purchases only
+    const [standing] = await new ReferralManager(
+      new JSONDatabase(dataDir),
+    ).getLeaderboard(groupA);
+    check(
+      standing.purchases === 2 && standing.days === 14,
+      "Leaderboard survives a restart and ignores unpaid referrals",
+    );
+
+    console.log("\n🎉 All referral tests passed");
+  } finally {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+}
+
+runReferralTest().catch((error: unknown) => {
+  console.error(error);
+  process.exit(1);
+});
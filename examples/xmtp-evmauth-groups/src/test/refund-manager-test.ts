@@ -0,0 +1,245 @@
+/**
+ * Refund manager test: refunds are only resent once the nonce shows the
+ * earlier transaction can't be mined, and payouts are queued once and sent
+ * without messaging the buyer, against a stubbed RPC client
+ * Run with: yarn test:refunds
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Client } from "@xmtp/node-sdk";
+import {
+  numberToHex,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  WaitForTransactionReceiptTimeoutError,
+  type Hash,
+} from "viem";
+import { JSONDatabase } from "../database/json-database";
+import { AgentEventBus } from "../events/event-bus";
+import type { AgentEvent } from "../types/types";
+import { builtinPaymentToken } from "../utils/payment-tokens";
+import { RefundManager } from "../utils/refund-manager";
+import { check } from "./helpers";
+
+const AGENT = "0x00000000000000000000000000000000000a6e47";
+const BUYER = "0x00000000000000000000000000000000000b0b01";
+const COLLABORATOR = "0x0000000000000000000000000000000000000c0b";
+// Throwaway key, only used to construct the manager
+const TEST_KEY =
+  "0x0123456789012345678901234567890123456789012345678901234567890123";
+
+/** Transactions the stubbed RPC knows about and the agent's nonces */
+interface FakeChain {
+  sent: Array<{ hash: Hash; nonce: number }>;
+  mined: Map<Hash, "success" | "reverted">;
+  mempool: Set<Hash>;
+  /** Next nonce in the latest block */
+  confirmedNonce: number;
+  /** Next nonce including the mempool */
+  pendingNonce: number;
+  rpcDown: boolean;
+}
+
+function fakeClients(chain: FakeChain) {
+  const receipt = ({ hash }: { hash: Hash }) => {
+    if (chain.rpcDown) return Promise.reject(new Error("fetch failed"));
+    const status = chain.mined.get(hash);
+    return status
+      ? Promise.resolve({ status, transactionHash: hash })
+      : Promise.reject(new TransactionReceiptNotFoundError({ hash }));
+  };
+
+  const publicClient = {
+    getTransactionReceipt: receipt,
+    waitForTransactionReceipt: ({ hash }: { hash: Hash }) =>
+      chain.mined.has(hash)
+        ? receipt({ hash })
+        : Promise.reject(new WaitForTransactionReceiptTimeoutError({ hash })),
+    getTransaction: ({ hash }: { hash: Hash }) =>
+      chain.mempool.has(hash) || chain.mined.has(hash)
+        ? Promise.resolve({ hash })
+        : Promise.reject(new TransactionNotFoundError({ hash })),
+    getTransactionCount: ({ blockTag }: { blockTag: string }) =>
+      Promise.resolve(
+        blockTag === "latest" ? chain.confirmedNonce : chain.pendingNonce,
+      ),
+  };
+  const walletClient = {
+    account: { address: AGENT },
+    sendTransaction: ({ nonce }: { nonce: number }) => {
+      const hash = numberToHex(chain.sent.length + 1, { size: 32 });
+      chain.sent.push({ hash, nonce });
+      chain.mempool.add(hash);
+      chain.pendingNonce = Math.max(chain.pendingNonce, nonce + 1);
+      return Promise.resolve(hash);
+    },
+  };
+  return { publicClient, walletClient };
+}
+
+function fakeChain(nonce: number): FakeChain {
+  return {
+    sent: [],
+    mined: new Map(),
+    mempool: new Set(),
+    confirmedNonce: nonce,
+    pendingNonce: nonce,
+    rpcDown: false,
+  };
+}
+
+/** Let the refund started by requestRefund() or requestPayouts() finish */
+function settle() {
+  return new Promise((resolve) => setTimeout(resolve, 20));
+}
+
+async function runRefundManagerTest() {
+  console.log("💸 Refund Manager Test");
+  console.log("======================");
+
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "refund-test-"));
+
+  try {
+    const chain = fakeChain(5);
+    const database = new JSONDatabase(dataDir);
+    const refunds = new RefundManager(
+      {
+        conversations: {
+          getConversationById: () =>
+            Promise.resolve({ send: () => Promise.resolve() }),
+        },
+      } as unknown as Client<unknown>,
+      database,
+      "http://localhost:8545",
+      TEST_KEY,
+    );
+    Object.assign(refunds, fakeClients(chain));
+
+    const request = {
+      paymentId: "payment-1",
+      paymentTxHash: numberToHex(101, { size: 32 }),
+      recipient: BUYER,
+      amountWei: 10n ** 15n,
+      reason: "Deployment failed",
+      conversationId: "dm-1",
+    };
+
+    // TEST 1: unconfirmed refunds aren't resent
+    await refunds.requestRefund(request);
+    await settle();
+    const [first] = chain.sent;
+    check(
+      chain.sent.length === 1 && first.nonce === 5,
+      "Refunds are sent on the next nonce",
+    );
+
+    await refunds.processRefunds();
+    check(chain.sent.length === 1, "Pending refunds aren't resent");
+
+    chain.mempool.clear();
+    chain.rpcDown = true;
+    await refunds.processRefunds();
+    check(chain.sent.length === 1, "RPC errors don't trigger a resend");
+
+    // TEST 2: dropped transactions
+    chain.rpcDown = false;
+    await refunds.processRefunds();
+    check(
+      chain.sent.length === 2 && chain.sent[1].nonce === first.nonce,
+      "Dropped refunds are resent on their unused nonce",
+    );
+
+    chain.mempool.clear();
+    chain.mined.set(first.hash, "success");
+    chain.confirmedNonce = 6;
+    check(
+      (await refunds.processRefunds()) === 1 && chain.sent.length === 2,
+      "An earlier transaction mined late completes the refund",
+    );
+    const [stored] = await database.getRefunds();
+    check(
+      stored.status === "sent" && stored.txHash === first.hash,
+      "The mined transaction is recorded",
+    );
+
+    // TEST 3: replaced nonces
+    await refunds.requestRefund({
+      ...request,
+      paymentId: "payment-2",
+      paymentTxHash: numberToHex(102, { size: 32 }),
+    });
+    await settle();
+    const replaced = chain.sent[2];
+    chain.mempool.clear();
+    chain.confirmedNonce = chain.pendingNonce = replaced.nonce + 1;
+    await refunds.processRefunds();
+    check(
+      chain.sent.length === 4 && chain.sent[3].nonce === replaced.nonce + 1,
+      "Refunds whose nonce was taken are resent on a new nonce",
+    );
+
+    // TEST 4: payouts
+    const payoutChain = fakeChain(9);
+    const events: AgentEvent[] = [];
+    const eventBus = new AgentEventBus();
+    eventBus.subscribe("*", (event) => {
+      events.push(event);
+    });
+    const dms: string[] = [];
+    const payouts = new RefundManager(
+      {
+        conversations: {
+          getConversationById: () =>
+            Promise.resolve({
+              send: (message: string) => {
+                dms.push(message);
+                return Promise.resolve();
+              },
+            }),
+        },
+      } as unknown as Client<unknown>,
+      new JSONDatabase(path.join(dataDir, "payouts")),
+      "http://localhost:8545",
+      TEST_KEY,
+      eventBus,
+    );
+    Object.assign(payouts, fakeClients(payoutChain));
+    const eth = builtinPaymentToken("ETH");
+    if (!eth) throw new Error("ETH is a built-in token");
+    const payout = {
+      paymentId: "payment-3",
+      paymentTxHash: numberToHex(103, { size: 32 }),
+      payouts: [
+        { to: COLLABORATOR, amount: 10n ** 14n, description: "Collaborator" },
+      ],
+      token: eth,
+      conversationId: "dm-3",
+    };
+    await payouts.requestPayouts(payout);
+    await settle();
+    await payouts.requestPayouts(payout);
+    await settle();
+    check(payoutChain.sent.length === 1, "Payouts are queued once per payment");
+
+    payoutChain.mined.set(payoutChain.sent[0].hash, "success");
+    payoutChain.confirmedNonce = 10;
+    await payouts.processRefunds();
+    check(
+      events.some(
+        (e) => e.type === "PAYOUT_SENT" && e.data.recipient === COLLABORATOR,
+      ) && dms.length === 0,
+      "Sent payouts go to the event bus without messaging the buyer",
+    );
+
+    console.log("\n🎉 All refund manager tests passed");
+  } finally {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+}
+
+runRefundManagerTest().catch((error: unknown) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,49 @@
+/**
+ * Run every test suite in turn, each in its own process
+ * The demo needs a funded wallet and live network, so it stays under
+ * `yarn demo`.
+ * Run with: yarn test
+ */
+
+import { spawnSync } from "child_process";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const SUITES = [
+  "command-registry-test.ts",
+  "rate-limiter-test.ts",
+  "migration-test.ts",
+  "event-bus-test.ts",
+  "membership-audit-test.ts",
+  "expiry-reminder-test.ts",
+  "payment-monitor-test.ts",
+  "refund-manager-test.ts",
+  "purchase-verifier-test.ts",
+  "price-service-test.ts",
+  "transaction-builder-test.ts",
+  "webhook-test.ts",
+  "seat-manager-test.ts",
+  "promo-code-test.ts",
+  "referral-test.ts",
+  "fee-engine-test.ts",
+];
+
+const testDir = path.dirname(fileURLToPath(import.meta.url));
+const failed: string[] = [];
+
+for (const suite of SUITES) {
+  console.log(`\n▶️ ${suite}`);
+  // Reuse this process's tsx loader flags for the child
+  const result = spawnSync(
+    process.execPath,
+    [...process.execArgv, path.join(testDir, suite)],
+    { stdio: "inherit" },
+  );
+  if (result.status !== 0) failed.push(suite);
+}
+
+if (failed.length > 0) {
+  console.error(`\n❌ ${failed.length} suite(s) failed: ${failed.join(", ")}`);
+  process.exit(1);
+}
+console.log(`\n🎉 All ${SUITES.length} suites passed`);
@@ -0,0 +1,169 @@
+/**
+ * Seat pool test: assigning, reclaiming and expiring seats, and seats
+ * backed by the purchaser's on-chain balance
+ * Run with: yarn test:seats
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { JSONDatabase } from "../database/json-database";
+import {
+  checkSeatBacking,
+  freeSeats,
+  SeatError,
+  SeatManager,
+} from "../managers/seat-manager";
+import type { TokenHolding } from "../utils/membership-audit";
+import { check, errorMessage } from "./helpers";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function runSeatManagerTest() {
+  console.log("🪑 Seat Manager Test");
+  console.log("====================");
+
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "seat-test-"));
+
+  try {
+    const seats = new SeatManager(new JSONDatabase(dataDir));
+    const now = Date.now();
+    const contractAddress = "0x00000000000000000000000000000000000000c1";
+    const alice = { address: "0xa11ce", inboxId: "alice-inbox" };
+    const bob = { address: "0xb0b", inboxId: "bob-inbox" };
+
+    // TEST 1: pools are created once per purchase
+    const pool = await seats.createPool({
+      id: "0xpurchase",
+      contractAddress,
+      tokenId: 1,
+      tierName: "Monthly",
+      ownerAddress: "0x0wner",
+      ownerInboxId: "owner-inbox",
+      seats: 1,
+      purchasedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + 30 * DAY_MS).toISOString(),
+    });
+    await seats.createPool({ ...pool, seats: 5 });
+    check(
+      (await seats.getOwnerPools("owner-inbox")).length === 1 &&
+        freeSeats(pool) === 1,
+      "Confirming a purchase twice creates one pool",
+    );
+
+    // TEST 2: assigning
+    await seats.assignSeat("owner-inbox", alice);
+    check(
+      (await seats.getActiveSeats(contractAddress)).length === 1,
+      "Assigned seat is active",
+    );
+    check(
+      (await errorMessage(seats.assignSeat("owner-inbox", bob), SeatError)) !==
+        "",
+      "Assigning beyond the pool size is refused",
+    );
+    check(
+      (await errorMessage(seats.assignSeat("someone-else", bob), SeatError)) !==
+        "",
+      "Only the purchaser can assign seats",
+    );
+
+    // TEST 3: reclaiming frees the seat
+    await seats.reclaimSeat("owner-inbox", alice.address);
+    check(
+      (await seats.getActiveSeats(contractAddress)).length === 0,
+      "Reclaimed seat is no longer active",
+    );
+    const { assignment } = await seats.assignSeat("owner-inbox", bob);
+    check(
+      assignment.inboxId === bob.inboxId,
+      "Reclaimed seat can be assigned again",
+    );
+
+    // TEST 4: seats end with the pool
+    check(
+      (await seats.getActiveSeats(contractAddress, now + 31 * DAY_MS))
+        .length === 0,
+      "Seats expire with the pool's tokens",
+    );
+
+    // TEST 5: persisted
+    const reloaded = new SeatManager(new JSONDatabase(dataDir));
+    check(
+      (await reloaded.getActiveSeats(contractAddress))[0]?.assignment
+        .inboxId === bob.inboxId,
+      "Seat assignments survive a restart",
+    );
+
+    // TEST 6: backed by the purchaser's tokens
+    const carol = { address: "0xca201", inboxId: "carol-inbox" };
+    const dave = { address: "0xda7e", inboxId: "dave-inbox" };
+    await seats.createPool({
+      id: "0xlifetime",
+      contractAddress,
+      tokenId: 2,
+      tierName: "Lifetime",
+      ownerAddress: "0xTeamLead",
+      ownerInboxId: "lead-inbox",
+      seats: 2,
+      purchasedAt: new Date(now).toISOString(),
+    });
+    await seats.assignSeat("lead-inbox", carol, contractAddress, now);
+    await seats.assignSeat("lead-inbox", dave, contractAddress, now + 1);
+    const active = await seats.getActiveSeats(
+      contractAddress,
+      now + 365 * DAY_MS,
+    );
+    check(
+      active.length === 2,
+      "Seats from tiers that never expire stay active",
+    );
+
+    const expiresAt = new Date(now + 20 * DAY_MS);
+    const holding: TokenHolding = {
+      contractAddress,
+      tokenId: 2,
+      balance: 1n,
+      expiresAt,
+    };
+    const backing = checkSeatBacking(
+      await seats.getActiveSeats(contractAddress),
+      new Map([["0xteamlead", new Map([[2, holding]])]]),
+    );
+    check(
+      backing.backed.map((s) => s.assignment.inboxId).join() ===
+        carol.inboxId && backing.backed[0].expiresAt === expiresAt,
+      "Seats the owner's tokens cover last until the tokens expire",
+    );
+    check(
+      backing.unbacked.map((s) => s.assignment.inboxId).join() === dave.inboxId,
+      "Seats beyond the owner's balance aren't honored",
+    );
+    check(
+      backing.unknown.map((s) => s.assignment.inboxId).join() === bob.inboxId,
+      "Seats whose owner couldn't be checked are unknown",
+    );
+
+    const withOwner = checkSeatBacking(
+      await seats.getActiveSeats(contractAddress),
+      new Map([["0xteamlead", new Map([[2, { ...holding, balance: 2n }]])]]),
+      new Set(["0xteamlead"]),
+    );
+    check(
+      withOwner.backed.map((s) => s.assignment.inboxId).join() ===
+        carol.inboxId &&
+        withOwner.unbacked.map((s) => s.assignment.inboxId).join() ===
+          dave.inboxId,
+      "Owners in the group use one of their tokens themselves",
+    );
+
+    console.log("\n🎉 All seat manager tests passed");
+  } finally {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+}
+
+runSeatManagerTest().catch((error: unknown) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -6,27 +6,27 @@ import type { Client } from "@xmtp/node-sdk";
 import type { EnhancedGroupManager } from "../managers/enhanced-group-flow";
 import type { EventDrivenAccessManager } from "../handlers/event-driven-access";
 import type { RecoveryManager } from "../managers/recovery-mechanisms";
-import type { DualGroupConfig } from "../types/types";
+import type { GroupRegistry } from "../managers/group-registry";
 
 export class TestFlowManager {
   private client: Client;
   private enhancedGroupManager: EnhancedGroupManager;
   private eventAccessManager: EventDrivenAccessManager;
   private recoveryManager: RecoveryManager;
-  private groupConfigs: Map<string, DualGroupConfig>;
+  private groupRegistry: GroupRegistry;
 
   constructor(
     client: Client,
     enhancedGroupManager: EnhancedGroupManager,
     eventAccessManager: EventDrivenAccessManager,
     recoveryManager: RecoveryManager,
-    groupConfigs: Map<string, DualGroupConfig>
+    groupRegistry: GroupRegistry
   ) {
     this.client = client;
     this.enhancedGroupManager = enhancedGroupManager;
     this.eventAccessManager = eventAccessManager;
     this.recoveryManager = recoveryManager;
-    this.groupConfigs = groupConfigs;
+    this.groupRegistry = groupRegistry;
   }
 
   /**
@@ -134,9 +134,7 @@ export class TestFlowManager {
         }
       );
 
-      // Store in group configs for other tests
-      this.groupConfigs.set(result.contractAddress, result.groupConfig);
-
+      // createDualGroupSystem registers the group for the other tests
       // Verify groups were created
       const salesGroup = await this.client.conversations.getConversationById(result.salesGroup.id);
       const premiumGroup = await this.client.conversations.getConversationById(result.premiumGroup.id);
@@ -161,7 +159,7 @@ export class TestFlowManager {
     }
 
     try {
-      const config = this.groupConfigs.get(contractAddress);
+      const config = this.groupRegistry.get(contractAddress);
       if (!config) {
         return { success: false, error: "Group config not found" };
       }
@@ -228,7 +226,7 @@ export class TestFlowManager {
       }
 
       // Test processing a mock event
-      const config = this.groupConfigs.get(contractAddress);
+      const config = this.groupRegistry.get(contractAddress);
       if (!config) {
         return { success: false, error: "Group config not found" };
       }
@@ -265,7 +263,7 @@ export class TestFlowManager {
       }
 
       // Test health check
-      const healthCheck = await this.recoveryManager.performHealthCheck(this.groupConfigs);
+      const healthCheck = await this.recoveryManager.performHealthCheck(this.groupRegistry.toMap());
       
       if (!healthCheck || typeof healthCheck.healthy !== 'boolean') {
         return { success: false, error: "Health check returned invalid result" };
@@ -304,7 +302,6 @@ export class TestFlowManager {
             image: `https://example.com/stress-${i + 1}.png`,
           }
         ).then(result => {
-          this.groupConfigs.set(result.contractAddress, result.groupConfig);
           stats.groupsCreated++;
           return result;
         }).catch(error => {
@@ -341,7 +338,7 @@ export class TestFlowManager {
       }
 
       // Run membership audits
-      for (const [contractAddress] of this.groupConfigs.entries()) {
+      for (const { contractAddress } of this.groupRegistry.list()) {
         try {
           await this.enhancedGroupManager.auditGroupMembership(contractAddress);
           stats.membershipAudits++;
@@ -0,0 +1,248 @@
+/**
+ * Transaction builder test - decodes every built transaction against the
+ * generated contract ABIs
+ * Run with: yarn test:transactions
+ */
+
+import { decodeFunctionData, erc20Abi, type Abi, type Hex } from "viem";
+import { EVMAUTH_V2_ABI, XMTP_GROUP_EXTENSION_ABI } from "../contracts/abis";
+import {
+  buildGrant,
+  buildIssue,
+  buildPurchase,
+  buildRevoke,
+  buildSetMetadata,
+  buildWithdraw,
+  buildXMTPPurchase,
+  type TransactionRequest,
+} from "../contracts/transaction-builder";
+import { USDCHandler } from "../handlers/usdc-handler";
+import { builtinPaymentToken } from "../utils/payment-tokens";
+import {
+  createAccessPurchase,
+  createTokenAccessPurchase,
+  createTrialAccessGrant,
+} from "../utils/payment-transactions";
+
+const CONTRACT = "0x1111111111111111111111111111111111111111";
+const EXTENSION = "0x2222222222222222222222222222222222222222";
+const USER = "0x3333333333333333333333333333333333333333";
+const WALLET = "0x4444444444444444444444444444444444444444";
+// Throwaway key, only used to construct the handler
+const TEST_KEY =
+  "0x0123456789012345678901234567890123456789012345678901234567890123";
+
+let failures = 0;
+
+function expectCall(
+  label: string,
+  tx: Pick<TransactionRequest, "to" | "data">,
+  abi: Abi,
+  expected: { to: string; functionName: string; args: readonly unknown[] },
+) {
+  const decoded = decodeFunctionData({ abi, data: tx.data });
+  const args = JSON.stringify(decoded.args ?? [], (_key, value: unknown) =>
+    typeof value === "bigint" ? value.toString() : value,
+  );
+  const expectedArgs = JSON.stringify(expected.args, (_key, value: unknown) =>
+    typeof value === "bigint" ? value.toString() : value,
+  );
+
+  const ok =
+    tx.to.toLowerCase() === expected.to.toLowerCase() &&
+    decoded.functionName === expected.functionName &&
+    args.toLowerCase() === expectedArgs.toLowerCase();
+
+  if (ok) {
+    console.log(`✅ ${label}: ${decoded.functionName}(${args})`);
+  } else {
+    failures++;
+    console.error(
+      `❌ ${label}: got ${decoded.functionName}(${args}) to ${tx.to}, expected ${expected.functionName}(${expectedArgs}) to ${expected.to}`,
+    );
+  }
+}
+
+function expectValue(label: string, actual: bigint | string, expected: bigint) {
+  if (BigInt(actual) === expected) {
+    console.log(`✅ ${label}: value ${expected}`);
+  } else {
+    failures++;
+    console.error(`❌ ${label}: value ${actual}, expected ${expected}`);
+  }
+}
+
+function runTransactionBuilderTest() {
+  console.log("🧱 Transaction Builder Test");
+  console.log("===========================");
+
+  // Builders
+  const purchase = buildPurchase(CONTRACT, {
+    account: USER,
+    tokenId: 2,
+    amount: 3n,
+    value: 300n,
+  });
+  expectCall("purchase", purchase, EVMAUTH_V2_ABI, {
+    to: CONTRACT,
+    functionName: "purchase",
+    args: [USER, 2n, 3n],
+  });
+  expectValue("purchase", purchase.value, 300n);
+
+  const xmtpPurchase = buildXMTPPurchase(EXTENSION, {
+    tokenId: 1,
+    value: 100n,
+    transactionHash: "0xabc",
+  });
+  expectCall("purchaseXMTPAccess", xmtpPurchase, XMTP_GROUP_EXTENSION_ABI, {
+    to: EXTENSION,
+    functionName: "purchaseXMTPAccess",
+    args: [1n, "0xabc"],
+  });
+  expectValue("purchaseXMTPAccess", xmtpPurchase.value, 100n);
+
+  expectCall(
+    "issue",
+    buildIssue(CONTRACT, { to: USER, tokenId: 4 }),
+    EVMAUTH_V2_ABI,
+    { to: CONTRACT, functionName: "issue", args: [USER, 4n, 1n, "0x"] },
+  );
+
+  expectCall(
+    "grant",
+    buildGrant(EXTENSION, { user: USER, tokenId: 1, userInboxId: "inbox-1" }),
+    XMTP_GROUP_EXTENSION_ABI,
+    {
+      to: EXTENSION,
+      functionName: "grantXMTPAccess",
+      args: [USER, 1n, "inbox-1"],
+    },
+  );
+
+  expectCall(
+    "revoke",
+    buildRevoke(EXTENSION, { user: USER, tokenId: 1, reason: "expired" }),
+    XMTP_GROUP_EXTENSION_ABI,
+    {
+      to: EXTENSION,
+      functionName: "revokeXMTPAccess",
+      args: [USER, 1n, "expired"],
+    },
+  );
+
+  expectCall(
+    "setMetadata",
+    buildSetMetadata(CONTRACT, {
+      tokenId: 1,
+      active: true,
+      burnable: false,
+      transferable: false,
+      price: 5_000_000n,
+      ttl: 30n * 24n * 60n * 60n,
+    }),
+    EVMAUTH_V2_ABI,
+    {
+      to: CONTRACT,
+      functionName: "setMetadata",
+      args: [1n, true, false, false, 5_000_000n, 2_592_000n],
+    },
+  );
+
+  expectCall("withdraw", buildWithdraw(CONTRACT), EVMAUTH_V2_ABI, {
+    to: CONTRACT,
+    functionName: "withdraw",
+    args: [],
+  });
+
+  // WalletSendCalls wrappers
+  const trial = createTrialAccessGrant(CONTRACT, USER, 1, "Test Group");
+  expectCall(
+    "createTrialAccessGrant",
+    { to: trial.calls[0].to ?? "0x", data: trial.calls[0].data ?? "0x" },
+    EVMAUTH_V2_ABI,
+    { to: CONTRACT, functionName: "issue", args: [USER, 1n, 1n, "0x"] },
+  );
+
+  const access = createAccessPurchase(CONTRACT, 1, "1000", "Test Group", USER);
+  expectCall(
+    "createAccessPurchase",
+    { to: access.calls[0].to ?? "0x", data: access.calls[0].data ?? "0x" },
+    EVMAUTH_V2_ABI,
+    { to: CONTRACT, functionName: "purchase", args: [USER, 1n, 1n] },
+  );
+  expectValue("createAccessPurchase", access.calls[0].value ?? "0x0", 1000n);
+
+  const usdcToken = builtinPaymentToken("USDC");
+  const ethToken = builtinPaymentToken("ETH");
+  if (!usdcToken || !ethToken) throw new Error("USDC and ETH are built in");
+  const usdc = createTokenAccessPurchase(
+    usdcToken,
+    CONTRACT,
+    WALLET,
+    1,
+    5_000_000n,
+    "Test Group",
+    "Monthly",
+    USER,
+  );
+  expectCall(
+    "createTokenAccessPurchase USDC",
+    { to: usdc.calls[0].to ?? "0x", data: usdc.calls[0].data ?? "0x" },
+    erc20Abi,
+    {
+      to: usdcToken.address ?? "0x",
+      functionName: "transfer",
+      args: [WALLET, 5_000_000n],
+    },
+  );
+  if (usdc.calls.length !== 1) {
+    failures++;
+    console.error("❌ USDC purchases are a single transfer, no approve");
+  }
+
+  const eth = createTokenAccessPurchase(
+    ethToken,
+    CONTRACT,
+    WALLET,
+    2,
+    3000n,
+    "Test Group",
+    "Seats",
+    USER,
+    USER,
+    3,
+  );
+  expectCall(
+    "createTokenAccessPurchase ETH",
+    { to: eth.calls[0].to ?? "0x", data: eth.calls[0].data ?? "0x" },
+    EVMAUTH_V2_ABI,
+    { to: CONTRACT, functionName: "purchase", args: [USER, 2n, 3n] },
+  );
+  expectValue(
+    "createTokenAccessPurchase ETH",
+    eth.calls[0].value ?? "0x0",
+    3000n,
+  );
+
+  const usdcHandler = new USDCHandler("http://127.0.0.1:8545", TEST_KEY);
+  const transfer = usdcHandler.createUSDCTransferData(USER, "1000000");
+  expectCall(
+    "createUSDCTransferData",
+    { to: transfer.to as Hex, data: transfer.data as Hex },
+    erc20Abi,
+    {
+      to: usdcHandler.getUSDCAddress(),
+      functionName: "transfer",
+      args: [USER, 1_000_000n],
+    },
+  );
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} transaction checks failed`);
+    process.exit(1);
+  }
+  console.log("\n🎉 All transactions decode against the contract ABIs");
+}
+
+runTransactionBuilderTest();
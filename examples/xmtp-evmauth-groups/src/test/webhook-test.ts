@@ -0,0 +1,183 @@
+/**
+ * Webhook delivery test against a local HTTP stand-in
+ * Run with: yarn test:webhooks
+ */
+
+import fs from "fs";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { AgentEventBus } from "../events/event-bus";
+import {
+  DELIVERY_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  verifyWebhookSignature,
+  WebhookDispatcher,
+} from "../events/webhook-dispatcher";
+import { check } from "./helpers";
+
+const SECRET = "test-webhook-secret";
+
+interface Received {
+  body: string;
+  headers: http.IncomingHttpHeaders;
+}
+
+/**
+ * Local server that answers with the queued status codes (200 when empty)
+ */
+async function startStandIn(statuses: number[]) {
+  const received: Received[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk: Buffer) => (body += chunk.toString()));
+    req.on("end", () => {
+      received.push({ body, headers: req.headers });
+      res.writeHead(statuses.shift() ?? 200);
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}/hooks`, received, server };
+}
+
+async function runWebhookTest() {
+  console.log("🪝 Webhook Delivery Test");
+  console.log("========================");
+
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "webhook-test-"));
+  // Fail twice, then accept
+  const standIn = await startStandIn([500, 503]);
+
+  try {
+    const bus = new AgentEventBus();
+    const dispatcher = new WebhookDispatcher({
+      endpoints: [
+        { url: standIn.url, secret: SECRET, events: ["MEMBER_ADDED"] },
+      ],
+      dataDir,
+      maxAttempts: 3,
+      baseDelayMs: 10,
+    });
+    dispatcher.register(bus);
+
+    // TEST 1: filtering and signing
+    await bus.publish({
+      type: "TOKEN_EXPIRED",
+      data: { groupId: "g1", userAddress: "0xabc", tokenId: "1" },
+    });
+    await bus.publish({
+      type: "MEMBER_ADDED",
+      data: { groupId: "g1", userInboxId: "inbox-1", tierName: "Monthly" },
+    });
+    check(
+      dispatcher.getQueue().length === 1,
+      "Only subscribed events are queued",
+    );
+
+    // TEST 2: retries with backoff
+    await dispatcher.processQueue();
+    check(
+      dispatcher.getQueue()[0].attempts === 1,
+      "First failure stays queued",
+    );
+    check(
+      (await dispatcher.processQueue()) === 0,
+      "Retry waits for the backoff delay",
+    );
+    await new Promise((resolve) => setTimeout(resolve, 15));
+    await dispatcher.processQueue();
+    await new Promise((resolve) => setTimeout(resolve, 25));
+    check((await dispatcher.processQueue()) === 1, "Third attempt delivers");
+    check(dispatcher.getQueue().length === 0, "Queue is empty after delivery");
+
+    const last = standIn.received[standIn.received.length - 1];
+    const payload = JSON.parse(last.body) as { type: string };
+    check(payload.type === "MEMBER_ADDED", "Payload carries the event type");
+    check(
+      verifyWebhookSignature(
+        SECRET,
+        String(last.headers[TIMESTAMP_HEADER]),
+        last.body,
+        String(last.headers[SIGNATURE_HEADER]),
+      ),
+      "Signature verifies with the shared secret",
+    );
+
+    // TEST 3: stable ids for receiver dedupe
+    const attempts = standIn.received.map((request) => ({
+      delivery: String(request.headers[DELIVERY_HEADER]),
+      id: (JSON.parse(request.body) as { id: string }).id,
+    }));
+    check(
+      attempts.length === 3 &&
+        new Set(attempts.map((a) => a.delivery)).size === 1 &&
+        new Set(attempts.map((a) => a.id)).size === 1 &&
+        attempts[0].delivery.startsWith(attempts[0].id),
+      "Retries keep the payload and delivery ids",
+    );
+    const replayed = {
+      id: "event-1",
+      publishedAt: new Date().toISOString(),
+      attempt: 1,
+    };
+    const event = {
+      type: "MEMBER_ADDED",
+      data: { groupId: "g1", userInboxId: "inbox-3", tierName: "Monthly" },
+    } as const;
+    dispatcher.enqueue(event, replayed);
+    check(
+      dispatcher.enqueue(event, { ...replayed, attempt: 2 }).length === 0 &&
+        dispatcher.getQueue().length === 1,
+      "Replays of a queued event are not queued again",
+    );
+    await dispatcher.processQueue();
+
+    // TEST 4: persistence and dead letters
+    standIn.server.close();
+    standIn.server.closeAllConnections();
+    await bus.publish({
+      type: "MEMBER_ADDED",
+      data: { groupId: "g1", userInboxId: "inbox-2", tierName: "Monthly" },
+    });
+    const reloaded = new WebhookDispatcher({
+      endpoints: [{ url: standIn.url, secret: SECRET }],
+      dataDir,
+      maxAttempts: 3,
+      baseDelayMs: 0,
+      requestTimeoutMs: 500,
+    });
+    check(reloaded.getQueue().length === 1, "Queue survives a restart");
+
+    for (let i = 0; i < 3; i++) {
+      await reloaded.processQueue();
+    }
+    check(
+      reloaded.getQueue().length === 0,
+      "Exhausted delivery leaves the queue",
+    );
+    check(
+      reloaded.getDeadLetters().length === 1,
+      "Exhausted delivery is dead-lettered",
+    );
+
+    const deadLetterId = reloaded.getDeadLetters()[0].id;
+    check(
+      reloaded.retryDeadLetter(deadLetterId),
+      "Dead letter can be requeued",
+    );
+
+    console.log("\n🎉 All webhook tests passed");
+  } finally {
+    standIn.server.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+}
+
+runWebhookTest().catch((error: unknown) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -22,8 +22,8 @@ export interface AccessTier {
   benefits?: string[];
   /** Whether this tier is currently active for purchase */
   isActive?: boolean;
-  /** Payment token type */
-  paymentToken?: 'ETH' | 'USDC';
+  /** Payment token symbol (see PaymentTokenRegistry), USDC when omitted */
+  paymentToken?: string;
   /** IPFS metadata information */
   metadata?: {
     ipfsHash?: string;
@@ -81,18 +81,43 @@ export interface GroupConfig {
   isActive: boolean;
   /** Payment configuration */
   paymentConfig: PaymentConfig;
+  /** Reward for members whose referral link brings in a buyer */
+  referralReward?: ReferralReward;
+  /** Collaborators paid a share of each sale, set with /collaborators */
+  collaborators?: Collaborator[];
   /** Custom settings */
   settings?: GroupSettings;
 }
 
+/**
+ * Referral reward set by the creator with /referral-reward
+ * - percent: share of the price, paid to the referrer in the purchase bundle
+ * - days: extra days of access for the referrer
+ */
+export type ReferralReward =
+  | { kind: "percent"; percent: number }
+  | { kind: "days"; days: number };
+
+/**
+ * Payee sharing a group's revenue with its creator
+ * Their share is taken from the price sent to the group contract and paid
+ * to them in the same purchase bundle.
+ */
+export interface Collaborator {
+  /** Wallet address paid with each sale */
+  address: string;
+  /** Percent of the price (after discounts) */
+  sharePercent: number;
+}
+
 /**
  * Payment configuration
  */
 export interface PaymentConfig {
-  /** Accepted payment tokens */
-  acceptedTokens: ('ETH' | 'USDC')[];
-  /** Default payment token */
-  defaultToken: 'ETH' | 'USDC';
+  /** Accepted payment token symbols (see PaymentTokenRegistry) */
+  acceptedTokens: string[];
+  /** Default payment token symbol */
+  defaultToken: string;
   /** USDC contract address */
   usdcAddress?: string;
   /** Automatic price conversion */
@@ -113,7 +138,7 @@ export interface GroupSettings {
   maxMembers?: number;
   /** Require approval for new members */
   requireApproval: boolean;
-  /** Custom fee percentage (overrides global) */
+  /** Platform fee percentage (overrides FeeConfig), set with /group-fee */
   customFeePercentage?: number;
   /** Allow file attachments in tier setup */
   allowCustomImages: boolean;
@@ -176,7 +201,7 @@ export interface PurchaseDetails {
   quantity?: number;
   /** Payment configuration */
   payment: {
-    token: 'ETH' | 'USDC';
+    token: string;
     amount: string;
     usdAmount?: number;
   };
@@ -325,7 +350,8 @@ export interface MembershipAudit {
     inboxId: string;
     address: string;
     tokenIds: number[];
-    expiresAt: Date;
+    /** Latest token expiry (unknown when access comes only from purchase records) */
+    expiresAt?: Date;
   }>;
   /** Members with expired tokens */
   expiredMembers: Array<{
@@ -339,6 +365,12 @@ export interface MembershipAudit {
     address: string;
     reason: string;
   }>;
+  /** Token holders that were missing from the premium group and added */
+  addedMembers: Array<{
+    inboxId: string;
+    address: string;
+    tokenIds: number[];
+  }>;
   /** Timestamp of audit */
   auditTimestamp: Date;
   /** Any errors encountered */
@@ -349,6 +381,7 @@ export interface MembershipAudit {
     validCount: number;
     expiredCount: number;
     removedCount: number;
+    addedCount: number;
     errorCount: number;
   };
 }
@@ -361,15 +394,12 @@ export interface FeeConfig {
   recipient: string;
   /** Fee in basis points (e.g., 250 = 2.5%) */
   basisPoints: number;
-  /** Minimum fee amount in wei */
-  minimumFee?: string;
-  /** Maximum fee amount in wei */
-  maximumFee?: string;
-  /** Different fees for different payment methods */
-  paymentMethodFees?: {
-    eth: number;    // basis points
-    usdc: number;   // basis points
-  };
+  /** Minimum fee in USD, converted into the payment token */
+  minimumFee?: number;
+  /** Maximum fee in USD, converted into the payment token */
+  maximumFee?: number;
+  /** Basis points by payment token symbol, e.g. { ETH: 100 } */
+  paymentMethodFees?: Record<string, number>;
 }
 
 /**
@@ -434,7 +464,14 @@ export type AgentEvent =
   | { type: "TIER_UPDATED"; data: { groupId: string; tier: AccessTier } }
   | { type: "GROUP_SETTINGS_UPDATED"; data: { groupId: string; settings: GroupSettings } }
   | { type: "IMAGE_UPLOADED"; data: { groupId: string; ipfsHash: string; url: string } }
-  | { type: "METADATA_CREATED"; data: { groupId: string; tierId: string; metadataHash: string } };
+  | { type: "METADATA_CREATED"; data: { groupId: string; tierId: string; metadataHash: string } }
+  | { type: "PAYMENT_RECEIVED"; data: { senderInboxId: string; groupName: string; payerAddress: string; txHash: string } }
+  | { type: "PAYMENT_EXPIRED"; data: { senderInboxId: string; groupName: string } }
+  | { type: "PAYMENT_ORPHANED"; data: { paymentId: string; senderInboxId: string; groupName: string; payerAddress: string; txHash?: string; reason: string } }
+  | { type: "REFUND_SENT"; data: { paymentId: string; recipient: string; amountWei: string; amount: string; txHash: string } }
+  | { type: "REFUND_FAILED"; data: { paymentId: string; recipient: string; amountWei: string; amount: string; reason: string; error: string } }
+  | { type: "PAYOUT_SENT"; data: { paymentId: string; recipient: string; amountWei: string; amount: string; description: string; txHash: string } }
+  | { type: "PAYOUT_FAILED"; data: { paymentId: string; recipient: string; amountWei: string; amount: string; description: string; error: string } };
 
 /**
  * Command handler result
@@ -456,6 +493,9 @@ export interface CommandResult {
  * Dual-group configuration (extends GroupConfig)
  */
 export interface DualGroupConfig extends GroupConfig {
+  /** Display name used for command lookups (mirrors metadata.name) */
+  groupName?: string;
+
   // XMTP Group IDs
   salesGroupId: string;      // Public sales/info group
   premiumGroupId: string;    // Private premium group
@@ -3,52 +3,45 @@
  */
 
 import { ContentTypeWalletSendCalls } from "@xmtp/content-type-wallet-send-calls";
-import type { JSONDatabase } from "../database/json-database";
-import type { EnhancedGroupManager } from "../managers/enhanced-group-flow";
-import type { DualGroupConfig, GroupMetadata } from "../types/types";
-import { GroupDeduplicationManager } from "./group-deduplication";
-import type { PaymentMonitor } from "./payment-monitor";
+import type { AgentCommandContext } from "../commands/agent-commands";
+import { requireGroup } from "../commands/command-registry";
 import {
   createGroupCreationPayment,
+  createPaymentReference,
   createTrialAccessGrant,
 } from "./payment-transactions";
-import type { PersistentStateManager } from "./persistent-state";
+
+/** Unpaid /create-group requests a single creator may have open at once */
+const MAX_PENDING_PAYMENTS_PER_CREATOR = 2;
 
 /**
  * Handle create-group command with payment approval workflow
  */
 export async function handleCreateGroupWithPayment(
-  conversation: any,
-  memberAddress: string,
-  senderInboxId: string,
-  messageContent: string,
-  enhancedGroupManager: EnhancedGroupManager,
-  groupConfigs: Map<string, DualGroupConfig>,
-  agentAddress: string,
-  paymentMonitor: PaymentMonitor,
-  persistentState: PersistentStateManager,
-  database?: JSONDatabase,
+  ctx: AgentCommandContext,
 ): Promise<void> {
-  try {
-    const parts = messageContent.split(" ");
-    if (parts.length < 2) {
-      await conversation.send(
-        'Usage: /create-group "<name>"\nExample: /create-group "My Premium Community"',
-      );
-      return;
-    }
+  const { conversation, senderInboxId, senderAddress: memberAddress } = ctx;
+  const { agentAddress, paymentMonitor } = ctx.services;
 
-    // Extract group name (handle quoted names)
-    const groupName = messageContent
-      .substring(messageContent.indexOf(" ") + 1)
-      .replace(/['"]/g, "")
-      .trim();
+  try {
+    // Quoted names arrive unquoted from the tokenizer; strip any stray quotes
+    const groupName = ctx.args.name.replace(/['"]/g, "").trim();
 
     if (!groupName) {
       await conversation.send("Please provide a valid group name.");
       return;
     }
 
+    const pending = paymentMonitor.getPendingPaymentsForSender(senderInboxId);
+    if (pending.length >= MAX_PENDING_PAYMENTS_PER_CREATOR) {
+      await conversation.send(
+        `⏳ Slow down! You already have ${pending.length} group payments waiting:\n` +
+          pending.map((name) => `• ${name}`).join("\n") +
+          `\n\nApprove or let them expire before creating another group.`,
+      );
+      return;
+    }
+
     await conversation.send(
       `🏗️ Creating Premium Community System\n\n` +
         `📋 Group Name: ${groupName}\n` +
@@ -57,11 +50,13 @@ export async function handleCreateGroupWithPayment(
         `This covers deployment costs and gas fees.`,
     );
 
-    // Create payment transaction for user approval
+    // Create payment transaction for user approval, tagged with a unique reference
+    const reference = createPaymentReference();
     const paymentTransaction = createGroupCreationPayment(
       agentAddress,
       groupName,
       memberAddress,
+      reference,
     );
 
     // Send transaction proposal to user
@@ -69,11 +64,12 @@ export async function handleCreateGroupWithPayment(
 
     // Register pending payment for monitoring
     const paymentId = `${senderInboxId}-${groupName}-${Date.now()}`;
-    paymentMonitor.registerPendingPayment(
+    await paymentMonitor.registerPendingPayment(
       paymentId,
       senderInboxId,
       groupName,
       memberAddress,
+      reference,
       conversation,
     );
 
@@ -102,49 +98,16 @@ export async function handleCreateGroupWithPayment(
  * Handle grant-trial command for creators to give free access
  */
 export async function handleGrantTrial(
-  conversation: any,
-  memberAddress: string,
-  senderInboxId: string,
-  messageContent: string,
-  groupConfigs: Map<string, DualGroupConfig>,
+  ctx: AgentCommandContext,
 ): Promise<void> {
-  try {
-    // Parse command: /grant-trial <group_name> <user_address> <days>
-    const parts = messageContent.split(" ");
-    if (parts.length < 4) {
-      await conversation.send(
-        "Usage: /grant-trial <group_name> <user_address> <days>\n" +
-          "Example: /grant-trial MyGroup 0x123... 7",
-      );
-      return;
-    }
+  const { conversation } = ctx;
 
-    const groupName = parts[1];
-    const userAddress = parts[2];
-    const days = parseInt(parts[3]);
-
-    if (isNaN(days) || days <= 0) {
-      await conversation.send("Please provide a valid number of days.");
-      return;
-    }
-
-    // Find the group configuration
-    const groupConfig = Array.from(groupConfigs.values()).find(
-      (config) => config.groupName.toLowerCase() === groupName.toLowerCase(),
-    );
-
-    if (!groupConfig) {
-      await conversation.send(`Group "${groupName}" not found.`);
-      return;
-    }
-
-    // Check if sender is the creator/admin
-    if (groupConfig.creatorInboxId !== senderInboxId) {
-      await conversation.send(
-        "❌ Only the group creator can grant trial access.",
-      );
-      return;
-    }
+  try {
+    // Group lookup and creator check are done by the command registry
+    const groupConfig = requireGroup(ctx);
+    const groupName = ctx.args.group;
+    const userAddress = ctx.args.address;
+    const days = parseInt(ctx.args.days);
 
     // Create trial access grant transaction
     const trialTransaction = createTrialAccessGrant(
@@ -179,15 +142,14 @@ export async function handleGrantTrial(
  * Handle list-groups command to show creator's groups
  */
 export async function handleListGroups(
-  conversation: any,
-  senderInboxId: string,
-  groupConfigs: Map<string, DualGroupConfig>,
+  ctx: AgentCommandContext,
 ): Promise<void> {
+  const { conversation, senderInboxId } = ctx;
+  const { groupRegistry } = ctx.services;
+
   try {
     // Find groups created by this user
-    const userGroups = Array.from(groupConfigs.values()).filter(
-      (config) => config.creatorInboxId === senderInboxId,
-    );
+    const userGroups = groupRegistry.listByCreator(senderInboxId);
 
     if (userGroups.length === 0) {
       await conversation.send(
@@ -2,10 +2,27 @@
  * Enhanced group creation with dual-group architecture
  */
 
-import type { EnhancedGroupManager } from "../managers/enhanced-group-flow";
-import type { GroupMetadata, DualGroupConfig } from "../types/types";
-import { createGroupCreationPayment } from "./payment-transactions";
 import { ContentTypeWalletSendCalls } from "@xmtp/content-type-wallet-send-calls";
+import type { AgentCommandContext } from "../commands/agent-commands";
+import { CommandUsageError, requireGroup } from "../commands/command-registry";
+import type { PromoCodeRecord, ReferralLink } from "../database/group-store";
+import type { EnhancedGroupManager } from "../managers/enhanced-group-flow";
+import { tierTokenId } from "../managers/group-registry";
+import { PromoCodeError } from "../managers/promo-code-manager";
+import {
+  ReferralError,
+  referralRewardAmount,
+} from "../managers/referral-manager";
+import type { AccessTier, DualGroupConfig } from "../types/types";
+import type { RevenueSplit } from "./fee-engine";
+import { isNativeToken, type PaymentTokenInfo } from "./payment-tokens";
+import {
+  createGroupCreationPayment,
+  createTokenAccessPurchase,
+  type PurchasePayout,
+} from "./payment-transactions";
+import { formatDiscount, tierPaymentToken } from "./price-service";
+import type { PendingPurchase } from "./purchase-verifier";
 
 export async function handleEnhancedCreateGroup(
   conversation: any,
@@ -13,13 +30,12 @@ export async function handleEnhancedCreateGroup(
   senderInboxId: string,
   messageContent: string,
   enhancedGroupManager: EnhancedGroupManager,
-  groupConfigs: Map<string, DualGroupConfig>
 ): Promise<void> {
   try {
     const parts = messageContent.split(" ");
     if (parts.length < 2) {
       await conversation.send(
-        "Usage: /create-group \"<name>\"\nExample: /create-group \"My Premium Community\""
+        'Usage: /create-group "<name>"\nExample: /create-group "My Premium Community"',
       );
       return;
     }
@@ -32,191 +48,712 @@ export async function handleEnhancedCreateGroup(
 
     if (!groupName || groupName.length < 3) {
       await conversation.send(
-        "❌ Group name must be at least 3 characters long."
+        "❌ Group name must be at least 3 characters long.",
       );
       return;
     }
 
     if (!memberAddress || memberAddress === "Unknown") {
-      await conversation.send("❌ **Unable to create group**\n\nI couldn't determine your wallet address. Please make sure you're messaging from a wallet-connected XMTP client.");
+      await conversation.send(
+        "❌ **Unable to create group**\n\nI couldn't determine your wallet address. Please make sure you're messaging from a wallet-connected XMTP client.",
+      );
       return;
     }
 
     await conversation.send(
       `🏗️ **Creating Premium Community System**\n\n` +
-      `📋 Group Name: ${groupName}\n` +
-      `⚙️ Setting up dual-group architecture...\n\n` +
-      `This may take 30-60 seconds:`
+        `📋 Group Name: ${groupName}\n` +
+        `⚙️ Setting up dual-group architecture...\n\n` +
+        `This may take 30-60 seconds:`,
     );
 
-    // Create group metadata
-    const metadata: GroupMetadata = {
-      name: groupName,
-      description: `Premium community for ${groupName} with token-gated access`,
-              image: "https://via.placeholder.com/400x400/6366f1/ffffff?text=Premium+Group", // Default group image
-    };
-
-    // Create dual-group system
+    // Create dual-group system (registers the group config)
     const result = await enhancedGroupManager.createDualGroupSystem(
       groupName,
       senderInboxId,
       memberAddress, // Pass the actual wallet address for contract deployment
-      metadata
     );
 
-    // Store the enhanced group configuration
-    groupConfigs.set(result.contractAddress, result.groupConfig);
-
     // Send success message with details
     await conversation.send(
       `🎉 **Premium Community Created Successfully!**\n\n` +
-      `📋 **Contract**: \`${result.contractAddress}\`\n` +
-      `🏪 **Sales Group**: Join to browse and purchase access\n` +
-      `💎 **Premium Group**: Exclusive content for token holders\n\n` +
-      `**Next Steps:**\n` +
-      `1️⃣ Setup custom tiers: \`/setup-tiers ${result.contractAddress.slice(0, 8)}...\`\n` +
-      `2️⃣ Configure pricing in USD\n` +
-      `3️⃣ Upload custom NFT images\n` +
-      `4️⃣ Start selling access!\n\n` +
-      `**Sales Group Link**: Share this for discovery\n` +
-      `**Premium Group**: Automatic access after purchase\n\n` +
-      `🚀 Your monetized community is ready!`
+        `📋 **Contract**: \`${result.contractAddress}\`\n` +
+        `🏪 **Sales Group**: Join to browse and purchase access\n` +
+        `💎 **Premium Group**: Exclusive content for token holders\n\n` +
+        `**Next Steps:**\n` +
+        `1️⃣ Setup custom tiers: \`/setup-tiers ${result.contractAddress.slice(0, 8)}...\`\n` +
+        `2️⃣ Configure pricing in USD\n` +
+        `3️⃣ Upload custom NFT images\n` +
+        `4️⃣ Start selling access!\n\n` +
+        `**Sales Group Link**: Share this for discovery\n` +
+        `**Premium Group**: Automatic access after purchase\n\n` +
+        `🚀 Your monetized community is ready!`,
     );
 
     console.log(`✅ Enhanced dual-group system created for: ${groupName}`);
     console.log(`📋 Contract: ${result.contractAddress}`);
     console.log(`🏪 Sales: ${result.salesGroup.id}`);
     console.log(`💎 Premium: ${result.premiumGroup.id}`);
-
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error("Error creating enhanced group:", errorMessage);
-    
+
     await conversation.send(
       `❌ **Failed to create premium community**\n\n` +
-      `Error: ${errorMessage}\n\n` +
-      `Please try again or contact support if the issue persists.`
+        `Error: ${errorMessage}\n\n` +
+        `Please try again or contact support if the issue persists.`,
+    );
+  }
+}
+
+interface PreparedPurchase {
+  config: DualGroupConfig;
+  tier: AccessTier;
+  tokenId: number;
+  paymentToken: PaymentTokenInfo;
+  /** Where the contract sends proceeds; ERC-20 payments are transferred here */
+  paymentWallet: string;
+  /**
+   * Paid to the contract or its payment wallet: the discounted price for
+   * ERC-20 tokens, the full price for native ones since purchase() charges
+   * the on-chain price whatever the discount
+   */
+  charged: bigint;
+  /** Total price in the payment token's smallest unit, after any discount */
+  amount: bigint;
+  /** Promo code given with --code */
+  promo?: PromoCodeRecord;
+  /**
+   * Amount the promo code took off; rebated once a native purchase
+   * confirms
+   */
+  discountAmount: bigint;
+  /** Referral code given with --ref */
+  referral?: ReferralLink;
+  /** Discounted price shared between creator, collaborators and referrer */
+  split: RevenueSplit;
+  /** Transfers appended to the purchase bundle: the platform fee */
+  payouts: PurchasePayout[];
+  /**
+   * Paid by the agent out of the price once the purchase confirms:
+   * collaborator shares, the referral reward and any native promo rebate
+   */
+  agentPayouts: PurchasePayout[];
+  /** Everything the buyer pays */
+  total: bigint;
+}
+
+/**
+ * Checks shared by /buy-access, /gift and /buy-seats: tier, buyer wallet,
+ * open purchases, payment token, promo and referral codes, and balance.
+ * Tells the buyer why and returns null when the purchase can't go ahead.
+ */
+async function preparePurchase(
+  ctx: AgentCommandContext,
+  symbol?: string,
+  quantity = 1,
+): Promise<PreparedPurchase | null> {
+  const {
+    conversation,
+    senderAddress: userAddress,
+    senderInboxId: userInboxId,
+  } = ctx;
+  const {
+    purchaseVerifier,
+    priceService,
+    paymentTokens,
+    erc20Handler,
+    promoCodes,
+    referrals,
+    feeEngine,
+    evmAuthHandler,
+  } = ctx.services;
+
+  // Group lookup is done by the command registry
+  const config = requireGroup(ctx);
+  const contractAddress = config.contractAddress;
+  const groupIdOrContract = ctx.args.group;
+  const tierId = ctx.args.tier;
+
+  // Find the requested tier
+  const tier = config.tiers.find((t: any) => t.id === tierId);
+  if (!tier) {
+    const availableTiers = config.tiers.map((t: any) => t.id).join(", ");
+    await conversation.send(
+      `❌ Tier "${tierId}" not found.\n\n` +
+        `Available tiers: ${availableTiers}\n` +
+        `Use: \`/group-info ${groupIdOrContract}\` to see details`,
+    );
+    return null;
+  }
+
+  if (!userAddress || userAddress === "Unknown") {
+    await conversation.send(
+      "❌ **Unable to purchase**\n\nI couldn't determine your wallet address. Please make sure you're messaging from a wallet-connected XMTP client.",
+    );
+    return null;
+  }
+
+  const tokenId = tierTokenId(config.tiers, tier);
+
+  // Only one open purchase per buyer and group; the verifier grants access
+  const alreadyPending = purchaseVerifier
+    .getPendingPurchasesForBuyer(userInboxId)
+    .some(
+      (p) => p.contractAddress.toLowerCase() === contractAddress.toLowerCase(),
+    );
+  if (alreadyPending) {
+    await conversation.send(
+      `⏳ You already have a purchase for ${config.metadata.name} waiting for confirmation.\n\n` +
+        `Approve it in your wallet, or wait for it to time out before trying again.`,
     );
+    return null;
+  }
+
+  // Buyers pick any token the group accepts, defaulting to the group's default
+  const accepted = config.paymentConfig.acceptedTokens;
+  const tokenSymbol = symbol ?? config.paymentConfig.defaultToken;
+  const paymentToken = accepted.some(
+    (t) => t.toUpperCase() === tokenSymbol.toUpperCase(),
+  )
+    ? paymentTokens.get(tokenSymbol)
+    : undefined;
+  if (!paymentToken) {
+    await conversation.send(
+      `❌ ${config.metadata.name} doesn't accept ${tokenSymbol}.\n\n` +
+        `Pay with one of: ${accepted.join(", ")}\n` +
+        `Use: \`/buy-access ${groupIdOrContract} ${tier.id} <token>\``,
+    );
+    return null;
+  }
+
+  let promo: PromoCodeRecord | undefined;
+  if (ctx.args.code) {
+    try {
+      promo = await promoCodes.validate(
+        ctx.args.code,
+        contractAddress,
+        config.metadata.name,
+        userInboxId,
+      );
+    } catch (error) {
+      if (!(error instanceof PromoCodeError)) throw error;
+      await conversation.send(`❌ ${error.message}`);
+      return null;
+    }
+  }
+
+  let referral: ReferralLink | undefined;
+  if (ctx.args.ref) {
+    try {
+      referral = await referrals.validate(
+        ctx.args.ref,
+        contractAddress,
+        config.metadata.name,
+        userInboxId,
+      );
+    } catch (error) {
+      if (!(error instanceof ReferralError)) throw error;
+      await conversation.send(`❌ ${error.message}`);
+      return null;
+    }
+  }
+
+  // purchase() charges the native price set on chain; ERC-20 tokens pay the
+  // tier price converted into them
+  let fullPrice: bigint;
+  let amount: bigint;
+  let split: RevenueSplit;
+  try {
+    fullPrice =
+      (isNativeToken(paymentToken)
+        ? await evmAuthHandler.getTokenPrice(contractAddress, tokenId)
+        : await priceService.convert(
+            tier.priceWei,
+            tierPaymentToken(tier),
+            paymentToken.symbol,
+          )) * BigInt(quantity);
+    amount = promo
+      ? await priceService.applyDiscount(
+          fullPrice,
+          paymentToken.symbol,
+          promo.discount,
+        )
+      : fullPrice;
+    // Percent referral rewards come out of the creator's share
+    const referralPayout =
+      referral && config.referralReward
+        ? {
+            to: referral.referrerAddress,
+            amount: referralRewardAmount(amount, config.referralReward),
+            description: `Referral reward for ${referral.referrerAddress}`,
+          }
+        : undefined;
+    split = await feeEngine.split(
+      config,
+      paymentToken.symbol,
+      amount,
+      referralPayout,
+    );
+  } catch (error) {
+    console.error(
+      `Error converting ${tier.name} price to ${paymentToken.symbol}:`,
+      error,
+    );
+    await conversation.send(
+      `❌ No ${paymentToken.symbol} price is available right now.\n\n` +
+        `Pay with ${tierPaymentToken(tier)} instead, or try again shortly.`,
+    );
+    return null;
+  }
+
+  if (promo && amount === 0n) {
+    await conversation.send(
+      `❌ Promo code ${promo.code} (${formatDiscount(promo.discount)}) covers the whole price, which can't be paid on-chain.\n\n` +
+        `Ask the group creator for a different code.`,
+    );
+    return null;
+  }
+
+  // ERC-20 purchases are transferred at the discounted price
+  const native = isNativeToken(paymentToken);
+  const charged = native ? fullPrice : amount;
+  const discountAmount = fullPrice - amount;
+  const agentPayouts: PurchasePayout[] = [
+    ...split.shares,
+    ...(promo && native && discountAmount > 0n
+      ? [
+          {
+            to: userAddress,
+            amount: discountAmount,
+            description: `Promo code ${promo.code} rebate`,
+          },
+        ]
+      : []),
+  ];
+  const total = charged + split.platformFee;
+
+  const paymentWallet = await evmAuthHandler.getPaymentWallet(contractAddress);
+  const balance = await erc20Handler.getBalance(paymentToken, userAddress);
+  if (balance < total) {
+    await conversation.send(
+      `❌ **Insufficient ${paymentToken.symbol}**\n\n` +
+        `${quantity > 1 ? `${quantity} ${tier.name} seats cost` : `${tier.name} costs`} ${priceService.formatTokenAmount(total, paymentToken.symbol)}.\n` +
+        `Your wallet ${userAddress.slice(0, 6)}...${userAddress.slice(-4)} holds ${priceService.formatTokenAmount(balance, paymentToken.symbol)}.`,
+    );
+    return null;
+  }
+
+  return {
+    config,
+    tier,
+    tokenId,
+    paymentToken,
+    paymentWallet,
+    charged,
+    amount,
+    promo,
+    discountAmount,
+    referral,
+    split,
+    payouts: split.payouts,
+    agentPayouts,
+    total,
+  };
+}
+
+/**
+ * Lines for purchase messages showing the promo discount, how the price is
+ * shared and what the buyer pays up front, if it differs from the price
+ */
+function formatPriceDetails(
+  ctx: AgentCommandContext,
+  prepared: PreparedPurchase,
+): string {
+  const {
+    promo,
+    discountAmount,
+    paymentToken,
+    referral,
+    split,
+    total,
+    amount,
+    charged,
+  } = prepared;
+  const format = (value: bigint) =>
+    ctx.services.priceService.formatTokenAmount(value, paymentToken.symbol);
+  return (
+    (promo
+      ? `🏷️ Promo ${promo.code}: ${formatDiscount(promo.discount)} (-${format(discountAmount)}` +
+        (charged !== amount
+          ? `, sent back to you once the purchase confirms)\n`
+          : `)\n`)
+      : "") +
+    (split.shares.length > 0
+      ? `🧾 Split:\n` +
+        `   • Creator: ${format(split.creatorAmount)}\n` +
+        split.collaborators
+          .map(
+            (c) =>
+              `   • ${c.address}: ${format(c.amount)} (${c.sharePercent}%)\n`,
+          )
+          .join("") +
+        (split.referralAmount > 0n && referral
+          ? `   • Referrer ${referral.referrerAddress}: ${format(split.referralAmount)}\n`
+          : "")
+      : "") +
+    (split.platformFee > 0n
+      ? `   + ${format(split.platformFee)} platform fee` +
+        (split.feeCapped ? "\n" : ` (${split.feeBasisPoints / 100}%)\n`)
+      : "") +
+    (referral ? `🤝 Referred by ${referral.referrerAddress}\n` : "") +
+    (total !== amount ? `💳 You pay: ${format(total)}\n` : "")
+  );
+}
+
+/**
+ * Reserve the promo code, record the referral, send the wallet calls and
+ * hand the purchase to the verifier, which grants access once payment is
+ * seen on-chain
+ */
+async function submitPurchase(
+  ctx: AgentCommandContext,
+  prepared: PreparedPurchase,
+  purchaseId: string,
+  transaction: ReturnType<typeof createTokenAccessPurchase>,
+  purchase: Omit<
+    PendingPurchase,
+    "paymentWallet" | "amount" | "payouts" | "promoCode" | "referralCode"
+  >,
+): Promise<void> {
+  const { purchaseVerifier, promoCodes, referrals } = ctx.services;
+  const { promo, referral } = prepared;
+
+  if (promo) {
+    await promoCodes.reserve(promo, {
+      purchaseId,
+      buyerInboxId: purchase.buyerInboxId,
+      buyerAddress: purchase.buyerAddress,
+      tierId: prepared.tier.id,
+      discountAmount: prepared.discountAmount.toString(),
+      paymentToken: prepared.paymentToken.symbol,
+    });
+  }
+
+  try {
+    if (referral) {
+      await referrals.record({
+        purchaseId,
+        code: referral.code,
+        contractAddress: referral.contractAddress,
+        referrerInboxId: referral.referrerInboxId,
+        referrerAddress: referral.referrerAddress,
+        buyerInboxId: purchase.buyerInboxId,
+        buyerAddress: purchase.buyerAddress,
+        tierName: purchase.tierName,
+        amount: prepared.amount.toString(),
+        paymentToken: prepared.paymentToken.symbol,
+        reward: prepared.config.referralReward,
+        rewardAmount:
+          prepared.split.referralAmount > 0n
+            ? prepared.split.referralAmount.toString()
+            : undefined,
+      });
+    }
+    await ctx.conversation.send(transaction, ContentTypeWalletSendCalls);
+    await purchaseVerifier.registerPendingPurchase(purchaseId, {
+      ...purchase,
+      paymentWallet: prepared.paymentWallet,
+      amount: prepared.charged.toString(),
+      payouts: prepared.agentPayouts,
+      promoCode: promo?.code,
+      referralCode: referral?.code,
+    });
+  } catch (error) {
+    if (promo) await promoCodes.release(purchaseId);
+    throw error;
   }
 }
 
 export async function handleEnhancedBuyAccess(
-  conversation: any,
-  userAddress: string,
-  userInboxId: string,
-  messageContent: string,
-  enhancedGroupManager: EnhancedGroupManager,
-  groupConfigs: Map<string, DualGroupConfig>
+  ctx: AgentCommandContext,
 ): Promise<void> {
+  const {
+    conversation,
+    senderAddress: userAddress,
+    senderInboxId: userInboxId,
+  } = ctx;
+  const { priceService } = ctx.services;
+
   try {
-    const parts = messageContent.split(" ");
-    if (parts.length < 3) {
+    const prepared = await preparePurchase(ctx, ctx.args.token);
+    if (!prepared) return;
+    const { config, tier, tokenId, paymentToken, amount } = prepared;
+    const contractAddress = config.contractAddress;
+
+    const native = isNativeToken(paymentToken);
+    await conversation.send(
+      `💰 **Purchasing ${tier.name}**\n\n` +
+        `🎯 Group: ${config.metadata.name}\n` +
+        `⏰ Duration: ${tier.durationDays} days\n` +
+        `💎 Price: ${await priceService.formatAmount(amount, paymentToken.symbol)}\n` +
+        formatPriceDetails(ctx, prepared) +
+        `\n` +
+        (native
+          ? `Your wallet will ask you to approve the purchase, paying ${paymentToken.symbol} directly.\n`
+          : `Your wallet will ask you to approve a ${paymentToken.symbol} transfer to the group's payment wallet; ` +
+            `the access token is minted to you once it confirms.\n`) +
+        (prepared.payouts.length > 0
+          ? `➕ Followed by a transfer for the platform fee\n`
+          : "") +
+        `\n` +
+        `**After confirmation on-chain:**\n` +
+        `• NFT will be minted to your wallet\n` +
+        `• You'll be automatically added to premium group\n` +
+        `• Access expires in ${tier.durationDays} days`,
+    );
+
+    const purchaseTransaction = createTokenAccessPurchase(
+      paymentToken,
+      contractAddress,
+      prepared.paymentWallet,
+      tokenId,
+      prepared.charged,
+      config.metadata.name,
+      tier.name,
+      userAddress,
+      userAddress,
+      1,
+      prepared.payouts,
+    );
+
+    // Access is granted only after the verifier sees payment and mint on-chain
+    await submitPurchase(
+      ctx,
+      prepared,
+      `${userInboxId}-${contractAddress}-${Date.now()}`,
+      purchaseTransaction,
+      {
+        buyerAddress: userAddress,
+        buyerInboxId: userInboxId,
+        contractAddress,
+        tokenId,
+        paymentToken,
+        tierName: tier.name,
+        durationDays: tier.durationDays,
+        conversation,
+      },
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error processing purchase:", errorMessage);
+
+    await conversation.send(
+      `❌ **Purchase Failed**\n\n` +
+        `Error: ${errorMessage}\n\n` +
+        `Please try again or contact support.`,
+    );
+  }
+}
+
+/**
+ * /gift - buy access for someone else, minted to them and paid by the sender
+ * The recipient must be on XMTP so they can be added to the premium group.
+ */
+export async function handleGiftAccess(
+  ctx: AgentCommandContext,
+): Promise<void> {
+  const {
+    conversation,
+    senderAddress: userAddress,
+    senderInboxId: userInboxId,
+  } = ctx;
+  const { priceService, recipientResolver } = ctx.services;
+
+  try {
+    let recipient;
+    try {
+      recipient = await recipientResolver.resolve(ctx.args.recipient);
+    } catch (error) {
+      console.error(
+        `Error resolving gift recipient ${ctx.args.recipient}:`,
+        error,
+      );
+      recipient = null;
+    }
+    if (!recipient) {
       await conversation.send(
-        "Usage: /buy-access <group_id> <tier_id>\n" +
-        "Example: /buy-access abc123 premium"
+        `❌ Couldn't find "${ctx.args.recipient}".\n\n` +
+          `Send the gift to a wallet address, ENS name or XMTP inbox ID.`,
       );
       return;
     }
-
-    const groupIdOrContract = parts[1];
-    const tierId = parts[2];
-
-    // Find group config by contract address or group ID
-    let config: DualGroupConfig | undefined;
-    let contractAddress: string | undefined;
-
-    for (const [addr, cfg] of groupConfigs.entries()) {
-      if (addr.startsWith(groupIdOrContract) || 
-          cfg.salesGroupId.startsWith(groupIdOrContract) ||
-          cfg.premiumGroupId.startsWith(groupIdOrContract)) {
-        config = cfg;
-        contractAddress = addr;
-        break;
-      }
-    }
-
-    if (!config || !contractAddress) {
+    if (!recipient.inboxId) {
       await conversation.send(
-        `❌ Group not found: ${groupIdOrContract}\n\n` +
-        `Make sure you're using the correct group ID or contract address.`
+        `❌ **${recipient.label} isn't on XMTP**\n\n` +
+          `Gift recipients are added to the premium group over XMTP, so they need an inbox first. No payment was requested.`,
       );
       return;
     }
-
-    // Find the requested tier
-    const tier = config.tiers.find((t: any) => t.id === tierId);
-    if (!tier) {
-      const availableTiers = config.tiers.map((t: any) => t.id).join(", ");
+    if (recipient.inboxId === userInboxId) {
       await conversation.send(
-        `❌ Tier "${tierId}" not found.\n\n` +
-        `Available tiers: ${availableTiers}\n` +
-        `Use: \`/group-info ${groupIdOrContract}\` to see details`
+        `❌ You can't gift access to yourself. Use \`/buy-access\` instead.`,
       );
       return;
     }
 
+    const prepared = await preparePurchase(ctx);
+    if (!prepared) return;
+    const { config, tier, tokenId, paymentToken, amount } = prepared;
+    const contractAddress = config.contractAddress;
+    const message = ctx.args.message?.trim() || undefined;
+
     await conversation.send(
-      `💰 **Purchasing ${tier.name}**\n\n` +
-      `🎯 Group: ${config.metadata.name}\n` +
-      `⏰ Duration: ${tier.durationDays} days\n` +
-      `💎 Price: $${tier.priceUSD} USD\n\n` +
-      `🔄 Generating USDC transaction...\n` +
-      `Please wait while we prepare your purchase.`
-    );
-
-    // Simulate transaction generation (in real implementation, this would create actual USDC transaction)
-    await new Promise(resolve => setTimeout(resolve, 2000));
-
-    // Mock transaction details
-    const mockTransaction = {
-      to: contractAddress,
-      data: "0xa9059cbb" + userAddress.slice(2).padStart(64, "0") + "1".padStart(64, "0"),
-      value: "0",
-      description: `Purchase ${tier.name} access for ${tier.durationDays} days`
-    };
-
-    await conversation.send(
-      `💳 **USDC Transaction Ready**\n\n` +
-      `**Please approve this transaction in your wallet:**\n\n` +
-      `\`\`\`json\n${JSON.stringify(mockTransaction, null, 2)}\n\`\`\`\n\n` +
-      `**After approval:**\n` +
-      `• NFT will be minted to your wallet\n` +
-      `• You'll be automatically added to premium group\n` +
-      `• Access expires in ${tier.durationDays} days\n\n` +
-      `💡 **Having issues?** Message the bot directly for help.`
-    );
-
-    // Simulate successful purchase after a delay (for demo)
-    setTimeout(async () => {
-      try {
-        await enhancedGroupManager.handleTokenPurchase(
-          contractAddress!,
-          userAddress,
-          userInboxId,
-          1, // Mock token ID
-          tier.name
-        );
-
-        await conversation.send(
-          `🎉 **Purchase Successful!**\n\n` +
-          `✅ NFT minted to your wallet\n` +
-          `✅ Added to premium group\n` +
-          `✅ Access expires: ${new Date(Date.now() + tier.durationDays * 24 * 60 * 60 * 1000).toLocaleDateString()}\n\n` +
-          `Welcome to the premium community! 🚀`
-        );
-      } catch (error) {
-        console.error("Error in simulated purchase:", error);
-      }
-    }, 5000);
+      `🎁 **Gifting ${tier.name}**\n\n` +
+        `🎯 Group: ${config.metadata.name}\n` +
+        `👤 Recipient: ${recipient.label}\n` +
+        `⏰ Duration: ${tier.durationDays} days\n` +
+        `💎 Price: ${await priceService.formatAmount(amount, paymentToken.symbol)}\n` +
+        formatPriceDetails(ctx, prepared) +
+        (message ? `💌 Message: "${message}"\n` : "") +
+        `\n**After confirmation on-chain:**\n` +
+        `• NFT will be minted to ${recipient.label}\n` +
+        `• They'll be added to the premium group and sent your message\n` +
+        (isNativeToken(paymentToken)
+          ? `• If they can't be added yet, they keep the NFT and are added once they join the sales group`
+          : `• If they can't be added to the premium group, nothing is minted and the price is refunded`),
+    );
 
+    const giftTransaction = createTokenAccessPurchase(
+      paymentToken,
+      contractAddress,
+      prepared.paymentWallet,
+      tokenId,
+      prepared.charged,
+      config.metadata.name,
+      tier.name,
+      userAddress,
+      recipient.address,
+      1,
+      prepared.payouts,
+    );
+
+    await submitPurchase(
+      ctx,
+      prepared,
+      `${userInboxId}-${contractAddress}-gift-${Date.now()}`,
+      giftTransaction,
+      {
+        buyerAddress: userAddress,
+        buyerInboxId: userInboxId,
+        contractAddress,
+        tokenId,
+        paymentToken,
+        tierName: tier.name,
+        durationDays: tier.durationDays,
+        gift: {
+          recipientAddress: recipient.address,
+          recipientInboxId: recipient.inboxId,
+          recipientLabel: recipient.label,
+          message,
+        },
+        conversation,
+      },
+    );
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error("Error processing purchase:", errorMessage);
-    
+    console.error("Error processing gift:", errorMessage);
+
     await conversation.send(
-      `❌ **Purchase Failed**\n\n` +
-      `Error: ${errorMessage}\n\n` +
-      `Please try again or contact support.`
+      `❌ **Gift Failed**\n\n` +
+        `Error: ${errorMessage}\n\n` +
+        `Please try again or contact support.`,
     );
   }
-}
\ No newline at end of file
+}
+
+/** Most seats one /buy-seats can mint */
+const MAX_SEATS_PER_PURCHASE = 100;
+
+/**
+ * /buy-seats - mint several tokens to the buyer's wallet as a seat pool
+ * The buyer hands seats out with /assign-seat once the purchase confirms.
+ */
+export async function handleBuySeats(ctx: AgentCommandContext): Promise<void> {
+  const {
+    conversation,
+    senderAddress: userAddress,
+    senderInboxId: userInboxId,
+  } = ctx;
+  const { priceService } = ctx.services;
+
+  const seats = Number(ctx.args.count);
+  if (!Number.isInteger(seats) || seats < 1 || seats > MAX_SEATS_PER_PURCHASE) {
+    throw new CommandUsageError(
+      `Seat count must be a whole number from 1 to ${MAX_SEATS_PER_PURCHASE}`,
+    );
+  }
+
+  try {
+    const prepared = await preparePurchase(ctx, ctx.args.token, seats);
+    if (!prepared) return;
+    const { config, tier, tokenId, paymentToken, amount } = prepared;
+    const contractAddress = config.contractAddress;
+
+    await conversation.send(
+      `🪑 **Purchasing ${seats} ${tier.name} Seats**\n\n` +
+        `🎯 Group: ${config.metadata.name}\n` +
+        `⏰ Duration: ${tier.durationDays} days\n` +
+        `💎 Total: ${await priceService.formatAmount(amount, paymentToken.symbol)}\n` +
+        formatPriceDetails(ctx, prepared) +
+        `\n` +
+        `**After confirmation on-chain:**\n` +
+        `• ${seats} tokens will be minted to your wallet\n` +
+        `• Assign a seat to each team member with \`/assign-seat <address>\`\n` +
+        `• While you're in the premium group yourself, you use one of the tokens\n` +
+        `• Reclaim seats on offboarding with \`/reclaim-seat <address>\`\n` +
+        `• Every seat expires in ${tier.durationDays} days`,
+    );
+
+    const seatTransaction = createTokenAccessPurchase(
+      paymentToken,
+      contractAddress,
+      prepared.paymentWallet,
+      tokenId,
+      prepared.charged,
+      config.metadata.name,
+      tier.name,
+      userAddress,
+      userAddress,
+      seats,
+      prepared.payouts,
+    );
+
+    await submitPurchase(
+      ctx,
+      prepared,
+      `${userInboxId}-${contractAddress}-seats-${Date.now()}`,
+      seatTransaction,
+      {
+        buyerAddress: userAddress,
+        buyerInboxId: userInboxId,
+        contractAddress,
+        tokenId,
+        paymentToken,
+        tierName: tier.name,
+        durationDays: tier.durationDays,
+        seats,
+        conversation,
+      },
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error processing seat purchase:", errorMessage);
+
+    await conversation.send(
+      `❌ **Seat Purchase Failed**\n\n` +
+        `Error: ${errorMessage}\n\n` +
+        `Please try again or contact support.`,
+    );
+  }
+}
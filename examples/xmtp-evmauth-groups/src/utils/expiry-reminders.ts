@@ -0,0 +1,326 @@
+/**
+ * Expiry reminders for premium members
+ * DMs members ahead of their earliest token expiry, priced in the group's
+ * default payment token. Groups paid in the native token get a one-tap
+ * purchase, with the platform fee, when nothing is left for the agent to pay
+ * out (it mints on chain, no verification needed). ERC-20 groups and groups
+ * with collaborators get the /renew command, which quotes and verifies the
+ * renewal like any purchase so the shares are paid. Sent reminders are
+ * persisted so restarts don't repeat them.
+ */
+
+import fs from "fs";
+import path from "path";
+import { ContentTypeWalletSendCalls } from "@xmtp/content-type-wallet-send-calls";
+import type { Client } from "@xmtp/node-sdk";
+import { tierForTokenId, type GroupRegistry } from "../managers/group-registry";
+import type { AccessTier, DualGroupConfig } from "../types/types";
+import type {
+  MemberAccess,
+  MembershipAuditEngine,
+  TokenExpiry,
+} from "./membership-audit";
+import { isNativeToken } from "./payment-tokens";
+import {
+  createRenewal,
+  quoteRenewal,
+  type RenewalPricing,
+} from "./renew-access";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+export const DEFAULT_REMINDER_LEAD_TIMES_MS = [7 * DAY_MS, DAY_MS, HOUR_MS];
+
+const UNIT_MS: Record<string, number> = { m: MINUTE_MS, h: HOUR_MS, d: DAY_MS };
+
+export interface ExpiryReminderOptions {
+  dataDir?: string;
+  /** How long before expiry to remind (e.g. 7 days, 1 day, 1 hour) */
+  leadTimesMs?: number[];
+  /** How often to scan for upcoming expiries */
+  intervalMs?: number;
+}
+
+interface ReminderState {
+  /** Reminder key -> ISO time it was sent */
+  sent: Record<string, string>;
+}
+
+/**
+ * Parse lead times like "7d,1d,1h,30m"
+ */
+export function parseLeadTimes(spec: string): number[] {
+  return spec
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const match = /^(\d+)\s*([mhd])$/i.exec(part);
+      if (!match) {
+        throw new Error(
+          `Invalid reminder lead time: "${part}" (use e.g. 7d, 12h, 30m)`,
+        );
+      }
+      return Number(match[1]) * UNIT_MS[match[2].toLowerCase()];
+    });
+}
+
+export function formatDuration(ms: number): string {
+  const [unit, size] =
+    ms >= DAY_MS
+      ? ["day", DAY_MS]
+      : ms >= HOUR_MS
+        ? ["hour", HOUR_MS]
+        : ["minute", MINUTE_MS];
+  const count = Math.round(ms / size);
+  return `${count} ${unit}${count === 1 ? "" : "s"}`;
+}
+
+export class ExpiryReminderScheduler {
+  private client: Client<unknown>;
+  private groupRegistry: GroupRegistry;
+  private auditEngine: MembershipAuditEngine;
+  private pricing: RenewalPricing;
+  private leadTimesMs: number[];
+  private intervalMs: number;
+  private file: string;
+  private state: ReminderState = { sent: {} };
+  private timer?: NodeJS.Timeout;
+  private checking = false;
+
+  constructor(
+    client: Client<unknown>,
+    groupRegistry: GroupRegistry,
+    auditEngine: MembershipAuditEngine,
+    pricing: RenewalPricing,
+    options: ExpiryReminderOptions = {},
+  ) {
+    this.client = client;
+    this.groupRegistry = groupRegistry;
+    this.auditEngine = auditEngine;
+    this.pricing = pricing;
+    this.leadTimesMs = [
+      ...(options.leadTimesMs ?? DEFAULT_REMINDER_LEAD_TIMES_MS),
+    ].sort((a, b) => a - b);
+    this.intervalMs = options.intervalMs ?? 5 * MINUTE_MS;
+
+    const dataDir = options.dataDir ?? "./.data";
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+    this.file = path.join(dataDir, "expiry-reminders.json");
+    this.load();
+  }
+
+  start(): void {
+    if (this.timer) return;
+    console.log(
+      `⏰ Expiry reminders active (${this.leadTimesMs.map(formatDuration).join(", ")} before expiry)`,
+    );
+    this.timer = setInterval(() => void this.checkReminders(), this.intervalMs);
+    void this.checkReminders();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Scan every group and send any reminders that are due
+   * @returns number of reminders sent
+   */
+  async checkReminders(now = Date.now()): Promise<number> {
+    if (this.checking) return 0;
+    this.checking = true;
+    let sent = 0;
+
+    try {
+      for (const config of this.groupRegistry.list()) {
+        if (config.settings?.notifications.expiringTokens === false) continue;
+
+        try {
+          const snapshot = await this.auditEngine.auditContract(config);
+          for (const member of snapshot.members) {
+            if (
+              !member.isPrivileged &&
+              (await this.remindMember(config, member, now))
+            ) {
+              sent++;
+            }
+          }
+        } catch (error) {
+          console.error(
+            `Error checking expiries for ${config.contractAddress}:`,
+            error,
+          );
+        }
+      }
+
+      this.prune(now);
+      this.save();
+    } finally {
+      this.checking = false;
+    }
+    return sent;
+  }
+
+  private async remindMember(
+    config: DualGroupConfig,
+    member: MemberAccess,
+    now: number,
+  ): Promise<boolean> {
+    const earliest = member.tokenExpiries.reduce<TokenExpiry | undefined>(
+      (min, t) => (!min || t.expiresAt < min.expiresAt ? t : min),
+      undefined,
+    );
+    if (!earliest) return false;
+
+    const remaining = earliest.expiresAt.getTime() - now;
+    const due = this.leadTimesMs.filter(
+      (lead) => remaining > 0 && remaining <= lead,
+    );
+    if (due.length === 0) return false;
+
+    // Only the most urgent reminder is sent; skipped longer ones are marked too
+    const keys = due.map((lead) =>
+      this.reminderKey(config, member, earliest, lead),
+    );
+    if (keys[0] in this.state.sent) return false;
+
+    const tier = tierForTokenId(config.tiers, earliest.tokenId);
+
+    try {
+      await this.sendReminder(config, member, earliest, tier, remaining);
+    } catch (error) {
+      console.error(
+        `Error sending expiry reminder to ${member.inboxId}:`,
+        error,
+      );
+      return false;
+    }
+
+    const sentAt = new Date(now).toISOString();
+    for (const key of keys) {
+      this.state.sent[key] = sentAt;
+    }
+    this.save();
+    console.log(
+      `⏰ Sent ${formatDuration(due[0])} expiry reminder to ${member.inboxId} (${config.metadata.name})`,
+    );
+    return true;
+  }
+
+  private async sendReminder(
+    config: DualGroupConfig,
+    member: MemberAccess,
+    expiry: TokenExpiry,
+    tier: AccessTier | undefined,
+    remainingMs: number,
+  ): Promise<void> {
+    const dm = await this.client.conversations.newDm(member.inboxId);
+    const tierName = tier?.name ?? `Token ${expiry.tokenId}`;
+
+    const message =
+      `⏰ **Your ${config.metadata.name} access expires in about ${formatDuration(remainingMs)}**\n\n` +
+      `🎫 Tier: ${tierName}\n` +
+      `📅 Expires: ${expiry.expiresAt.toUTCString()}\n\n`;
+
+    if (!tier) {
+      await dm.send(
+        message + `Use \`/buy-access\` in the sales group to renew.`,
+      );
+      return;
+    }
+
+    const quote = await quoteRenewal(this.pricing, config, tier);
+    const { paymentToken, amount, split } = quote;
+    const format = (value: bigint) =>
+      this.pricing.priceService.formatTokenAmount(value, paymentToken.symbol);
+    const price =
+      format(amount) +
+      (split.platformFee > 0n
+        ? ` + ${format(split.platformFee)} platform fee`
+        : "");
+
+    // Shares are only paid for renewals the verifier sees
+    if (!isNativeToken(paymentToken) || split.shares.length > 0) {
+      await dm.send(
+        message +
+          `Renew for another ${tier.durationDays} days (${price}) by replying:\n` +
+          `\`/renew ${config.contractAddress} ${tier.id}\``,
+      );
+      return;
+    }
+
+    await dm.send(
+      message +
+        `Renew for another ${tier.durationDays} days (${price}) by approving the purchase below.`,
+    );
+    const renewal = createRenewal(
+      config,
+      tier,
+      quote,
+      await this.pricing.evmAuthHandler.getPaymentWallet(
+        config.contractAddress,
+      ),
+      member.address,
+    );
+    await dm.send(renewal, ContentTypeWalletSendCalls);
+  }
+
+  private reminderKey(
+    config: DualGroupConfig,
+    member: MemberAccess,
+    expiry: TokenExpiry,
+    lead: number,
+  ): string {
+    // Keyed on the expiry, so a renewal (new expiry) starts a fresh schedule
+    const expiresAt = Math.floor(expiry.expiresAt.getTime() / 1000);
+    return [
+      config.contractAddress.toLowerCase(),
+      member.inboxId,
+      expiry.tokenId,
+      expiresAt,
+      lead,
+    ].join(":");
+  }
+
+  /**
+   * Forget reminders for expiries that have passed
+   */
+  private prune(now: number): void {
+    this.state.sent = Object.fromEntries(
+      Object.entries(this.state.sent).filter(
+        ([key]) => Number(key.split(":")[3]) * 1000 >= now,
+      ),
+    );
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.file)) {
+        this.state = JSON.parse(
+          fs.readFileSync(this.file, "utf8"),
+        ) as ReminderState;
+      }
+    } catch (error) {
+      console.error("Error loading expiry reminders:", error);
+    }
+  }
+
+  /**
+   * Save sent reminders (write-then-rename)
+   */
+  private save(): void {
+    try {
+      const tmpFile = `${this.file}.tmp`;
+      fs.writeFileSync(tmpFile, JSON.stringify(this.state, null, 2));
+      fs.renameSync(tmpFile, this.file);
+    } catch (error) {
+      console.error("Error saving expiry reminders:", error);
+    }
+  }
+}
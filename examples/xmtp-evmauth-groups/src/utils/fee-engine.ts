@@ -0,0 +1,189 @@
+/**
+ * Fee engine - splits each sale between the creator, the platform and the
+ * group's collaborators
+ * The platform fee is added to the price at the group's custom percentage,
+ * the payment token's rate or the default rate, clamped to the USD minimum
+ * and maximum, and the buyer pays it alongside the purchase. The group
+ * contract receives the price; once the purchase is confirmed the agent
+ * pays collaborators and the referrer their share out of it, and the
+ * creator keeps the rest.
+ */
+
+import type { Collaborator, FeeConfig, GroupConfig } from "../types/types";
+import type { PurchasePayout } from "./payment-transactions";
+import type { PaymentToken, PriceService } from "./price-service";
+
+export interface CollaboratorShare extends Collaborator {
+  amount: bigint;
+}
+
+export interface RevenueSplit {
+  /** Price after any discount, in the payment token's smallest unit */
+  price: bigint;
+  /** Kept for the creator: the price less collaborator shares and referral */
+  creatorAmount: bigint;
+  /** Added to the price for the platform */
+  platformFee: bigint;
+  /** Platform fee rate before the caps */
+  feeBasisPoints: number;
+  /** Whether the USD minimum or maximum replaced the rate */
+  feeCapped: boolean;
+  collaborators: CollaboratorShare[];
+  /** Referral reward, capped at what the collaborators leave the creator */
+  referralAmount: bigint;
+  /** Transfers from the buyer in the purchase bundle: the platform fee */
+  payouts: PurchasePayout[];
+  /**
+   * Paid by the agent out of the price once the purchase is confirmed:
+   * collaborator shares and the referral reward
+   */
+  shares: PurchasePayout[];
+  /** Price plus the platform fee */
+  total: bigint;
+}
+
+/** Most of the price collaborators can share between them */
+export const MAX_COLLABORATOR_SHARE = 90;
+
+/** Highest platform fee a group can be given */
+export const MAX_FEE_PERCENTAGE = 50;
+
+/**
+ * Parse a percentage such as "15" or "15%"
+ */
+export function parsePercent(input: string): number | null {
+  const value = Number(input.trim().replace(/%$/, ""));
+  return Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+/**
+ * Parse per-token fees such as "ETH:100,USDC:250" (basis points)
+ */
+export function parseTokenFees(input: string): Record<string, number> {
+  const fees: Record<string, number> = {};
+  for (const entry of input.split(",").filter((e) => e.trim())) {
+    const [symbol, basisPoints] = entry.split(":").map((part) => part.trim());
+    const value = Number(basisPoints);
+    if (!symbol || !Number.isInteger(value) || value < 0) {
+      throw new Error(
+        `Invalid token fee "${entry}", expected SYMBOL:basisPoints`,
+      );
+    }
+    fees[symbol.toUpperCase()] = value;
+  }
+  return fees;
+}
+
+export function totalCollaboratorShare(collaborators: Collaborator[]): number {
+  return collaborators.reduce((sum, c) => sum + c.sharePercent, 0);
+}
+
+function shareOf(amount: bigint, basisPoints: number): bigint {
+  return (amount * BigInt(Math.round(basisPoints))) / 10000n;
+}
+
+export class FeeEngine {
+  private feeConfig: FeeConfig;
+  private priceService: PriceService;
+
+  constructor(feeConfig: FeeConfig, priceService: PriceService) {
+    this.feeConfig = feeConfig;
+    this.priceService = priceService;
+  }
+
+  /**
+   * Platform fee rate for a group and payment token
+   */
+  feeBasisPoints(config: GroupConfig, token: PaymentToken): number {
+    const custom = config.settings?.customFeePercentage;
+    if (custom !== undefined) return Math.round(custom * 100);
+    return (
+      this.feeConfig.paymentMethodFees?.[token.toUpperCase()] ??
+      this.feeConfig.basisPoints
+    );
+  }
+
+  /**
+   * Split a sale of the given price
+   * A referral reward comes out of the creator's share.
+   */
+  async split(
+    config: GroupConfig,
+    token: PaymentToken,
+    price: bigint,
+    referral?: PurchasePayout,
+  ): Promise<RevenueSplit> {
+    const feeBasisPoints = this.feeConfig.recipient
+      ? this.feeBasisPoints(config, token)
+      : 0;
+    const uncapped = shareOf(price, feeBasisPoints);
+    const platformFee =
+      feeBasisPoints > 0 ? await this.clampFee(uncapped, token) : 0n;
+
+    const collaborators = (config.collaborators ?? []).map((c) => ({
+      ...c,
+      amount: shareOf(price, c.sharePercent * 100),
+    }));
+    const afterCollaborators = collaborators.reduce(
+      (rest, c) => rest - c.amount,
+      price,
+    );
+    const referralAmount = referral
+      ? referral.amount < afterCollaborators
+        ? referral.amount
+        : afterCollaborators
+      : 0n;
+
+    const payouts: PurchasePayout[] =
+      platformFee > 0n
+        ? [
+            {
+              to: this.feeConfig.recipient,
+              amount: platformFee,
+              description: "Platform fee",
+            },
+          ]
+        : [];
+    const shares: PurchasePayout[] = [
+      ...collaborators
+        .filter((c) => c.amount > 0n)
+        .map((c) => ({
+          to: c.address,
+          amount: c.amount,
+          description: `Collaborator share for ${c.address} (${c.sharePercent}%)`,
+        })),
+      ...(referral && referralAmount > 0n
+        ? [{ ...referral, amount: referralAmount }]
+        : []),
+    ];
+
+    return {
+      price,
+      creatorAmount: afterCollaborators - referralAmount,
+      platformFee,
+      feeBasisPoints,
+      feeCapped: platformFee !== uncapped,
+      collaborators,
+      referralAmount,
+      payouts,
+      shares,
+      total: price + platformFee,
+    };
+  }
+
+  /**
+   * Hold the fee between the configured USD minimum and maximum
+   */
+  private async clampFee(fee: bigint, token: PaymentToken): Promise<bigint> {
+    const { minimumFee, maximumFee } = this.feeConfig;
+    if (minimumFee !== undefined) {
+      const minimum = await this.priceService.fromUSD(minimumFee, token);
+      if (fee < minimum) fee = minimum;
+    }
+    if (maximumFee !== undefined) {
+      const maximum = await this.priceService.fromUSD(maximumFee, token);
+      if (fee > maximum) fee = maximum;
+    }
+    return fee;
+  }
+}
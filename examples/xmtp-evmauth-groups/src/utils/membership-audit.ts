@@ -0,0 +1,694 @@
+/**
+ * Batched membership audit engine
+ * Resolves every premium-group member's address and checks access for the
+ * whole group in a handful of multicall batches instead of per-member,
+ * per-token RPC calls.
+ */
+
+import type { Client, Group } from "@xmtp/node-sdk";
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  createPublicClient,
+  http,
+  maxUint256,
+  type Address,
+} from "viem";
+import { baseSepolia } from "viem/chains";
+import { EVMAUTH_V2_ABI, XMTP_GROUP_EXTENSION_ABI } from "../contracts/abis";
+import {
+  MissingExtensionError,
+  XMTPGroupExtensionClient,
+} from "../contracts/xmtp-group-extension-client";
+import type { AccessTier, DualGroupConfig } from "../types/types";
+
+/**
+ * Addresses (or address/tier pairs) per contract call. Each audit step sends
+ * all of its chunks in a single multicall request.
+ */
+const DEFAULT_BATCH_SIZE = 100;
+
+/** XMTPGroupExtension supports at most 10 tiers (token IDs 1-10) */
+const MAX_TIER_ID = 10;
+
+function toDate(seconds: bigint): Date {
+  return new Date(Number(seconds) * 1000);
+}
+
+/**
+ * Whether an extension lookup failed because the contract has none (no
+ * registration, or a base contract without `extensions()`) rather than an
+ * RPC error
+ */
+function hasNoExtension(error: unknown): boolean {
+  if (error instanceof MissingExtensionError) return true;
+  return (
+    error instanceof BaseError &&
+    error.walk(
+      (cause) =>
+        cause instanceof ContractFunctionRevertedError ||
+        cause instanceof ContractFunctionZeroDataError,
+    ) !== null
+  );
+}
+
+export interface AuditedMember {
+  inboxId: string;
+  address: string;
+  /** Bot, super admins and admins are never removed by an audit */
+  isPrivileged: boolean;
+}
+
+export interface TokenExpiry {
+  tokenId: number;
+  expiresAt: Date;
+}
+
+export interface MemberAccess extends AuditedMember {
+  hasAccess: boolean;
+  /**
+   * A batch covering this member failed and nothing else showed access, so
+   * `hasAccess: false` can't be trusted; audits must leave them alone
+   */
+  accessUnknown: boolean;
+  /** Tier token IDs with an unexpired balance */
+  tokenIds: number[];
+  /** Latest expiry across the held tiers (undefined without a balance) */
+  expiresAt?: Date;
+  /** Latest unexpired expiry of each held tier */
+  tokenExpiries: TokenExpiry[];
+  /** Tiers the member bought through the extension that have since expired */
+  expiredTokenIds: number[];
+}
+
+export interface TokenHolding {
+  contractAddress: string;
+  tokenId: number;
+  balance: bigint;
+  /** Latest expiry of the held balance (undefined if the tier never expires) */
+  expiresAt?: Date;
+}
+
+export interface LapsedToken {
+  contractAddress: string;
+  tokenId: number;
+  expiredAt: Date;
+}
+
+export interface HolderTokens {
+  active: TokenHolding[];
+  /** Extension purchases that have expired, latest per contract and tier */
+  lapsed: LapsedToken[];
+}
+
+export interface ContractAccessSnapshot {
+  contractAddress: string;
+  /** Tier token IDs that were scanned */
+  tierIds: number[];
+  members: MemberAccess[];
+}
+
+export class MembershipAuditEngine {
+  private client: Client<unknown>;
+  private publicClient;
+  private batchSize: number;
+  private extensions = new Map<string, XMTPGroupExtensionClient | null>();
+
+  constructor(
+    client: Client<unknown>,
+    rpcUrl: string,
+    options: { batchSize?: number } = {},
+  ) {
+    this.client = client;
+    this.publicClient = createPublicClient({
+      chain: baseSepolia,
+      transport: http(rpcUrl),
+    });
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  }
+
+  /**
+   * Check access for every member of a group's premium group
+   */
+  async auditContract(
+    config: DualGroupConfig,
+  ): Promise<ContractAccessSnapshot> {
+    const members = await this.resolveGroupMembers(config.premiumGroupId);
+    return this.checkMembers(config.contractAddress, members, config.tiers);
+  }
+
+  /**
+   * Check access for a known set of members
+   * A member has access when the XMTP extension reports a valid purchase or
+   * they hold an unexpired balance of one of the contract's tiers (covers
+   * tokens issued directly on the base contract). Members whose access or
+   * balance batch failed are flagged `accessUnknown` instead of losing access.
+   */
+  async checkMembers(
+    contractAddress: string,
+    members: AuditedMember[],
+    tiers: AccessTier[] = [],
+  ): Promise<ContractAccessSnapshot> {
+    const tierIds = await this.getTierIds(contractAddress, tiers);
+
+    const addresses = [
+      ...new Set(members.map((m) => m.address.toLowerCase())),
+    ] as Address[];
+
+    const extension = await this.getExtension(contractAddress);
+    const unchecked = new Set<string>();
+    const [xmtpAccess, balances] = await Promise.all([
+      extension
+        ? this.batchCheckXMTPAccess(extension.address, addresses, unchecked)
+        : new Map<string, boolean>(),
+      this.batchBalances(contractAddress, addresses, tierIds, unchecked),
+    ]);
+
+    // Expiry details are only fetched for pairs that actually hold a balance
+    const held = [...balances.entries()].flatMap(([address, ids]) =>
+      ids.map((id) => ({ address, id })),
+    );
+    const lapsed = addresses.filter(
+      (address) => xmtpAccess.get(address) !== true && !balances.has(address),
+    );
+    const [expiries, expired] = await Promise.all([
+      this.batchExpiries(contractAddress, held),
+      extension
+        ? this.batchExpiredPurchases(extension.address, lapsed)
+        : new Map<string, number[]>(),
+    ]);
+
+    return {
+      contractAddress,
+      tierIds,
+      members: members.map((member) => {
+        const address = member.address.toLowerCase();
+        const tokenIds = balances.get(address) ?? [];
+        const tokenExpiries = [...(expiries.get(address) ?? [])].map(
+          ([tokenId, expiresAt]) => ({
+            tokenId,
+            expiresAt: new Date(Number(expiresAt) * 1000),
+          }),
+        );
+        const latest = Math.max(
+          ...tokenExpiries.map((t) => t.expiresAt.getTime()),
+        );
+        const hasAccess =
+          xmtpAccess.get(address) === true || tokenIds.length > 0;
+        return {
+          ...member,
+          hasAccess,
+          accessUnknown: !hasAccess && unchecked.has(address),
+          tokenIds,
+          expiresAt: tokenExpiries.length > 0 ? new Date(latest) : undefined,
+          tokenExpiries,
+          expiredTokenIds: expired.get(address) ?? [],
+        };
+      }),
+    };
+  }
+
+  /**
+   * Every token one address holds across a set of contracts
+   * One multicall for the balances of all contracts, plus two for the
+   * expired extension purchases.
+   */
+  async getHolderTokens(
+    address: string,
+    configs: DualGroupConfig[],
+  ): Promise<HolderTokens> {
+    if (configs.length === 0) {
+      return { active: [], lapsed: [] };
+    }
+
+    const holder = address as Address;
+    const contracts = await Promise.all(
+      configs.map(async (config) => ({
+        contractAddress: config.contractAddress,
+        tierIds: await this.getTierIds(config.contractAddress, config.tiers),
+        extension: await this.getExtension(config.contractAddress),
+      })),
+    );
+
+    const details = await this.publicClient.multicall({
+      batchSize: 0,
+      contracts: contracts.map(({ contractAddress, tierIds }) => ({
+        address: contractAddress as Address,
+        abi: EVMAUTH_V2_ABI,
+        functionName: "balanceDetailsOfBatch" as const,
+        args: [
+          tierIds.map(() => holder),
+          tierIds.map((id) => BigInt(id)),
+        ] as const,
+      })),
+    });
+
+    const active: TokenHolding[] = [];
+    details.forEach((result, i) => {
+      const { contractAddress, tierIds } = contracts[i];
+      if (result.status !== "success") {
+        console.error(
+          `⚠️ balanceDetailsOfBatch failed for ${contractAddress}:`,
+          result.error,
+        );
+        return;
+      }
+      tierIds.forEach((tokenId, j) => {
+        const groups = result.result[j];
+        const balance = groups.reduce((sum, g) => sum + g.balance, 0n);
+        if (balance === 0n) return;
+        const latest = groups.reduce(
+          (max, g) => (g.expiresAt > max ? g.expiresAt : max),
+          0n,
+        );
+        active.push({
+          contractAddress,
+          tokenId,
+          balance,
+          // Tiers without a TTL are minted with expiresAt = type(uint256).max
+          expiresAt: latest === maxUint256 ? undefined : toDate(latest),
+        });
+      });
+    });
+
+    const lapsed = await this.holderLapsedPurchases(
+      holder,
+      contracts.flatMap(({ contractAddress, extension }) =>
+        extension ? [{ contractAddress, extension: extension.address }] : [],
+      ),
+      active,
+    );
+
+    return { active, lapsed };
+  }
+
+  /**
+   * Unexpired balance and latest expiry of address/tier pairs, keyed by
+   * lowercased address then tier
+   * Pairs in a failed batch are left out, so a missing entry means the
+   * balance is unknown rather than zero.
+   */
+  async getTierBalances(
+    contractAddress: string,
+    pairs: Array<{ address: string; id: number }>,
+  ): Promise<Map<string, Map<number, TokenHolding>>> {
+    const balances = new Map<string, Map<number, TokenHolding>>();
+    if (pairs.length === 0) {
+      return balances;
+    }
+
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    const chunks = this.chunk(pairs);
+    const results = await this.publicClient.multicall({
+      batchSize: 0,
+      contracts: chunks.map((chunk) => ({
+        address: contractAddress as Address,
+        abi: EVMAUTH_V2_ABI,
+        functionName: "balanceDetailsOfBatch" as const,
+        args: [
+          chunk.map((p) => p.address as Address),
+          chunk.map((p) => BigInt(p.id)),
+        ] as const,
+      })),
+    });
+
+    results.forEach((result, i) => {
+      if (result.status !== "success") {
+        console.error(
+          `⚠️ balanceDetailsOfBatch chunk ${i} failed:`,
+          result.error,
+        );
+        return;
+      }
+      chunks[i].forEach(({ address, id }, j) => {
+        const unexpired = result.result[j].filter((g) => g.expiresAt > now);
+        const latest = unexpired.reduce(
+          (max, g) => (g.expiresAt > max ? g.expiresAt : max),
+          0n,
+        );
+        const perTier =
+          balances.get(address.toLowerCase()) ??
+          new Map<number, TokenHolding>();
+        perTier.set(id, {
+          contractAddress,
+          tokenId: id,
+          balance: unexpired.reduce((sum, g) => sum + g.balance, 0n),
+          expiresAt:
+            latest === 0n || latest === maxUint256 ? undefined : toDate(latest),
+        });
+        balances.set(address.toLowerCase(), perTier);
+      });
+    });
+    return balances;
+  }
+
+  /**
+   * Tier IDs that exist for a contract: the extension's active tiers, else
+   * the configured tiers (token ID = position + 1), else every possible ID
+   */
+  async getTierIds(
+    contractAddress: string,
+    tiers: AccessTier[] = [],
+  ): Promise<number[]> {
+    const extension = await this.getExtension(contractAddress);
+    if (extension) {
+      try {
+        const active = await extension.getActiveXMTPTiers();
+        if (active.length > 0) {
+          return active.map(Number);
+        }
+      } catch (error) {
+        console.error(
+          `⚠️ Could not read active tiers for ${contractAddress}:`,
+          error,
+        );
+      }
+    }
+    if (tiers.length > 0) {
+      return tiers.map((_, index) => index + 1);
+    }
+    return Array.from({ length: MAX_TIER_ID }, (_, index) => index + 1);
+  }
+
+  /**
+   * Resolve group members to their Ethereum addresses
+   */
+  async resolveGroupMembers(groupId: string): Promise<AuditedMember[]> {
+    const group = (await this.client.conversations.getConversationById(
+      groupId,
+    )) as Group | undefined;
+    if (!group) {
+      throw new Error(`Group not found: ${groupId}`);
+    }
+
+    await group.sync();
+    const members = await group.members();
+
+    return members.flatMap((member) => {
+      const identifier = member.accountIdentifiers[0] as
+        { identifier: string } | undefined;
+      if (!identifier) {
+        return [];
+      }
+      return [
+        {
+          inboxId: member.inboxId,
+          address: identifier.identifier,
+          isPrivileged:
+            member.inboxId.toLowerCase() ===
+              this.client.inboxId.toLowerCase() ||
+            group.isSuperAdmin(member.inboxId) ||
+            group.isAdmin(member.inboxId),
+        },
+      ];
+    });
+  }
+
+  private async getExtension(
+    contractAddress: string,
+  ): Promise<XMTPGroupExtensionClient | null> {
+    const key = contractAddress.toLowerCase();
+    if (!this.extensions.has(key)) {
+      try {
+        this.extensions.set(
+          key,
+          await XMTPGroupExtensionClient.fromBaseContract(
+            contractAddress,
+            this.publicClient,
+          ),
+        );
+      } catch (error) {
+        // Contracts without the extension are audited on balances alone. RPC
+        // errors aren't cached: that would drop members with only a purchase
+        // record until restart.
+        if (!hasNoExtension(error)) throw error;
+        this.extensions.set(key, null);
+      }
+    }
+    return this.extensions.get(key) ?? null;
+  }
+
+  /**
+   * batchCheckXMTPAccess over all addresses, chunked into one multicall
+   * Addresses in failed chunks are added to `unchecked`.
+   */
+  private async batchCheckXMTPAccess(
+    extensionAddress: Address,
+    addresses: Address[],
+    unchecked: Set<string>,
+  ): Promise<Map<string, boolean>> {
+    const chunks = this.chunk(addresses);
+    const results = await this.publicClient.multicall({
+      batchSize: 0,
+      contracts: chunks.map((users) => ({
+        address: extensionAddress,
+        abi: XMTP_GROUP_EXTENSION_ABI,
+        functionName: "batchCheckXMTPAccess" as const,
+        args: [users] as const,
+      })),
+    });
+
+    const access = new Map<string, boolean>();
+    results.forEach((result, i) => {
+      if (result.status !== "success") {
+        console.error(
+          `⚠️ batchCheckXMTPAccess chunk ${i} failed:`,
+          result.error,
+        );
+        chunks[i].forEach((user) => unchecked.add(user));
+        return;
+      }
+      chunks[i].forEach((user, j) => access.set(user, result.result[j]));
+    });
+    return access;
+  }
+
+  /**
+   * balanceOfBatch over every (address, tier) pair, chunked into one multicall
+   * Addresses with a pair in a failed chunk are added to `unchecked`.
+   * @returns tier IDs with an unexpired balance per address
+   */
+  private async batchBalances(
+    contractAddress: string,
+    addresses: Address[],
+    tierIds: number[],
+    unchecked: Set<string>,
+  ): Promise<Map<string, number[]>> {
+    const pairs = addresses.flatMap((address) =>
+      tierIds.map((id) => ({ address, id })),
+    );
+    const held = new Map<string, number[]>();
+    if (pairs.length === 0) {
+      return held;
+    }
+
+    const chunks = this.chunk(pairs);
+    const results = await this.publicClient.multicall({
+      batchSize: 0,
+      contracts: chunks.map((chunk) => ({
+        address: contractAddress as Address,
+        abi: EVMAUTH_V2_ABI,
+        functionName: "balanceOfBatch" as const,
+        args: [
+          chunk.map((p) => p.address),
+          chunk.map((p) => BigInt(p.id)),
+        ] as const,
+      })),
+    });
+
+    results.forEach((result, i) => {
+      if (result.status !== "success") {
+        console.error(`⚠️ balanceOfBatch chunk ${i} failed:`, result.error);
+        chunks[i].forEach(({ address }) => unchecked.add(address));
+        return;
+      }
+      chunks[i].forEach(({ address, id }, j) => {
+        if (result.result[j] > 0n) {
+          held.set(address, [...(held.get(address) ?? []), id]);
+        }
+      });
+    });
+    return held;
+  }
+
+  /**
+   * Latest unexpired expiry per address and tier via balanceDetailsOfBatch
+   */
+  private async batchExpiries(
+    contractAddress: string,
+    pairs: Array<{ address: string; id: number }>,
+  ): Promise<Map<string, Map<number, bigint>>> {
+    const expiries = new Map<string, Map<number, bigint>>();
+    if (pairs.length === 0) {
+      return expiries;
+    }
+
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    const chunks = this.chunk(pairs);
+    const results = await this.publicClient.multicall({
+      batchSize: 0,
+      contracts: chunks.map((chunk) => ({
+        address: contractAddress as Address,
+        abi: EVMAUTH_V2_ABI,
+        functionName: "balanceDetailsOfBatch" as const,
+        args: [
+          chunk.map((p) => p.address as Address),
+          chunk.map((p) => BigInt(p.id)),
+        ] as const,
+      })),
+    });
+
+    results.forEach((result, i) => {
+      if (result.status !== "success") {
+        console.error(
+          `⚠️ balanceDetailsOfBatch chunk ${i} failed:`,
+          result.error,
+        );
+        return;
+      }
+      chunks[i].forEach(({ address, id }, j) => {
+        for (const group of result.result[j]) {
+          const perTier = expiries.get(address) ?? new Map<number, bigint>();
+          if (
+            group.expiresAt > now &&
+            group.expiresAt > (perTier.get(id) ?? 0n)
+          ) {
+            perTier.set(id, group.expiresAt);
+            expiries.set(address, perTier);
+          }
+        }
+      });
+    });
+    return expiries;
+  }
+
+  /**
+   * Token IDs of expired extension purchase records per address
+   * Two multicalls: the record indexes, then the records themselves.
+   */
+  private async batchExpiredPurchases(
+    extensionAddress: Address,
+    addresses: Address[],
+  ): Promise<Map<string, number[]>> {
+    const expired = new Map<string, number[]>();
+    if (addresses.length === 0) {
+      return expired;
+    }
+
+    const indexResults = await this.publicClient.multicall({
+      batchSize: 0,
+      contracts: addresses.map((user) => ({
+        address: extensionAddress,
+        abi: XMTP_GROUP_EXTENSION_ABI,
+        functionName: "getXMTPUserPurchases" as const,
+        args: [user] as const,
+      })),
+    });
+
+    const lookups = indexResults.flatMap((result, i) =>
+      result.status === "success"
+        ? result.result.map((index) => ({ address: addresses[i], index }))
+        : [],
+    );
+    if (lookups.length === 0) {
+      return expired;
+    }
+
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    const records = await this.publicClient.multicall({
+      batchSize: 0,
+      contracts: lookups.map(({ index }) => ({
+        address: extensionAddress,
+        abi: XMTP_GROUP_EXTENSION_ABI,
+        functionName: "getXMTPPurchaseRecord" as const,
+        args: [index] as const,
+      })),
+    });
+
+    records.forEach((result, i) => {
+      if (result.status !== "success" || result.result.expiresAt > now) {
+        return;
+      }
+      const { address } = lookups[i];
+      const tokenId = Number(result.result.tokenId);
+      const ids = expired.get(address) ?? [];
+      if (!ids.includes(tokenId)) {
+        expired.set(address, [...ids, tokenId]);
+      }
+    });
+    return expired;
+  }
+
+  /**
+   * Expired extension purchases of one address, skipping tiers still held
+   */
+  private async holderLapsedPurchases(
+    holder: Address,
+    extensions: Array<{ contractAddress: string; extension: Address }>,
+    active: TokenHolding[],
+  ): Promise<LapsedToken[]> {
+    if (extensions.length === 0) {
+      return [];
+    }
+
+    const indexResults = await this.publicClient.multicall({
+      batchSize: 0,
+      contracts: extensions.map(({ extension }) => ({
+        address: extension,
+        abi: XMTP_GROUP_EXTENSION_ABI,
+        functionName: "getXMTPUserPurchases" as const,
+        args: [holder] as const,
+      })),
+    });
+
+    const lookups = indexResults.flatMap((result, i) =>
+      result.status === "success"
+        ? result.result.map((index) => ({ ...extensions[i], index }))
+        : [],
+    );
+    if (lookups.length === 0) {
+      return [];
+    }
+
+    const records = await this.publicClient.multicall({
+      batchSize: 0,
+      contracts: lookups.map(({ extension, index }) => ({
+        address: extension,
+        abi: XMTP_GROUP_EXTENSION_ABI,
+        functionName: "getXMTPPurchaseRecord" as const,
+        args: [index] as const,
+      })),
+    });
+
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    const latest = new Map<string, LapsedToken>();
+    records.forEach((result, i) => {
+      if (result.status !== "success" || result.result.expiresAt > now) {
+        return;
+      }
+      const { contractAddress } = lookups[i];
+      const tokenId = Number(result.result.tokenId);
+      const stillHeld = active.some(
+        (t) =>
+          t.tokenId === tokenId &&
+          t.contractAddress.toLowerCase() === contractAddress.toLowerCase(),
+      );
+      const key = `${contractAddress.toLowerCase()}:${tokenId}`;
+      const expiredAt = toDate(result.result.expiresAt);
+      const previous = latest.get(key)?.expiredAt.getTime() ?? 0;
+      if (!stillHeld && expiredAt.getTime() > previous) {
+        latest.set(key, { contractAddress, tokenId, expiredAt });
+      }
+    });
+    return [...latest.values()];
+  }
+
+  private chunk<T>(items: T[]): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += this.batchSize) {
+      chunks.push(items.slice(i, i + this.batchSize));
+    }
+    return chunks;
+  }
+}
@@ -1,264 +1,484 @@
 /**
  * Payment monitoring and contract deployment workflow
+ * Each creation payment carries a unique reference as calldata. Native ETH
+ * transfers emit no logs, so new blocks are read once each from a persisted
+ * cursor and matched on that reference; consumed tx hashes are stored so a
+ * transaction can never pay for two requests.
+ * Smart wallets (ERC-4337 bundles, EIP-7702 batches) pay through an internal
+ * call, so any transaction whose calldata contains a watched reference is
+ * traced (debug_traceTransaction) to find the transfer and the paying wallet.
+ * Payments are stored by conversation ID and resumed on startup. A fee
+ * that was paid but not fulfilled is refunded through the RefundManager,
+ * or reported as PAYMENT_ORPHANED when it can't be refunded automatically.
  */
 
-import { createPublicClient, http, parseEther } from "viem";
+import type { Client } from "@xmtp/node-sdk";
+import {
+  createPublicClient,
+  formatEther,
+  http,
+  rpcSchema,
+  type Address,
+  type Hex,
+} from "viem";
 import { baseSepolia } from "viem/chains";
+import type { GroupStore, PaymentRecord, PaymentStatus } from "../database/group-store";
+import { AgentEventBus } from "../events/event-bus";
 import type { EnhancedGroupManager } from "../managers/enhanced-group-flow";
-import type { DualGroupConfig } from "../types/types";
+import type { GroupRegistry } from "../managers/group-registry";
+import { GROUP_CREATION_FEE_WEI } from "./payment-transactions";
+import type { RefundManager } from "./refund-manager";
+
+/** Most blocks read per check, so catching up after downtime stays bounded */
+const MAX_BLOCKS_PER_CHECK = 50n;
+
+/** Unpaid requests expire this long after they were created */
+const PAYMENT_TIMEOUT_MS = 10 * 60 * 1000;
+
+/** Blocks keep being scanned this long after an expiry to catch late payments */
+const LATE_PAYMENT_WINDOW_MS = 60 * 60 * 1000;
+
+/** Frame of a callTracer trace */
+interface CallFrame {
+  from: Address;
+  to?: Address;
+  input: Hex;
+  value?: Hex;
+  error?: string;
+  calls?: CallFrame[];
+}
+
+type TraceRpcSchema = [
+  {
+    Method: "debug_traceTransaction";
+    Parameters: [Hex, { tracer: "callTracer" }];
+    ReturnType: CallFrame;
+  },
+];
+
+export interface PaymentMonitorOptions {
+  /** Blocks a payment needs (including its own) before it is processed */
+  confirmations?: number;
+  /** How often to check for payments */
+  intervalMs?: number;
+}
 
 export class PaymentMonitor {
+  private client: Client<unknown>;
   private publicClient;
   private agentAddress: string;
   private enhancedGroupManager: EnhancedGroupManager;
-  private groupConfigs: Map<string, DualGroupConfig>;
-  private pendingPayments: Map<string, {
-    senderInboxId: string;
-    groupName: string;
-    memberAddress: string;
-    conversation: any;
-    timestamp: number;
-  }>;
+  private groupRegistry: GroupRegistry;
+  private database: GroupStore;
+  private eventBus: AgentEventBus;
+  private refundManager?: RefundManager;
+  private confirmations: bigint;
+  private intervalMs: number;
+  /** Cache of the store's pending payments, keyed by payment ID */
+  private pendingPayments = new Map<string, PaymentRecord>();
+  /** When the most recent request expired, for late payment detection */
+  private lastExpiryAt = 0;
+  private checking = false;
 
   constructor(
+    client: Client<unknown>,
     rpcUrl: string,
     agentAddress: string,
     enhancedGroupManager: EnhancedGroupManager,
-    groupConfigs: Map<string, DualGroupConfig>
+    groupRegistry: GroupRegistry,
+    database: GroupStore,
+    eventBus: AgentEventBus = new AgentEventBus(),
+    options: PaymentMonitorOptions = {},
+    refundManager?: RefundManager
   ) {
+    this.client = client;
     this.publicClient = createPublicClient({
       chain: baseSepolia,
       transport: http(rpcUrl),
+      rpcSchema: rpcSchema<TraceRpcSchema>(),
     });
     this.agentAddress = agentAddress;
     this.enhancedGroupManager = enhancedGroupManager;
-    this.groupConfigs = groupConfigs;
-    this.pendingPayments = new Map();
+    this.groupRegistry = groupRegistry;
+    this.database = database;
+    this.eventBus = eventBus;
+    this.refundManager = refundManager;
+    this.confirmations = BigInt(Math.max(1, options.confirmations ?? 3));
+    this.intervalMs = options.intervalMs ?? 30000;
   }
 
   /**
    * Register a pending payment for monitoring
    */
-  registerPendingPayment(
+  async registerPendingPayment(
     paymentId: string,
     senderInboxId: string,
     groupName: string,
     memberAddress: string,
-    conversation: any
+    reference: Hex,
+    conversation: { id: string }
   ) {
-    this.pendingPayments.set(paymentId, {
+    const now = new Date().toISOString();
+    const payment: PaymentRecord = {
+      id: paymentId,
       senderInboxId,
       groupName,
       memberAddress,
-      conversation,
-      timestamp: Date.now(),
-    });
+      reference: reference.toLowerCase(),
+      conversationId: conversation.id,
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+    };
 
-    console.log(`📝 Registered pending payment: ${paymentId} for group: ${groupName}`);
+    await this.database.savePayment(payment);
+    this.pendingPayments.set(paymentId, payment);
+
+    console.log(`📝 Registered pending payment: ${paymentId} for group: ${groupName} (ref ${reference})`);
   }
 
   /**
    * Start monitoring for payments
    */
   async startPaymentMonitoring() {
-    console.log("👀 Starting payment monitoring...");
-    
-    // Check for payments every 30 seconds
+    console.log(`👀 Starting payment monitoring (${this.confirmations} confirmations)...`);
+    await this.resumePayments();
+
     setInterval(async () => {
       await this.checkForPayments();
-    }, 30000);
+    }, this.intervalMs);
 
     // Also check immediately
     await this.checkForPayments();
   }
 
   /**
-   * Check for incoming payments and process them
+   * Reload pending payments from the store. Payments left in "paid" were
+   * interrupted mid-deployment and are reported as orphaned.
    */
-  private async checkForPayments() {
+  private async resumePayments() {
+    for (const payment of await this.database.getPayments("pending")) {
+      this.pendingPayments.set(payment.id, payment);
+    }
+    if (this.pendingPayments.size > 0) {
+      console.log(`🔄 Resumed ${this.pendingPayments.size} pending payments`);
+    }
+    for (const payment of await this.database.getPayments("expired")) {
+      this.lastExpiryAt = Math.max(this.lastExpiryAt, Date.parse(payment.updatedAt));
+    }
+
+    // The deployment may or may not have gone through, so no automatic refund
+    for (const payment of await this.database.getPayments("paid")) {
+      await this.setStatus(payment, "orphaned");
+      await this.reportOrphan(
+        payment,
+        payment.memberAddress,
+        payment.txHash,
+        undefined,
+        "Agent restarted while deploying the group"
+      );
+    }
+  }
+
+  /**
+   * Check for incoming payments and process them (runs every intervalMs
+   * once monitoring has started)
+   */
+  async checkForPayments() {
+    if (this.checking) return;
+    this.checking = true;
+
     try {
-      // Get current block number
-      const currentBlock = await this.publicClient.getBlockNumber();
-      
-      // Check last 50 blocks for transactions to agent address
-      const fromBlock = currentBlock - 50n;
-      
-      // Get recent transactions to agent address
+      // Blocks missed while offline are scanned before anything times out
+      const caughtUp = await this.scanNewBlocks();
+      if (caughtUp) {
+        await this.expireStalePayments();
+      }
+
+      for (const [paymentId, payment] of this.pendingPayments.entries()) {
+        // Still waiting for payment - NO FALLBACK, only process on actual blockchain confirmation
+        const elapsedMinutes = Math.round((Date.now() - Date.parse(payment.createdAt)) / 60000);
+        console.log(`⏳ Still waiting for payment ${paymentId} (${elapsedMinutes} minutes elapsed)`);
+
+        // Warn user if payment is taking too long
+        if (elapsedMinutes >= 3 && elapsedMinutes % 2 === 1) { // Every 2 minutes after 3 minutes
+          await this.notify(
+            payment,
+            `⏳ Still waiting for payment...\n\n` +
+            `It's been ${elapsedMinutes} minutes since you requested group creation.\n` +
+            `If you haven't approved the transaction yet, please check your wallet.\n` +
+            `If you approved it, the blockchain confirmation may take a few more minutes.`
+          );
+        }
+      }
+    } catch (error) {
+      console.error("Error checking for payments:", error);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Expire payments that have waited longer than the timeout
+   */
+  private async expireStalePayments() {
+    for (const [paymentId, payment] of this.pendingPayments.entries()) {
+      if (Date.now() - Date.parse(payment.createdAt) <= PAYMENT_TIMEOUT_MS) continue;
+
+      console.log(`⏰ Payment ${paymentId} expired, removing...`);
+      this.pendingPayments.delete(paymentId);
+      await this.setStatus(payment, "expired");
+      this.lastExpiryAt = Date.now();
+
+      // Send timeout message
+      await this.notify(
+        payment,
+        `⏰ Payment Timeout\n\n` +
+        `Your group creation request for "${payment.groupName}" has expired.\n` +
+        `Please try again with /create-group ${payment.groupName}`
+      );
+
+      await this.eventBus.publish({
+        type: "PAYMENT_EXPIRED",
+        data: { senderInboxId: payment.senderInboxId, groupName: payment.groupName },
+      });
+    }
+  }
+
+  /**
+   * Read every confirmed block past the stored cursor once, matching
+   * transactions to the agent against payment references
+   * @returns true once the cursor has reached the confirmed head
+   */
+  private async scanNewBlocks(): Promise<boolean> {
+    const head = await this.publicClient.getBlockNumber();
+    const confirmedHead = head - this.confirmations + 1n;
+    const cursor = BigInt(await this.database.getLastScannedBlock());
+
+    // Nothing can match without pending or recently expired payments;
+    // just move the cursor up
+    const watching =
+      this.pendingPayments.size > 0 ||
+      Date.now() - this.lastExpiryAt < LATE_PAYMENT_WINDOW_MS;
+    if (!watching || cursor === 0n) {
+      if (confirmedHead > cursor) {
+        await this.database.updateLastScannedBlock(Number(confirmedHead));
+      }
+      return true;
+    }
+
+    const toBlock = cursor + MAX_BLOCKS_PER_CHECK < confirmedHead
+      ? cursor + MAX_BLOCKS_PER_CHECK
+      : confirmedHead;
+    const references = await this.watchedReferences();
+
+    for (let blockNumber = cursor + 1n; blockNumber <= toBlock; blockNumber++) {
       const block = await this.publicClient.getBlock({
-        blockNumber: currentBlock,
+        blockNumber,
         includeTransactions: true,
       });
 
-      // Check pending payments
-      for (const [paymentId, payment] of this.pendingPayments.entries()) {
-        // Check if payment is too old (more than 10 minutes)
-        if (Date.now() - payment.timestamp > 10 * 60 * 1000) {
-          console.log(`⏰ Payment ${paymentId} expired, removing...`);
-          this.pendingPayments.delete(paymentId);
-          
-          // Send timeout message
-          await payment.conversation.send(
-            `⏰ Payment Timeout\n\n` +
-            `Your group creation request for "${payment.groupName}" has expired.\n` +
-            `Please try again with /create-group ${payment.groupName}`
-          );
+      for (const tx of block.transactions) {
+        if (tx.to?.toLowerCase() === this.agentAddress.toLowerCase()) {
+          await this.matchTransaction(tx.hash, tx.from, tx.input, tx.value);
           continue;
         }
-
-        // Check actual blockchain transactions for this payment
-        const hasPayment = await this.checkBlockchainForPayment(payment, fromBlock, currentBlock);
-        
-        if (hasPayment) {
-          console.log(`💰 Payment confirmed on blockchain for ${paymentId}!`);
-          await this.processPayment(paymentId, payment);
-        } else {
-          // Still waiting for payment - NO FALLBACK, only process on actual blockchain confirmation
-          const elapsedMinutes = Math.round((Date.now() - payment.timestamp) / 60000);
-          console.log(`⏳ Still waiting for payment ${paymentId} (${elapsedMinutes} minutes elapsed)`);
-          
-          // Warn user if payment is taking too long
-          if (elapsedMinutes >= 3 && elapsedMinutes % 2 === 1) { // Every 2 minutes after 3 minutes
-            await payment.conversation.send(
-              `⏳ Still waiting for payment...\n\n` +
-              `It's been ${elapsedMinutes} minutes since you requested group creation.\n` +
-              `If you haven't approved the transaction yet, please check your wallet.\n` +
-              `If you approved it, the blockchain confirmation may take a few more minutes.`
-            );
-          }
+        // Payments made from a contract wallet carry the reference nested
+        // in the outer call's calldata
+        const input = tx.input.toLowerCase();
+        const reference = references.find((r) => input.includes(r.slice(2)));
+        if (reference) {
+          await this.matchInternalPayment(tx.hash, reference);
         }
       }
 
-    } catch (error) {
-      console.error("Error checking for payments:", error);
+      // Advance per block so a crash mid-scan never skips or re-reads much
+      await this.database.updateLastScannedBlock(Number(blockNumber));
     }
+
+    return toBlock >= confirmedHead;
   }
 
   /**
-   * Check blockchain for actual payment transactions
+   * References a payment could still arrive for: pending requests and those
+   * that expired within the late payment window
    */
-  private async checkBlockchainForPayment(
-    payment: { memberAddress: string; timestamp: number },
-    fromBlock: bigint,
-    toBlock: bigint
-  ): Promise<boolean> {
+  private async watchedReferences(): Promise<string[]> {
+    const recentlyExpired = (await this.database.getPayments("expired")).filter(
+      (p) => Date.now() - Date.parse(p.updatedAt) < LATE_PAYMENT_WINDOW_MS
+    );
+    return [...this.pendingPayments.values(), ...recentlyExpired].map(
+      (p) => p.reference
+    );
+  }
+
+  /**
+   * Trace a transaction whose calldata contains a reference and match the
+   * internal call that pays the agent with it. The payer is the wallet that
+   * made that call, not the bundler or relayer that sent the transaction.
+   */
+  private async matchInternalPayment(txHash: Hex, reference: string) {
+    let trace: CallFrame;
     try {
-      // Look for transactions from the payer to the agent
-      // This is a simplified check - in production you'd want more robust verification
-      
-      // Get transaction history for the last few blocks
-      for (let blockNum = fromBlock; blockNum <= toBlock; blockNum++) {
-        const block = await this.publicClient.getBlock({
-          blockNumber: blockNum,
-          includeTransactions: true,
-        });
-
-        if (block.transactions) {
-          for (const tx of block.transactions) {
-            if (typeof tx === 'object' && tx.to && tx.from && tx.value) {
-              // Check if transaction is to agent address with expected amount
-              if (
-                tx.to.toLowerCase() === this.agentAddress.toLowerCase() &&
-                tx.from.toLowerCase() === payment.memberAddress.toLowerCase() &&
-                BigInt(tx.value) >= parseEther("0.001") // At least 0.001 ETH
-              ) {
-                // Get transaction receipt to confirm it was successful
-                const receipt = await this.publicClient.getTransactionReceipt({
-                  hash: tx.hash,
-                });
-                
-                if (receipt.status === 'success') {
-                  console.log(`✅ Found confirmed payment: ${tx.hash}`);
-                  return true;
-                }
-              }
-            }
-          }
-        }
-      }
-      
-      return false;
+      trace = await this.publicClient.request({
+        method: "debug_traceTransaction",
+        params: [txHash, { tracer: "callTracer" }],
+      });
     } catch (error) {
-      console.error("Error checking blockchain for payment:", error);
-      return false;
+      console.error(`⚠️ Could not trace ${txHash}; its payment can't be verified:`, error);
+      // The amount and payer are unknown, so the operator settles it
+      await this.matchTransaction(txHash, undefined, reference as Hex, undefined);
+      return;
     }
+
+    const payments = this.agentCalls(trace, reference);
+    if (payments.length === 0) return;
+    const value = payments.reduce(
+      (sum, call) => sum + BigInt(call.value ?? "0x0"),
+      0n
+    );
+    await this.matchTransaction(txHash, payments[0].from, reference as Hex, value);
+  }
+
+  /**
+   * Calls to the agent carrying the reference, skipping reverted subtrees
+   */
+  private agentCalls(frame: CallFrame, reference: string): CallFrame[] {
+    if (frame.error) return [];
+    const own =
+      frame.to?.toLowerCase() === this.agentAddress.toLowerCase() &&
+      frame.input.toLowerCase() === reference
+        ? [frame]
+        : [];
+    return [
+      ...own,
+      ...(frame.calls ?? []).flatMap((call) => this.agentCalls(call, reference)),
+    ];
+  }
+
+  /**
+   * Process a transaction if it pays for a known request
+   * @param from the paying wallet, undefined when it couldn't be traced
+   * @param value amount paid, undefined when it couldn't be traced
+   */
+  private async matchTransaction(
+    txHash: Hex,
+    from: string | undefined,
+    input: Hex,
+    value: bigint | undefined
+  ) {
+    const reference = input.toLowerCase();
+    const payment =
+      [...this.pendingPayments.values()].find((p) => p.reference === reference) ??
+      (input === "0x" ? null : await this.database.findPaymentByReference(reference));
+    if (!payment) return;
+
+    const receipt = await this.publicClient.getTransactionReceipt({ hash: txHash });
+    if (receipt.status !== "success") return;
+
+    // Each transaction is consumed at most once, even across restarts
+    if (!(await this.database.markPaymentProcessed(txHash, payment.id))) {
+      console.log(`⚠️ Payment ${txHash} was already consumed, skipping...`);
+      return;
+    }
+
+    if (from === undefined || value === undefined) {
+      this.pendingPayments.delete(payment.id);
+      if (payment.status === "pending") {
+        await this.setStatus(payment, "orphaned", txHash);
+      }
+      // Reported against the requester's wallet; there's nothing to refund automatically
+      await this.reportOrphan(payment, payment.memberAddress, txHash, undefined, "Paid through a contract call this RPC can't trace");
+      return;
+    }
+
+    // A late or duplicate payment; the request itself is left as it was
+    if (payment.status !== "pending") {
+      await this.reportOrphan(payment, from, txHash, value, `Payment arrived after the request was ${payment.status}`);
+      return;
+    }
+    if (value < GROUP_CREATION_FEE_WEI) {
+      this.pendingPayments.delete(payment.id);
+      await this.setStatus(payment, "orphaned", txHash, value);
+      await this.reportOrphan(payment, from, txHash, value, `Underpaid: received ${formatEther(value)} ETH`);
+      return;
+    }
+
+    console.log(`💰 Payment confirmed on blockchain for ${payment.id}: ${txHash}`);
+    await this.processPayment(payment, from, txHash, value);
   }
 
   /**
    * Process a confirmed payment by deploying the contract
    */
-  private async processPayment(paymentId: string, payment: {
-    senderInboxId: string;
-    groupName: string;
-    memberAddress: string;
-    conversation: any;
-  }) {
+  private async processPayment(
+    payment: PaymentRecord,
+    payerAddress: string,
+    txHash: string,
+    value: bigint
+  ) {
     // Check if already processed (extra safety)
-    if (!this.pendingPayments.has(paymentId)) {
-      console.log(`⚠️ Payment ${paymentId} already processed, skipping...`);
+    if (!this.pendingPayments.has(payment.id)) {
+      console.log(`⚠️ Payment ${payment.id} already processed, skipping...`);
       return;
     }
-    
+
     // Remove from pending payments IMMEDIATELY to prevent double processing
-    this.pendingPayments.delete(paymentId);
-    
+    this.pendingPayments.delete(payment.id);
+    await this.setStatus(payment, "paid", txHash, value);
+
+    await this.eventBus.publish({
+      type: "PAYMENT_RECEIVED",
+      data: {
+        senderInboxId: payment.senderInboxId,
+        groupName: payment.groupName,
+        payerAddress,
+        txHash,
+      },
+    });
+
     try {
       console.log(`🚀 Processing payment for group: ${payment.groupName}`);
-      
-      await payment.conversation.send(
+
+      await this.notify(
+        payment,
         `✅ PAYMENT CONFIRMED!\n\n` +
         `💰 Received 0.001 ETH payment\n` +
+        `🔗 Tx: ${txHash}\n` +
         `🏗️ Deploying your premium community...\n\n` +
         `⏳ This may take 30-60 seconds...`
       );
 
-      // Create metadata for the group
-      const metadata = {
-        name: payment.groupName,
-        description: `Premium community for ${payment.groupName} with token-gated access`,
-        image: "https://via.placeholder.com/400x400/6366f1/ffffff?text=Premium+Group",
-      };
+      // A retried payment must not deploy a second contract
+      const existing = this.groupRegistry.getByName(payment.groupName, payment.senderInboxId);
+      if (existing) {
+        await this.notify(
+          payment,
+          `ℹ️ "${payment.groupName}" already exists.\n\n` +
+          `Contract: ${existing.contractAddress}`
+        );
+        await this.setStatus(payment, "orphaned");
+        await this.reportOrphan(payment, payerAddress, txHash, value, "Group already existed");
+        return;
+      }
 
-      // Deploy the contract and create groups
+      // Deploy the contract and create groups (registers the group config)
       const result = await this.enhancedGroupManager.createDualGroupSystem(
         payment.groupName,
         payment.senderInboxId,
-        payment.memberAddress,
-        metadata
+        payment.memberAddress
       );
-
-      // Store the group configuration
-      const groupConfig: DualGroupConfig = {
-        contractAddress: result.contractAddress,
-        groupName: payment.groupName,
-        creatorInboxId: payment.senderInboxId,
-        salesGroupId: result.salesGroupId,
-        premiumGroupId: result.premiumGroupId,
-        salesSettings: {
-          welcomeMessage: `Welcome to ${payment.groupName} sales!`,
-          isActive: true,
-        },
-        premiumSettings: {
-          welcomeMessage: `Welcome to premium ${payment.groupName}!`,
-          requiresToken: true,
-        },
-        tiers: [], // Will be set up later
-        paymentConfig: {
-          usdcAddress: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
-          feeRecipient: this.agentAddress,
-          feeBasisPoints: 250,
-        },
-      };
-
-      this.groupConfigs.set(result.contractAddress, groupConfig);
+      await this.setStatus(payment, "fulfilled");
 
       // Send success message
-      await payment.conversation.send(
+      await this.notify(
+        payment,
         `🎉 PREMIUM COMMUNITY CREATED!\n\n` +
         `📋 Group Details:\n` +
         `• Name: ${payment.groupName}\n` +
         `• Contract: ${result.contractAddress.slice(0, 10)}...${result.contractAddress.slice(-8)}\n` +
-        `• Sales Group: ${result.salesGroupId}\n` +
-        `• Premium Group: ${result.premiumGroupId}\n\n` +
+        `• Sales Group: ${result.salesGroup.id}\n` +
+        `• Premium Group: ${result.premiumGroup.id}\n\n` +
         `🎯 Next Steps:\n` +
         `• Use /setup-tiers ${payment.groupName} to configure pricing\n` +
         `• Use /grant-trial ${payment.groupName} <address> <days> to give free access\n` +
@@ -270,13 +490,102 @@ export class PaymentMonitor {
 
     } catch (error) {
       console.error(`❌ Error processing payment for ${payment.groupName}:`, error);
-      
-      await payment.conversation.send(
+      const message = error instanceof Error ? error.message : String(error);
+
+      await this.notify(
+        payment,
         `❌ Deployment Failed\n\n` +
         `Your payment was received, but we encountered an error deploying the contract:\n\n` +
-        `Error: ${error instanceof Error ? error.message : String(error)}\n\n` +
-        `Please contact support for assistance. Your payment will be refunded if the issue cannot be resolved.`
+        `Error: ${message}`
+      );
+      await this.setStatus(payment, "orphaned");
+      await this.reportOrphan(payment, payerAddress, txHash, value, `Deployment failed: ${message}`);
+    }
+  }
+
+  /**
+   * Refund a paid-but-unfulfilled payment, or alert the operator when it
+   * can't be refunded automatically
+   */
+  private async reportOrphan(
+    payment: PaymentRecord,
+    payerAddress: string,
+    txHash: string | undefined,
+    amountWei: bigint | undefined,
+    reason: string
+  ) {
+    console.error(`🚨 Orphaned payment ${payment.id} (${txHash ?? "no tx"}): ${reason}`);
+
+    if (this.refundManager && txHash && amountWei) {
+      await this.refundManager.requestRefund({
+        paymentId: payment.id,
+        paymentTxHash: txHash,
+        recipient: payerAddress,
+        amountWei,
+        reason,
+        conversationId: payment.conversationId,
+      });
+      await this.notify(
+        payment,
+        `⚠️ We received a payment for "${payment.groupName}" but couldn't complete it.\n\n` +
+        `Reason: ${reason}\n` +
+        `Your ${formatEther(amountWei)} ETH is being refunded; the refund transaction will be posted here.`
+      );
+      return;
+    }
+
+    await this.eventBus.publish({
+      type: "PAYMENT_ORPHANED",
+      data: {
+        paymentId: payment.id,
+        senderInboxId: payment.senderInboxId,
+        groupName: payment.groupName,
+        payerAddress,
+        txHash,
+        reason,
+      },
+    });
+
+    await this.notify(
+      payment,
+      `⚠️ We received a payment for "${payment.groupName}" but couldn't complete it.\n\n` +
+      `${txHash ? `Tx: ${txHash}\n` : ""}` +
+      `The operator has been notified and will follow up.`
+    );
+  }
+
+  private async setStatus(
+    payment: PaymentRecord,
+    status: PaymentStatus,
+    txHash?: string,
+    amountWei?: bigint
+  ) {
+    payment.status = status;
+    payment.updatedAt = new Date().toISOString();
+    if (txHash) {
+      payment.txHash = txHash;
+    }
+    if (amountWei !== undefined) {
+      payment.amountWei = amountWei.toString();
+    }
+    await this.database.savePayment(payment);
+  }
+
+  /**
+   * Message the conversation a payment was requested from
+   */
+  private async notify(payment: PaymentRecord, message: string) {
+    try {
+      const conversation = await this.client.conversations.getConversationById(
+        payment.conversationId
       );
+      if (!conversation) {
+        console.error(`⚠️ Conversation ${payment.conversationId} for payment ${payment.id} not found`);
+        return;
+      }
+      await conversation.send(message);
+    } catch (error) {
+      console.error(`Error messaging about payment ${payment.id}:`, error);
     }
   }
 
@@ -292,11 +601,11 @@ export class PaymentMonitor {
    */
   getPendingPaymentsForSender(senderInboxId: string): string[] {
     const payments: string[] = [];
-    for (const [paymentId, payment] of this.pendingPayments.entries()) {
+    for (const payment of this.pendingPayments.values()) {
       if (payment.senderInboxId === senderInboxId) {
         payments.push(payment.groupName);
       }
     }
     return payments;
   }
-}
\ No newline at end of file
+}
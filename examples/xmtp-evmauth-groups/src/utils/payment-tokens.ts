@@ -0,0 +1,165 @@
+/**
+ * Payment token registry - the tokens groups can be paid in
+ * Records symbol, address, decimals and chain for each token. Built-in
+ * tokens are always present; tokens added by the operator are persisted.
+ */
+
+import fs from "fs";
+import path from "path";
+
+export const BASE_CHAIN_ID = 8453;
+export const BASE_SEPOLIA_CHAIN_ID = 84532;
+
+export interface PaymentTokenInfo {
+  symbol: string;
+  /** ERC-20 contract; omitted for the chain's native token */
+  address?: string;
+  decimals: number;
+  chainId: number;
+  /** Chainlink <symbol>/USD feed used for price conversion */
+  priceFeed?: string;
+  /** Worth $1 when no price feed is configured */
+  usdPegged?: boolean;
+}
+
+export const BUILTIN_PAYMENT_TOKENS: PaymentTokenInfo[] = [
+  { symbol: "ETH", decimals: 18, chainId: BASE_SEPOLIA_CHAIN_ID },
+  {
+    symbol: "USDC",
+    address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    decimals: 6,
+    chainId: BASE_SEPOLIA_CHAIN_ID,
+    usdPegged: true,
+  },
+  { symbol: "ETH", decimals: 18, chainId: BASE_CHAIN_ID },
+  {
+    symbol: "USDC",
+    address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+    decimals: 6,
+    chainId: BASE_CHAIN_ID,
+    usdPegged: true,
+  },
+];
+
+export interface PaymentTokenRegistryOptions {
+  /** Directory for operator-added tokens; in-memory only when omitted */
+  dataDir?: string;
+}
+
+/**
+ * Find a built-in token by symbol, e.g. to format amounts without a registry
+ */
+export function builtinPaymentToken(
+  symbol: string,
+  chainId: number = BASE_SEPOLIA_CHAIN_ID,
+): PaymentTokenInfo | undefined {
+  return BUILTIN_PAYMENT_TOKENS.find(
+    (t) =>
+      t.chainId === chainId && t.symbol.toUpperCase() === symbol.toUpperCase(),
+  );
+}
+
+export function isNativeToken(token: PaymentTokenInfo): boolean {
+  return !token.address;
+}
+
+export class PaymentTokenRegistry {
+  readonly chainId: number;
+  private custom: PaymentTokenInfo[] = [];
+  private file?: string;
+
+  constructor(
+    chainId: number = BASE_SEPOLIA_CHAIN_ID,
+    options: PaymentTokenRegistryOptions = {},
+  ) {
+    this.chainId = chainId;
+
+    if (options.dataDir) {
+      if (!fs.existsSync(options.dataDir)) {
+        fs.mkdirSync(options.dataDir, { recursive: true });
+      }
+      this.file = path.join(options.dataDir, "payment-tokens.json");
+      this.load();
+    }
+  }
+
+  /**
+   * Token by symbol on this chain (case-insensitive)
+   */
+  get(symbol: string): PaymentTokenInfo | undefined {
+    const needle = symbol.toUpperCase();
+    return this.list().find((t) => t.symbol.toUpperCase() === needle);
+  }
+
+  /**
+   * Like get(), for tokens that must exist (e.g. built-ins)
+   */
+  require(symbol: string): PaymentTokenInfo {
+    const token = this.get(symbol);
+    if (!token) {
+      throw new Error(
+        `Unknown payment token ${symbol} on chain ${this.chainId}`,
+      );
+    }
+    return token;
+  }
+
+  /**
+   * Every token on this chain, built-ins first
+   */
+  list(): PaymentTokenInfo[] {
+    return [...BUILTIN_PAYMENT_TOKENS, ...this.custom].filter(
+      (t) => t.chainId === this.chainId,
+    );
+  }
+
+  /**
+   * Add or update an operator token (built-in symbols can't be replaced)
+   */
+  register(token: PaymentTokenInfo): PaymentTokenInfo {
+    if (builtinPaymentToken(token.symbol, token.chainId)) {
+      throw new Error(`${token.symbol} is a built-in payment token`);
+    }
+    if (!token.address) {
+      throw new Error("Only ERC-20 tokens can be registered");
+    }
+
+    const symbol = token.symbol.toUpperCase();
+    this.custom = this.custom.filter(
+      (t) =>
+        t.chainId !== token.chainId ||
+        (t.symbol.toUpperCase() !== symbol &&
+          t.address?.toLowerCase() !== token.address?.toLowerCase()),
+    );
+    this.custom.push(token);
+    this.save();
+    return token;
+  }
+
+  private load(): void {
+    if (!this.file) return;
+    try {
+      if (fs.existsSync(this.file)) {
+        this.custom = JSON.parse(
+          fs.readFileSync(this.file, "utf8"),
+        ) as PaymentTokenInfo[];
+      }
+    } catch (error) {
+      console.error("Error loading payment tokens:", error);
+    }
+  }
+
+  /**
+   * Save operator tokens (write-then-rename)
+   */
+  private save(): void {
+    if (!this.file) return;
+    try {
+      const tmpFile = `${this.file}.tmp`;
+      fs.writeFileSync(tmpFile, JSON.stringify(this.custom, null, 2));
+      fs.renameSync(tmpFile, this.file);
+    } catch (error) {
+      console.error("Error saving payment tokens:", error);
+    }
+  }
+}
@@ -1,4 +1,33 @@
+import { randomBytes } from "crypto";
 import type { WalletSendCallsParams } from "@xmtp/content-type-wallet-send-calls";
+import {
+  encodeFunctionData,
+  erc20Abi,
+  formatEther,
+  formatUnits,
+  parseEther,
+  toHex,
+  type Address,
+  type Hex,
+} from "viem";
+import {
+  buildIssue,
+  buildPurchase,
+  toWalletCall,
+  type TransactionRequest,
+} from "../contracts/transaction-builder";
+import { isNativeToken, type PaymentTokenInfo } from "./payment-tokens";
+
+/** Fee the creator pays the agent to deploy a premium group */
+export const GROUP_CREATION_FEE_WEI = parseEther("0.001");
+
+/**
+ * Unique reference carried as calldata on a creation payment, so the
+ * payment monitor can tell which request a transfer pays for
+ */
+export function createPaymentReference(): Hex {
+  return toHex(randomBytes(16));
+}
 
 /**
  * Create payment transaction for group creation
@@ -8,10 +37,8 @@ export function createGroupCreationPayment(
   agentAddress: string,
   groupName: string,
   fromAddress: string, // Add the user's address
+  reference: Hex,
 ): WalletSendCallsParams {
-  // 0.001 ETH in wei as decimal string (like the working USDC example uses for amounts)
-  const deploymentFeeWei = "1000000000000000"; // 0.001 ETH in wei (decimal string)
-
   return {
     version: "1.0",
     // Remove from field to let XMTP.chat handle wallet connection automatically
@@ -19,12 +46,13 @@ export function createGroupCreationPayment(
     calls: [
       {
         to: agentAddress as `0x${string}`,
-        data: "0x" as `0x${string}`,
-        value: deploymentFeeWei, // Try decimal string format instead of hex
+        // The monitor matches the payment on this reference
+        data: reference,
+        value: GROUP_CREATION_FEE_WEI.toString(), // 0.001 ETH in wei as decimal string
         metadata: {
           description: `Payment for creating premium group: ${groupName}`,
           transactionType: "premium-group-creation",
-          amount: "0.001", // Human readable amount
+          amount: formatEther(GROUP_CREATION_FEE_WEI), // Human readable amount
           currency: "ETH",
         },
       },
@@ -42,34 +70,20 @@ export function createTrialAccessGrant(
   tokenId: number,
   groupName: string,
 ): WalletSendCallsParams {
-  // ABI for mint function
-  const mintABI = "0xa0712d68"; // mint(address,uint256,uint256,bytes)
-
-  // Encode function data for minting 1 token to recipient
-  const functionData =
-    mintABI +
-    recipientAddress.slice(2).padStart(64, "0") + // to address
-    tokenId.toString(16).padStart(64, "0") + // tokenId
-    "0000000000000000000000000000000000000000000000000000000000000001" + // amount (1)
-    "0000000000000000000000000000000000000000000000000000000000000080" + // data offset
-    "0000000000000000000000000000000000000000000000000000000000000000"; // data length (empty)
+  // Issue 1 token to the recipient - no payment required
+  const tx = buildIssue(contractAddress, { to: recipientAddress, tokenId });
 
   return {
     version: "1.0",
     from: recipientAddress as `0x${string}`, // Creator's address (they pay gas)
     chainId: "0x14a34", // Base Sepolia chain ID
     calls: [
-      {
-        to: contractAddress as `0x${string}`,
-        data: functionData as `0x${string}`,
-        value: "0", // Free for creators - no payment required
-        metadata: {
-          description: `Grant free trial access to ${groupName}`,
-          transactionType: "trial-access-grant",
-          currency: "ETH",
-          amount: "0", // Free
-        },
-      },
+      toWalletCall(tx, {
+        description: `Grant free trial access to ${groupName}`,
+        transactionType: "trial-access-grant",
+        currency: "ETH",
+        amount: "0", // Free
+      }),
     ],
   };
 }
@@ -85,33 +99,125 @@ export function createAccessPurchase(
   groupName: string,
   fromAddress: string, // User's address who is purchasing
 ): WalletSendCallsParams {
-  // Similar to trial but with payment
-  const mintABI = "0xa0712d68";
-
-  const functionData =
-    mintABI +
-    "0000000000000000000000000000000000000000000000000000000000000000" + // will be replaced with user address
-    tokenId.toString(16).padStart(64, "0") +
-    "0000000000000000000000000000000000000000000000000000000000000001" +
-    "0000000000000000000000000000000000000000000000000000000000000080" +
-    "0000000000000000000000000000000000000000000000000000000000000000";
+  // Token is minted to the purchasing user
+  const tx = buildPurchase(contractAddress, {
+    account: fromAddress,
+    tokenId,
+    value: BigInt(priceWei),
+  });
 
   return {
     version: "1.0",
     from: fromAddress as `0x${string}`, // User pays for their own access
     chainId: "0x14a34", // Base Sepolia chain ID
     calls: [
+      toWalletCall(tx, {
+        description: `Purchase access to ${groupName}`,
+        transactionType: "access-purchase",
+        currency: "ETH",
+        amount: formatEther(tx.value),
+      }),
+    ],
+  };
+}
+
+/**
+ * Part of a purchase paid to someone else: by the buyer in the purchase
+ * bundle (the platform fee), or by the agent once the purchase is confirmed
+ * (collaborator shares, referral rewards and promo rebates)
+ */
+export interface PurchasePayout {
+  to: string;
+  /** In the payment token's smallest unit */
+  amount: bigint;
+  description: string;
+}
+
+/**
+ * Plain transfer of a native or ERC-20 token
+ */
+function tokenTransfer(
+  token: PaymentTokenInfo,
+  to: string,
+  amount: bigint,
+): TransactionRequest {
+  return isNativeToken(token)
+    ? { to: to as Address, data: "0x", value: amount }
+    : {
+        to: token.address as Address,
+        data: encodeFunctionData({
+          abi: erc20Abi,
+          functionName: "transfer",
+          args: [to as Address, amount],
+        }),
+        value: 0n,
+      };
+}
+
+/**
+ * Create an access purchase paid in any registered token
+ * Native tokens call purchase() with the price as value, which mints the
+ * access token in the same transaction. purchase() only takes native value,
+ * so ERC-20 tokens are transferred to the contract's payment wallet instead
+ * and the agent issues the token once the transfer is verified.
+ * The token goes to recipientAddress, so gifts use the same bundle; seat
+ * purchases mint quantity tokens for the total amount. Payouts follow as
+ * plain transfers in the same token.
+ */
+export function createTokenAccessPurchase(
+  token: PaymentTokenInfo,
+  contractAddress: string,
+  paymentWallet: string,
+  tokenId: number,
+  amount: bigint,
+  groupName: string,
+  tierName: string,
+  fromAddress: string, // Buyer pays with their own funds
+  recipientAddress: string = fromAddress,
+  quantity = 1,
+  payouts: PurchasePayout[] = [],
+): WalletSendCallsParams {
+  const gift = recipientAddress.toLowerCase() !== fromAddress.toLowerCase();
+  const formatted = formatUnits(amount, token.decimals);
+  const description = gift
+    ? `Gift ${tierName} access to ${groupName} for ${recipientAddress}`
+    : quantity > 1
+      ? `Purchase ${quantity} ${tierName} seats for ${groupName}`
+      : `Purchase ${tierName} access to ${groupName}`;
+  const calls: WalletSendCallsParams["calls"] = [
+    toWalletCall(
+      isNativeToken(token)
+        ? buildPurchase(contractAddress, {
+            account: recipientAddress,
+            tokenId,
+            amount: BigInt(quantity),
+            value: amount,
+          })
+        : tokenTransfer(token, paymentWallet, amount),
       {
-        to: contractAddress as `0x${string}`,
-        data: functionData as `0x${string}`,
-        value: priceWei, // User pays the tier price (should be decimal string format)
-        metadata: {
-          description: `Purchase access to ${groupName}`,
-          transactionType: "access-purchase",
-          currency: "ETH",
-          amount: (parseInt(priceWei) / 1e18).toString(), // Convert wei to ETH for display
-        },
+        description,
+        transactionType: "access-purchase",
+        currency: token.symbol,
+        amount: formatted,
       },
-    ],
+    ),
+  ];
+
+  for (const payout of payouts) {
+    calls.push(
+      toWalletCall(tokenTransfer(token, payout.to, payout.amount), {
+        description: payout.description,
+        transactionType: "payout",
+        currency: token.symbol,
+        amount: formatUnits(payout.amount, token.decimals),
+      }),
+    );
+  }
+
+  return {
+    version: "1.0",
+    from: fromAddress as `0x${string}`,
+    chainId: toHex(token.chainId),
+    calls,
   };
 }
@@ -0,0 +1,390 @@
+/**
+ * Price service - converts between USD and payment tokens (ETH, USDC, ...)
+ * USD rates come from a pluggable RateSource (static, JSON file or Chainlink)
+ * and are cached for the quote TTL, so every display of a price agrees.
+ */
+
+import fs from "fs";
+import { createPublicClient, formatUnits, http, parseUnits } from "viem";
+import { baseSepolia } from "viem/chains";
+import type { AccessTier } from "../types/types";
+import { builtinPaymentToken, PaymentTokenRegistry } from "./payment-tokens";
+
+/** Payment token symbol, resolved through the PaymentTokenRegistry */
+export type PaymentToken = string;
+
+/** Chainlink ETH/USD feed on Base Sepolia */
+export const DEFAULT_ETH_USD_FEED =
+  "0x4aDC67696bA383F43DD60A9e78F2C97Fbbfc7cb1";
+
+const CHAINLINK_FEED_ABI = [
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [{ name: "", type: "uint8" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "latestRoundData",
+    outputs: [
+      { name: "roundId", type: "uint80" },
+      { name: "answer", type: "int256" },
+      { name: "startedAt", type: "uint256" },
+      { name: "updatedAt", type: "uint256" },
+      { name: "answeredInRound", type: "uint80" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+/**
+ * Where USD rates come from
+ */
+export interface RateSource {
+  readonly name: string;
+  /** USD value of one whole token */
+  getUSDRate(token: PaymentToken): Promise<number>;
+}
+
+export interface PriceQuote {
+  token: PaymentToken;
+  /** USD value of one whole token */
+  usdRate: number;
+  source: string;
+  fetchedAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Reduction applied to a price, e.g. by a promo code
+ * - percent: percentage off (1-99)
+ * - fixed: USD amount off, converted into the payment token
+ */
+export type Discount =
+  { kind: "percent"; percent: number } | { kind: "fixed"; amountUSD: number };
+
+export interface PriceServiceOptions {
+  /** How long a fetched rate is reused */
+  quoteTtlMs?: number;
+  /** Decimals for tokens beyond the built-ins */
+  tokens?: PaymentTokenRegistry;
+}
+
+/**
+ * Fixed rates, for tests and local development
+ */
+export class StaticRateSource implements RateSource {
+  readonly name = "static";
+  private rates: Partial<Record<PaymentToken, number>>;
+
+  constructor(rates: Partial<Record<PaymentToken, number>>) {
+    this.rates = rates;
+  }
+
+  getUSDRate(token: PaymentToken): Promise<number> {
+    const rate = this.rates[token];
+    if (rate === undefined) {
+      return Promise.reject(
+        new Error(`No static ${token}/USD rate configured`),
+      );
+    }
+    return Promise.resolve(rate);
+  }
+}
+
+/**
+ * Rates read from a JSON file such as { "ETH": 3200, "USDC": 1 }
+ * The file is re-read on every fetch, so it can be edited while running.
+ */
+export class FileRateSource implements RateSource {
+  readonly name: string;
+  private file: string;
+
+  constructor(file: string) {
+    this.file = file;
+    this.name = `file:${file}`;
+  }
+
+  async getUSDRate(token: PaymentToken): Promise<number> {
+    const rates = JSON.parse(
+      await fs.promises.readFile(this.file, "utf8"),
+    ) as Partial<Record<PaymentToken, number>>;
+    const rate = Number(rates[token]);
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw new Error(`No valid ${token}/USD rate in ${this.file}`);
+    }
+    return rate;
+  }
+}
+
+export interface ChainlinkRateSourceOptions {
+  /** Reject answers older than this */
+  maxAgeSeconds?: number;
+  /** Feeds and pegs of registered tokens, looked up on every fetch */
+  tokens?: PaymentTokenRegistry;
+}
+
+/**
+ * Rates read from Chainlink price feeds
+ * Pegged tokens (built-in USDC) are worth $1 when they have no feed.
+ */
+export class ChainlinkRateSource implements RateSource {
+  readonly name = "chainlink";
+  private publicClient;
+  private feeds: Record<PaymentToken, string | undefined>;
+  private maxAgeSeconds: number;
+  private tokens?: PaymentTokenRegistry;
+
+  constructor(
+    rpcUrl: string,
+    feeds: Record<PaymentToken, string | undefined>,
+    options: ChainlinkRateSourceOptions = {},
+  ) {
+    this.publicClient = createPublicClient({
+      chain: baseSepolia,
+      transport: http(rpcUrl),
+    });
+    this.feeds = feeds;
+    this.maxAgeSeconds = options.maxAgeSeconds ?? 24 * 60 * 60;
+    this.tokens = options.tokens;
+  }
+
+  async getUSDRate(token: PaymentToken): Promise<number> {
+    const info = this.tokens?.get(token) ?? builtinPaymentToken(token);
+    const feed = this.feeds[token] ?? info?.priceFeed;
+    if (!feed) {
+      if (info?.usdPegged) return 1;
+      throw new Error(`No Chainlink ${token}/USD feed configured`);
+    }
+
+    const address = feed as `0x${string}`;
+    const [decimals, [, answer, , updatedAt]] = await Promise.all([
+      this.publicClient.readContract({
+        address,
+        abi: CHAINLINK_FEED_ABI,
+        functionName: "decimals",
+      }),
+      this.publicClient.readContract({
+        address,
+        abi: CHAINLINK_FEED_ABI,
+        functionName: "latestRoundData",
+      }),
+    ]);
+
+    if (answer <= 0n) {
+      throw new Error(`Chainlink ${token}/USD feed returned ${answer}`);
+    }
+    const age = Math.floor(Date.now() / 1000) - Number(updatedAt);
+    if (age > this.maxAgeSeconds) {
+      throw new Error(`Chainlink ${token}/USD price is ${age}s old`);
+    }
+    return Number(formatUnits(answer, decimals));
+  }
+}
+
+/**
+ * Token a tier is priced in (tier setup prices everything in USDC)
+ */
+export function tierPaymentToken(tier: AccessTier): PaymentToken {
+  return tier.paymentToken ?? "USDC";
+}
+
+/**
+ * Format a raw token amount, e.g. "10.00 USDC" or "0.0031 ETH"
+ * Decimals default to the built-in token's; pass them for other tokens.
+ */
+export function formatTokenAmount(
+  amount: bigint | string,
+  token: PaymentToken,
+  decimals: number = builtinDecimals(token),
+): string {
+  const value = formatUnits(BigInt(amount), decimals);
+  if (builtinPaymentToken(token)?.usdPegged) {
+    return `${Number(value).toFixed(2)} ${token}`;
+  }
+  // Up to 6 decimals is enough to tell prices apart
+  const [whole, fraction = ""] = value.split(".");
+  const trimmed = fraction.slice(0, 6).replace(/0+$/, "");
+  return `${whole}${trimmed ? `.${trimmed}` : ""} ${token}`;
+}
+
+function builtinDecimals(token: PaymentToken): number {
+  const builtin = builtinPaymentToken(token);
+  if (!builtin) {
+    throw new Error(`Unknown decimals for ${token}`);
+  }
+  return builtin.decimals;
+}
+
+export function formatUSD(amountUSD: number): string {
+  return `$${amountUSD.toFixed(2)}`;
+}
+
+/**
+ * Discount for display, e.g. "20% off" or "$5.00 off"
+ */
+export function formatDiscount(discount: Discount): string {
+  return discount.kind === "percent"
+    ? `${discount.percent}% off`
+    : `${formatUSD(discount.amountUSD)} off`;
+}
+
+export class PriceService {
+  private source: RateSource;
+  private quoteTtlMs: number;
+  private tokens?: PaymentTokenRegistry;
+  private quotes = new Map<PaymentToken, PriceQuote>();
+
+  constructor(source: RateSource, options: PriceServiceOptions = {}) {
+    this.source = source;
+    this.quoteTtlMs = options.quoteTtlMs ?? 60 * 1000;
+    this.tokens = options.tokens;
+  }
+
+  /**
+   * Format a raw amount of any registered token
+   */
+  formatTokenAmount(amount: bigint | string, token: PaymentToken): string {
+    return formatTokenAmount(amount, token, this.decimals(token));
+  }
+
+  /**
+   * Current USD rate for a token, fetched again once the last quote expires
+   */
+  async getQuote(token: PaymentToken, now = Date.now()): Promise<PriceQuote> {
+    const cached = this.quotes.get(token);
+    if (cached && cached.expiresAt.getTime() > now) {
+      return cached;
+    }
+
+    const usdRate = await this.source.getUSDRate(token);
+    const quote: PriceQuote = {
+      token,
+      usdRate,
+      source: this.source.name,
+      fetchedAt: new Date(now),
+      expiresAt: new Date(now + this.quoteTtlMs),
+    };
+    this.quotes.set(token, quote);
+    return quote;
+  }
+
+  /**
+   * USD value of a raw token amount
+   */
+  async toUSD(amount: bigint | string, token: PaymentToken): Promise<number> {
+    const { usdRate } = await this.getQuote(token);
+    return Number(formatUnits(BigInt(amount), this.decimals(token))) * usdRate;
+  }
+
+  /**
+   * Raw token amount worth a USD value
+   */
+  async fromUSD(amountUSD: number, token: PaymentToken): Promise<bigint> {
+    const { usdRate } = await this.getQuote(token);
+    const decimals = this.decimals(token);
+    return parseUnits((amountUSD / usdRate).toFixed(decimals), decimals);
+  }
+
+  /**
+   * Convert a raw amount of one token into another via USD
+   */
+  async convert(
+    amount: bigint | string,
+    from: PaymentToken,
+    to: PaymentToken,
+  ): Promise<bigint> {
+    if (from === to) return BigInt(amount);
+    return this.fromUSD(await this.toUSD(amount, from), to);
+  }
+
+  /**
+   * Raw amount after a discount; never below zero
+   */
+  async applyDiscount(
+    amount: bigint | string,
+    token: PaymentToken,
+    discount: Discount,
+  ): Promise<bigint> {
+    const price = BigInt(amount);
+    const off =
+      discount.kind === "percent"
+        ? (price * BigInt(Math.round(discount.percent * 100))) / 10_000n
+        : await this.fromUSD(discount.amountUSD, token);
+    return off >= price ? 0n : price - off;
+  }
+
+  /**
+   * Format an amount with its USD value and any conversions, e.g.
+   * "10.00 USDC (≈ $10.00, ≈ 0.0031 ETH)". Falls back to the bare amount
+   * when rates are unavailable.
+   */
+  async formatAmount(
+    amount: bigint | string,
+    token: PaymentToken,
+    convertTo: PaymentToken[] = [],
+  ): Promise<string> {
+    const formatted = this.formatTokenAmount(amount, token);
+    try {
+      const estimates = [formatUSD(await this.toUSD(amount, token))];
+      for (const other of convertTo.filter((t) => t !== token)) {
+        estimates.push(
+          this.formatTokenAmount(
+            await this.convert(amount, token, other),
+            other,
+          ),
+        );
+      }
+      return `${formatted} (${estimates.map((e) => `≈ ${e}`).join(", ")})`;
+    } catch (error) {
+      console.warn(`⚠️ Price conversion unavailable: ${String(error)}`);
+      return formatted;
+    }
+  }
+
+  /**
+   * Display price for a tier in its payment token
+   */
+  async formatTierPrice(
+    tier: AccessTier,
+    convertTo: PaymentToken[] = [],
+  ): Promise<string> {
+    return this.formatAmount(tier.priceWei, tierPaymentToken(tier), convertTo);
+  }
+
+  private decimals(token: PaymentToken): number {
+    return this.tokens?.get(token)?.decimals ?? builtinDecimals(token);
+  }
+}
+
+/**
+ * Build the price service from the environment
+ * PRICE_RATES_FILE selects a JSON rate file; otherwise Chainlink feeds are
+ * read (CHAINLINK_ETH_USD_FEED, CHAINLINK_USDC_USD_FEED, plus the feed of
+ * each registered token).
+ */
+export function createPriceService(
+  rpcUrl: string = process.env.BASE_RPC_URL || "https://sepolia.base.org",
+  tokens: PaymentTokenRegistry = new PaymentTokenRegistry(),
+): PriceService {
+  const source: RateSource = process.env.PRICE_RATES_FILE
+    ? new FileRateSource(process.env.PRICE_RATES_FILE)
+    : new ChainlinkRateSource(
+        rpcUrl,
+        {
+          ETH: process.env.CHAINLINK_ETH_USD_FEED || DEFAULT_ETH_USD_FEED,
+          USDC: process.env.CHAINLINK_USDC_USD_FEED,
+        },
+        { tokens },
+      );
+
+  return new PriceService(source, {
+    quoteTtlMs: process.env.PRICE_QUOTE_TTL_SECONDS
+      ? Number(process.env.PRICE_QUOTE_TTL_SECONDS) * 1000
+      : undefined,
+    tokens,
+  });
+}
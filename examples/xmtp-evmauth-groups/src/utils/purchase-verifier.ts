@@ -0,0 +1,865 @@
+/**
+ * On-chain verification of access purchases
+ * Native purchases call purchase(), which charges the on-chain price itself,
+ * so membership is granted once its TokenPurchased event and the minted
+ * access token are visible. The event is matched rather than the outer
+ * transaction, which smart wallets and batched calls send to another
+ * address with a different value. ERC-20 payments are transfers to the
+ * contract's payment wallet: each transfer is claimed once in the store and
+ * the agent then issues the access token.
+ * Gifts mint to and add the recipient instead. ERC-20 gifts are only
+ * issued once the recipient is in, and refunded when they can't be added;
+ * native gifts are minted by purchase() itself and tokens can't be burned,
+ * so those stand and the audit adds the recipient later. Seat purchases become a seat pool the buyer
+ * assigns to their team, expiring with the minted tokens.
+ * Purchases are kept in the store until fulfilled, so a restart doesn't
+ * forget a payment; one that arrives after the buyer was told it timed out
+ * is still honored within the late payment window.
+ * Buyers pay the price to the contract or its payment wallet, discounted
+ * for ERC-20 tokens; once a purchase is fulfilled the agent pays
+ * collaborator shares, the referral reward and any native promo rebate out
+ * of it. Purchases made with a referral
+ * code credit the referrer once paid.
+ */
+
+import type { Client } from "@xmtp/node-sdk";
+import {
+  createPublicClient,
+  formatUnits,
+  http,
+  maxUint256,
+  parseAbiItem,
+  type Hash,
+} from "viem";
+import { baseSepolia } from "viem/chains";
+import { EVMAUTH_V2_ABI } from "../contracts/abis";
+import type {
+  GroupStore,
+  PurchaseRecord,
+  PurchaseStatus,
+} from "../database/group-store";
+import type { EVMAuthHandler } from "../handlers/evmauth-handler";
+import type { EnhancedGroupManager } from "../managers/enhanced-group-flow";
+import type { PromoCodeManager } from "../managers/promo-code-manager";
+import type { ReferralManager } from "../managers/referral-manager";
+import type { SeatManager } from "../managers/seat-manager";
+import { isNativeToken, type PaymentTokenInfo } from "./payment-tokens";
+import type { PurchasePayout } from "./payment-transactions";
+import type { RefundManager } from "./refund-manager";
+
+const ERC20_TRANSFER_EVENT = parseAbiItem(
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+);
+
+const TOKEN_PURCHASED_EVENT = parseAbiItem(
+  "event TokenPurchased(address indexed account, uint256 indexed id, uint256 amount)",
+);
+
+const ERC1155_BALANCE_ABI = [
+  {
+    inputs: [
+      { name: "account", type: "address" },
+      { name: "id", type: "uint256" },
+    ],
+    name: "balanceOf",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+/** Buyers are told their payment is late after this long */
+export const PURCHASE_TIMEOUT_MS = 15 * 60 * 1000;
+
+/** Payments are still looked for this long before a purchase expires */
+const LATE_PAYMENT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface GiftDetails {
+  recipientAddress: string;
+  recipientInboxId: string;
+  /** How the buyer named the recipient (ENS, address or inbox ID) */
+  recipientLabel: string;
+  message?: string;
+}
+
+export interface PendingPurchase {
+  buyerAddress: string;
+  buyerInboxId: string;
+  contractAddress: string;
+  tokenId: number;
+  /** Token the buyer pays with */
+  paymentToken: PaymentTokenInfo;
+  /** Contract's payment wallet, which ERC-20 payments are transferred to */
+  paymentWallet?: string;
+  /**
+   * Paid to the contract or its payment wallet, in the payment token's
+   * smallest unit
+   */
+  amount: string;
+  /** Paid by the agent out of amount once the purchase is fulfilled */
+  payouts?: PurchasePayout[];
+  tierName: string;
+  durationDays: number;
+  /** Set when the access token is minted to someone else */
+  gift?: GiftDetails;
+  /** Number of tokens bought as a seat pool (/buy-seats) */
+  seats?: number;
+  /** Promo code reserved for this purchase, redeemed once it is paid */
+  promoCode?: string;
+  /** Referral code recorded for this purchase, rewarded once it is paid */
+  referralCode?: string;
+  conversation: { id: string; send: (content: string) => Promise<unknown> };
+}
+
+interface TrackedPurchase extends PendingPurchase {
+  startBlock: bigint;
+  startBalance: bigint;
+  timestamp: number;
+  /** Set once the buyer was told the payment is late */
+  timedOut?: boolean;
+}
+
+export class PurchaseVerifier {
+  private publicClient;
+  private enhancedGroupManager: EnhancedGroupManager;
+  private client: Client<unknown>;
+  private refundManager?: RefundManager;
+  private seatManager?: SeatManager;
+  private promoCodes?: PromoCodeManager;
+  private referrals?: ReferralManager;
+  private evmAuthHandler?: EVMAuthHandler;
+  private database?: GroupStore;
+  /** Cache of the store's pending purchases, keyed by purchase ID */
+  private pendingPurchases = new Map<string, TrackedPurchase>();
+  private checking = false;
+
+  constructor(
+    rpcUrl: string,
+    enhancedGroupManager: EnhancedGroupManager,
+    client: Client<unknown>,
+    refundManager?: RefundManager,
+    seatManager?: SeatManager,
+    promoCodes?: PromoCodeManager,
+    referrals?: ReferralManager,
+    evmAuthHandler?: EVMAuthHandler,
+    database?: GroupStore,
+  ) {
+    this.publicClient = createPublicClient({
+      chain: baseSepolia,
+      transport: http(rpcUrl),
+    });
+    this.enhancedGroupManager = enhancedGroupManager;
+    this.client = client;
+    this.refundManager = refundManager;
+    this.seatManager = seatManager;
+    this.promoCodes = promoCodes;
+    this.referrals = referrals;
+    this.evmAuthHandler = evmAuthHandler;
+    this.database = database;
+  }
+
+  /**
+   * Snapshot the holder's token balance and start watching for payment
+   */
+  async registerPendingPurchase(
+    purchaseId: string,
+    purchase: PendingPurchase,
+  ): Promise<void> {
+    if (
+      !isNativeToken(purchase.paymentToken) &&
+      (!purchase.paymentWallet || !this.evmAuthHandler || !this.database)
+    ) {
+      throw new Error(
+        "ERC-20 purchases need a payment wallet, an EVMAuthHandler and a GroupStore",
+      );
+    }
+
+    const [startBlock, startBalance] = await Promise.all([
+      this.publicClient.getBlockNumber(),
+      this.getTokenBalance(purchase),
+    ]);
+
+    const tracked: TrackedPurchase = {
+      ...purchase,
+      startBlock,
+      startBalance,
+      timestamp: Date.now(),
+    };
+    this.pendingPurchases.set(purchaseId, tracked);
+    await this.saveStatus(purchaseId, tracked, "pending");
+
+    console.log(
+      `📝 Registered pending purchase: ${purchaseId} (token ${purchase.tokenId} on ${purchase.contractAddress})`,
+    );
+  }
+
+  /**
+   * Pending purchases for a buyer (by inbox ID) that haven't timed out
+   */
+  getPendingPurchasesForBuyer(buyerInboxId: string): PendingPurchase[] {
+    return Array.from(this.pendingPurchases.values()).filter(
+      (purchase) =>
+        purchase.buyerInboxId === buyerInboxId && !purchase.timedOut,
+    );
+  }
+
+  /**
+   * Reload pending purchases from the store and start polling for
+   * confirmations
+   */
+  async startMonitoring(intervalMs = 15000): Promise<void> {
+    console.log("👀 Starting purchase verification...");
+    await this.resumePurchases();
+    setInterval(() => {
+      void this.checkPendingPurchases();
+    }, intervalMs);
+  }
+
+  /**
+   * Reload purchases still waiting for payment, which the payment checks
+   * pick up from their start block
+   */
+  async resumePurchases(): Promise<void> {
+    if (!this.database) return;
+    for (const record of await this.database.getPurchases("pending")) {
+      if (this.pendingPurchases.has(record.id)) continue;
+      this.pendingPurchases.set(record.id, this.recordToPurchase(record));
+    }
+    if (this.pendingPurchases.size > 0) {
+      console.log(`🔄 Resumed ${this.pendingPurchases.size} pending purchases`);
+    }
+  }
+
+  /**
+   * Verify every pending purchase once
+   */
+  async checkPendingPurchases(): Promise<void> {
+    if (this.checking) return;
+    this.checking = true;
+
+    try {
+      for (const [purchaseId, purchase] of this.pendingPurchases.entries()) {
+        try {
+          // Checked before any timeout, so a payment is never missed by one
+          const paymentTxHash = await this.findConfirmedPayment(purchase);
+          if (!paymentTxHash) {
+            await this.checkTimeout(purchaseId, purchase);
+            continue;
+          }
+
+          // One payment can't count for two pending purchases
+          if (
+            this.database &&
+            !(await this.database.markPaymentProcessed(
+              paymentTxHash,
+              purchaseId,
+            ))
+          ) {
+            continue;
+          }
+          // ERC-20 gifts are issued by deliverGift once the recipient is in
+          if (
+            !isNativeToken(purchase.paymentToken) &&
+            !purchase.gift &&
+            !(await this.issuePaidTokens(purchaseId, purchase, paymentTxHash))
+          ) {
+            continue;
+          }
+
+          if (purchase.gift) {
+            const delivered = await this.deliverGift(
+              purchaseId,
+              purchase,
+              purchase.gift,
+              paymentTxHash,
+            );
+            if (!delivered) {
+              // Refunded, so the promo code and referral don't count
+              if (purchase.promoCode) {
+                await this.promoCodes?.release(purchaseId);
+              }
+              continue;
+            }
+          } else if (purchase.seats !== undefined) {
+            await this.createSeatPool(
+              purchaseId,
+              purchase,
+              purchase.seats,
+              paymentTxHash,
+            );
+          } else {
+            await this.grantAccess(purchaseId, purchase);
+          }
+
+          if (purchase.promoCode) {
+            await this.promoCodes?.confirm(purchaseId);
+          }
+
+          if (purchase.payouts?.length) {
+            await this.payOut(purchaseId, purchase, paymentTxHash);
+          }
+
+          if (purchase.referralCode) {
+            await this.rewardReferrer(purchaseId, purchase, paymentTxHash);
+          }
+        } catch (error) {
+          console.error(`Error verifying purchase ${purchaseId}:`, error);
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Tell the buyer once a payment is late, and give up on it after the
+   * late payment window
+   */
+  private async checkTimeout(
+    purchaseId: string,
+    purchase: TrackedPurchase,
+  ): Promise<void> {
+    const elapsed = Date.now() - purchase.timestamp;
+
+    if (elapsed > LATE_PAYMENT_WINDOW_MS) {
+      console.log(`⏰ Purchase ${purchaseId} expired, removing...`);
+      this.pendingPurchases.delete(purchaseId);
+      await this.saveStatus(purchaseId, purchase, "expired");
+      if (purchase.promoCode) {
+        await this.promoCodes?.release(purchaseId);
+      }
+      return;
+    }
+
+    if (elapsed > PURCHASE_TIMEOUT_MS && !purchase.timedOut) {
+      console.log(`⏰ Purchase ${purchaseId} timed out, still watching...`);
+      purchase.timedOut = true;
+      await this.saveStatus(purchaseId, purchase, "pending");
+      await purchase.conversation.send(
+        `⏰ **Purchase Timeout**\n\n` +
+          `We didn't see a confirmed payment for ${purchase.tierName} within 15 minutes.\n` +
+          `If your transaction is still pending, you'll get access once it confirms; ` +
+          `we keep watching for 24 hours. You can also start a new purchase now.`,
+      );
+    }
+  }
+
+  /**
+   * Stop watching a purchase whose payment has been found
+   */
+  private async settle(
+    purchaseId: string,
+    purchase: TrackedPurchase,
+  ): Promise<void> {
+    this.pendingPurchases.delete(purchaseId);
+    await this.saveStatus(purchaseId, purchase, "fulfilled");
+  }
+
+  private async saveStatus(
+    purchaseId: string,
+    purchase: TrackedPurchase,
+    status: PurchaseStatus,
+  ): Promise<void> {
+    const {
+      conversation,
+      startBlock,
+      startBalance,
+      timestamp,
+      payouts,
+      ...fields
+    } = purchase;
+    await this.database?.savePurchase({
+      ...fields,
+      id: purchaseId,
+      status,
+      conversationId: conversation.id,
+      startBlock: startBlock.toString(),
+      startBalance: startBalance.toString(),
+      ...(payouts
+        ? {
+            payouts: payouts.map((p) => ({
+              ...p,
+              amount: p.amount.toString(),
+            })),
+          }
+        : {}),
+      createdAt: new Date(timestamp).toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  private recordToPurchase(record: PurchaseRecord): TrackedPurchase {
+    const {
+      id: _id,
+      status: _status,
+      conversationId,
+      startBlock,
+      startBalance,
+      payouts,
+      createdAt,
+      updatedAt: _updatedAt,
+      ...fields
+    } = record;
+    return {
+      ...fields,
+      ...(payouts
+        ? { payouts: payouts.map((p) => ({ ...p, amount: BigInt(p.amount) })) }
+        : {}),
+      startBlock: BigInt(startBlock),
+      startBalance: BigInt(startBalance),
+      timestamp: Date.parse(createdAt),
+      conversation: {
+        id: conversationId,
+        send: async (content: string) => {
+          const conversation =
+            await this.client.conversations.getConversationById(conversationId);
+          return conversation?.send(content);
+        },
+      },
+    };
+  }
+
+  /**
+   * The payment must be on chain, and for native purchases the minted token
+   * too (ERC-20 purchases are minted by the agent once paid)
+   * @returns the payment transaction hash once confirmed
+   */
+  private async findConfirmedPayment(
+    purchase: TrackedPurchase,
+  ): Promise<Hash | undefined> {
+    if (!isNativeToken(purchase.paymentToken)) {
+      return this.findERC20Payment(purchase, BigInt(purchase.amount));
+    }
+
+    const quantity = BigInt(purchase.seats ?? 1);
+    const balance = await this.getTokenBalance(purchase);
+    if (balance - purchase.startBalance < quantity) {
+      return undefined;
+    }
+    return this.findNativePayment(purchase, quantity);
+  }
+
+  /**
+   * An unclaimed ERC-20 Transfer of at least the price from the buyer to
+   * the contract's payment wallet
+   * The wallet can be shared by several groups, so transfers already
+   * claimed by another purchase are skipped.
+   */
+  private async findERC20Payment(
+    purchase: TrackedPurchase,
+    required: bigint,
+  ): Promise<Hash | undefined> {
+    const transfers = await this.publicClient.getLogs({
+      address: purchase.paymentToken.address as `0x${string}`,
+      event: ERC20_TRANSFER_EVENT,
+      args: {
+        from: purchase.buyerAddress as `0x${string}`,
+        to: purchase.paymentWallet as `0x${string}`,
+      },
+      fromBlock: purchase.startBlock,
+    });
+
+    for (const log of transfers) {
+      if ((log.args.value ?? 0n) < required) continue;
+      if (await this.database?.isPaymentProcessed(log.transactionHash)) {
+        continue;
+      }
+      return log.transactionHash;
+    }
+    return undefined;
+  }
+
+  /**
+   * Issue the tokens a claimed ERC-20 payment paid for
+   * The buyer is refunded if the tokens can't be minted.
+   * @returns whether the tokens were issued
+   */
+  private async issuePaidTokens(
+    purchaseId: string,
+    purchase: TrackedPurchase,
+    paymentTxHash: Hash,
+  ): Promise<boolean> {
+    if (!this.evmAuthHandler) return false;
+
+    try {
+      const issueTxHash = await this.evmAuthHandler.issueTokens(
+        purchase.contractAddress,
+        holderAddress(purchase),
+        purchase.tokenId,
+        BigInt(purchase.seats ?? 1),
+      );
+      console.log(
+        `🪙 Issued token ${purchase.tokenId} for ${purchaseId} in ${issueTxHash}`,
+      );
+      return true;
+    } catch (error) {
+      console.error(`❌ Error issuing tokens for ${purchaseId}:`, error);
+      await this.settle(purchaseId, purchase);
+      if (purchase.promoCode) {
+        await this.promoCodes?.release(purchaseId);
+      }
+      await this.refundUnissued(purchaseId, purchase, paymentTxHash);
+      return false;
+    }
+  }
+
+  private async refundUnissued(
+    purchaseId: string,
+    purchase: TrackedPurchase,
+    paymentTxHash: Hash,
+  ): Promise<void> {
+    if (!this.refundManager) {
+      await purchase.conversation.send(
+        `❌ **Access Token Not Minted**\n\n` +
+          `Your payment was verified, but we couldn't mint the ${purchase.tierName} access token.\n\n` +
+          `Please contact support for a refund.`,
+      );
+      return;
+    }
+
+    await this.refundManager.requestRefund({
+      paymentId: purchaseId,
+      paymentTxHash,
+      recipient: purchase.buyerAddress,
+      amountWei: BigInt(purchase.amount),
+      token: purchase.paymentToken,
+      reason: `Access token ${purchase.tokenId} could not be minted`,
+      conversationId: purchase.conversation.id,
+    });
+    await purchase.conversation.send(
+      `❌ **Access Token Not Minted**\n\n` +
+        `Your payment was verified, but we couldn't mint the ${purchase.tierName} access token.\n\n` +
+        `Your payment is being refunded; the refund transaction will be posted here.`,
+    );
+  }
+
+  /**
+   * An unclaimed TokenPurchased event for the holder of at least the
+   * quantity bought; purchase() reverts unless the price was paid
+   */
+  private async findNativePayment(
+    purchase: TrackedPurchase,
+    quantity: bigint,
+  ): Promise<Hash | undefined> {
+    const purchases = await this.publicClient.getLogs({
+      address: purchase.contractAddress as `0x${string}`,
+      event: TOKEN_PURCHASED_EVENT,
+      args: {
+        account: holderAddress(purchase) as `0x${string}`,
+        id: BigInt(purchase.tokenId),
+      },
+      fromBlock: purchase.startBlock,
+    });
+
+    for (const log of purchases) {
+      if ((log.args.amount ?? 0n) < quantity) continue;
+      if (await this.database?.isPaymentProcessed(log.transactionHash)) {
+        continue;
+      }
+      return log.transactionHash;
+    }
+    return undefined;
+  }
+
+  private async grantAccess(
+    purchaseId: string,
+    purchase: TrackedPurchase,
+  ): Promise<void> {
+    // Remove first so an overlapping check can't grant twice
+    await this.settle(purchaseId, purchase);
+    console.log(`💰 Purchase ${purchaseId} verified on chain`);
+
+    try {
+      const added = await this.enhancedGroupManager.handleTokenPurchase(
+        purchase.contractAddress,
+        purchase.buyerAddress,
+        purchase.buyerInboxId,
+        purchase.tokenId,
+        purchase.tierName,
+      );
+
+      const expiresAt = new Date(
+        Date.now() + purchase.durationDays * 24 * 60 * 60 * 1000,
+      );
+      await purchase.conversation.send(
+        `🎉 **Purchase Successful!**\n\n` +
+          `✅ Payment verified on-chain\n` +
+          `✅ NFT minted to your wallet\n` +
+          (added
+            ? `✅ Added to premium group\n`
+            : `✅ Premium group access extended\n`) +
+          `✅ Access expires: ${expiresAt.toLocaleDateString()}\n\n` +
+          `Welcome to the premium community! 🚀`,
+      );
+    } catch (error) {
+      console.error(`❌ Error granting access for ${purchaseId}:`, error);
+      await purchase.conversation.send(
+        `❌ **Access Grant Failed**\n\n` +
+          `Your payment was verified, but we couldn't add you to the premium group:\n\n` +
+          `Error: ${error instanceof Error ? error.message : String(error)}\n\n` +
+          `Please contact support for assistance.`,
+      );
+    }
+  }
+
+  private async createSeatPool(
+    purchaseId: string,
+    purchase: TrackedPurchase,
+    seats: number,
+    paymentTxHash: Hash,
+  ): Promise<void> {
+    if (!this.seatManager) {
+      throw new Error("Seat purchases need a SeatManager");
+    }
+    await this.settle(purchaseId, purchase);
+    console.log(`🪑 Seat purchase ${purchaseId} verified on chain`);
+
+    const expiresAt = await this.getTokenExpiry(purchase);
+    const pool = await this.seatManager.createPool({
+      id: paymentTxHash,
+      contractAddress: purchase.contractAddress,
+      tokenId: purchase.tokenId,
+      tierName: purchase.tierName,
+      ownerAddress: purchase.buyerAddress,
+      ownerInboxId: purchase.buyerInboxId,
+      seats,
+      purchasedAt: new Date().toISOString(),
+      ...(expiresAt ? { expiresAt: expiresAt.toISOString() } : {}),
+    });
+
+    await purchase.conversation.send(
+      `🪑 **Seats Purchased!**\n\n` +
+        `✅ Payment verified on-chain\n` +
+        `✅ ${seats} ${purchase.tierName} tokens minted to your wallet\n` +
+        (pool.expiresAt
+          ? `✅ Seats expire: ${new Date(pool.expiresAt).toLocaleDateString()}\n\n`
+          : `✅ Seats never expire\n\n`) +
+        `Give a seat to a team member with \`/assign-seat <address>\`, ` +
+        `and take it back with \`/reclaim-seat <address>\`.`,
+    );
+  }
+
+  /**
+   * Add the gift recipient, issue ERC-20 gifts, and DM them; ERC-20 gifts
+   * are refunded without minting if the recipient can't be added
+   * @returns whether the gift was delivered
+   */
+  private async deliverGift(
+    purchaseId: string,
+    purchase: TrackedPurchase,
+    gift: GiftDetails,
+    paymentTxHash: Hash,
+  ): Promise<boolean> {
+    await this.settle(purchaseId, purchase);
+    console.log(`🎁 Gift ${purchaseId} verified on chain`);
+
+    let added: boolean;
+    try {
+      added = await this.enhancedGroupManager.handleTokenPurchase(
+        purchase.contractAddress,
+        gift.recipientAddress,
+        gift.recipientInboxId,
+        purchase.tokenId,
+        purchase.tierName,
+      );
+    } catch (error) {
+      console.error(`❌ Error delivering gift ${purchaseId}:`, error);
+      if (!isNativeToken(purchase.paymentToken)) {
+        await this.refundGift(purchaseId, purchase, gift, paymentTxHash);
+        return false;
+      }
+      // purchase() already minted the token to the recipient
+      await purchase.conversation.send(
+        `🎁 **Gift Minted**\n\n` +
+          `✅ Payment verified on-chain\n` +
+          `✅ Access token minted to ${gift.recipientLabel}\n` +
+          `⚠️ We couldn't add ${gift.recipientLabel} to the premium group yet; ` +
+          `they'll be added by the next membership audit once they've joined the sales group.`,
+      );
+      return true;
+    }
+
+    if (
+      !isNativeToken(purchase.paymentToken) &&
+      !(await this.issuePaidTokens(purchaseId, purchase, paymentTxHash))
+    ) {
+      if (added) {
+        await this.enhancedGroupManager.removeExpiredMember(
+          purchase.contractAddress,
+          gift.recipientInboxId,
+          "Gift access token could not be minted",
+        );
+      }
+      return false;
+    }
+
+    let notified = true;
+    try {
+      const dm = await this.client.conversations.newDm(gift.recipientInboxId);
+      await dm.send(
+        `🎁 **You've Been Gifted Access!**\n\n` +
+          `${purchase.buyerAddress} gave you ${purchase.tierName} access ` +
+          `for ${purchase.durationDays} days.\n` +
+          (gift.message ? `\n💌 "${gift.message}"\n` : "") +
+          `\n` +
+          (added
+            ? `✅ You've been added to the premium group`
+            : `✅ Your premium group access has been extended`),
+      );
+    } catch (error) {
+      console.error(`Error notifying gift recipient ${purchaseId}:`, error);
+      notified = false;
+    }
+
+    await purchase.conversation.send(
+      `🎁 **Gift Delivered!**\n\n` +
+        `✅ Payment verified on-chain\n` +
+        `✅ Access token minted to ${gift.recipientLabel}\n` +
+        (added
+          ? `✅ ${gift.recipientLabel} was added to the premium group\n`
+          : `✅ ${gift.recipientLabel}'s premium access was extended\n`) +
+        (notified
+          ? `✅ They've been sent your message`
+          : `⚠️ We couldn't message them, so let them know yourself`),
+    );
+    return true;
+  }
+
+  private async refundGift(
+    purchaseId: string,
+    purchase: TrackedPurchase,
+    gift: GiftDetails,
+    paymentTxHash: Hash,
+  ): Promise<void> {
+    if (!this.refundManager) {
+      await purchase.conversation.send(
+        `❌ **Gift Not Delivered**\n\n` +
+          `Your payment was verified, but we couldn't add ${gift.recipientLabel} to the premium group.\n\n` +
+          `Please contact support for a refund.`,
+      );
+      return;
+    }
+
+    await this.refundManager.requestRefund({
+      paymentId: purchaseId,
+      paymentTxHash,
+      recipient: purchase.buyerAddress,
+      amountWei: BigInt(purchase.amount),
+      token: purchase.paymentToken,
+      reason: `Gift recipient ${gift.recipientLabel} could not be added`,
+      conversationId: purchase.conversation.id,
+    });
+    await purchase.conversation.send(
+      `❌ **Gift Not Delivered**\n\n` +
+        `Your payment was verified, but we couldn't add ${gift.recipientLabel} to the premium group.\n\n` +
+        `Your payment is being refunded; the refund transaction will be posted here.`,
+    );
+  }
+
+  private async payOut(
+    purchaseId: string,
+    purchase: TrackedPurchase,
+    paymentTxHash: Hash,
+  ): Promise<void> {
+    if (!this.refundManager) {
+      console.error(
+        `⚠️ No refund manager to send the payouts for ${purchaseId}; send them manually`,
+      );
+      return;
+    }
+    await this.refundManager.requestPayouts({
+      paymentId: purchaseId,
+      paymentTxHash,
+      payouts: purchase.payouts ?? [],
+      token: purchase.paymentToken,
+      conversationId: purchase.conversation.id,
+    });
+  }
+
+  /**
+   * Confirm the referral and tell the referrer what they earned
+   * Percent rewards are among the purchase's payouts; day rewards extend
+   * the referrer's access from when it would otherwise end.
+   */
+  private async rewardReferrer(
+    purchaseId: string,
+    purchase: TrackedPurchase,
+    paymentTxHash: Hash,
+  ): Promise<void> {
+    const referral = await this.referrals?.get(purchaseId);
+    if (!this.referrals || !referral) return;
+
+    const referrer = {
+      inboxId: referral.referrerInboxId,
+      address: referral.referrerAddress,
+    };
+    const confirmed = await this.referrals.confirm(purchaseId, paymentTxHash, {
+      accessExpiry:
+        referral.reward?.kind === "days"
+          ? await this.enhancedGroupManager.getAccessExpiry(
+              purchase.contractAddress,
+              referrer,
+            )
+          : undefined,
+    });
+    if (!confirmed?.reward) return;
+
+    try {
+      const dm = await this.client.conversations.newDm(referrer.inboxId);
+      await dm.send(
+        `🤝 **Referral Reward**\n\n` +
+          `Someone bought ${purchase.tierName} access with your referral code ${confirmed.code}.\n\n` +
+          (confirmed.extendedUntil
+            ? `✅ Your access is extended until ${new Date(confirmed.extendedUntil).toUTCString()}`
+            : `✅ You earned ${formatUnits(BigInt(confirmed.rewardAmount ?? 0), purchase.paymentToken.decimals)} ` +
+              `${purchase.paymentToken.symbol}, on its way to your wallet`),
+      );
+    } catch (error) {
+      console.error(`Error notifying referrer ${referrer.address}:`, error);
+    }
+  }
+
+  /**
+   * Latest expiry of the holder's tokens from balanceDetailsOf, which the
+   * tokens just minted have (undefined if the tier never expires)
+   */
+  private async getTokenExpiry(
+    purchase: PendingPurchase,
+  ): Promise<Date | undefined> {
+    const details = await this.publicClient.readContract({
+      address: purchase.contractAddress as `0x${string}`,
+      abi: EVMAUTH_V2_ABI,
+      functionName: "balanceDetailsOf",
+      args: [
+        holderAddress(purchase) as `0x${string}`,
+        BigInt(purchase.tokenId),
+      ],
+    });
+    const latest = details.reduce(
+      (max, group) => (group.expiresAt > max ? group.expiresAt : max),
+      0n,
+    );
+    return latest === 0n || latest === maxUint256
+      ? undefined
+      : new Date(Number(latest) * 1000);
+  }
+
+  private async getTokenBalance(purchase: PendingPurchase): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: purchase.contractAddress as `0x${string}`,
+      abi: ERC1155_BALANCE_ABI,
+      functionName: "balanceOf",
+      args: [
+        holderAddress(purchase) as `0x${string}`,
+        BigInt(purchase.tokenId),
+      ],
+    });
+  }
+}
+
+/**
+ * Who the access token is minted to
+ */
+function holderAddress(purchase: PendingPurchase): string {
+  return purchase.gift?.recipientAddress ?? purchase.buyerAddress;
+}
@@ -0,0 +1,222 @@
+/**
+ * Per-sender, per-command rate limiting using token buckets
+ * Bucket state is persisted to .data so limits survive restarts. Writes are
+ * batched, so call flush() before exiting, and buckets left idle long enough
+ * to have refilled are dropped.
+ */
+
+import fs from "fs";
+import path from "path";
+
+export interface RateLimitConfig {
+  /** Maximum burst size */
+  capacity: number;
+  /** One token is refilled every refillIntervalMs */
+  refillIntervalMs: number;
+  /** Minimum time between two successful uses */
+  cooldownMs?: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Milliseconds until the command can be used again (0 if allowed) */
+  retryAfterMs: number;
+  /** True the first time a sender hits the limit, so callers reply once */
+  shouldNotify: boolean;
+}
+
+export interface RateLimiterOptions {
+  /** Delay before changed buckets are written to disk */
+  flushDelayMs?: number;
+  /** Buckets unused for this long are forgotten; must exceed any refill time */
+  idleTtlMs?: number;
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+  lastUsedAt: number;
+  notified: boolean;
+}
+
+export class RateLimiter {
+  private stateFile: string;
+  private buckets = new Map<string, BucketState>();
+  private flushDelayMs: number;
+  private idleTtlMs: number;
+  private flushTimer?: NodeJS.Timeout;
+
+  constructor(stateDir = "./.data", options: RateLimiterOptions = {}) {
+    if (!fs.existsSync(stateDir)) {
+      fs.mkdirSync(stateDir, { recursive: true });
+    }
+
+    this.stateFile = path.join(stateDir, "rate-limits.json");
+    this.flushDelayMs = options.flushDelayMs ?? 5000;
+    this.idleTtlMs = options.idleTtlMs ?? 24 * 60 * 60 * 1000;
+    this.loadState();
+  }
+
+  /** Number of buckets held in memory */
+  get size(): number {
+    return this.buckets.size;
+  }
+
+  /**
+   * Try to take a token for this sender and command
+   */
+  consume(
+    senderInboxId: string,
+    command: string,
+    config: RateLimitConfig,
+  ): RateLimitResult {
+    const key = `${senderInboxId}:${command}`;
+    const now = Date.now();
+    const bucket = this.refill(
+      this.buckets.get(key) ?? {
+        tokens: config.capacity,
+        updatedAt: now,
+        lastUsedAt: 0,
+        notified: false,
+      },
+      config,
+      now,
+    );
+
+    const cooldownLeft = config.cooldownMs
+      ? Math.max(0, bucket.lastUsedAt + config.cooldownMs - now)
+      : 0;
+    const refillLeft =
+      bucket.tokens >= 1
+        ? 0
+        : Math.ceil((1 - bucket.tokens) * config.refillIntervalMs);
+    const retryAfterMs = Math.max(cooldownLeft, refillLeft);
+
+    let result: RateLimitResult;
+    if (retryAfterMs > 0) {
+      result = { allowed: false, retryAfterMs, shouldNotify: !bucket.notified };
+      bucket.notified = true;
+    } else {
+      bucket.tokens -= 1;
+      bucket.lastUsedAt = now;
+      bucket.notified = false;
+      result = { allowed: true, retryAfterMs: 0, shouldNotify: false };
+    }
+
+    this.buckets.set(key, bucket);
+    this.scheduleSave();
+    return result;
+  }
+
+  /**
+   * Forget all limits for a sender
+   */
+  reset(senderInboxId: string): void {
+    for (const key of this.buckets.keys()) {
+      if (key.startsWith(`${senderInboxId}:`)) {
+        this.buckets.delete(key);
+      }
+    }
+    this.scheduleSave();
+  }
+
+  /**
+   * Drop buckets idle for longer than the idle TTL
+   * @returns number of buckets dropped
+   */
+  evictIdle(now = Date.now()): number {
+    let evicted = 0;
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt > this.idleTtlMs) {
+        this.buckets.delete(key);
+        evicted++;
+      }
+    }
+    return evicted;
+  }
+
+  /**
+   * Write pending changes now instead of waiting for the batch
+   */
+  flush(): void {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    this.evictIdle();
+    this.saveState();
+  }
+
+  private refill(
+    bucket: BucketState,
+    config: RateLimitConfig,
+    now: number,
+  ): BucketState {
+    const elapsed = Math.max(0, now - bucket.updatedAt);
+    return {
+      ...bucket,
+      tokens: Math.min(
+        config.capacity,
+        bucket.tokens + elapsed / config.refillIntervalMs,
+      ),
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Load bucket state from disk
+   */
+  private loadState(): void {
+    try {
+      if (fs.existsSync(this.stateFile)) {
+        const data = fs.readFileSync(this.stateFile, "utf8");
+        const entries = JSON.parse(data) as Record<string, BucketState>;
+        this.buckets = new Map(Object.entries(entries));
+        this.evictIdle();
+        console.log(`🚦 Loaded ${this.buckets.size} rate limit buckets`);
+      }
+    } catch (error) {
+      console.error("Error loading rate limit state:", error);
+      this.buckets = new Map();
+    }
+  }
+
+  /**
+   * Write once per batch, however many commands arrive in the meantime
+   */
+  private scheduleSave(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flush();
+    }, this.flushDelayMs);
+    // Never keep the process alive just to write limits
+    this.flushTimer.unref();
+  }
+
+  /**
+   * Save bucket state to disk
+   */
+  private saveState(): void {
+    try {
+      // Write to a temp file and rename so a crash never leaves a partial file
+      const tmpPath = `${this.stateFile}.tmp`;
+      fs.writeFileSync(
+        tmpPath,
+        JSON.stringify(Object.fromEntries(this.buckets), null, 2),
+      );
+      fs.renameSync(tmpPath, this.stateFile);
+    } catch (error) {
+      console.error("Error saving rate limit state:", error);
+    }
+  }
+}
+
+/**
+ * Format a retry delay for chat replies, e.g. "45 seconds" or "3 minutes"
+ */
+export function formatRetryAfter(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
@@ -0,0 +1,74 @@
+/**
+ * Resolve a gift recipient given as an address, ENS name or XMTP inbox ID
+ * A recipient must have both a wallet (to hold the access token) and an
+ * XMTP inbox (to be added to the premium group).
+ */
+
+import { IdentifierKind, type Client } from "@xmtp/node-sdk";
+import { createPublicClient, http, isAddress } from "viem";
+import { mainnet } from "viem/chains";
+import { normalize } from "viem/ens";
+
+export interface ResolvedRecipient {
+  address: string;
+  /** Undefined when the address has no XMTP inbox */
+  inboxId?: string;
+  /** The ENS name, address or inbox ID as given */
+  label: string;
+}
+
+const INBOX_ID_PATTERN = /^[0-9a-f]{64}$/i;
+
+export class RecipientResolver {
+  private client: Client<unknown>;
+  private ensClient;
+
+  constructor(client: Client<unknown>, ensRpcUrl?: string) {
+    this.client = client;
+    // ENS lives on mainnet regardless of the chain access is sold on
+    this.ensClient = createPublicClient({
+      chain: mainnet,
+      transport: http(ensRpcUrl),
+    });
+  }
+
+  /**
+   * @returns null when the input is not a known address, name or inbox
+   */
+  async resolve(input: string): Promise<ResolvedRecipient | null> {
+    const label = input.trim();
+
+    if (isAddress(label)) {
+      return { address: label, inboxId: await this.inboxIdFor(label), label };
+    }
+
+    if (label.toLowerCase().endsWith(".eth")) {
+      const address = await this.ensClient.getEnsAddress({
+        name: normalize(label),
+      });
+      if (!address) return null;
+      return { address, inboxId: await this.inboxIdFor(address), label };
+    }
+
+    if (INBOX_ID_PATTERN.test(label)) {
+      const states = await this.client.preferences.inboxStateFromInboxIds([
+        label,
+      ]);
+      const address = states
+        .flatMap((state) => state.identifiers)
+        .find((i) => i.identifierKind === IdentifierKind.Ethereum)?.identifier;
+      if (!address) return null;
+      return { address, inboxId: label, label };
+    }
+
+    return null;
+  }
+
+  private async inboxIdFor(address: string): Promise<string | undefined> {
+    const inboxId = await this.client.getInboxIdByIdentifier({
+      identifier: address.toLowerCase(),
+      identifierKind: IdentifierKind.Ethereum,
+    });
+    return inboxId ?? undefined;
+  }
+}
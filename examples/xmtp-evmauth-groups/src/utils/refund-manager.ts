@@ -0,0 +1,494 @@
+/**
+ * Refunds for payments that were received but never fulfilled, and payouts
+ * the agent makes out of fulfilled ones (collaborator shares, referral
+ * rewards, promo rebates)
+ * Transfers are stored before anything is sent and each transaction hash is
+ * recorded with its nonce before waiting on it, so a restart resumes a
+ * refund instead of paying it twice. A transaction that disappears is only
+ * resent once the nonce shows it can't land: on the same nonce while that
+ * is still unused, or on a new one after another transaction took it.
+ */
+
+import type { Client } from "@xmtp/node-sdk";
+import {
+  createPublicClient,
+  createWalletClient,
+  erc20Abi,
+  http,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  WaitForTransactionReceiptTimeoutError,
+  type Hash,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { baseSepolia } from "viem/chains";
+import type { GroupStore, RefundRecord } from "../database/group-store";
+import { AgentEventBus } from "../events/event-bus";
+import { isNativeToken, type PaymentTokenInfo } from "./payment-tokens";
+import type { PurchasePayout } from "./payment-transactions";
+import { formatTokenAmount } from "./price-service";
+
+const MINUTE_MS = 60 * 1000;
+
+export interface RefundRequest {
+  paymentId: string;
+  /** Transaction being refunded */
+  paymentTxHash: string;
+  recipient: string;
+  /** Amount in the token's smallest unit */
+  amountWei: bigint;
+  /** Token to refund in; ETH when omitted */
+  token?: PaymentTokenInfo;
+  reason: string;
+  conversationId: string;
+}
+
+export interface PayoutRequest {
+  paymentId: string;
+  /** Payment the payouts are made from */
+  paymentTxHash: string;
+  payouts: PurchasePayout[];
+  token: PaymentTokenInfo;
+  conversationId: string;
+}
+
+export interface RefundManagerOptions {
+  /** Refund transactions sent before giving up */
+  maxAttempts?: number;
+  /** Wait before the first retry; doubles with each attempt */
+  retryDelayMs?: number;
+  /** How often to process due refunds */
+  intervalMs?: number;
+}
+
+/**
+ * What became of a sent refund transaction. "unknown" covers RPC errors and
+ * anything else that can't prove the transaction won't land.
+ */
+type SentOutcome =
+  "success" | "reverted" | "pending" | "replaced" | "unused" | "unknown";
+
+/**
+ * Refund amount with its token, e.g. "10.00 USDC"
+ */
+export function formatRefundAmount(refund: RefundRecord): string {
+  return formatTokenAmount(
+    refund.amountWei,
+    refund.token?.symbol ?? "ETH",
+    refund.token?.decimals ?? 18,
+  );
+}
+
+export class RefundManager {
+  private client: Client<unknown>;
+  private database: GroupStore;
+  private eventBus: AgentEventBus;
+  private publicClient;
+  private walletClient;
+  private maxAttempts: number;
+  private retryDelayMs: number;
+  private intervalMs: number;
+  private timer?: NodeJS.Timeout;
+  private processing = false;
+
+  constructor(
+    client: Client<unknown>,
+    database: GroupStore,
+    rpcUrl: string,
+    privateKey: string,
+    eventBus: AgentEventBus = new AgentEventBus(),
+    options: RefundManagerOptions = {},
+  ) {
+    this.client = client;
+    this.database = database;
+    this.eventBus = eventBus;
+    this.publicClient = createPublicClient({
+      chain: baseSepolia,
+      transport: http(rpcUrl),
+    });
+    this.walletClient = createWalletClient({
+      account: privateKeyToAccount(privateKey as `0x${string}`),
+      chain: baseSepolia,
+      transport: http(rpcUrl),
+    });
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.retryDelayMs = options.retryDelayMs ?? 2 * MINUTE_MS;
+    this.intervalMs = options.intervalMs ?? MINUTE_MS;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    console.log(`💸 Refund processing active (${this.maxAttempts} attempts)`);
+    this.timer = setInterval(() => void this.processRefunds(), this.intervalMs);
+    void this.processRefunds();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Queue a refund and try to send it right away
+   * Requesting the same payment transaction twice returns the first refund.
+   */
+  async requestRefund(request: RefundRequest): Promise<RefundRecord> {
+    const existing = (await this.database.getRefunds()).find(
+      (r) => r.id.toLowerCase() === request.paymentTxHash.toLowerCase(),
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const now = new Date().toISOString();
+    const refund: RefundRecord = {
+      id: request.paymentTxHash,
+      paymentId: request.paymentId,
+      recipient: request.recipient,
+      amountWei: request.amountWei.toString(),
+      token: request.token,
+      reason: request.reason,
+      conversationId: request.conversationId,
+      status: "pending",
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.database.saveRefund(refund);
+    console.log(
+      `💸 Queued refund of ${formatRefundAmount(refund)} to ${request.recipient} (${request.reason})`,
+    );
+
+    void this.processRefunds();
+    return refund;
+  }
+
+  /**
+   * Queue the payouts funded by a payment and try to send them right away
+   * Requesting the same payment transaction twice returns the first payouts.
+   */
+  async requestPayouts(request: PayoutRequest): Promise<RefundRecord[]> {
+    const existing = await this.database.getRefunds();
+    const now = new Date().toISOString();
+    const records: RefundRecord[] = [];
+
+    for (const [index, payout] of request.payouts.entries()) {
+      const id = `${request.paymentTxHash}:payout-${index}`;
+      const queued = existing.find(
+        (r) => r.id.toLowerCase() === id.toLowerCase(),
+      );
+      if (queued) {
+        records.push(queued);
+        continue;
+      }
+
+      const record: RefundRecord = {
+        id,
+        kind: "payout",
+        paymentId: request.paymentId,
+        recipient: payout.to,
+        amountWei: payout.amount.toString(),
+        token: request.token,
+        reason: payout.description,
+        conversationId: request.conversationId,
+        status: "pending",
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await this.database.saveRefund(record);
+      console.log(
+        `💸 Queued payout of ${formatRefundAmount(record)} to ${payout.to} (${payout.description})`,
+      );
+      records.push(record);
+    }
+
+    void this.processRefunds();
+    return records;
+  }
+
+  /**
+   * Every refund and payout, newest first
+   */
+  async listRefunds(): Promise<RefundRecord[]> {
+    return (await this.database.getRefunds()).sort((a, b) =>
+      b.createdAt.localeCompare(a.createdAt),
+    );
+  }
+
+  /**
+   * Attempt every pending refund that is due
+   * @returns number of refunds completed
+   */
+  async processRefunds(now = Date.now()): Promise<number> {
+    if (this.processing) return 0;
+    this.processing = true;
+    let completed = 0;
+
+    try {
+      for (const refund of await this.database.getRefunds("pending")) {
+        if (refund.nextAttemptAt && Date.parse(refund.nextAttemptAt) > now) {
+          continue;
+        }
+        if (await this.attempt(refund)) {
+          completed++;
+        }
+      }
+    } catch (error) {
+      console.error("Error processing refunds:", error);
+    } finally {
+      this.processing = false;
+    }
+    return completed;
+  }
+
+  /**
+   * @returns true once the refund is confirmed on-chain
+   */
+  private async attempt(refund: RefundRecord): Promise<boolean> {
+    // A transaction from an earlier attempt may still land; never send twice
+    let nonce: number | undefined;
+    let earlierTxHashes: string[] | undefined;
+    if (refund.txHash) {
+      const outcome = await this.checkSent(refund);
+      if (outcome === "success") {
+        await this.complete(refund, refund.txHash);
+        return true;
+      }
+      if (outcome === "pending" || outcome === "unknown") {
+        return false;
+      }
+      // Reusing a free nonce means only one of the two can ever be mined
+      if (outcome === "unused") {
+        nonce = refund.nonce;
+        earlierTxHashes = [...(refund.earlierTxHashes ?? []), refund.txHash];
+      }
+    }
+
+    refund.attempts++;
+    try {
+      nonce ??= await this.publicClient.getTransactionCount({
+        address: this.walletClient.account.address,
+        blockTag: "pending",
+      });
+      const hash = await this.send(refund, nonce);
+      refund.txHash = hash;
+      refund.nonce = nonce;
+      refund.earlierTxHashes = earlierTxHashes;
+      await this.save(refund);
+
+      const receipt = await this.publicClient.waitForTransactionReceipt({
+        hash,
+        timeout: MINUTE_MS,
+      });
+      if (receipt.status !== "success") {
+        throw new Error(`Refund transaction ${hash} reverted`);
+      }
+
+      await this.complete(refund, hash);
+      return true;
+    } catch (error) {
+      // Still in the mempool: checked again on the next pass
+      if (error instanceof WaitForTransactionReceiptTimeoutError) {
+        return false;
+      }
+
+      refund.lastError = error instanceof Error ? error.message : String(error);
+      console.error(
+        `❌ Refund ${refund.id} attempt ${refund.attempts} failed:`,
+        refund.lastError,
+      );
+
+      if (refund.attempts >= this.maxAttempts) {
+        await this.fail(refund);
+      } else {
+        const delay = this.retryDelayMs * 2 ** (refund.attempts - 1);
+        refund.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+        await this.save(refund);
+      }
+      return false;
+    }
+  }
+
+  private async send(refund: RefundRecord, nonce: number): Promise<Hash> {
+    const to = refund.recipient as `0x${string}`;
+    const amount = BigInt(refund.amountWei);
+    if (!refund.token || isNativeToken(refund.token)) {
+      return this.walletClient.sendTransaction({ to, value: amount, nonce });
+    }
+    return this.walletClient.writeContract({
+      address: refund.token.address as `0x${string}`,
+      abi: erc20Abi,
+      functionName: "transfer",
+      args: [to, amount],
+      nonce,
+    });
+  }
+
+  private async checkSent(refund: RefundRecord): Promise<SentOutcome> {
+    // Any transaction sent on the refund's nonce may be the one mined
+    const hashes = [refund.txHash, ...(refund.earlierTxHashes ?? [])] as Hash[];
+    try {
+      const receipt = await this.findReceipt(hashes);
+      if (receipt) {
+        refund.txHash = receipt.transactionHash;
+        return receipt.status === "success" ? "success" : "reverted";
+      }
+      for (const hash of hashes) {
+        if (await this.isBroadcast(hash)) return "pending";
+      }
+
+      // Gone from the mempool; where the nonce went decides whether to resend
+      if (refund.nonce === undefined) {
+        console.error(
+          `⚠️ Refund ${refund.id} has no recorded nonce; leaving it for the operator`,
+        );
+        return "unknown";
+      }
+      const confirmed = await this.publicClient.getTransactionCount({
+        address: this.walletClient.account.address,
+        blockTag: "latest",
+      });
+      if (confirmed <= refund.nonce) return "unused";
+
+      // The nonce is used: by one of ours if its receipt was lagging,
+      // otherwise by another transaction
+      const late = await this.findReceipt(hashes);
+      if (late) {
+        refund.txHash = late.transactionHash;
+        return late.status === "success" ? "success" : "reverted";
+      }
+      return "replaced";
+    } catch (error) {
+      console.error(`⚠️ Could not check refund ${refund.id}:`, error);
+      return "unknown";
+    }
+  }
+
+  /**
+   * Receipt of the first mined transaction, null when none is mined
+   */
+  private async findReceipt(hashes: Hash[]) {
+    for (const hash of hashes) {
+      try {
+        return await this.publicClient.getTransactionReceipt({ hash });
+      } catch (error) {
+        if (!(error instanceof TransactionReceiptNotFoundError)) throw error;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Whether the node still knows about an unmined transaction
+   */
+  private async isBroadcast(hash: Hash): Promise<boolean> {
+    try {
+      await this.publicClient.getTransaction({ hash });
+      return true;
+    } catch (error) {
+      if (error instanceof TransactionNotFoundError) return false;
+      throw error;
+    }
+  }
+
+  private async complete(refund: RefundRecord, txHash: string): Promise<void> {
+    refund.status = "sent";
+    refund.txHash = txHash;
+    refund.nextAttemptAt = undefined;
+    await this.save(refund);
+    console.log(
+      `✅ ${refund.kind === "payout" ? "Payout" : "Refund"} ${refund.id} sent: ${txHash}`,
+    );
+
+    if (refund.kind === "payout") {
+      await this.eventBus.publish({
+        type: "PAYOUT_SENT",
+        data: {
+          paymentId: refund.paymentId,
+          recipient: refund.recipient,
+          amountWei: refund.amountWei,
+          amount: formatRefundAmount(refund),
+          description: refund.reason,
+          txHash,
+        },
+      });
+      return;
+    }
+
+    await this.notify(
+      refund,
+      `💸 **Refund Sent**\n\n` +
+        `${formatRefundAmount(refund)} has been returned to ${refund.recipient}.\n` +
+        `Reason: ${refund.reason}\n` +
+        `Tx: ${txHash}`,
+    );
+
+    await this.eventBus.publish({
+      type: "REFUND_SENT",
+      data: {
+        paymentId: refund.paymentId,
+        recipient: refund.recipient,
+        amountWei: refund.amountWei,
+        amount: formatRefundAmount(refund),
+        txHash,
+      },
+    });
+  }
+
+  private async fail(refund: RefundRecord): Promise<void> {
+    refund.status = "failed";
+    refund.nextAttemptAt = undefined;
+    await this.save(refund);
+
+    // Payouts aren't the buyer's money, so only the operator hears about them
+    if (refund.kind === "payout") {
+      await this.eventBus.publish({
+        type: "PAYOUT_FAILED",
+        data: {
+          paymentId: refund.paymentId,
+          recipient: refund.recipient,
+          amountWei: refund.amountWei,
+          amount: formatRefundAmount(refund),
+          description: refund.reason,
+          error: refund.lastError ?? "unknown error",
+        },
+      });
+      return;
+    }
+
+    await this.notify(
+      refund,
+      `⚠️ We couldn't send your ${formatRefundAmount(refund)} refund automatically.\n\n` +
+        `The operator has been notified and will send it manually.`,
+    );
+
+    await this.eventBus.publish({
+      type: "REFUND_FAILED",
+      data: {
+        paymentId: refund.paymentId,
+        recipient: refund.recipient,
+        amountWei: refund.amountWei,
+        amount: formatRefundAmount(refund),
+        reason: refund.reason,
+        error: refund.lastError ?? "unknown error",
+      },
+    });
+  }
+
+  private async save(refund: RefundRecord): Promise<void> {
+    refund.updatedAt = new Date().toISOString();
+    await this.database.saveRefund(refund);
+  }
+
+  private async notify(refund: RefundRecord, message: string): Promise<void> {
+    try {
+      const conversation = await this.client.conversations.getConversationById(
+        refund.conversationId,
+      );
+      await conversation?.send(message);
+    } catch (error) {
+      console.error(`Error messaging about refund ${refund.id}:`, error);
+    }
+  }
+}
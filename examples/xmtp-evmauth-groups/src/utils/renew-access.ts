@@ -0,0 +1,311 @@
+/**
+ * /renew - extend an existing (or recently expired) access token
+ * Quotes the new expiry from the contract before sending the purchase, and
+ * re-adds members within the grace window straight to the premium group.
+ * Renewals are paid in the group's default payment token and split like any
+ * purchase: the platform fee is added to the bundle, and collaborator shares
+ * are paid by the agent once the renewal is verified.
+ */
+
+import {
+  ContentTypeWalletSendCalls,
+  type WalletSendCallsParams,
+} from "@xmtp/content-type-wallet-send-calls";
+import type {
+  AgentCommandContext,
+  AgentServices,
+} from "../commands/agent-commands";
+import { requireGroup } from "../commands/command-registry";
+import { tierTokenId } from "../managers/group-registry";
+import type { AccessTier, DualGroupConfig } from "../types/types";
+import type { RevenueSplit } from "./fee-engine";
+import { isNativeToken, type PaymentTokenInfo } from "./payment-tokens";
+import { createTokenAccessPurchase } from "./payment-transactions";
+import { tierPaymentToken } from "./price-service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How long after expiry a member can still renew from a DM */
+export const RENEWAL_GRACE_DAYS = Number(process.env.RENEWAL_GRACE_DAYS ?? 7);
+
+export type RenewalPricing = Pick<
+  AgentServices,
+  "evmAuthHandler" | "priceService" | "paymentTokens" | "feeEngine"
+>;
+
+export interface RenewalQuote {
+  paymentToken: PaymentTokenInfo;
+  /** Price of one token in the payment token's smallest unit */
+  amount: bigint;
+  /** Platform fee and collaborator shares; renewals take no codes */
+  split: RevenueSplit;
+}
+
+/**
+ * Renewal price of a tier in the group's default payment token: the price
+ * set on chain for native purchases, else the tier price converted
+ */
+export async function quoteRenewal(
+  pricing: RenewalPricing,
+  config: DualGroupConfig,
+  tier: AccessTier,
+): Promise<RenewalQuote> {
+  const paymentToken = pricing.paymentTokens.require(
+    config.paymentConfig.defaultToken,
+  );
+  const amount = isNativeToken(paymentToken)
+    ? await pricing.evmAuthHandler.getTokenPrice(
+        config.contractAddress,
+        tierTokenId(config.tiers, tier),
+      )
+    : await pricing.priceService.convert(
+        tier.priceWei,
+        tierPaymentToken(tier),
+        paymentToken.symbol,
+      );
+  const split = await pricing.feeEngine.split(
+    config,
+    paymentToken.symbol,
+    amount,
+  );
+  return { paymentToken, amount, split };
+}
+
+/**
+ * Wallet calls renewing a tier: the purchase followed by the platform fee
+ */
+export function createRenewal(
+  config: DualGroupConfig,
+  tier: AccessTier,
+  quote: RenewalQuote,
+  paymentWallet: string,
+  memberAddress: string,
+): WalletSendCallsParams {
+  return createTokenAccessPurchase(
+    quote.paymentToken,
+    config.contractAddress,
+    paymentWallet,
+    tierTokenId(config.tiers, tier),
+    quote.amount,
+    config.metadata.name,
+    tier.name,
+    memberAddress,
+    memberAddress,
+    1,
+    quote.split.payouts,
+  );
+}
+
+interface TierExpiry {
+  tier: AccessTier;
+  tokenId: number;
+  /** Latest unexpired expiry on the contract */
+  currentExpiry?: Date;
+  /** Latest expiry ever recorded, including lapsed purchases */
+  lastExpiry?: Date;
+}
+
+/**
+ * Current and last-known expiry for each of the group's tiers
+ */
+async function loadTierExpiries(
+  ctx: AgentCommandContext,
+  config: DualGroupConfig,
+): Promise<TierExpiry[]> {
+  const { evmAuthHandler } = ctx.services;
+
+  // Lapsed purchases only show up in the extension's purchase records
+  let records: Array<{ tokenId: bigint; expiresAt: bigint }> = [];
+  try {
+    const extension = await evmAuthHandler.getExtensionClient(
+      config.contractAddress,
+    );
+    records = await extension.getUserPurchaseRecords(ctx.senderAddress);
+  } catch (error) {
+    console.log(
+      `ℹ️ No purchase records for ${config.contractAddress}: ${String(error)}`,
+    );
+  }
+
+  return Promise.all(
+    config.tiers.map(async (tier) => {
+      const tokenId = tierTokenId(config.tiers, tier);
+      const details = await evmAuthHandler.getTokenBalanceDetails(
+        config.contractAddress,
+        ctx.senderAddress,
+        tokenId,
+      );
+
+      const current = Math.max(0, ...details.map((d) => d.expiresAt.getTime()));
+      const recorded = Math.max(
+        0,
+        ...records
+          .filter((r) => Number(r.tokenId) === tokenId)
+          .map((r) => Number(r.expiresAt) * 1000),
+      );
+      const last = Math.max(current, recorded);
+
+      return {
+        tier,
+        tokenId,
+        currentExpiry: current > 0 ? new Date(current) : undefined,
+        lastExpiry: last > 0 ? new Date(last) : undefined,
+      };
+    }),
+  );
+}
+
+export async function handleRenewAccess(
+  ctx: AgentCommandContext,
+): Promise<void> {
+  const { conversation, senderAddress, senderInboxId } = ctx;
+  const { evmAuthHandler, erc20Handler, priceService, purchaseVerifier } =
+    ctx.services;
+  const config = requireGroup(ctx);
+
+  if (!senderAddress || senderAddress === "Unknown") {
+    await conversation.send(
+      "❌ **Unable to renew**\n\nI couldn't determine your wallet address. Please make sure you're messaging from a wallet-connected XMTP client.",
+    );
+    return;
+  }
+
+  const expiries = await loadTierExpiries(ctx, config);
+
+  // Renew the requested tier, or the one the member held most recently
+  const requested = ctx.args.tier;
+  const target = requested
+    ? expiries.find((e) => e.tier.id === requested)
+    : expiries
+        .filter((e) => e.lastExpiry)
+        .sort(
+          (a, b) =>
+            (b.lastExpiry?.getTime() ?? 0) - (a.lastExpiry?.getTime() ?? 0),
+        )[0];
+
+  if (!target) {
+    await conversation.send(
+      requested
+        ? `❌ Tier "${requested}" not found.\n\nAvailable tiers: ${config.tiers.map((t) => t.id).join(", ")}`
+        : `📭 You don't have an access token for ${config.metadata.name} to renew.\n\n` +
+            `Purchase one with: \`/buy-access ${ctx.args.group} <tier_id>\``,
+    );
+    return;
+  }
+
+  const now = Date.now();
+  const lastExpiry = expiries.reduce(
+    (max, e) => Math.max(max, e.lastExpiry?.getTime() ?? 0),
+    0,
+  );
+  const isActive = expiries.some((e) => e.currentExpiry);
+  if (!isActive && now - lastExpiry > RENEWAL_GRACE_DAYS * DAY_MS) {
+    await conversation.send(
+      `⌛ Your ${config.metadata.name} access ended more than ${RENEWAL_GRACE_DAYS} days ago.\n\n` +
+        `Join the sales group and purchase again with: \`/buy-access ${ctx.args.group} ${target.tier.id}\``,
+    );
+    return;
+  }
+
+  const alreadyPending = purchaseVerifier
+    .getPendingPurchasesForBuyer(senderInboxId)
+    .some(
+      (p) =>
+        p.contractAddress.toLowerCase() ===
+        config.contractAddress.toLowerCase(),
+    );
+  if (alreadyPending) {
+    await conversation.send(
+      `⏳ You already have a purchase for ${config.metadata.name} waiting for confirmation.`,
+    );
+    return;
+  }
+
+  let quote: RenewalQuote;
+  try {
+    quote = await quoteRenewal(ctx.services, config, target.tier);
+  } catch (error) {
+    console.error(`Error pricing ${target.tier.name} renewal:`, error);
+    await conversation.send(
+      `❌ No ${config.paymentConfig.defaultToken} price is available right now. Please try again shortly.`,
+    );
+    return;
+  }
+  const { paymentToken, amount, split } = quote;
+  const format = (value: bigint) =>
+    priceService.formatTokenAmount(value, paymentToken.symbol);
+
+  const balance = await erc20Handler.getBalance(paymentToken, senderAddress);
+  if (balance < split.total) {
+    await conversation.send(
+      `❌ **Insufficient ${paymentToken.symbol}**\n\n` +
+        `Renewing ${target.tier.name} costs ${format(split.total)}; ` +
+        `your wallet holds ${format(balance)}.`,
+    );
+    return;
+  }
+
+  // A new token expires ttl seconds after purchase; access lasts until the later expiry
+  const ttlSeconds = await evmAuthHandler.getTokenTTL(
+    config.contractAddress,
+    target.tokenId,
+  );
+  const purchasedExpiry =
+    ttlSeconds === 0n ? undefined : now + Number(ttlSeconds) * 1000;
+  const newExpiry =
+    purchasedExpiry === undefined
+      ? undefined
+      : new Date(
+          Math.max(purchasedExpiry, target.currentExpiry?.getTime() ?? 0),
+        );
+
+  await conversation.send(
+    `🔄 **Renew ${target.tier.name} - ${config.metadata.name}**\n\n` +
+      `📅 Current expiry: ${
+        target.currentExpiry
+          ? target.currentExpiry.toUTCString()
+          : `expired ${target.lastExpiry?.toUTCString() ?? ""}`
+      }\n` +
+      `📅 New expiry: ${newExpiry ? newExpiry.toUTCString() : "never"}\n` +
+      `💎 Price: ${format(amount)}\n` +
+      (split.platformFee > 0n
+        ? `   + ${format(split.platformFee)} platform fee\n` +
+          `💳 You pay: ${format(split.total)}\n`
+        : "") +
+      `\n` +
+      (target.currentExpiry
+        ? `Approve the ${paymentToken.symbol} payment below to renew.`
+        : `Approve the ${paymentToken.symbol} payment below - you'll be re-added to the premium group once it confirms.`),
+  );
+
+  const paymentWallet = await evmAuthHandler.getPaymentWallet(
+    config.contractAddress,
+  );
+  const renewal = createRenewal(
+    config,
+    target.tier,
+    quote,
+    paymentWallet,
+    senderAddress,
+  );
+  await conversation.send(renewal, ContentTypeWalletSendCalls);
+
+  // The verifier re-adds lapsed members directly, no sales group needed, and
+  // pays the collaborator shares once the renewal is fulfilled
+  await purchaseVerifier.registerPendingPurchase(
+    `${senderInboxId}-${config.contractAddress}-${now}`,
+    {
+      buyerAddress: senderAddress,
+      buyerInboxId: senderInboxId,
+      contractAddress: config.contractAddress,
+      tokenId: target.tokenId,
+      paymentToken,
+      paymentWallet,
+      amount: amount.toString(),
+      payouts: split.shares,
+      tierName: target.tier.name,
+      durationDays: target.tier.durationDays,
+      conversation,
+    },
+  );
+}
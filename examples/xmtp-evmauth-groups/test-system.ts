@@ -5,11 +5,13 @@
  */
 
 import { JSONDatabase } from "./src/database/json-database";
+import { SQLiteGroupStore } from "./src/database/sqlite-group-store";
 import { ComprehensiveRecovery } from "./src/managers/comprehensive-recovery";
 import { createSigner, getEncryptionKeyFromHex } from "@helpers/client";
 import { Client, type XmtpEnv } from "@xmtp/node-sdk";
 import { EVMAuthHandler } from "./src/handlers/evmauth-handler";
 import { EnhancedGroupManager } from "./src/managers/enhanced-group-flow";
+import { GroupRegistry } from "./src/managers/group-registry";
 
 // Load environment variables with proper validation
 import dotenv from 'dotenv';
@@ -78,6 +80,28 @@ async function runSystemTests() {
     console.log("📊 Database stats:", database.getStats());
     console.log("");
 
+    // Test 1b: SQLite store behaves like the JSON database
+    console.log("📋 **TEST 1b: SQLite Group Store**");
+    const sqliteStore = new SQLiteGroupStore("./test-data");
+    const sqliteGroup =
+      (await sqliteStore.findGroupByName("test-inbox-123", "Test Group")) ??
+      (await sqliteStore.createGroup({
+        name: "Test Group",
+        creatorInboxId: "test-inbox-123",
+        creatorAddress: "0x1234567890123456789012345678901234567890",
+        contractAddress: "0x0987654321098765432109876543210987654321",
+        salesGroupId: "sales-group-123",
+        premiumGroupId: "premium-group-123",
+        status: 'created'
+      }));
+    const byContract = await sqliteStore.findGroupByContract(sqliteGroup.contractAddress);
+    const byPremiumId = await sqliteStore.findGroupByGroupId("premium-group-123");
+    console.log("✅ Contract lookup:", byContract?.id === sqliteGroup.id ? "SUCCESS" : "FAILED");
+    console.log("✅ Group ID lookup:", byPremiumId?.id === sqliteGroup.id ? "SUCCESS" : "FAILED");
+    console.log("📊 SQLite stats:", sqliteStore.getStats());
+    sqliteStore.close();
+    console.log("");
+
     // Test 2: XMTP Client & Recovery (if env vars available)
     console.log("🔗 **TEST 2: XMTP Client & Recovery System**");
     
@@ -130,7 +154,7 @@ async function runSystemTests() {
       const client = await Client.create(signer, { dbEncryptionKey, env: XMTP_ENV as XmtpEnv });
       const evmAuthHandler = new EVMAuthHandler(BASE_RPC_URL, EVMAUTH_FACTORY_ADDRESS, WALLET_KEY);
       
-      const groupManager = new EnhancedGroupManager(client, evmAuthHandler, database);
+      const groupManager = new EnhancedGroupManager(client, evmAuthHandler, new GroupRegistry(database));
       console.log("✅ Group Manager initialized with database");
       console.log(`🤖 Agent Address: ${groupManager.agentAddress}`);
     } else {